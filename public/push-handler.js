@@ -0,0 +1,36 @@
+// Loaded into the generated service worker (see vite.config.ts) to show journaling reminders
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Time to journal', {
+      body: data.body || 'Take a quiet moment to check in with yourself.',
+      icon: '/icons/zeno-192.png',
+      badge: '/icons/zeno-192.png',
+      tag: data.tag || 'zensai-reminder',
+      data: { url: data.url || '/home' }
+    })
+  );
+});
+
+// Focus an open Zensai window if there is one, otherwise open the app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/home', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
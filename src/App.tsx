@@ -3,17 +3,25 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { motion, AnimatePresence } from 'framer-motion';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { EncryptionProvider } from './contexts/EncryptionContext';
+import { useEncryption } from './hooks/useEncryption';
 import Footer from '../components/Footer';
 import AuthScreen from './components/AuthScreen';
 import AuthenticatedApp from './components/AuthenticatedApp';
+import UnlockJournalScreen from './components/UnlockJournalScreen';
+import UpdatePrompt from './components/UpdatePrompt';
 import LandingPage from './components/LandingPage';
 import PrivacyPage from './pages/PrivacyPage';
 import TermsPage from './pages/TermsPage';
 
 function AppContent() {
   const { isAuthenticated, isLoading } = useAuth();
+  const { isEncryptionEnabled, isUnlocked, isLoading: isEncryptionLoading, error: encryptionError } = useEncryption();
 
-  if (isLoading) {
+  // Entries can't be read or written until an encrypted journal is unlocked
+  const isJournalLocked = !!encryptionError || (isEncryptionEnabled && !isUnlocked);
+
+  if (isLoading || isEncryptionLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center">
         <motion.div
@@ -74,7 +82,7 @@ function AppContent() {
                 exit={{ opacity: 0, x: -100 }}
                 transition={{ duration: 0.5 }}
               >
-                <AuthenticatedApp />
+                {isJournalLocked ? <UnlockJournalScreen /> : <AuthenticatedApp />}
               </motion.div>
             ) : (
               <Navigate to="/auth" replace />
@@ -125,9 +133,12 @@ function App() {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <Router>
-          <AppContent />
-        </Router>
+        <EncryptionProvider>
+          <Router>
+            <AppContent />
+          </Router>
+          <UpdatePrompt />
+        </EncryptionProvider>
       </AuthProvider>
     </ThemeProvider>
   );
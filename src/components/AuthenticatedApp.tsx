@@ -1,49 +1,88 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LogOut, Calendar, Heart, Sparkles, AlertCircle, CheckCircle, Trophy, Target, BarChart3, BookOpen, Lightbulb, RefreshCw, Save, Volume2, Settings } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useJournal } from '../hooks/useJournal';
+import { useEncryption } from '../hooks/useEncryption';
+import { useJournal, AttachmentInput } from '../hooks/useJournal';
 import Logo from './Logo';
 import { usePromptGenerator } from '../hooks/usePromptGenerator';
-import { useMoodAnalyzer } from '../hooks/useMoodAnalyzer';
+import { useMoodAnalyzer, MoodAnalysis } from '../hooks/useMoodAnalyzer';
+import { useTopicExtractor } from '../hooks/useTopicExtractor';
+import { useSafetyCheck } from '../hooks/useSafetyCheck';
 import { useAffirmationGenerator } from '../hooks/useAffirmationGenerator';
 import { useMoodQuoteGenerator } from '../hooks/useMoodQuoteGenerator';
 import { useVoiceSynthesis } from '../hooks/useVoiceSynthesis';
 import { usePremium } from '../hooks/usePremium';
+import { useDrafts, isDraftEmpty, getDraftPhotos, Draft, DraftFields } from '../hooks/useDrafts';
+import { useWeeklyGoals } from '../hooks/useWeeklyGoals';
 import UpsellModal from './UpsellModal';
 import LottieAvatar from './LottieAvatar';
 import MoodSelector from './MoodSelector';
 import PhotoUpload from './PhotoUpload';
+import TagInput from './TagInput';
+import EntryDatePicker from './EntryDatePicker';
+import MarkdownEditor from './MarkdownEditor';
+import DraftsMenu from './DraftsMenu';
+import ResumeDraftBanner from './ResumeDraftBanner';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import StreakFreezes from './StreakFreezes';
+import WeeklyGoalProgress from './WeeklyGoalProgress';
 import MoodHistoryScreen from './MoodHistoryScreen';
 import SettingsScreen from './SettingsScreen';
 import BadgesScreen from './BadgesScreen';
 import PremiumPage from './PremiumPage';
 import VoiceButton from './VoiceButton';
+import SafetyCard from './SafetyCard';
 import ToastNotification, { ToastType } from './ToastNotification';
 import { MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { getLocalDateString, parseDateOnly } from '../utils/dates';
+import { detectCrisisLanguage, combineSafetyLevels, SafetyLevel } from '../utils/safety';
 
 // Define available Lottie animation variants
 const LOTTIE_VARIANTS = ['greeting', 'journaling', 'typing', 'coding', 'music'];
 
 export default function AuthenticatedApp() {
   const { user, logout } = useAuth();
+  const { isEncryptionEnabled } = useEncryption();
   const { 
     addEntry, 
     entries,
     badges,
+    userTags,
     getStreak, 
     getBestStreak, 
     getTotalEntries, 
+    getStreakFreezes,
+    streakFreezeDays,
+    profile,
     hasEntryToday, 
     isLoading: journalLoading,
-    error: journalError 
+    error: journalError,
+    isOnline,
+    isSyncing,
+    pendingSyncCount,
+    syncConflicts,
+    syncNow,
+    resolveSyncConflict
   } = useJournal();
   
+  const {
+    currentWeek: currentGoalWeek,
+    completedWeeks: completedGoalWeeks,
+    completionRate: goalCompletionRate,
+    goalStreak,
+    bestGoalStreak,
+    refresh: refreshWeeklyGoals
+  } = useWeeklyGoals();
+  
   const [currentView, setCurrentView] = useState<'journal' | 'history' | 'settings' | 'badges' | 'premium'>('journal');
   const [selectedMood, setSelectedMood] = useState<MoodLevel>();
   const [journalEntry, setJournalEntry] = useState('');
   const [entryTitle, setEntryTitle] = useState('');
+  const [entryTags, setEntryTags] = useState<string[]>([]);
+  // Empty for today; set when backdating the entry
+  const [entryDate, setEntryDate] = useState('');
   const [showSuccess, setShowSuccess] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
@@ -62,7 +101,15 @@ export default function AuthenticatedApp() {
   const [moodQuote, setMoodQuote] = useState<{ quote: string; attribution?: string } | null>(null);
   const [showMoodQuote, setShowMoodQuote] = useState(false);
   const [isTextareaFocused, setIsTextareaFocused] = useState(false);
-  const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
+  const [selectedPhotos, setSelectedPhotos] = useState<AttachmentInput[]>([]);
+  // Support resources for the last entry that mentioned self-harm or suicide, until dismissed
+  const [safetyLevel, setSafetyLevel] = useState<SafetyLevel>('none');
+  // With end-to-end encryption on, entry text only goes to the AI features with per-entry consent
+  const [allowAiForEntry, setAllowAiForEntry] = useState(false);
+  const canUseAi = !isEncryptionEnabled || allowAiForEntry;
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [resumeDismissed, setResumeDismissed] = useState(false);
+  const skipNextAutosaveRef = useRef(false);
   const [randomZenoVariant, setRandomZenoVariant] = useState<string>('greeting');
 
   // Premium features
@@ -84,7 +131,19 @@ export default function AuthenticatedApp() {
   const [previousBadges, setPreviousBadges] = useState<string[]>([]);
 
   const { generatePrompt } = usePromptGenerator();
-  const { analyzeMood, isAnalyzing: isMoodAnalyzing } = useMoodAnalyzer();
+  const {
+    analyzeMood,
+    analyzeEntry,
+    checkEntrySafety,
+    saveEntryEmotions,
+    isAnalyzing: isMoodAnalyzing
+  } = useMoodAnalyzer();
+  const { extractEntryTopics } = useTopicExtractor();
+  const {
+    settings: safetySettings,
+    updateSettings: updateSafetySettings,
+    recordSafetyEvent
+  } = useSafetyCheck();
   const { generateAffirmation, isGenerating: isGeneratingAffirmation, error: affirmationGenerationError } = useAffirmationGenerator();
   const { generateMoodQuote, isGenerating: isGeneratingMoodQuote, error: moodQuoteError } = useMoodQuoteGenerator();
   const { 
@@ -95,11 +154,27 @@ export default function AuthenticatedApp() {
     error: speechError,
     clearError: clearSpeechError
   } = useVoiceSynthesis();
+  const {
+    drafts,
+    isLoaded: draftsLoaded,
+    isSaving: isSavingDraft,
+    lastSavedAt: draftSavedAt,
+    isSyncEnabled: isDraftSyncEnabled,
+    setSyncEnabled: setDraftSyncEnabled,
+    createDraftId,
+    scheduleSave,
+    flushPendingSave,
+    deleteDraft,
+    renameDraft
+  } = useDrafts();
 
   const streak = getStreak();
+  const localToday = getLocalDateString(profile?.timezone);
   const bestStreak = getBestStreak();
   const totalEntries = getTotalEntries();
   const alreadyJournaledToday = hasEntryToday();
+  const composerIsEmpty = !journalEntry.trim() && !entryTitle.trim() && !selectedMood && entryTags.length === 0 && selectedPhotos.length === 0;
+  const showResumeBanner = draftsLoaded && !resumeDismissed && !activeDraftId && composerIsEmpty && drafts.length > 0;
   const currentMood = selectedMood ? moods.find(m => m.level === selectedMood) : undefined;
 
   // Set a random Zeno variant on component mount
@@ -248,12 +323,16 @@ export default function AuthenticatedApp() {
     setShowAffirmation(false);
     
     try {
-      // First, analyze the mood using AI
+      // First, analyze the mood and emotions using AI
       let detectedMood: MoodLevel | null = null;
+      let moodAnalysis: MoodAnalysis | null = null;
       let finalMood = selectedMood;
       
       try {
-        detectedMood = await analyzeMood(journalEntry.trim());
+        moodAnalysis = canUseAi
+          ? await analyzeEntry(journalEntry.trim(), { safetyCheck: safetySettings.isEnabled })
+          : null;
+        detectedMood = moodAnalysis?.mood ?? null;
         if (detectedMood) {
           finalMood = detectedMood;
           // Update Zeno's animation based on detected mood
@@ -263,6 +342,19 @@ export default function AuthenticatedApp() {
         console.warn('Mood analysis failed, using user-selected mood:', moodError);
         // Continue with user-selected mood if AI analysis fails
       }
+
+      // Without an analysis (daily limit reached, or it failed) the AI safety check runs on its own
+      const aiSafetyLevel = safetySettings.isEnabled && canUseAi && !moodAnalysis
+        ? await checkEntrySafety(journalEntry.trim())
+        : moodAnalysis?.safetyLevel;
+
+      // The keyword check runs on this device, so it also covers entries Zeno didn't read
+      const entrySafetyLevel = safetySettings.isEnabled
+        ? combineSafetyLevels(detectCrisisLanguage(journalEntry), aiSafetyLevel)
+        : 'none';
+      if (entrySafetyLevel !== 'none') {
+        setSafetyLevel(entrySafetyLevel);
+      }
       
       setZenoVariant('typing'); // Show typing animation while saving
       
@@ -271,18 +363,43 @@ export default function AuthenticatedApp() {
         journalEntry.trim(), 
         entryTitle, 
         finalMood, 
-        selectedPhoto || undefined
+        selectedPhotos,
+        entryTags,
+        entryDate || undefined
       );
       
       if (!result.success) {
         throw new Error(result.error || 'Failed to save your entry');
       }
 
+      if (!result.queued) {
+        refreshWeeklyGoals();
+      }
+
+      if (result.warning) {
+        showToast(result.warning, 'error');
+      }
+
+      // Entries queued offline have no server id yet, so their emotions and topics aren't kept
+      if (result.entryId && moodAnalysis) {
+        saveEntryEmotions(result.entryId, moodAnalysis);
+      }
+      if (result.entryId && canUseAi) {
+        extractEntryTopics(result.entryId, journalEntry.trim());
+      }
+      if (entrySafetyLevel !== 'none') {
+        recordSafetyEvent(result.entryId, entrySafetyLevel);
+      }
+
       // Generate affirmation after successful save
       try {
-        const generatedAffirmation = await generateAffirmation(journalEntry.trim(), finalMood);
+        const generatedAffirmation = canUseAi ? await generateAffirmation(journalEntry.trim(), finalMood) : null;
         
-        if (generatedAffirmation) {
+        if (!canUseAi) {
+          // Encrypted entry without AI consent: encouragement for the mood, without reading the entry
+          setAffirmation(getFallbackAffirmation(finalMood));
+          setShowAffirmation(true);
+        } else if (generatedAffirmation) {
           setAffirmation(generatedAffirmation);
           setShowAffirmation(true);
         } else {
@@ -298,7 +415,7 @@ export default function AuthenticatedApp() {
       }
 
       // Generate mood quote for the final mood
-      generateMoodQuoteForMood(finalMood, journalEntry.trim());
+      generateMoodQuoteForMood(finalMood, canUseAi ? journalEntry.trim() : undefined);
 
       // Get updated streak for success message
       const newStreak = getStreak();
@@ -316,7 +433,23 @@ export default function AuthenticatedApp() {
           message += ' That\'s a new personal best! 🏆';
         }
       }
+
+      if (result.streakFreezesUsed) {
+        message += result.streakFreezesUsed === 1
+          ? ' A streak freeze kept your streak going. ❄️'
+          : ` ${result.streakFreezesUsed} streak freezes kept your streak going. ❄️`;
+      } else if (result.streakFreezesEarned) {
+        message += ` You earned ${result.streakFreezesEarned === 1 ? 'a streak freeze' : `${result.streakFreezesEarned} streak freezes`}! ❄️`;
+      }
       
+      if (entryDate) {
+        message = `Entry saved for ${parseDateOnly(entryDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}. 📅`;
+      }
+
+      if (result.queued) {
+        message = 'Entry saved on this device. It will sync when you\'re back online. 🌱';
+      }
+
       // Add mood-specific encouragement
       if (detectedMood) {
         const moodEncouragement = getMoodEncouragement(detectedMood);
@@ -327,10 +460,19 @@ export default function AuthenticatedApp() {
       
       setSuccessMessage(message);
 
+      // The entry is saved, so its draft is no longer needed
+      if (activeDraftId) {
+        deleteDraft(activeDraftId);
+        setActiveDraftId(null);
+      }
+
       setJournalEntry('');
       setEntryTitle('');
+      setEntryTags([]);
+      setEntryDate('');
       setSelectedMood(undefined);
-      setSelectedPhoto(null);
+      setSelectedPhotos([]);
+      setAllowAiForEntry(false);
       setAiDetectedMood(null);
       setShowMoodSuggestion(false);
       setShowMoodQuote(false);
@@ -349,9 +491,81 @@ export default function AuthenticatedApp() {
     }
   };
 
+  const handleResolveSyncConflict = async (entryId: string, keep: 'mine' | 'theirs') => {
+    const result = await resolveSyncConflict(entryId, keep);
+    if (!result.success) {
+      showToast(result.error || 'Failed to sync this entry', 'error');
+    }
+  };
+
+  // Name entries with sync conflicts by their title, or the start of their text
+  const syncConflictLabels = syncConflicts.map(entryId => {
+    const entry = entries.find(e => e.id === entryId);
+    return {
+      entryId,
+      label: entry?.title || entry?.content.substring(0, 40) || 'Journal entry'
+    };
+  });
+
+  // Autosave the composer into the active draft
+  useEffect(() => {
+    if (skipNextAutosaveRef.current) {
+      skipNextAutosaveRef.current = false;
+      return;
+    }
+
+    const fields: DraftFields = {
+      title: entryTitle,
+      content: journalEntry,
+      mood: selectedMood ?? null,
+      tags: entryTags,
+      photos: selectedPhotos
+    };
+
+    if (isDraftEmpty(fields)) {
+      // Clearing everything out discards the draft rather than keeping an empty one around
+      if (activeDraftId && !isSubmitting) {
+        deleteDraft(activeDraftId);
+        setActiveDraftId(null);
+      }
+      return;
+    }
+
+    const draftId = activeDraftId || createDraftId();
+    if (!activeDraftId) {
+      setActiveDraftId(draftId);
+    }
+    scheduleSave(draftId, fields);
+  }, [journalEntry, entryTitle, selectedMood, entryTags, selectedPhotos, activeDraftId, isSubmitting, createDraftId, scheduleSave, deleteDraft]);
+
+  const loadDraftIntoComposer = async (draft: Draft | null) => {
+    if (draft && draft.id === activeDraftId) return;
+
+    await flushPendingSave();
+
+    // Loading a draft shouldn't count as an edit and bump it to the top of the list
+    skipNextAutosaveRef.current = draft !== null;
+    setEntryTitle(draft?.title || '');
+    setJournalEntry(draft?.content || '');
+    setSelectedMood(draft?.mood || undefined);
+    setEntryTags(draft?.tags || []);
+    setSelectedPhotos(draft ? getDraftPhotos(draft) : []);
+    setActiveDraftId(draft?.id || null);
+    setAiDetectedMood(null);
+    setShowMoodSuggestion(false);
+    setResumeDismissed(true);
+  };
+
+  const handleDeleteDraft = async (draftId: string) => {
+    if (draftId === activeDraftId) {
+      await loadDraftIntoComposer(null);
+    }
+    await deleteDraft(draftId);
+  };
+
   // Analyze mood when user finishes typing (with debounce)
   useEffect(() => {
-    if (!journalEntry.trim() || journalEntry.length < 20) {
+    if (!journalEntry.trim() || journalEntry.length < 20 || !canUseAi) {
       setAiDetectedMood(null);
       setShowMoodSuggestion(false);
       return;
@@ -366,7 +580,7 @@ export default function AuthenticatedApp() {
     }, 2000); // Wait 2 seconds after user stops typing
 
     return () => clearTimeout(timeoutId);
-  }, [journalEntry, selectedMood, analyzeMood]);
+  }, [journalEntry, selectedMood, analyzeMood, canUseAi]);
 
   const handleAcceptAiMood = () => {
     if (aiDetectedMood) {
@@ -540,14 +754,28 @@ export default function AuthenticatedApp() {
     );
   }
 
+  // Entries may have been re-dated or deleted, or the goal changed, while away from the journal
+  const returnToJournal = () => {
+    setCurrentView('journal');
+    refreshWeeklyGoals();
+  };
+
   // Show history view
   if (currentView === 'history') {
-    return <MoodHistoryScreen onBack={() => setCurrentView('journal')} />;
+    return <MoodHistoryScreen onBack={returnToJournal} />;
   }
 
   // Show settings view
   if (currentView === 'settings') {
-    return <SettingsScreen onBack={() => setCurrentView('journal')} />;
+    return (
+      <SettingsScreen
+        onBack={returnToJournal}
+        isDraftSyncEnabled={isDraftSyncEnabled}
+        onDraftSyncChange={isEncryptionEnabled ? undefined : setDraftSyncEnabled}
+        safetySettings={safetySettings}
+        onSafetySettingsChange={updateSafetySettings}
+      />
+    );
   }
 
   // Show badges view
@@ -616,6 +844,14 @@ export default function AuthenticatedApp() {
         </div>
 
         <div className="flex items-center space-x-2">
+          <SyncStatusIndicator
+            isOnline={isOnline}
+            isSyncing={isSyncing}
+            pendingCount={pendingSyncCount}
+            conflicts={syncConflictLabels}
+            onSyncNow={syncNow}
+            onResolveConflict={handleResolveSyncConflict}
+          />
           <button
             onClick={() => setCurrentView('history')}
             className="flex items-center space-x-2 px-3 py-2 text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-white/50 dark:hover:bg-gray-700/50 rounded-full transition-all duration-300"
@@ -716,6 +952,31 @@ export default function AuthenticatedApp() {
             </div>
           </div>
 
+          {/* Streak Freezes */}
+          {profile && (
+            <StreakFreezes
+              currentStreak={streak}
+              lastEntryDate={profile.last_entry_date}
+              timezone={profile.timezone}
+              freezesAvailable={getStreakFreezes()}
+              freezeDays={streakFreezeDays}
+              entryDates={entries.map(entry => entry.entry_date)}
+              isPremium={isPremium}
+            />
+          )}
+
+          {/* Weekly Goal */}
+          {currentGoalWeek && (
+            <WeeklyGoalProgress
+              currentWeek={currentGoalWeek}
+              completedWeeks={completedGoalWeeks}
+              completionRate={goalCompletionRate}
+              goalStreak={goalStreak}
+              bestGoalStreak={bestGoalStreak}
+              today={localToday}
+            />
+          )}
+
           {/* Contextual Message */}
           {getContextualMessage() && (
             <motion.div
@@ -790,6 +1051,17 @@ export default function AuthenticatedApp() {
           </div>
         </motion.div>
 
+        {/* Support resources */}
+        <AnimatePresence>
+          {safetyLevel !== 'none' && (
+            <SafetyCard
+              level={safetyLevel}
+              region={safetySettings.region}
+              onDismiss={() => setSafetyLevel('none')}
+            />
+          )}
+        </AnimatePresence>
+
         {/* Journal Entry Form */}
         <motion.div
           className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-8 shadow-xl border border-zen-mint-200 dark:border-gray-700"
@@ -820,6 +1092,32 @@ export default function AuthenticatedApp() {
             </div>
           </div>
 
+          {/* Resume Draft */}
+          <AnimatePresence>
+            {showResumeBanner && (
+              <ResumeDraftBanner
+                draft={drafts[0]}
+                otherDraftCount={drafts.length - 1}
+                onResume={() => loadDraftIntoComposer(drafts[0])}
+                onDismiss={() => setResumeDismissed(true)}
+              />
+            )}
+          </AnimatePresence>
+
+          {/* Drafts */}
+          <DraftsMenu
+            drafts={drafts}
+            activeDraftId={activeDraftId}
+            isSaving={isSavingDraft}
+            lastSavedAt={draftSavedAt}
+            isSyncEnabled={isDraftSyncEnabled}
+            onSelectDraft={loadDraftIntoComposer}
+            onNewDraft={() => loadDraftIntoComposer(null)}
+            onRenameDraft={renameDraft}
+            onDeleteDraft={handleDeleteDraft}
+            disabled={isSubmitting}
+          />
+
           {/* Entry Title */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
@@ -834,6 +1132,32 @@ export default function AuthenticatedApp() {
             />
           </div>
 
+          {/* Entry Date */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+              Entry Date
+            </label>
+            <EntryDatePicker
+              value={entryDate || localToday}
+              today={localToday}
+              onChange={(date) => setEntryDate(date === localToday ? '' : date)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Entry Tags */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+              Tags (Optional)
+            </label>
+            <TagInput
+              tags={entryTags}
+              onChange={setEntryTags}
+              suggestions={userTags}
+              disabled={isSubmitting}
+            />
+          </div>
+
           {/* Mood Selection */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-3">
@@ -893,8 +1217,8 @@ export default function AuthenticatedApp() {
           {/* Photo Upload */}
           <div className="mb-6">
             <PhotoUpload
-              selectedPhoto={selectedPhoto}
-              onPhotoSelect={setSelectedPhoto}
+              photos={selectedPhotos}
+              onChange={setSelectedPhotos}
               disabled={isSubmitting}
             />
           </div>
@@ -904,22 +1228,37 @@ export default function AuthenticatedApp() {
             <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
               Your thoughts
             </label>
-            <div className="relative">
-              <textarea
-                value={journalEntry}
-                onChange={(e) => setJournalEntry(e.target.value)}
-                onFocus={() => setIsTextareaFocused(true)}
-                onBlur={() => setIsTextareaFocused(false)}
-                placeholder="Share what's on your mind... Zeno is here to listen."
-                rows={8}
-                className="w-full px-4 py-4 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent transition-all duration-300 text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500 resize-none"
-                disabled={isSubmitting}
-              />
+            <MarkdownEditor
+              value={journalEntry}
+              onChange={setJournalEntry}
+              onFocus={() => setIsTextareaFocused(true)}
+              onBlur={() => setIsTextareaFocused(false)}
+              placeholder="Share what's on your mind... Zeno is here to listen."
+              rows={8}
+              className="w-full px-4 py-4 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent transition-all duration-300 text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500 resize-none"
+              disabled={isSubmitting}
+            >
               {/* Character count */}
               <div className="absolute bottom-3 right-3 text-xs text-zen-sage-400 dark:text-gray-500">
                 {journalEntry.length} characters
               </div>
-            </div>
+            </MarkdownEditor>
+
+            {isEncryptionEnabled && (
+              <label className="mt-3 flex items-start space-x-2 text-sm text-zen-sage-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={allowAiForEntry}
+                  onChange={(e) => setAllowAiForEntry(e.target.checked)}
+                  disabled={isSubmitting}
+                  className="mt-1"
+                />
+                <span>
+                  Let Zeno read this entry for mood analysis and a personal affirmation.
+                  Your journal is end-to-end encrypted, so entries aren't sent to AI features unless you allow it here.
+                </span>
+              </label>
+            )}
           </div>
 
           {/* Voice Features */}
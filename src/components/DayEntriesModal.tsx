@@ -0,0 +1,113 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, BookOpen } from 'lucide-react';
+import { moods } from '../data/moods';
+import { parseDateOnly } from '../utils/dates';
+import { stripMarkdown } from '../utils/markdown';
+import { MoodLevel } from '../types';
+
+export interface DayEntry {
+  id: string;
+  content: string;
+  title?: string | null;
+  mood: string;
+  created_at: string;
+}
+
+interface DayEntriesModalProps {
+  date: string | null;
+  entries: DayEntry[];
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+const MOOD_LEVELS: Record<string, MoodLevel> = {
+  struggling: 1,
+  low: 2,
+  neutral: 3,
+  good: 4,
+  amazing: 5
+};
+
+// The entries of one day, opened from the mood calendar
+export default function DayEntriesModal({ date, entries, isLoading, onClose }: DayEntriesModalProps) {
+  return (
+    <AnimatePresence>
+      {date && (
+        <motion.div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            className="bg-white dark:bg-gray-800 rounded-3xl p-6 max-w-lg w-full max-h-[80vh] overflow-y-auto shadow-2xl"
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-start mb-4">
+              <h3 className="text-xl font-display font-bold text-zen-sage-800 dark:text-gray-200">
+                {parseDateOnly(date).toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}
+              </h3>
+              <button
+                onClick={onClose}
+                className="p-1 text-zen-sage-400 dark:text-gray-500 hover:text-zen-sage-600 dark:hover:text-gray-300 rounded-full"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8">
+                <BookOpen className="w-10 h-10 text-zen-sage-300 dark:text-gray-600 mx-auto mb-2" />
+                <p className="text-zen-sage-600 dark:text-gray-400">No entries on this day.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {entries.map(entry => {
+                  const moodData = moods.find(m => m.level === (MOOD_LEVELS[entry.mood] || 3));
+
+                  return (
+                    <div
+                      key={entry.id}
+                      className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl border border-zen-sage-100 dark:border-gray-600"
+                    >
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="text-xl">{moodData?.emoji}</span>
+                        <span className="text-sm text-zen-sage-600 dark:text-gray-400">
+                          {moodData?.label} • {new Date(entry.created_at).toLocaleTimeString('en-US', {
+                            hour: 'numeric',
+                            minute: '2-digit'
+                          })}
+                        </span>
+                      </div>
+                      {entry.title && (
+                        <h4 className="font-display font-semibold text-zen-sage-800 dark:text-gray-200">
+                          {entry.title}
+                        </h4>
+                      )}
+                      <p className="text-sm text-zen-sage-700 dark:text-gray-300 line-clamp-3">
+                        {stripMarkdown(entry.content)}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
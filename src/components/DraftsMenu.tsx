@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileText, ChevronDown, Plus, Edit3, Trash2, Check, Cloud } from 'lucide-react';
+import { Draft } from '../hooks/useDrafts';
+
+interface DraftsMenuProps {
+  drafts: Draft[];
+  activeDraftId: string | null;
+  isSaving: boolean;
+  lastSavedAt: Date | null;
+  isSyncEnabled: boolean;
+  onSelectDraft: (draft: Draft) => void;
+  onNewDraft: () => void;
+  onRenameDraft: (draftId: string, name: string) => void;
+  onDeleteDraft: (draftId: string) => void;
+  disabled?: boolean;
+}
+
+export default function DraftsMenu({
+  drafts,
+  activeDraftId,
+  isSaving,
+  lastSavedAt,
+  isSyncEnabled,
+  onSelectDraft,
+  onNewDraft,
+  onRenameDraft,
+  onDeleteDraft,
+  disabled = false
+}: DraftsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const formatSavedTime = (date: Date) => {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  };
+
+  const formatDraftDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const handleRename = (draft: Draft) => {
+    const name = window.prompt('Name this draft', draft.name);
+    if (name && name.trim()) {
+      onRenameDraft(draft.id, name);
+    }
+  };
+
+  const handleDelete = (draft: Draft) => {
+    if (window.confirm(`Discard "${draft.name}"? This can't be undone.`)) {
+      onDeleteDraft(draft.id);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center justify-between mb-4">
+      {/* Autosave status */}
+      <div className="flex items-center space-x-1 text-xs text-zen-sage-500 dark:text-gray-400">
+        {activeDraftId && (isSaving || lastSavedAt) && (
+          <>
+            {isSyncEnabled && <Cloud className="w-3 h-3" />}
+            <span>{isSaving ? 'Saving draft...' : `Draft saved at ${formatSavedTime(lastSavedAt!)}`}</span>
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center space-x-1 px-3 py-1 text-sm text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-zen-mint-100 dark:hover:bg-gray-700 rounded-full transition-all duration-300 disabled:opacity-50"
+      >
+        <FileText className="w-4 h-4" />
+        <span>Drafts{drafts.length > 0 ? ` (${drafts.length})` : ''}</span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 top-full z-30 mt-2 w-80 max-w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-zen-mint-200 dark:border-gray-600 p-2"
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            transition={{ duration: 0.2 }}
+          >
+            <button
+              onClick={() => {
+                onNewDraft();
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center space-x-2 px-3 py-2 text-sm font-medium text-zen-mint-700 dark:text-zen-mint-400 hover:bg-zen-mint-50 dark:hover:bg-gray-700 rounded-xl transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Start a new draft</span>
+            </button>
+
+            {drafts.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-zen-sage-500 dark:text-gray-400 text-center">
+                Your writing is saved here automatically as you type.
+              </p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto mt-1 space-y-1">
+                {drafts.map(draft => (
+                  <div
+                    key={draft.id}
+                    className={`flex items-center justify-between px-3 py-2 rounded-xl transition-colors ${
+                      draft.id === activeDraftId
+                        ? 'bg-zen-mint-50 dark:bg-zen-mint-900/20'
+                        : 'hover:bg-zen-sage-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <button
+                      onClick={() => {
+                        onSelectDraft(draft);
+                        setIsOpen(false);
+                      }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="flex items-center space-x-1 text-sm font-medium text-zen-sage-800 dark:text-gray-200 truncate">
+                        {draft.id === activeDraftId && <Check className="w-3 h-3 text-zen-mint-500 flex-shrink-0" />}
+                        <span className="truncate">{draft.name}</span>
+                      </p>
+                      <p className="text-xs text-zen-sage-500 dark:text-gray-400 truncate">
+                        {formatDraftDate(draft.updatedAt)}
+                        {draft.content.trim() && ` • ${draft.content.trim().substring(0, 40)}`}
+                      </p>
+                    </button>
+                    <div className="flex items-center space-x-1 ml-2">
+                      <button
+                        onClick={() => handleRename(draft)}
+                        className="p-1 text-zen-sage-400 hover:text-zen-mint-600 rounded transition-colors"
+                        title="Rename draft"
+                      >
+                        <Edit3 className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(draft)}
+                        className="p-1 text-zen-sage-400 hover:text-red-600 rounded transition-colors"
+                        title="Discard draft"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
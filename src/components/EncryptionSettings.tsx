@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, KeyRound, Copy, Download, ShieldCheck, AlertCircle, Trash2 } from 'lucide-react';
+import { useEncryption } from '../hooks/useEncryption';
+import { usePlaintextRevisions } from '../hooks/useEntryRevisions';
+import { usePlaintextEntries } from '../hooks/usePlaintextEntries';
+import { MIN_PASSPHRASE_LENGTH } from '../lib/entryCrypto';
+
+type Panel = 'none' | 'enable' | 'change-passphrase';
+
+export default function EncryptionSettings() {
+  const { isEncryptionEnabled, isUnlocked, enableEncryption, changePassphrase, regenerateRecoveryKey, lock } = useEncryption();
+  const {
+    count: plaintextEntryCount,
+    progress: encryptionProgress,
+    encryptPlaintextEntries
+  } = usePlaintextEntries();
+  const {
+    count: plaintextRevisionCount,
+    isDeleting: isDeletingRevisions,
+    deletePlaintextRevisions
+  } = usePlaintextRevisions();
+  const [panel, setPanel] = useState<Panel>('none');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  // Set once encryption is turned on, so existing entries are encrypted as soon as the new key is in use
+  const [encryptAfterSetup, setEncryptAfterSetup] = useState(false);
+
+  const openPanel = (nextPanel: Panel) => {
+    setPanel(nextPanel);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setAcknowledged(false);
+    setError('');
+    setMessage('');
+  };
+
+  const handleSubmitPassphrase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (passphrase !== confirmPassphrase) {
+      setError('The passphrases don\'t match.');
+      return;
+    }
+
+    setIsSaving(true);
+    if (panel === 'enable') {
+      const result = await enableEncryption(passphrase);
+      if (result.success && result.recoveryKey) {
+        setRecoveryKey(result.recoveryKey);
+        openPanel('none');
+        setEncryptAfterSetup(true);
+      } else {
+        setError(result.error || 'Failed to turn on encryption');
+      }
+    } else {
+      const result = await changePassphrase(passphrase);
+      if (result.success) {
+        openPanel('none');
+        setMessage('Your passphrase has been changed.');
+      } else {
+        setError(result.error || 'Failed to change your passphrase');
+      }
+    }
+    setIsSaving(false);
+  };
+
+  const handleNewRecoveryKey = async () => {
+    if (!confirm('Create a new recovery key? Your current recovery key will stop working.')) return;
+
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    const result = await regenerateRecoveryKey();
+    if (result.success && result.recoveryKey) {
+      setRecoveryKey(result.recoveryKey);
+    } else {
+      setError(result.error || 'Failed to create a new recovery key');
+    }
+    setIsSaving(false);
+  };
+
+  const handleEncryptExistingEntries = useCallback(async () => {
+    setError('');
+    if (await encryptPlaintextEntries()) {
+      setMessage('Your existing entries are now encrypted.');
+    } else {
+      setError('Some entries couldn\'t be encrypted. Please try again.');
+    }
+  }, [encryptPlaintextEntries]);
+
+  // Waits for the key from enableEncryption to reach the encryption context
+  useEffect(() => {
+    if (!encryptAfterSetup || !isEncryptionEnabled || !isUnlocked) return;
+
+    setEncryptAfterSetup(false);
+    handleEncryptExistingEntries();
+  }, [encryptAfterSetup, isEncryptionEnabled, isUnlocked, handleEncryptExistingEntries]);
+
+  const handleDeletePlaintextRevisions = async () => {
+    if (!confirm('Delete the earlier versions of your entries that were saved before encryption? This can\'t be undone.')) return;
+
+    setError('');
+    setMessage('');
+    if (await deletePlaintextRevisions()) {
+      setMessage('Unencrypted earlier versions deleted.');
+    } else {
+      setError('Failed to delete the earlier versions. Please try again.');
+    }
+  };
+
+  const handleCopyRecoveryKey = async () => {
+    if (!recoveryKey) return;
+    try {
+      await navigator.clipboard.writeText(recoveryKey);
+      setMessage('Recovery key copied.');
+    } catch (err) {
+      console.error('Failed to copy recovery key:', err);
+    }
+  };
+
+  const handleDownloadRecoveryKey = () => {
+    if (!recoveryKey) return;
+
+    const text = `Zensai journal recovery key\n\n${recoveryKey}\n\nUse this key to unlock your journal if you forget your passphrase. Keep it somewhere safe and private.\n`;
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'zensai-recovery-key.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const inputClassName = 'w-full px-4 py-3 bg-white/70 dark:bg-gray-700 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500';
+  const secondaryButtonClassName = 'flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full';
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">End-to-End Encryption</h4>
+          <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+            isEncryptionEnabled
+              ? 'bg-zen-mint-100 text-zen-mint-700 dark:bg-zen-mint-900/30 dark:text-zen-mint-400'
+              : 'bg-zen-sage-100 text-zen-sage-700 dark:bg-gray-600 dark:text-gray-300'
+          }`}>
+            {isEncryptionEnabled ? 'On' : 'Off'}
+          </span>
+        </div>
+        <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+          {isEncryptionEnabled
+            ? 'Your entries are encrypted on this device with your passphrase before they are saved. Search, mood analysis and affirmations only see an entry when you allow it for that entry.'
+            : 'Encrypt your entries on this device with a passphrase only you know. Nobody else, including Zensai, can read them. Search, automatic mood analysis and affirmations won\'t see your entries unless you allow it for a single entry.'}
+        </p>
+        {isEncryptionEnabled && (encryptionProgress || plaintextEntryCount > 0) && (
+          <div className="mt-3 p-3 bg-zen-peach-50 dark:bg-gray-800 rounded-xl">
+            {encryptionProgress ? (
+              <>
+                <p className="text-xs text-zen-sage-700 dark:text-gray-300 mb-2">
+                  Encrypting your existing entries ({encryptionProgress.done} of {encryptionProgress.total}). Keep Zensai open until it's done.
+                </p>
+                <div className="h-2 bg-white dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-zen-mint-400 transition-all"
+                    style={{ width: `${encryptionProgress.total > 0 ? (encryptionProgress.done / encryptionProgress.total) * 100 : 100}%` }}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-xs text-zen-sage-700 dark:text-gray-300 mb-2">
+                  {plaintextEntryCount === 1
+                    ? '1 entry was written before encryption and isn\'t encrypted yet.'
+                    : `${plaintextEntryCount} entries were written before encryption and aren't encrypted yet.`}
+                  {!isUnlocked && ' Unlock your journal to encrypt them.'}
+                </p>
+                <button
+                  onClick={handleEncryptExistingEntries}
+                  disabled={!isUnlocked}
+                  className="flex items-center space-x-1 text-sm text-zen-mint-600 dark:text-zen-mint-400 hover:text-zen-mint-700 font-medium disabled:opacity-50"
+                >
+                  <Lock className="w-4 h-4" />
+                  <span>Encrypt existing entries</span>
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {isEncryptionEnabled && plaintextRevisionCount > 0 && (
+          <div className="mt-3 p-3 bg-zen-peach-50 dark:bg-gray-800 rounded-xl">
+            <p className="text-xs text-zen-sage-700 dark:text-gray-300 mb-2">
+              {plaintextRevisionCount === 1
+                ? '1 earlier version in your edit history was saved before encryption and isn\'t encrypted.'
+                : `${plaintextRevisionCount} earlier versions in your edit history were saved before encryption and aren't encrypted.`}
+            </p>
+            <button
+              onClick={handleDeletePlaintextRevisions}
+              disabled={isDeletingRevisions}
+              className="flex items-center space-x-1 text-sm text-zen-peach-600 dark:text-zen-peach-400 hover:text-zen-peach-700 font-medium disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>{isDeletingRevisions ? 'Deleting...' : 'Delete unencrypted versions'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Recovery key, shown once after it's created */}
+      <AnimatePresence>
+        {recoveryKey && (
+          <motion.div
+            className="p-4 bg-zen-peach-50 dark:bg-gray-700 border border-zen-peach-200 dark:border-zen-peach-700 rounded-2xl"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            <h4 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center">
+              <KeyRound className="w-4 h-4 mr-2 text-zen-peach-500" />
+              Save your recovery key
+            </h4>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-3">
+              If you forget your passphrase, this key is the only way back into your journal. We can't show it again or reset it for you.
+            </p>
+            <p className="font-mono text-sm break-all p-3 bg-white dark:bg-gray-800 rounded-xl text-zen-sage-800 dark:text-gray-200 mb-3 select-all">
+              {recoveryKey}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleCopyRecoveryKey}
+                className="flex items-center space-x-2 px-3 py-2 bg-white dark:bg-gray-800 text-zen-sage-700 dark:text-gray-300 rounded-xl hover:bg-zen-sage-100 dark:hover:bg-gray-700 transition-colors text-sm"
+              >
+                <Copy className="w-4 h-4" />
+                <span>Copy</span>
+              </button>
+              <button
+                onClick={handleDownloadRecoveryKey}
+                className="flex items-center space-x-2 px-3 py-2 bg-white dark:bg-gray-800 text-zen-sage-700 dark:text-gray-300 rounded-xl hover:bg-zen-sage-100 dark:hover:bg-gray-700 transition-colors text-sm"
+              >
+                <Download className="w-4 h-4" />
+                <span>Download</span>
+              </button>
+              <button
+                onClick={() => {
+                  setRecoveryKey(null);
+                  setMessage('');
+                }}
+                className="flex items-center space-x-2 px-3 py-2 bg-zen-mint-400 text-white rounded-xl hover:bg-zen-mint-500 transition-colors text-sm"
+              >
+                <ShieldCheck className="w-4 h-4" />
+                <span>I've saved it</span>
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {(error || message) && (
+        <p className={`text-sm flex items-center ${error ? 'text-red-600 dark:text-red-400' : 'text-zen-mint-600 dark:text-zen-mint-400'}`}>
+          {error && <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />}
+          {error || message}
+        </p>
+      )}
+
+      {panel !== 'none' ? (
+        <form onSubmit={handleSubmitPassphrase} className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={panel === 'enable' ? 'Choose a passphrase' : 'New passphrase'}
+            autoComplete="new-password"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+            disabled={isSaving}
+            className={inputClassName}
+          />
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400">
+            At least {MIN_PASSPHRASE_LENGTH} characters. A few unrelated words is easy to remember and hard to guess.
+          </p>
+          {panel === 'enable' && (
+            <label className="flex items-start space-x-2 text-sm text-zen-sage-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+                className="mt-1"
+              />
+              <span>I understand that if I lose both my passphrase and my recovery key, my encrypted entries can't be recovered.</span>
+            </label>
+          )}
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => openPanel('none')}
+              disabled={isSaving}
+              className="flex-1 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !passphrase || (panel === 'enable' && !acknowledged)}
+              className="flex-1 px-4 py-3 bg-zen-mint-400 text-white rounded-2xl hover:bg-zen-mint-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSaving ? 'Saving...' : panel === 'enable' ? 'Turn On' : 'Change Passphrase'}
+            </button>
+          </div>
+        </form>
+      ) : isEncryptionEnabled ? (
+        <>
+          <button onClick={() => openPanel('change-passphrase')} disabled={isSaving} className={secondaryButtonClassName}>
+            <KeyRound className="w-4 h-4" />
+            <span>Change Passphrase</span>
+          </button>
+          <button onClick={handleNewRecoveryKey} disabled={isSaving} className={secondaryButtonClassName}>
+            <ShieldCheck className="w-4 h-4" />
+            <span>Create New Recovery Key</span>
+          </button>
+          <button onClick={lock} disabled={isSaving} className={secondaryButtonClassName}>
+            <Lock className="w-4 h-4" />
+            <span>Lock Journal Now</span>
+          </button>
+        </>
+      ) : (
+        <button onClick={() => openPanel('enable')} className={secondaryButtonClassName}>
+          <Lock className="w-4 h-4" />
+          <span>Turn On Encryption</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Calendar, RotateCcw } from 'lucide-react';
+import { parseDateOnly } from '../utils/dates';
+
+interface EntryDatePickerProps {
+  value: string;
+  today: string;
+  onChange: (date: string) => void;
+  disabled?: boolean;
+}
+
+// Date input for backdating an entry; dates after `today` (the user's local date) can't be picked
+export default function EntryDatePicker({ value, today, onChange, disabled = false }: EntryDatePickerProps) {
+  const isBackdated = value !== today;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="relative">
+        <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zen-sage-400 dark:text-gray-500 pointer-events-none" />
+        <input
+          type="date"
+          value={value}
+          max={today}
+          onChange={(e) => onChange(e.target.value || today)}
+          disabled={disabled}
+          className="pl-9 pr-3 py-2 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent transition-all duration-300 text-zen-sage-800 dark:text-gray-200 text-sm disabled:opacity-50"
+        />
+      </div>
+      {isBackdated ? (
+        <button
+          type="button"
+          onClick={() => onChange(today)}
+          disabled={disabled}
+          className="flex items-center space-x-1 text-sm text-zen-mint-600 dark:text-zen-mint-400 hover:text-zen-mint-700 disabled:opacity-50"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Back to today</span>
+        </button>
+      ) : (
+        <span className="text-sm text-zen-sage-500 dark:text-gray-400">Today</span>
+      )}
+      {isBackdated && value && (
+        <p className="w-full text-xs text-zen-sage-500 dark:text-gray-400">
+          This entry will be saved for {parseDateOnly(value).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}.
+        </p>
+      )}
+    </div>
+  );
+}
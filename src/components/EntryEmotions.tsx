@@ -0,0 +1,63 @@
+import { motion } from 'framer-motion';
+import { useEntryEmotions } from '../hooks/useEntryEmotions';
+import { emotions as emotionData, EmotionTone } from '../data/emotions';
+
+interface EntryEmotionsProps {
+  entryId: string;
+}
+
+const TONE_CLASSES: Record<EmotionTone, string> = {
+  pleasant: 'bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-400',
+  unpleasant: 'bg-zen-peach-100 dark:bg-zen-peach-900/30 text-zen-peach-700 dark:text-zen-peach-400',
+  mixed: 'bg-zen-lavender-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300'
+};
+
+const describeValence = (valence: number): string => {
+  if (valence >= 0.3) return 'Mostly pleasant';
+  if (valence <= -0.3) return 'Mostly unpleasant';
+  return 'Mixed feelings';
+};
+
+const describeArousal = (arousal: number): string => {
+  if (arousal >= 0.65) return 'high energy';
+  if (arousal <= 0.35) return 'low energy';
+  return 'steady energy';
+};
+
+// Emotion chips for an entry's detail view, from the analysis stored when it was saved
+export default function EntryEmotions({ entryId }: EntryEmotionsProps) {
+  const { entryEmotions } = useEntryEmotions(entryId);
+
+  if (!entryEmotions || entryEmotions.emotions.length === 0) return null;
+
+  return (
+    <motion.div
+      className="mt-4 p-3 bg-zen-sage-50 dark:bg-gray-700/50 rounded-2xl"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <div className="flex flex-wrap gap-2">
+        {entryEmotions.emotions.map(emotion => {
+          const data = emotionData[emotion.name];
+          return (
+            <span
+              key={emotion.name}
+              className={`inline-flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${TONE_CLASSES[data?.tone || 'mixed']}`}
+              title={`Intensity: ${Math.round(emotion.intensity * 100)}%`}
+            >
+              {data && <span>{data.emoji}</span>}
+              <span>{data?.label || emotion.name}</span>
+              <span className="opacity-60">{Math.round(emotion.intensity * 100)}%</span>
+            </span>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-zen-sage-500 dark:text-gray-400">
+        {describeValence(entryEmotions.valence)} • {describeArousal(entryEmotions.arousal)} • {Math.round(entryEmotions.confidence * 100)}% confident
+      </p>
+      {entryEmotions.analysis && (
+        <p className="mt-1 text-sm text-zen-sage-600 dark:text-gray-300 italic">{entryEmotions.analysis}</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { History, RotateCcw, Clock } from 'lucide-react';
+import { useEntryRevisions, EntryRevision } from '../hooks/useEntryRevisions';
+import { diffWords } from '../utils/diff';
+import { stripMarkdown } from '../utils/markdown';
+import { moods } from '../data/moods';
+
+interface RevisionEntry {
+  id: string;
+  content: string;
+  mood: string;
+  title?: string | null;
+  tags?: string[];
+  photo_url?: string | null;
+  updated_at: string;
+}
+
+interface EntryRevisionHistoryProps {
+  entry: RevisionEntry;
+  onRestore: (revision: EntryRevision) => Promise<boolean>;
+}
+
+type CompareMode = 'next' | 'current';
+
+export default function EntryRevisionHistory({ entry, onRestore }: EntryRevisionHistoryProps) {
+  const { revisions, isLoading, error, refreshRevisions } = useEntryRevisions(entry.id);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('next');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedRevisionId);
+  const selectedRevision = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+
+  // The version that replaced the selected one: the next newer revision, or the current entry
+  const comparisonTarget = useMemo(() => {
+    if (!selectedRevision) return null;
+    if (compareMode === 'current' || selectedIndex === 0) {
+      return { title: entry.title || null, content: entry.content, mood: entry.mood, tags: entry.tags || [] };
+    }
+    return revisions[selectedIndex - 1];
+  }, [selectedRevision, selectedIndex, compareMode, revisions, entry]);
+
+  const contentDiff = useMemo(() => {
+    if (!selectedRevision || !comparisonTarget) return [];
+    return diffWords(selectedRevision.content, comparisonTarget.content);
+  }, [selectedRevision, comparisonTarget]);
+
+  const formatRevisionDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const getMoodData = (moodString: string) => {
+    const moodLevels: Record<string, number> = { struggling: 1, low: 2, neutral: 3, good: 4, amazing: 5 };
+    return moods.find(m => m.level === (moodLevels[moodString] || 3));
+  };
+
+  const handleRestore = async (revision: EntryRevision) => {
+    if (!window.confirm('Restore this version? Your current text will be kept in the history.')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const restored = await onRestore(revision);
+      if (restored) {
+        setSelectedRevisionId(null);
+        await refreshRevisions();
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex justify-center py-10">
+        <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-2xl text-red-700 text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <History className="w-10 h-10 text-zen-sage-300 mx-auto mb-3" />
+        <p className="text-zen-sage-600">This entry hasn't been edited yet.</p>
+        <p className="text-sm text-zen-sage-500 mt-1">Earlier versions will appear here after you make changes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Version List */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between px-4 py-3 bg-zen-mint-50 border border-zen-mint-200 rounded-xl">
+          <div className="flex items-center space-x-2">
+            <span className="text-lg">{getMoodData(entry.mood)?.emoji}</span>
+            <span className="text-sm font-medium text-zen-sage-800">Current version</span>
+          </div>
+          <span className="text-xs text-zen-sage-500">{formatRevisionDate(entry.updated_at)}</span>
+        </div>
+
+        {revisions.map(revision => {
+          const isSelected = revision.id === selectedRevisionId;
+          const plainContent = stripMarkdown(revision.content);
+
+          return (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedRevisionId(isSelected ? null : revision.id)}
+              className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-left transition-all ${
+                isSelected
+                  ? 'bg-zen-lavender-50 border-zen-lavender-300'
+                  : 'bg-white border-zen-sage-200 hover:bg-zen-sage-50'
+              }`}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className="text-lg">{getMoodData(revision.mood)?.emoji}</span>
+                <span className="text-sm text-zen-sage-700 truncate">
+                  {revision.title || `${plainContent.substring(0, 60)}${plainContent.length > 60 ? '...' : ''}`}
+                </span>
+              </div>
+              <span className="flex items-center space-x-1 text-xs text-zen-sage-500 flex-shrink-0 ml-3">
+                <Clock className="w-3 h-3" />
+                <span>Replaced {formatRevisionDate(revision.revised_at)}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Diff View */}
+      {selectedRevision && comparisonTarget && (
+        <motion.div
+          className="p-4 bg-zen-sage-50 rounded-2xl border border-zen-sage-200"
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCompareMode('next')}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${
+                  compareMode === 'next'
+                    ? 'bg-zen-mint-400 text-white'
+                    : 'bg-white text-zen-sage-600 hover:bg-zen-sage-100'
+                }`}
+              >
+                Changes in this edit
+              </button>
+              <button
+                onClick={() => setCompareMode('current')}
+                className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${
+                  compareMode === 'current'
+                    ? 'bg-zen-mint-400 text-white'
+                    : 'bg-white text-zen-sage-600 hover:bg-zen-sage-100'
+                }`}
+              >
+                Compare with current
+              </button>
+            </div>
+
+            <button
+              onClick={() => handleRestore(selectedRevision)}
+              disabled={isRestoring}
+              className="flex items-center space-x-2 px-4 py-2 bg-zen-lavender-400 text-white rounded-xl hover:bg-zen-lavender-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              <RotateCcw className={`w-4 h-4 ${isRestoring ? 'animate-spin' : ''}`} />
+              <span>{isRestoring ? 'Restoring...' : 'Restore this version'}</span>
+            </button>
+          </div>
+
+          {/* Title and mood changes */}
+          {selectedRevision.title !== comparisonTarget.title && (
+            <p className="text-sm text-zen-sage-700 mb-2">
+              <span className="font-medium">Title: </span>
+              <del className="bg-red-100 text-red-700 rounded px-1">{selectedRevision.title || 'Untitled'}</del>
+              {' → '}
+              <ins className="bg-green-100 text-green-700 no-underline rounded px-1">{comparisonTarget.title || 'Untitled'}</ins>
+            </p>
+          )}
+          {selectedRevision.mood !== comparisonTarget.mood && (
+            <p className="text-sm text-zen-sage-700 mb-2">
+              <span className="font-medium">Mood: </span>
+              {getMoodData(selectedRevision.mood)?.emoji} {getMoodData(selectedRevision.mood)?.label}
+              {' → '}
+              {getMoodData(comparisonTarget.mood)?.emoji} {getMoodData(comparisonTarget.mood)?.label}
+            </p>
+          )}
+          {selectedRevision.tags.join(',') !== comparisonTarget.tags.join(',') && (
+            <p className="text-sm text-zen-sage-700 mb-2">
+              <span className="font-medium">Tags: </span>
+              {selectedRevision.tags.length > 0 ? selectedRevision.tags.map(tag => `#${tag}`).join(' ') : 'none'}
+              {' → '}
+              {comparisonTarget.tags.length > 0 ? comparisonTarget.tags.map(tag => `#${tag}`).join(' ') : 'none'}
+            </p>
+          )}
+
+          {/* Word-level content diff */}
+          <p className="text-zen-sage-700 leading-relaxed whitespace-pre-wrap bg-white rounded-xl p-4 border border-zen-sage-100">
+            {contentDiff.map((segment, index) => {
+              if (segment.type === 'added') {
+                return (
+                  <ins key={index} className="bg-green-100 text-green-800 no-underline rounded">
+                    {segment.text}
+                  </ins>
+                );
+              }
+              if (segment.type === 'removed') {
+                return (
+                  <del key={index} className="bg-red-100 text-red-700 rounded">
+                    {segment.text}
+                  </del>
+                );
+              }
+              return <span key={index}>{segment.text}</span>;
+            })}
+          </p>
+
+          {(selectedRevision.photo_url || null) !== (entry.photo_url || null) && (
+            <p className="text-xs text-zen-sage-500 mt-3">
+              This version had a different photo. Restoring brings back the text, mood and tags; the current photo is kept.
+            </p>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEntryTopics } from '../hooks/useEntryTopics';
+import { topics as topicData } from '../data/topics';
+
+interface EntryTopicsProps {
+  entryId: string;
+}
+
+const CHIP_CLASSES = 'inline-flex items-center space-x-1 px-2 py-1 text-xs rounded-full bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300';
+
+// What an entry is about, found when it was saved, for its detail view
+export default function EntryTopics({ entryId }: EntryTopicsProps) {
+  const { entryTopics } = useEntryTopics(entryId);
+
+  if (!entryTopics) return null;
+
+  const { topics, people, places } = entryTopics;
+  if (topics.length + people.length + places.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-2">
+      {topics.map(topic => (
+        <span key={`topic-${topic}`} className={CHIP_CLASSES}>
+          {topicData[topic] && <span>{topicData[topic].emoji}</span>}
+          <span>{topicData[topic]?.label || topic}</span>
+        </span>
+      ))}
+      {people.map(person => (
+        <span key={`person-${person}`} className={CHIP_CLASSES} title="Person">
+          <span>👤</span>
+          <span>{person}</span>
+        </span>
+      ))}
+      {places.map(place => (
+        <span key={`place-${place}`} className={CHIP_CLASSES} title="Place">
+          <span>📍</span>
+          <span>{place}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -13,14 +13,29 @@ import {
   BookOpen,
   Clock,
   TrendingUp,
-  Eye
+  Eye,
+  Tag,
+  History
 } from 'lucide-react';
-import { useJournal } from '../hooks/useJournal';
+import { useJournal, EntryAttachment, AttachmentInput } from '../hooks/useJournal';
+import { useJournalSearch, splitHighlights, JournalSearchFilters } from '../hooks/useJournalSearch';
 import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from '../hooks/useEncryption';
+import { useTopicExtractor } from '../hooks/useTopicExtractor';
 import LottieAvatar from './LottieAvatar';
 import MoodSelector from './MoodSelector';
+import TagInput from './TagInput';
+import LoadMoreTrigger from './LoadMoreTrigger';
+import EntryRevisionHistory from './EntryRevisionHistory';
+import TrashScreen from './TrashScreen';
+import MarkdownEditor from './MarkdownEditor';
+import MarkdownContent from './MarkdownContent';
+import PhotoUpload from './PhotoUpload';
+import PhotoGallery from './PhotoGallery';
+import { EntryRevision } from '../hooks/useEntryRevisions';
 import { MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { stripMarkdown } from '../utils/markdown';
 
 interface JournalHistoryScreenProps {
   onBack: () => void;
@@ -30,6 +45,11 @@ interface JournalEntry {
   id: string;
   content: string;
   mood: string;
+  title?: string | null;
+  tags?: string[];
+  photo_url?: string | null;
+  photo_filename?: string | null;
+  attachments?: EntryAttachment[];
   created_at: string;
   updated_at: string;
 }
@@ -40,19 +60,53 @@ interface GroupedEntries {
 
 export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenProps) {
   const { user } = useAuth();
-  const { entries, isLoading, error, deleteEntry, updateEntry } = useJournal();
+  const {
+    entries,
+    userTags,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    deleteEntry,
+    updateEntry,
+    isPremium,
+    getTotalEntries,
+    refreshData
+  } = useJournal();
+  const totalEntries = getTotalEntries();
+  const { isEncryptionEnabled } = useEncryption();
+  const { extractEntryTopics } = useTopicExtractor();
+  const {
+    search,
+    loadMore: loadMoreSearchResults,
+    results: searchResults,
+    totalCount: searchTotalCount,
+    hasMore: hasMoreSearchResults,
+    isSearching,
+    activeQuery,
+    error: searchError
+  } = useJournalSearch(isPremium);
   
   // State management
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMood, setFilterMood] = useState<MoodLevel | 'all'>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [filterStartDate, setFilterStartDate] = useState('');
+  const [filterEndDate, setFilterEndDate] = useState('');
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
+  const [detailTab, setDetailTab] = useState<'entry' | 'history'>('entry');
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
   const [editContent, setEditContent] = useState('');
   const [editMood, setEditMood] = useState<MoodLevel>(3);
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editPhotos, setEditPhotos] = useState<AttachmentInput[]>([]);
+  const [editPhotosChanged, setEditPhotosChanged] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   
   const ENTRIES_PER_PAGE = 10;
 
@@ -113,15 +167,73 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
     return new Date(dateString).toDateString();
   };
 
-  // Filter and search entries
+  // Date inputs give YYYY-MM-DD; interpret them as local midnight
+  const parseDateInput = (value: string, dayOffset = 0): Date | null => {
+    if (!value) return null;
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day + dayOffset);
+  };
+
+  const renderHighlighted = (text: string) => {
+    return splitHighlights(text).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-zen-peach-200 text-zen-sage-800 rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
+  };
+
+  // Tags used by the loaded entries, most frequent first
+  const availableTags = useMemo(() => {
+    const counts = entries.reduce((acc, entry) => {
+      (entry.tags || []).forEach(tag => {
+        acc[tag] = (acc[tag] || 0) + 1;
+      });
+      return acc;
+    }, {} as Record<string, number>);
+
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  }, [entries]);
+
+  const hasActiveFilters = searchTerm !== '' || filterMood !== 'all' || filterTags.length > 0 ||
+    filterStartDate !== '' || filterEndDate !== '';
+
+  // Typing a query switches from browsing loaded entries to ranked server-side search
+  const isSearchActive = searchTerm.trim() !== '';
+
+  const searchFilters = useMemo((): JournalSearchFilters => ({
+    mood: filterMood === 'all' ? null : getMoodString(filterMood),
+    startDate: parseDateInput(filterStartDate),
+    // End date is inclusive, so search up to the start of the following day
+    endDate: parseDateInput(filterEndDate, 1),
+    tags: filterTags
+  }), [filterMood, filterStartDate, filterEndDate, filterTags]);
+
+  // Debounce server-side search while the user types
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      search(searchTerm, searchFilters);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchTerm, searchFilters, search]);
+
+  // Filter loaded entries when browsing without a search query
   const filteredEntries = useMemo(() => {
+    const startDate = parseDateInput(filterStartDate);
+    const endDate = parseDateInput(filterEndDate, 1);
+
     return entries.filter(entry => {
+      const entryDate = new Date(entry.created_at);
       const matchesMood = filterMood === 'all' || getMoodLevel(entry.mood) === filterMood;
-      const matchesSearch = searchTerm === '' || 
-        entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-      return matchesMood && matchesSearch;
+      const matchesTags = filterTags.every(tag => (entry.tags || []).includes(tag));
+      const matchesDates = (!startDate || entryDate >= startDate) && (!endDate || entryDate < endDate);
+      return matchesMood && matchesTags && matchesDates;
     });
-  }, [entries, filterMood, searchTerm]);
+  }, [entries, filterMood, filterTags, filterStartDate, filterEndDate]);
 
   // Sort entries
   const sortedEntries = useMemo(() => {
@@ -157,17 +269,48 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
     setEditingEntry(entry);
     setEditContent(entry.content);
     setEditMood(getMoodLevel(entry.mood));
+    setEditTags(entry.tags || []);
+    setEditPhotos((entry.attachments || []).map(attachment => ({
+      key: attachment.id,
+      id: attachment.id,
+      path: attachment.thumbnail_path || attachment.storage_path,
+      caption: attachment.caption || ''
+    })));
+    setEditPhotosChanged(false);
     setSelectedEntry(null);
   };
 
+  const handleEditPhotosChange = (photos: AttachmentInput[]) => {
+    setEditPhotos(photos);
+    setEditPhotosChanged(true);
+  };
+
   const handleSaveEdit = async () => {
     if (!editingEntry) return;
 
     try {
-      const result = await updateEntry(editingEntry.id, editContent, editMood);
+      const result = await updateEntry(
+        editingEntry.id,
+        editContent,
+        editingEntry.title || null,
+        editMood,
+        // Only send photos when they were touched, so an edit never drops photos it didn't load
+        editPhotosChanged ? editPhotos : undefined,
+        editTags
+      );
+      if (result.warning) {
+        window.alert(result.warning);
+      }
       if (result.success) {
+        // Editing the text clears the old topics; encrypted entries need fresh consent for AI
+        if (!result.queued && !isEncryptionEnabled && editContent.trim() !== editingEntry.content) {
+          extractEntryTopics(editingEntry.id, editContent);
+        }
         setEditingEntry(null);
         setEditContent('');
+        setEditTags([]);
+        setEditPhotos([]);
+        if (isSearchActive) search(searchTerm, searchFilters);
       }
     } catch (err) {
       console.error('Failed to update entry:', err);
@@ -175,12 +318,13 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
   };
 
   const handleDeleteEntry = async (entryId: string) => {
-    if (window.confirm('Are you sure you want to delete this entry? This action cannot be undone.')) {
+    if (window.confirm('Move this entry to the trash? You can restore it within 30 days.')) {
       try {
         const result = await deleteEntry(entryId);
         if (result.success) {
           setSelectedEntry(null);
           setExpandedEntry(null);
+          if (isSearchActive) search(searchTerm, searchFilters);
         }
       } catch (err) {
         console.error('Failed to delete entry:', err);
@@ -188,16 +332,75 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
     }
   };
 
+  // Restoring goes through updateEntry, so the version being replaced is itself kept as a revision
+  const handleRestoreRevision = async (revision: EntryRevision): Promise<boolean> => {
+    if (!selectedEntry) return false;
+
+    const result = await updateEntry(
+      selectedEntry.id,
+      revision.content,
+      revision.title,
+      getMoodLevel(revision.mood),
+      undefined,
+      revision.tags
+    );
+
+    if (!result.success) {
+      window.alert(result.error || 'Failed to restore this version. Please try again.');
+      return false;
+    }
+
+    if (!result.queued && !isEncryptionEnabled && revision.content.trim() !== selectedEntry.content) {
+      extractEntryTopics(selectedEntry.id, revision.content);
+    }
+
+    setSelectedEntry({
+      ...selectedEntry,
+      content: revision.content,
+      title: revision.title,
+      mood: revision.mood,
+      tags: revision.tags,
+      updated_at: new Date().toISOString()
+    });
+    if (isSearchActive) search(searchTerm, searchFilters);
+    return true;
+  };
+
   const toggleEntryExpansion = (entryId: string) => {
     setExpandedEntry(expandedEntry === entryId ? null : entryId);
   };
 
+  const toggleFilterTag = (tag: string) => {
+    setFilterTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+    setCurrentPage(1);
+  };
+
+  // Always open the detail modal on the entry itself
+  useEffect(() => {
+    setDetailTab('entry');
+  }, [selectedEntry?.id]);
+
   const clearFilters = () => {
     setSearchTerm('');
     setFilterMood('all');
+    setFilterTags([]);
+    setFilterStartDate('');
+    setFilterEndDate('');
     setCurrentPage(1);
   };
 
+  if (showTrash) {
+    return (
+      <TrashScreen
+        onBack={() => {
+          setShowTrash(false);
+          // Restored entries need to reappear in the history
+          refreshData();
+        }}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 flex items-center justify-center">
@@ -241,7 +444,10 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                   Journal History
                 </h1>
                 <p className="text-xs text-zen-sage-600">
-                  {filteredEntries.length} of {entries.length} entries
+                  {isSearchActive
+                    ? `${searchTotalCount} ${searchTotalCount === 1 ? 'match' : 'matches'}`
+                    : `${filteredEntries.length} of ${totalEntries} entries`
+                  }
                 </p>
               </div>
             </div>
@@ -258,10 +464,27 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
             <div className="flex items-center space-x-2 px-3 py-2 bg-zen-peach-100 rounded-full">
               <TrendingUp className="w-4 h-4 text-zen-peach-600" />
               <span className="text-zen-sage-700 font-medium">
-                {entries.length} total entries
+                {totalEntries} total entries
               </span>
             </div>
+            <button
+              onClick={() => setShowTrash(true)}
+              className="flex items-center space-x-2 px-3 py-2 text-zen-sage-600 hover:text-zen-sage-800 hover:bg-white/50 rounded-full transition-all"
+              title="View deleted entries"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span className="font-medium">Trash</span>
+            </button>
           </div>
+
+          {/* Trash shortcut on small screens */}
+          <button
+            onClick={() => setShowTrash(true)}
+            className="md:hidden p-2 text-zen-sage-600 hover:text-zen-sage-800 hover:bg-white/50 rounded-full transition-all"
+            title="View deleted entries"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
         </div>
       </motion.header>
 
@@ -279,9 +502,12 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
               <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zen-sage-400" />
               <input
                 type="text"
-                placeholder="Search your journal entries..."
+                placeholder='Search your journal entries... try "exact phrase" or -exclude'
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setCurrentPage(1);
+                }}
                 className="w-full pl-12 pr-4 py-3 border border-zen-sage-200 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 text-zen-sage-800 placeholder-zen-sage-400"
               />
             </div>
@@ -297,7 +523,7 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                 {showFilters ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
               </button>
 
-              {(searchTerm || filterMood !== 'all') && (
+              {hasActiveFilters && (
                 <button
                   onClick={clearFilters}
                   className="text-sm text-zen-mint-600 hover:text-zen-mint-700 font-medium"
@@ -375,12 +601,190 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                       </div>
                     </div>
                   </div>
+
+                  {/* Date Range Filter */}
+                  <div className="mt-4">
+                    <label className="block text-sm font-medium text-zen-sage-700 mb-2">
+                      Filter by date
+                    </label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="date"
+                        value={filterStartDate}
+                        max={filterEndDate || undefined}
+                        onChange={(e) => {
+                          setFilterStartDate(e.target.value);
+                          setCurrentPage(1);
+                        }}
+                        className="px-3 py-2 border border-zen-sage-200 rounded-xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 text-sm text-zen-sage-700"
+                      />
+                      <span className="text-sm text-zen-sage-500">to</span>
+                      <input
+                        type="date"
+                        value={filterEndDate}
+                        min={filterStartDate || undefined}
+                        onChange={(e) => {
+                          setFilterEndDate(e.target.value);
+                          setCurrentPage(1);
+                        }}
+                        className="px-3 py-2 border border-zen-sage-200 rounded-xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 text-sm text-zen-sage-700"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Tag Filter */}
+                  {availableTags.length > 0 && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-zen-sage-700 mb-2">
+                        Filter by tags
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {availableTags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => toggleFilterTag(tag)}
+                            className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium transition-all ${
+                              filterTags.includes(tag)
+                                ? 'bg-zen-mint-400 text-white'
+                                : 'bg-zen-sage-100 text-zen-sage-600 hover:bg-zen-sage-200'
+                            }`}
+                          >
+                            <Tag className="w-3 h-3" />
+                            <span>{tag}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
           </div>
         </motion.div>
 
+        {/* Search Results */}
+        {isSearchActive ? (
+          <div className="space-y-4">
+            {searchError && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-2xl text-red-700 text-sm">
+                {searchError}
+              </div>
+            )}
+
+            {/* Wait for the debounced query to run before reporting no matches */}
+            {!isSearching && !searchError && activeQuery === searchTerm.trim() && searchResults.length === 0 ? (
+              <motion.div
+                className="text-center py-16"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                <LottieAvatar mood={3} size="lg" variant="idle" />
+                <h3 className="text-xl font-display font-semibold text-zen-sage-800 mt-6 mb-2">
+                  No matching entries
+                </h3>
+                <p className="text-zen-sage-600 mb-4">
+                  {isPremium
+                    ? 'Try different words or adjust your filters.'
+                    : 'Free accounts search the last 30 days. Try different words or adjust your filters.'
+                  }
+                </p>
+                <button
+                  onClick={clearFilters}
+                  className="px-6 py-2 bg-zen-mint-400 text-white rounded-xl hover:bg-zen-mint-500 transition-colors"
+                >
+                  Clear Search
+                </button>
+              </motion.div>
+            ) : (
+              searchResults.map((result, resultIndex) => {
+                const resultMoodData = moods.find(m => m.level === getMoodLevel(result.mood));
+
+                return (
+                  <motion.div
+                    key={result.id}
+                    className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20 hover:shadow-xl transition-all duration-300"
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(resultIndex, 10) * 0.03 }}
+                  >
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex items-center space-x-3">
+                        <div className="text-xl">{resultMoodData?.emoji}</div>
+                        <div>
+                          {result.title_highlight && (
+                            <h4 className="font-display font-semibold text-zen-sage-800">
+                              {renderHighlighted(result.title_highlight)}
+                            </h4>
+                          )}
+                          <p className="text-sm text-zen-sage-600">
+                            {formatDate(result.created_at)} • {formatTime(result.created_at)} • {resultMoodData?.label}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setSelectedEntry(result)}
+                          className="p-2 text-zen-sage-500 hover:text-zen-mint-600 hover:bg-zen-mint-100 rounded-lg transition-all"
+                          title="View full entry"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleEditEntry(result)}
+                          className="p-2 text-zen-sage-500 hover:text-zen-mint-600 hover:bg-zen-mint-100 rounded-lg transition-all"
+                          title="Edit entry"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    <p className="text-zen-sage-700 leading-relaxed whitespace-pre-wrap">
+                      {renderHighlighted(result.content_snippet)}
+                    </p>
+
+                    {result.tags.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {result.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => toggleFilterTag(tag)}
+                            className={`px-2 py-1 text-xs rounded-full transition-colors ${
+                              filterTags.includes(tag)
+                                ? 'bg-zen-mint-400 text-white'
+                                : 'bg-zen-mint-100 text-zen-mint-700 hover:bg-zen-mint-200'
+                            }`}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </motion.div>
+                );
+              })
+            )}
+
+            {isSearching && (
+              <div className="flex justify-center py-6">
+                <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+
+            {!isSearching && hasMoreSearchResults && (
+              <div className="flex justify-center pt-2">
+                <button
+                  onClick={loadMoreSearchResults}
+                  className="px-6 py-2 bg-white/80 text-zen-sage-600 rounded-xl hover:bg-white transition-all"
+                >
+                  Show more results ({searchTotalCount - searchResults.length} remaining)
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+        <>
         {/* Entries Timeline */}
         <div className="space-y-6">
           {paginatedDates.length === 0 ? (
@@ -394,12 +798,12 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                 No entries found
               </h3>
               <p className="text-zen-sage-600 mb-4">
-                {searchTerm || filterMood !== 'all' 
+                {hasActiveFilters 
                   ? 'Try adjusting your search or filters.'
                   : 'Start journaling to see your entries here!'
                 }
               </p>
-              {(searchTerm || filterMood !== 'all') && (
+              {hasActiveFilters && (
                 <button
                   onClick={clearFilters}
                   className="px-6 py-2 bg-zen-mint-400 text-white rounded-xl hover:bg-zen-mint-500 transition-colors"
@@ -449,7 +853,8 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                       const entryMoodData = moods.find(m => m.level === entryMood);
                       const isExpanded = expandedEntry === entry.id;
                       const previewLength = 150;
-                      const needsExpansion = entry.content.length > previewLength;
+                      const plainContent = stripMarkdown(entry.content);
+                      const needsExpansion = plainContent.length > previewLength;
 
                       return (
                         <motion.div
@@ -507,23 +912,30 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                           
                           {/* Entry Content */}
                           <div className="text-zen-sage-700 leading-relaxed">
-                            <p className="whitespace-pre-wrap">
-                              {isExpanded || !needsExpansion
-                                ? entry.content
-                                : `${entry.content.substring(0, previewLength)}...`
-                              }
-                            </p>
+                            {isExpanded || !needsExpansion ? (
+                              <MarkdownContent content={entry.content} />
+                            ) : (
+                              <p>{`${plainContent.substring(0, previewLength)}...`}</p>
+                            )}
+
+                            {/* Tags */}
+                            {entry.tags && entry.tags.length > 0 && (
+                              <div className="mt-3 flex flex-wrap gap-2">
+                                {entry.tags.map(tag => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => toggleFilterTag(tag)}
+                                    className="px-2 py-1 bg-zen-mint-100 text-zen-mint-700 text-xs rounded-full hover:bg-zen-mint-200 transition-colors"
+                                  >
+                                    #{tag}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
                             
                             {/* Photo Display */}
-                            {entry.photo_url && (
-                              <div className="mt-4">
-                                <img
-                                  src={entry.photo_url}
-                                  alt={entry.photo_filename || 'Journal photo'}
-                                  className="w-full max-w-md rounded-xl shadow-md object-cover"
-                                  style={{ maxHeight: '300px' }}
-                                />
-                              </div>
+                            {entry.attachments && entry.attachments.length > 0 && (
+                              <PhotoGallery photos={entry.attachments} className="mt-4 max-w-md" />
                             )}
                             
                             {needsExpansion && (
@@ -587,6 +999,18 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
             </button>
           </motion.div>
         )}
+
+        {/* Older entries are fetched page by page once the last loaded page is reached */}
+        {currentPage >= totalPages && (
+          <LoadMoreTrigger
+            hasMore={hasMore}
+            isLoading={isLoadingMore}
+            onLoadMore={loadMore}
+            className="mt-6"
+          />
+        )}
+        </>
+        )}
       </div>
 
       {/* Entry Detail Modal */}
@@ -629,24 +1053,66 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                   ×
                 </button>
               </div>
-              
+
+              {/* Detail Tabs */}
+              <div className="flex space-x-2 mb-6">
+                <button
+                  onClick={() => setDetailTab('entry')}
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                    detailTab === 'entry'
+                      ? 'bg-zen-mint-400 text-white'
+                      : 'bg-zen-sage-100 text-zen-sage-600 hover:bg-zen-sage-200'
+                  }`}
+                >
+                  <BookOpen className="w-4 h-4" />
+                  <span>Entry</span>
+                </button>
+                <button
+                  onClick={() => setDetailTab('history')}
+                  className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                    detailTab === 'history'
+                      ? 'bg-zen-mint-400 text-white'
+                      : 'bg-zen-sage-100 text-zen-sage-600 hover:bg-zen-sage-200'
+                  }`}
+                >
+                  <History className="w-4 h-4" />
+                  <span>History</span>
+                </button>
+              </div>
+
+              {detailTab === 'history' ? (
+                <div className="mb-6">
+                  <EntryRevisionHistory
+                    entry={selectedEntry}
+                    onRestore={handleRestoreRevision}
+                  />
+                </div>
+              ) : (
               <div className="prose prose-zen max-w-none mb-6">
-                <p className="text-zen-sage-700 leading-relaxed whitespace-pre-wrap">
-                  {selectedEntry.content}
-                </p>
-                
-                {/* Photo Display in Modal */}
-                {selectedEntry.photo_url && (
-                  <div className="mt-6">
-                    <img
-                      src={selectedEntry.photo_url}
-                      alt={selectedEntry.photo_filename || 'Journal photo'}
-                      className="w-full rounded-xl shadow-lg object-cover"
-                      style={{ maxHeight: '400px' }}
-                    />
+                <MarkdownContent
+                  content={selectedEntry.content}
+                  className="text-zen-sage-700 leading-relaxed"
+                />
+
+                {selectedEntry.tags && selectedEntry.tags.length > 0 && (
+                  <div className="mt-4 flex flex-wrap gap-2">
+                    {selectedEntry.tags.map(tag => (
+                      <span
+                        key={tag}
+                        className="px-2 py-1 bg-zen-mint-100 text-zen-mint-700 text-xs rounded-full"
+                      >
+                        #{tag}
+                      </span>
+                    ))}
                   </div>
                 )}
+                
+                {/* Photo Gallery in Modal */}
+                {selectedEntry.attachments && selectedEntry.attachments.length > 0 && (
+                  <PhotoGallery photos={selectedEntry.attachments} className="mt-6" />
+                )}
               </div>
+              )}
               
               <div className="flex justify-end space-x-3 pt-4 border-t border-zen-sage-200">
                 <button
@@ -706,9 +1172,9 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                 <label className="block text-sm font-medium text-zen-sage-700 mb-3">
                   Your thoughts
                 </label>
-                <textarea
+                <MarkdownEditor
                   value={editContent}
-                  onChange={(e) => setEditContent(e.target.value)}
+                  onChange={setEditContent}
                   className="w-full h-48 p-4 border border-zen-sage-200 rounded-2xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent resize-none text-zen-sage-800 leading-relaxed"
                   placeholder="Edit your journal entry..."
                 />
@@ -718,6 +1184,30 @@ export default function JournalHistoryScreen({ onBack }: JournalHistoryScreenPro
                   </p>
                 </div>
               </div>
+
+              {/* Tags Editor */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-zen-sage-700 mb-3">
+                  Tags
+                </label>
+                <TagInput
+                  tags={editTags}
+                  onChange={setEditTags}
+                  suggestions={userTags}
+                />
+              </div>
+
+              {/* Photos Editor */}
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-zen-sage-700 mb-3">
+                  Photos
+                </label>
+                <PhotoUpload
+                  isPremiumUser={isPremium}
+                  photos={editPhotos}
+                  onChange={handleEditPhotosChange}
+                />
+              </div>
               
               <div className="flex justify-end space-x-3">
                 <button
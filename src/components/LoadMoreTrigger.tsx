@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+import { ChevronDown } from 'lucide-react';
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  className?: string;
+}
+
+export default function LoadMoreTrigger({
+  hasMore,
+  isLoading,
+  onLoadMore,
+  className = ''
+}: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page automatically when the trigger scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((observedEntries) => {
+      if (observedEntries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={sentinelRef} className={`flex justify-center py-6 ${className}`}>
+      {isLoading ? (
+        <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+      ) : (
+        <button
+          onClick={onLoadMore}
+          className="flex items-center space-x-2 px-6 py-2 bg-white/80 dark:bg-gray-800/80 text-zen-sage-600 dark:text-gray-300 rounded-xl hover:bg-white dark:hover:bg-gray-700 transition-all"
+        >
+          <span>Load older entries</span>
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
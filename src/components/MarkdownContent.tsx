@@ -0,0 +1,125 @@
+import { useMemo, ReactNode } from 'react';
+import { parseMarkdown, BlockNode, InlineNode } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const HEADING_STYLES: Record<number, string> = {
+  1: 'text-xl font-display font-bold',
+  2: 'text-lg font-display font-bold',
+  3: 'text-base font-display font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold uppercase tracking-wide'
+};
+
+const renderInline = (nodes: InlineNode[]): ReactNode[] => {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index} className="opacity-70">{renderInline(node.children)}</del>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 bg-zen-sage-100 dark:bg-gray-700 rounded text-sm font-mono">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-zen-mint-600 dark:text-zen-mint-400 underline hover:text-zen-mint-700"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+};
+
+const renderBlocks = (blocks: BlockNode[]): ReactNode[] => {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <Tag key={index} className={`${HEADING_STYLES[block.level]} text-zen-sage-800 dark:text-gray-200`}>
+            {renderInline(block.children)}
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className="pl-4 border-l-4 border-zen-mint-300 dark:border-gray-600 italic text-zen-sage-600 dark:text-gray-400 space-y-2"
+          >
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'list': {
+        const isChecklist = block.items.some(item => item.checked !== null);
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex} className={item.checked !== null ? 'flex items-start space-x-2 list-none' : ''}>
+            {item.checked !== null && (
+              <input
+                type="checkbox"
+                checked={item.checked}
+                readOnly
+                disabled
+                className="mt-1.5 rounded border-zen-sage-300 text-zen-mint-500"
+              />
+            )}
+            <span className={item.checked ? 'line-through opacity-70' : ''}>{renderInline(item.children)}</span>
+          </li>
+        ));
+
+        if (block.ordered) {
+          return (
+            <ol key={index} start={block.start} className="list-decimal pl-6 space-y-1">
+              {items}
+            </ol>
+          );
+        }
+        return (
+          <ul key={index} className={`${isChecklist ? 'pl-1' : 'list-disc pl-6'} space-y-1`}>
+            {items}
+          </ul>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="p-3 bg-zen-sage-100 dark:bg-gray-700 rounded-xl overflow-x-auto text-sm font-mono">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} className="border-zen-sage-200 dark:border-gray-600" />;
+    }
+  });
+};
+
+export default function MarkdownContent({ content, className = '' }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className={`space-y-3 break-words ${className}`}>
+      {renderBlocks(blocks)}
+    </div>
+  );
+}
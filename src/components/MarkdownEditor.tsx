@@ -0,0 +1,153 @@
+import { useState, useRef, ReactNode } from 'react';
+import { Bold, Italic, Heading, List, ListOrdered, ListChecks, Link, Quote, Eye, Pencil } from 'lucide-react';
+import MarkdownContent from './MarkdownContent';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  className?: string;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  children?: ReactNode;
+}
+
+export default function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  rows = 8,
+  disabled = false,
+  className = '',
+  onFocus,
+  onBlur,
+  children
+}: MarkdownEditorProps) {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const restoreSelection = (start: number, end: number) => {
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(start, end);
+    });
+  };
+
+  // Wrap the selection (or a placeholder word) in inline markers like ** or _
+  const wrapSelection = (before: string, after: string, fallback: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const selected = value.slice(selectionStart, selectionEnd) || fallback;
+    onChange(value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd));
+    restoreSelection(selectionStart + before.length, selectionStart + before.length + selected.length);
+  };
+
+  // Prefix every line touched by the selection, e.g. "- " for a list
+  const prefixLines = (getPrefix: (lineIndex: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+    const nextBreak = value.indexOf('\n', selectionEnd);
+    const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+
+    const updated = value
+      .slice(lineStart, lineEnd)
+      .split('\n')
+      .map((line, index) => getPrefix(index) + line)
+      .join('\n');
+
+    onChange(value.slice(0, lineStart) + updated + value.slice(lineEnd));
+    restoreSelection(lineStart, lineStart + updated.length);
+  };
+
+  const insertLink = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const url = window.prompt('Link address', 'https://');
+    if (!url || url === 'https://') return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const label = value.slice(selectionStart, selectionEnd) || 'link';
+    const markdown = `[${label}](${url.trim()})`;
+    onChange(value.slice(0, selectionStart) + markdown + value.slice(selectionEnd));
+    restoreSelection(selectionStart + 1, selectionStart + 1 + label.length);
+  };
+
+  const tools = [
+    { icon: Bold, label: 'Bold', action: () => wrapSelection('**', '**', 'bold text') },
+    { icon: Italic, label: 'Italic', action: () => wrapSelection('_', '_', 'italic text') },
+    { icon: Heading, label: 'Heading', action: () => prefixLines(() => '## ') },
+    { icon: List, label: 'Bulleted list', action: () => prefixLines(() => '- ') },
+    { icon: ListOrdered, label: 'Numbered list', action: () => prefixLines(index => `${index + 1}. `) },
+    { icon: ListChecks, label: 'Checklist', action: () => prefixLines(() => '- [ ] ') },
+    { icon: Quote, label: 'Quote', action: () => prefixLines(() => '> ') },
+    { icon: Link, label: 'Link', action: insertLink }
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-1">
+          {tools.map(({ icon: Icon, label, action }) => (
+            <button
+              key={label}
+              type="button"
+              onClick={action}
+              disabled={disabled || isPreviewing}
+              className="p-1.5 text-zen-sage-500 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-zen-mint-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title={label}
+              aria-label={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsPreviewing(!isPreviewing)}
+          className="flex items-center space-x-1 px-2 py-1 text-xs text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-zen-mint-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+        >
+          {isPreviewing ? <Pencil className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+          <span>{isPreviewing ? 'Write' : 'Preview'}</span>
+        </button>
+      </div>
+
+      <div className="relative">
+        {isPreviewing ? (
+          <div
+            className={`${className} overflow-y-auto`}
+            style={{ minHeight: `${rows * 1.5 + 2}rem` }}
+          >
+            {value.trim() ? (
+              <MarkdownContent content={value} />
+            ) : (
+              <p className="text-zen-sage-400 dark:text-gray-500">Nothing to preview yet.</p>
+            )}
+          </div>
+        ) : (
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            placeholder={placeholder}
+            rows={rows}
+            className={className}
+            disabled={disabled}
+          />
+        )}
+        {children}
+      </div>
+    </div>
+  );
+}
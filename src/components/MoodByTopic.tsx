@@ -0,0 +1,76 @@
+import { useMoodByTopic } from '../hooks/useMoodByTopic';
+import { topics as topicData } from '../data/topics';
+
+interface MoodByTopicProps {
+  startDate: string;
+  endDate: string;
+  refreshKey?: unknown;
+}
+
+// A topic needs this many days before its average says much
+const MIN_TOPIC_DAYS = 2;
+const MAX_TOPICS_SHOWN = 8;
+
+const moodToPercent = (mood: number) => ((mood - 1) / 4) * 100;
+
+// Average mood on days mentioning each topic, against the average of all days
+export default function MoodByTopic({ startDate, endDate, refreshKey }: MoodByTopicProps) {
+  const { topicMoods, overallMood, error } = useMoodByTopic(startDate, endDate, refreshKey);
+
+  const shown = topicMoods
+    .filter(topic => topic.dayCount >= MIN_TOPIC_DAYS)
+    .slice(0, MAX_TOPICS_SHOWN)
+    .sort((a, b) => b.averageMood - a.averageMood);
+
+  return (
+    <div className="mt-6">
+      <h3 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-1">Mood by topic</h3>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : shown.length === 0 || overallMood === null ? (
+        <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+          As you journal, Zeno notices what your entries are about and shows how each topic relates to your mood.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-zen-sage-500 dark:text-gray-400 mb-3">
+            Average mood on days you wrote about each topic. The line marks your overall average of {overallMood.toFixed(1)}.
+          </p>
+          <div className="space-y-2">
+            {shown.map(topic => {
+              const data = topicData[topic.topic];
+              const difference = topic.averageMood - overallMood;
+
+              return (
+                <div key={topic.topic} className="flex items-center space-x-3">
+                  <span className="w-28 flex-shrink-0 text-sm text-zen-sage-700 dark:text-gray-300 truncate">
+                    {data ? `${data.emoji} ${data.label}` : topic.topic}
+                  </span>
+                  <div
+                    className="relative flex-1 h-3 bg-zen-sage-100 dark:bg-gray-700 rounded-full"
+                    title={`${topic.dayCount} days • average mood ${topic.averageMood.toFixed(1)}`}
+                  >
+                    <div
+                      className={`h-full rounded-full ${difference >= 0 ? 'bg-zen-mint-400' : 'bg-zen-peach-300'}`}
+                      style={{ width: `${Math.max(moodToPercent(topic.averageMood), 4)}%` }}
+                    />
+                    <div
+                      className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-zen-sage-500 dark:bg-gray-300"
+                      style={{ left: `${moodToPercent(overallMood)}%` }}
+                    />
+                  </div>
+                  <span className={`w-10 text-right text-xs font-medium ${
+                    difference >= 0 ? 'text-zen-mint-600 dark:text-zen-mint-400' : 'text-zen-peach-600 dark:text-zen-peach-400'
+                  }`}>
+                    {difference >= 0 ? '+' : ''}{difference.toFixed(1)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
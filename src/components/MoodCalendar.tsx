@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Calendar, Lock } from 'lucide-react';
+import { useMoodCalendar, DailyMood } from '../hooks/useMoodCalendar';
+import { FREE_HISTORY_DAYS } from '../hooks/useJournal';
+import { moods } from '../data/moods';
+import { addDays, parseDateOnly } from '../utils/dates';
+import { MoodLevel } from '../types';
+
+interface MoodCalendarProps {
+  today: string;
+  isPremium: boolean;
+  // Reloads the calendar when entries change
+  refreshKey?: unknown;
+  onSelectDay: (date: string) => void;
+  onLockedSelect: () => void;
+}
+
+type CalendarView = 'month' | 'year';
+
+// Tailwind only ships classes it finds in the source, so each mood color is spelled out here
+const MOOD_CELL_CLASSES: Record<string, string> = {
+  'red-400': 'bg-red-400',
+  'orange-400': 'bg-orange-400',
+  'yellow-400': 'bg-yellow-400',
+  'zen-mint-400': 'bg-zen-mint-400',
+  'zen-peach-400': 'bg-zen-peach-400'
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const getMoodClass = (level: MoodLevel): string => {
+  const mood = moods.find(m => m.level === level);
+  return mood ? MOOD_CELL_CLASSES[mood.color] : '';
+};
+
+const toDateString = (year: number, monthIndex: number, day: number): string =>
+  `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Days before Monday in the week of `date`
+const getWeekdayOffset = (date: string): number => (parseDateOnly(date).getDay() + 6) % 7;
+
+export default function MoodCalendar({ today, isPremium, refreshKey, onSelectDay, onLockedSelect }: MoodCalendarProps) {
+  const [todayYear, todayMonth] = today.split('-').map(Number);
+  const [view, setView] = useState<CalendarView>('month');
+  const [year, setYear] = useState(todayYear);
+  const [monthIndex, setMonthIndex] = useState(todayMonth - 1);
+
+  // Free accounts see the same 30 days of history as the journal
+  const earliestUnlocked = isPremium ? null : addDays(today, -FREE_HISTORY_DAYS);
+
+  const rangeStart = view === 'month' ? toDateString(year, monthIndex, 1) : toDateString(year, 0, 1);
+  const rangeEnd = view === 'month'
+    ? toDateString(year, monthIndex, new Date(year, monthIndex + 1, 0).getDate())
+    : toDateString(year, 11, 31);
+
+  const loadStart = earliestUnlocked && earliestUnlocked > rangeStart ? earliestUnlocked : rangeStart;
+  const loadEnd = rangeEnd < today ? rangeEnd : today;
+  const { days, isLoading, error } = useMoodCalendar(
+    loadStart <= loadEnd ? loadStart : null,
+    loadStart <= loadEnd ? loadEnd : null,
+    refreshKey
+  );
+
+  const isLocked = (date: string) => !!earliestUnlocked && date < earliestUnlocked;
+  const canGoForward = view === 'month'
+    ? year < todayYear || (year === todayYear && monthIndex < todayMonth - 1)
+    : year < todayYear;
+
+  const goBack = () => {
+    if (view === 'year') {
+      setYear(year - 1);
+    } else if (monthIndex === 0) {
+      setYear(year - 1);
+      setMonthIndex(11);
+    } else {
+      setMonthIndex(monthIndex - 1);
+    }
+  };
+
+  const goForward = () => {
+    if (!canGoForward) return;
+
+    if (view === 'year') {
+      setYear(year + 1);
+    } else if (monthIndex === 11) {
+      setYear(year + 1);
+      setMonthIndex(0);
+    } else {
+      setMonthIndex(monthIndex + 1);
+    }
+  };
+
+  const handleSelect = (date: string) => {
+    if (date > today) return;
+    if (isLocked(date)) {
+      onLockedSelect();
+      return;
+    }
+    onSelectDay(date);
+  };
+
+  const getDayTitle = (date: string, dayMood: DailyMood | undefined) => {
+    const label = parseDateOnly(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+    if (isLocked(date)) return `${label}: Premium`;
+    if (!dayMood) return `${label}: No entries`;
+    const mood = moods.find(m => m.level === dayMood.moodLevel);
+    return `${label}: ${dayMood.entryCount} ${dayMood.entryCount === 1 ? 'entry' : 'entries'}, ${mood?.label}`;
+  };
+
+  const renderMonth = () => {
+    const leadingBlanks = getWeekdayOffset(rangeStart);
+    const dayCount = new Date(year, monthIndex + 1, 0).getDate();
+
+    return (
+      <div>
+        <div className="grid grid-cols-7 gap-2 mb-2">
+          {WEEKDAY_LABELS.map(label => (
+            <div key={label} className="text-center text-xs font-medium text-zen-sage-500 dark:text-gray-400">
+              {label}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7 gap-2">
+          {Array.from({ length: leadingBlanks }, (_, index) => (
+            <div key={`blank-${index}`} />
+          ))}
+          {Array.from({ length: dayCount }, (_, index) => {
+            const date = toDateString(year, monthIndex, index + 1);
+            const dayMood = days[date];
+            const locked = isLocked(date);
+            const isFuture = date > today;
+            const moodData = dayMood ? moods.find(m => m.level === dayMood.moodLevel) : undefined;
+
+            return (
+              <button
+                key={date}
+                onClick={() => handleSelect(date)}
+                disabled={isFuture}
+                title={getDayTitle(date, dayMood)}
+                className={`relative aspect-square rounded-xl flex flex-col items-center justify-center text-sm transition-transform hover:scale-105 disabled:hover:scale-100 disabled:cursor-default ${
+                  dayMood
+                    ? `${getMoodClass(dayMood.moodLevel)} text-white font-semibold`
+                    : locked
+                      ? 'bg-zen-sage-100/60 dark:bg-gray-700/40 text-zen-sage-400 dark:text-gray-500'
+                      : isFuture
+                        ? 'bg-transparent text-zen-sage-300 dark:text-gray-600'
+                        : 'bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-600 dark:text-gray-300'
+                } ${date === today ? 'ring-2 ring-zen-mint-500 ring-offset-2 dark:ring-offset-gray-800' : ''}`}
+              >
+                <span>{index + 1}</span>
+                {moodData && <span className="text-xs leading-none mt-0.5">{moodData.emoji}</span>}
+                {locked && <Lock className="absolute top-1 right-1 w-3 h-3" />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderYear = () => {
+    // Columns are weeks from the Monday on or before January 1st; rows are weekdays
+    const firstMonday = addDays(rangeStart, -getWeekdayOffset(rangeStart));
+    const weeks: string[][] = [];
+    for (let weekStart = firstMonday; weekStart <= rangeEnd; weekStart = addDays(weekStart, 7)) {
+      weeks.push(Array.from({ length: 7 }, (_, index) => addDays(weekStart, index)));
+    }
+
+    return (
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex space-x-1">
+          <div className="flex flex-col space-y-1 mr-1 pt-5">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div key={label} className="h-3 text-[10px] leading-3 text-zen-sage-500 dark:text-gray-400">
+                {index % 2 === 0 ? label : ''}
+              </div>
+            ))}
+          </div>
+          {weeks.map((week, weekIndex) => {
+            // Label the column where a month starts
+            const monthStart = week.find(date => date.endsWith('-01') && date >= rangeStart && date <= rangeEnd);
+
+            return (
+              <div key={week[0]} className="flex flex-col space-y-1">
+                <div className="h-4 text-[10px] text-zen-sage-500 dark:text-gray-400 whitespace-nowrap">
+                  {monthStart || weekIndex === 0
+                    ? parseDateOnly(monthStart || rangeStart).toLocaleDateString('en-US', { month: 'short' })
+                    : ''}
+                </div>
+                {week.map(date => {
+                  if (date < rangeStart || date > rangeEnd) {
+                    return <div key={date} className="w-3 h-3" />;
+                  }
+
+                  const dayMood = days[date];
+                  const locked = isLocked(date);
+                  const isFuture = date > today;
+
+                  return (
+                    <button
+                      key={date}
+                      onClick={() => handleSelect(date)}
+                      disabled={isFuture}
+                      title={getDayTitle(date, dayMood)}
+                      className={`w-3 h-3 rounded-sm ${
+                        dayMood
+                          ? getMoodClass(dayMood.moodLevel)
+                          : locked
+                            ? 'bg-zen-sage-100/50 dark:bg-gray-700/40'
+                            : isFuture
+                              ? 'bg-transparent border border-zen-sage-100 dark:border-gray-700'
+                              : 'bg-zen-sage-100 dark:bg-gray-700'
+                      } ${date === today ? 'ring-1 ring-zen-mint-600' : ''}`}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      className="mb-8"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.15 }}
+    >
+      <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 flex items-center space-x-2">
+            <Calendar className="w-5 h-5 text-zen-mint-500" />
+            <span>Mood Calendar</span>
+          </h2>
+
+          <div className="flex bg-zen-sage-100 dark:bg-gray-700 rounded-xl p-1">
+            {(['month', 'year'] as CalendarView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                  view === option
+                    ? 'bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 shadow-sm'
+                    : 'text-zen-sage-600 dark:text-gray-400'
+                }`}
+              >
+                {option === 'month' ? 'Month' : 'Year'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={goBack}
+            className="p-2 text-zen-sage-600 dark:text-gray-400 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label={view === 'month' ? 'Previous month' : 'Previous year'}
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="flex items-center space-x-2">
+            <span className="font-medium text-zen-sage-800 dark:text-gray-200">
+              {view === 'month'
+                ? parseDateOnly(rangeStart).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+                : year}
+            </span>
+            {isLoading && (
+              <div className="w-4 h-4 border-2 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+            )}
+          </div>
+          <button
+            onClick={goForward}
+            disabled={!canGoForward}
+            className="p-2 text-zen-sage-600 dark:text-gray-400 hover:bg-zen-sage-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            aria-label={view === 'month' ? 'Next month' : 'Next year'}
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        {view === 'month' ? renderMonth() : renderYear()}
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>
+        )}
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 mt-4 text-xs text-zen-sage-600 dark:text-gray-400">
+          {moods.map(mood => (
+            <div key={mood.level} className="flex items-center space-x-1">
+              <span className={`w-3 h-3 rounded-sm ${MOOD_CELL_CLASSES[mood.color]}`} />
+              <span>{mood.label}</span>
+            </div>
+          ))}
+          {earliestUnlocked && rangeStart < earliestUnlocked && (
+            <button
+              onClick={onLockedSelect}
+              className="flex items-center space-x-1 text-zen-peach-500 hover:text-zen-peach-600"
+            >
+              <Lock className="w-3 h-3" />
+              <span>Older days need Premium</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
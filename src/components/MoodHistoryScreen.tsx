@@ -18,17 +18,34 @@ import {
   Eye,
   BarChart3,
   Sparkles,
-  Crown
+  Crown,
+  Tag
 } from 'lucide-react';
-import { useJournal } from '../hooks/useJournal';
+import { useJournal, EntryAttachment } from '../hooks/useJournal';
 import { useAuth } from '../contexts/AuthContext';
 import Logo from './Logo';
 import { usePremium } from '../hooks/usePremium';
+import { useTopicExtractor } from '../hooks/useTopicExtractor';
+import { useEncryption } from '../hooks/useEncryption';
 import UpsellModal from './UpsellModal';
 import LottieAvatar from './LottieAvatar';
 import MoodSelector from './MoodSelector';
+import EntryDatePicker from './EntryDatePicker';
+import TagInput from './TagInput';
+import LoadMoreTrigger from './LoadMoreTrigger';
+import MarkdownEditor from './MarkdownEditor';
+import MarkdownContent from './MarkdownContent';
+import PhotoGallery from './PhotoGallery';
+import MoodCalendar from './MoodCalendar';
+import MoodTrendsDashboard from './MoodTrendsDashboard';
+import PeriodSummaryCard from './PeriodSummaryCard';
+import EntryEmotions from './EntryEmotions';
+import EntryTopics from './EntryTopics';
+import DayEntriesModal, { DayEntry } from './DayEntriesModal';
 import { MoodLevel } from '../types';
 import { moods } from '../data/moods';
+import { stripMarkdown } from '../utils/markdown';
+import { getLocalDateString, parseDateOnly } from '../utils/dates';
 
 interface MoodHistoryScreenProps {
   onBack: () => void;
@@ -38,11 +55,14 @@ interface JournalEntry {
   id: string;
   content: string;
   mood: string;
+  entry_date: string;
   created_at: string;
   updated_at: string;
   photo_url?: string;
   photo_filename?: string;
+  attachments?: EntryAttachment[];
   title?: string;
+  tags?: string[];
 }
 
 interface GroupedEntries {
@@ -52,11 +72,29 @@ interface GroupedEntries {
 export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   const { user } = useAuth();
   const { isPremium, isUpsellModalOpen, upsellContent, showUpsellModal, hideUpsellModal } = usePremium();
-  const { entries, isLoading, error, deleteEntry, updateEntry } = useJournal();
+  const {
+    entries,
+    userTags,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    error,
+    deleteEntry,
+    updateEntry,
+    getTotalEntries,
+    getEntriesForDate,
+    getEntriesForRange,
+    profile
+  } = useJournal();
+  const totalEntries = getTotalEntries();
+  const { isEncryptionEnabled } = useEncryption();
+  const { extractEntryTopics } = useTopicExtractor();
   
   // State management
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMood, setFilterMood] = useState<MoodLevel | 'all'>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
   const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<JournalEntry | null>(null);
@@ -64,15 +102,19 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   const [editContent, setEditContent] = useState('');
   const [editTitle, setEditTitle] = useState('');
   const [editMood, setEditMood] = useState<MoodLevel>(3);
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editDate, setEditDate] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedDayEntries, setSelectedDayEntries] = useState<DayEntry[]>([]);
+  const [isLoadingDay, setIsLoadingDay] = useState(false);
   
   const ENTRIES_PER_PAGE = 10;
   
   // Check if we need to show the history limit message
-  const showHistoryLimitMessage = !isPremium && entries.length > 0 && 
-    (entries.length >= 30 || 
-     (new Date().getTime() - new Date(entries[entries.length - 1].created_at).getTime()) / (1000 * 60 * 60 * 24) >= 30);
+  // Free users see this once the server holds more entries than their history window shows
+  const showHistoryLimitMessage = !isPremium && totalEntries > entries.length;
 
   // Helper functions
   const getMoodLevel = (moodString: string): MoodLevel => {
@@ -97,8 +139,9 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     return levelMap[level];
   };
 
+  // Takes an entry date (YYYY-MM-DD)
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = parseDateOnly(dateString);
     const today = new Date();
     const yesterday = new Date(today);
     yesterday.setDate(yesterday.getDate() - 1);
@@ -127,8 +170,13 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     });
   };
 
-  const getDateKey = (dateString: string) => {
-    return new Date(dateString).toDateString();
+  // Backdated entries show when they were added instead of a time on another day
+  const formatWrittenAt = (entry: JournalEntry) => {
+    if (getLocalDateString(profile?.timezone, new Date(entry.created_at)) === entry.entry_date) {
+      return formatTime(entry.created_at);
+    }
+
+    return `Added ${new Date(entry.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
   };
 
   // Calculate mood statistics
@@ -147,29 +195,44 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     }));
   }, [entries]);
 
+  // Tags used by the loaded entries, most frequent first
+  const availableTags = useMemo(() => {
+    const counts = entries.reduce((acc, entry) => {
+      (entry.tags || []).forEach(tag => {
+        acc[tag] = (acc[tag] || 0) + 1;
+      });
+      return acc;
+    }, {} as Record<string, number>);
+
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  }, [entries]);
+
+  const hasActiveFilters = searchTerm !== '' || filterMood !== 'all' || filterTags.length > 0;
+
   // Filter and search entries
   const filteredEntries = useMemo(() => {
     return entries.filter(entry => {
       const matchesMood = filterMood === 'all' || getMoodLevel(entry.mood) === filterMood;
       const matchesSearch = searchTerm === '' || 
         entry.content.toLowerCase().includes(searchTerm.toLowerCase());
-      return matchesMood && matchesSearch;
+      const matchesTags = filterTags.every(tag => (entry.tags || []).includes(tag));
+      return matchesMood && matchesSearch && matchesTags;
     });
-  }, [entries, filterMood, searchTerm]);
+  }, [entries, filterMood, searchTerm, filterTags]);
 
   // Sort entries
   const sortedEntries = useMemo(() => {
     return [...filteredEntries].sort((a, b) => {
-      const dateA = new Date(a.created_at).getTime();
-      const dateB = new Date(b.created_at).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
+      const order = a.entry_date.localeCompare(b.entry_date) ||
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+      return sortOrder === 'newest' ? -order : order;
     });
   }, [filteredEntries, sortOrder]);
 
   // Group entries by date
   const groupedEntries = useMemo(() => {
     return sortedEntries.reduce((groups: GroupedEntries, entry) => {
-      const dateKey = getDateKey(entry.created_at);
+      const dateKey = entry.entry_date;
       if (!groups[dateKey]) {
         groups[dateKey] = [];
       }
@@ -192,6 +255,8 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     setEditContent(entry.content);
     setEditTitle(entry.title || '');
     setEditMood(getMoodLevel(entry.mood));
+    setEditTags(entry.tags || []);
+    setEditDate(entry.entry_date);
     setSelectedEntry(null);
   };
 
@@ -203,12 +268,21 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
         editingEntry.id, 
         editContent, 
         editTitle || null, 
-        editMood
+        editMood,
+        undefined,
+        editTags,
+        editDate
       );
       if (result.success) {
+        // Editing the text clears the old topics; encrypted entries need fresh consent for AI
+        if (!result.queued && !isEncryptionEnabled && editContent.trim() !== editingEntry.content) {
+          extractEntryTopics(editingEntry.id, editContent);
+        }
         setEditingEntry(null);
         setEditContent('');
         setEditTitle('');
+        setEditTags([]);
+        setEditDate('');
       }
     } catch (err) {
       console.error('Failed to update entry:', err);
@@ -216,7 +290,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
   };
 
   const handleDeleteEntry = async (entryId: string) => {
-    if (window.confirm('Are you sure you want to delete this entry? This action cannot be undone.')) {
+    if (window.confirm('Move this entry to the trash? You can restore it within 30 days.')) {
       try {
         const result = await deleteEntry(entryId);
         if (result.success) {
@@ -229,13 +303,30 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
     }
   };
 
+  const handleSelectDay = async (date: string) => {
+    setSelectedDay(date);
+    setSelectedDayEntries([]);
+    setIsLoadingDay(true);
+    try {
+      setSelectedDayEntries(await getEntriesForDate(date));
+    } finally {
+      setIsLoadingDay(false);
+    }
+  };
+
   const toggleEntryExpansion = (entryId: string) => {
     setExpandedEntry(expandedEntry === entryId ? null : entryId);
   };
 
+  const toggleFilterTag = (tag: string) => {
+    setFilterTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+    setCurrentPage(1);
+  };
+
   const clearFilters = () => {
     setSearchTerm('');
     setFilterMood('all');
+    setFilterTags([]);
     setCurrentPage(1);
   };
 
@@ -318,7 +409,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                 Journal Dashboard
               </h1>
               <p className="text-xs text-zen-sage-600 dark:text-gray-400">
-                {filteredEntries.length} of {entries.length} entries
+                {filteredEntries.length} of {totalEntries} entries
               </p>
             </div>
           </div>
@@ -334,7 +425,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
             <div className="flex items-center space-x-2 px-3 py-2 bg-zen-peach-100 dark:bg-zen-peach-900/30 rounded-full">
               <TrendingUp className="w-4 h-4 text-zen-peach-600 dark:text-zen-peach-400" />
               <span className="text-zen-sage-700 dark:text-gray-300 font-medium">
-                {entries.length} total entries
+                {totalEntries} total entries
               </span>
             </div>
           </div>
@@ -387,6 +478,18 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
           </div>
         </motion.div>
 
+        {/* Mood Calendar */}
+        <MoodCalendar
+          today={getLocalDateString(profile?.timezone)}
+          isPremium={isPremium}
+          refreshKey={entries}
+          onSelectDay={handleSelectDay}
+          onLockedSelect={() => showUpsellModal({
+            featureName: 'Complete Journal History',
+            featureDescription: 'Access your entire journaling history without limits.'
+          })}
+        />
+
         {/* Search and Filters */}
         <motion.div
           className="mb-8"
@@ -418,7 +521,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                 {showFilters ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
               </button>
 
-              {(searchTerm || filterMood !== 'all') && (
+              {hasActiveFilters && (
                 <button
                   onClick={clearFilters}
                   className="text-sm text-zen-mint-600 hover:text-zen-mint-700 font-medium"
@@ -496,13 +599,38 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                       </div>
                     </div>
                   </div>
+
+                  {/* Tag Filter */}
+                  {availableTags.length > 0 && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                        Filter by tags
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {availableTags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => toggleFilterTag(tag)}
+                            className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium transition-all ${
+                              filterTags.includes(tag)
+                                ? 'bg-zen-mint-400 text-white'
+                                : 'bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-600 dark:text-gray-300 hover:bg-zen-sage-200 dark:hover:bg-gray-500'
+                            }`}
+                          >
+                            <Tag className="w-3 h-3" />
+                            <span>{tag}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </motion.div>
               )}
             </AnimatePresence>
           </div>
         </motion.div>
 
-        {/* Advanced Analytics Section (Premium Feature) */}
+        {/* Mood Trends Section (Premium Feature) */}
         <motion.div
           className="mb-8"
           initial={{ opacity: 0, y: 20 }}
@@ -512,7 +640,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
           <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
             <h2 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center space-x-2">
               <Sparkles className="w-5 h-5 text-zen-mint-500" />
-              <span>Advanced Analytics</span>
+              <span>Mood Trends</span>
               {!isPremium && (
                 <span className="text-xs font-normal text-zen-peach-500 bg-zen-peach-100 dark:bg-zen-peach-900/30 px-2 py-1 rounded-full">
                   Premium
@@ -521,15 +649,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
             </h2>
             
             {isPremium ? (
-              <div className="text-center py-8">
-                <Sparkles className="w-12 h-12 text-zen-mint-400 mx-auto mb-4 opacity-70" />
-                <h3 className="text-xl font-display font-semibold text-zen-sage-800 dark:text-gray-200 mb-2">
-                  Advanced Insights Coming Soon
-                </h3>
-                <p className="text-zen-sage-600 dark:text-gray-400 max-w-md mx-auto">
-                  We're working on detailed mood trends, sentiment analysis, and AI-generated summaries of your emotional patterns.
-                </p>
-              </div>
+              <MoodTrendsDashboard today={getLocalDateString(profile?.timezone)} refreshKey={entries} />
             ) : (
               <div className="bg-gradient-to-r from-zen-mint-50 to-zen-lavender-50 dark:from-gray-700 dark:to-gray-600 rounded-2xl p-6">
                 <div className="flex items-start space-x-4">
@@ -538,15 +658,15 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                   </div>
                   <div>
                     <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2">
-                      Unlock Advanced Analytics
+                      Unlock Mood Trends
                     </h3>
                     <p className="text-zen-sage-600 dark:text-gray-400 mb-4">
-                      Upgrade to Zensai Premium to access detailed mood trends, sentiment analysis, and AI-generated insights about your emotional patterns.
+                      Upgrade to Zensai Premium to see how your mood changes over weeks and months, your moving average, and which days of the week feel best.
                     </p>
                     <button
                       onClick={() => showUpsellModal({
-                        featureName: 'Advanced Analytics',
-                        featureDescription: 'Gain deeper insights into your emotional patterns with detailed mood trends and AI-powered analysis.'
+                        featureName: 'Mood Trends',
+                        featureDescription: 'Gain deeper insights into your emotional patterns with mood trends over up to a year and your best and toughest weekdays.'
                       })}
                       className="px-4 py-2 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white rounded-xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-colors shadow-md"
                     >
@@ -559,6 +679,25 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
           </div>
         </motion.div>
 
+        {/* Period Summaries */}
+        <motion.div
+          className="mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+            <h2 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center space-x-2">
+              <BookOpen className="w-5 h-5 text-zen-mint-500" />
+              <span>Zeno's Reflections</span>
+            </h2>
+            <PeriodSummaryCard
+              today={getLocalDateString(profile?.timezone)}
+              loadEntries={getEntriesForRange}
+            />
+          </div>
+        </motion.div>
+
         {/* Premium History Limit Message */}
         {showHistoryLimitMessage && (
           <motion.div
@@ -607,12 +746,12 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                 No entries found
               </h3>
               <p className="text-zen-sage-600 dark:text-gray-400 mb-4">
-                {searchTerm || filterMood !== 'all' 
+                {hasActiveFilters 
                   ? 'Try adjusting your search or filters.'
                   : 'Start journaling to see your entries here!'
                 }
               </p>
-              {(searchTerm || filterMood !== 'all') && (
+              {hasActiveFilters && (
                 <button
                   onClick={clearFilters}
                   className="px-6 py-2 bg-zen-mint-400 text-white rounded-xl hover:bg-zen-mint-500 transition-colors"
@@ -644,7 +783,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                       <div className="text-3xl">{dayMoodData?.emoji}</div>
                       <div>
                         <h3 className="font-display font-bold text-zen-sage-800 dark:text-gray-200">
-                          {formatDate(dayEntries[0].created_at)}
+                          {formatDate(dayEntries[0].entry_date)}
                         </h3>
                         <p className="text-sm text-zen-sage-600 dark:text-gray-400">
                           {dayEntries.length} {dayEntries.length === 1 ? 'entry' : 'entries'} • Average mood: {dayMoodData?.label}
@@ -706,6 +845,17 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                                   />
                                 </div>
 
+                                <div>
+                                  <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                                    Entry date
+                                  </label>
+                                  <EntryDatePicker
+                                    value={editDate}
+                                    today={getLocalDateString(profile?.timezone)}
+                                    onChange={setEditDate}
+                                  />
+                                </div>
+
                                 <div>
                                   <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
                                     How are you feeling?
@@ -722,14 +872,25 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                                   <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
                                     Your thoughts
                                   </label>
-                                  <textarea
+                                  <MarkdownEditor
                                     value={editContent}
-                                    onChange={(e) => setEditContent(e.target.value)}
+                                    onChange={setEditContent}
                                     rows={6}
                                     className="w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 resize-none"
                                     placeholder="What's on your mind?"
                                   />
                                 </div>
+
+                                <div>
+                                  <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                                    Tags
+                                  </label>
+                                  <TagInput
+                                    tags={editTags}
+                                    onChange={setEditTags}
+                                    suggestions={userTags}
+                                  />
+                                </div>
                               </div>
                             </div>
                           ) : (
@@ -741,7 +902,7 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                                   <div>
                                     <div className="flex items-center space-x-2">
                                       <span className="text-sm font-medium text-zen-sage-600 dark:text-gray-400">
-                                        {formatTime(entry.created_at)}
+                                        {formatWrittenAt(entry)}
                                       </span>
                                       <span className="text-xs text-zen-sage-400 dark:text-gray-500">
                                         {entryMoodData?.label}
@@ -777,22 +938,38 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
                                 </div>
                               </div>
 
-                              <div className={`text-zen-sage-700 dark:text-gray-300 leading-relaxed ${
-                                isExpanded ? '' : 'line-clamp-3'
-                              }`}>
-                                {entry.content}
-                              </div>
+                              {isExpanded ? (
+                                <MarkdownContent
+                                  content={entry.content}
+                                  className="text-zen-sage-700 dark:text-gray-300 leading-relaxed"
+                                />
+                              ) : (
+                                <div className="text-zen-sage-700 dark:text-gray-300 leading-relaxed line-clamp-3">
+                                  {stripMarkdown(entry.content)}
+                                </div>
+                              )}
 
-                              {entry.photo_url && (
-                                <div className="mt-4">
-                                  <img
-                                    src={entry.photo_url}
-                                    alt="Journal entry"
-                                    className="rounded-xl max-w-full h-auto shadow-md"
-                                  />
+                              {entry.tags && entry.tags.length > 0 && (
+                                <div className="mt-3 flex flex-wrap gap-2">
+                                  {entry.tags.map(tag => (
+                                    <button
+                                      key={tag}
+                                      onClick={() => toggleFilterTag(tag)}
+                                      className="px-2 py-1 bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-400 text-xs rounded-full hover:bg-zen-mint-200 dark:hover:bg-zen-mint-900/50 transition-colors"
+                                    >
+                                      #{tag}
+                                    </button>
+                                  ))}
                                 </div>
                               )}
 
+                              {isExpanded && <EntryTopics entryId={entry.id} />}
+                              {isExpanded && <EntryEmotions entryId={entry.id} />}
+
+                              {entry.attachments && entry.attachments.length > 0 && (
+                                <PhotoGallery photos={entry.attachments} className="mt-4" />
+                              )}
+
                               {!isExpanded && entry.content.length > 150 && (
                                 <button
                                   onClick={() => toggleEntryExpansion(entry.id)}
@@ -856,8 +1033,26 @@ export default function MoodHistoryScreen({ onBack }: MoodHistoryScreenProps) {
             </div>
           </motion.div>
         )}
+
+        {/* Older entries are fetched page by page once the last loaded page is reached */}
+        {currentPage >= totalPages && (
+          <LoadMoreTrigger
+            hasMore={hasMore}
+            isLoading={isLoadingMore}
+            onLoadMore={loadMore}
+            className="mt-6"
+          />
+        )}
       </div>
 
+      {/* Day Details */}
+      <DayEntriesModal
+        date={selectedDay}
+        entries={selectedDayEntries}
+        isLoading={isLoadingDay}
+        onClose={() => setSelectedDay(null)}
+      />
+
       {/* Upsell Modal */}
       {isUpsellModalOpen && upsellContent && (
         <UpsellModal
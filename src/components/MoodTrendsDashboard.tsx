@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, CalendarDays } from 'lucide-react';
+import { useMoodTrends, MoodTrendPoint } from '../hooks/useMoodTrends';
+import MoodByTopic from './MoodByTopic';
+import { moods } from '../data/moods';
+import { parseDateOnly } from '../utils/dates';
+import { MoodLevel } from '../types';
+
+interface MoodTrendsDashboardProps {
+  today: string;
+  refreshKey?: unknown;
+}
+
+const RANGES = [
+  { days: 7, label: '7D' },
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' }
+];
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Chart geometry in viewBox units
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_LEFT = 24;
+const CHART_TOP = 8;
+const CHART_BOTTOM = 8;
+// Entry-frequency bars use at most this share of the chart height
+const BAR_HEIGHT_SHARE = 0.35;
+
+const plotWidth = CHART_WIDTH - CHART_LEFT;
+const plotHeight = CHART_HEIGHT - CHART_TOP - CHART_BOTTOM;
+
+const moodToY = (mood: number): number => CHART_TOP + ((5 - mood) / 4) * plotHeight;
+
+const getMoodEmoji = (mood: number): string =>
+  moods.find(m => m.level === Math.min(Math.max(Math.round(mood), 1), 5) as MoodLevel)?.emoji || '😐';
+
+const formatDay = (date: string, rangeDays: number) =>
+  parseDateOnly(date).toLocaleDateString('en-US', rangeDays > 90
+    ? { month: 'short', year: '2-digit' }
+    : { month: 'short', day: 'numeric' });
+
+// SVG path through the points that have a value, lifting the pen over days without one
+const buildLinePath = (points: MoodTrendPoint[], getValue: (point: MoodTrendPoint) => number | null, getX: (index: number) => number) => {
+  let path = '';
+  let isDrawing = false;
+  points.forEach((point, index) => {
+    const value = getValue(point);
+    if (value === null) {
+      isDrawing = false;
+      return;
+    }
+    path += `${isDrawing ? 'L' : 'M'}${getX(index).toFixed(1)},${moodToY(value).toFixed(1)} `;
+    isDrawing = true;
+  });
+  return path.trim();
+};
+
+// Daily mood line with a moving average and entry-frequency bars, plus weekday and topic patterns
+export default function MoodTrendsDashboard({ today, refreshKey }: MoodTrendsDashboardProps) {
+  const [rangeDays, setRangeDays] = useState(30);
+  const {
+    points,
+    weekdays,
+    bestWeekday,
+    worstWeekday,
+    totalEntries,
+    daysJournaled,
+    averageMood,
+    movingAverageWindow,
+    isLoading,
+    error
+  } = useMoodTrends(rangeDays, today, refreshKey);
+
+  const slotWidth = plotWidth / points.length;
+  const getX = (index: number) => CHART_LEFT + slotWidth * (index + 0.5);
+  const maxEntryCount = Math.max(...points.map(point => point.entryCount), 1);
+  const dailyPath = buildLinePath(points, point => point.averageMood, getX);
+  const movingAveragePath = buildLinePath(points, point => point.movingAverage, getX);
+  const dotRadius = rangeDays > 90 ? 1.2 : rangeDays > 30 ? 1.8 : 2.5;
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <div className="flex bg-zen-sage-100 dark:bg-gray-700 rounded-xl p-1">
+          {RANGES.map(range => (
+            <button
+              key={range.days}
+              onClick={() => setRangeDays(range.days)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                rangeDays === range.days
+                  ? 'bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 shadow-sm'
+                  : 'text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200'
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      {isLoading && totalEntries === 0 ? (
+        <div className="flex justify-center py-12">
+          <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : totalEntries === 0 ? (
+        <div className="text-center py-8">
+          <CalendarDays className="w-10 h-10 text-zen-sage-300 dark:text-gray-600 mx-auto mb-2" />
+          <p className="text-zen-sage-600 dark:text-gray-400">
+            No entries in this period yet. Your trends will appear as you journal.
+          </p>
+        </div>
+      ) : (
+        <motion.div
+          key={rangeDays}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+        >
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            <div className="bg-zen-mint-50 dark:bg-gray-700 rounded-2xl p-3 text-center flex flex-col justify-center">
+              <div className="text-2xl">{averageMood !== null ? getMoodEmoji(averageMood) : '—'}</div>
+              <div className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+                {averageMood !== null ? averageMood.toFixed(1) : '—'}
+              </div>
+              <div className="text-xs text-zen-sage-600 dark:text-gray-400">Average mood</div>
+            </div>
+            <div className="bg-zen-peach-50 dark:bg-gray-700 rounded-2xl p-3 text-center flex flex-col justify-center">
+              <div className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+                {daysJournaled}/{rangeDays}
+              </div>
+              <div className="text-xs text-zen-sage-600 dark:text-gray-400">Days journaled</div>
+            </div>
+            <div className="bg-zen-lavender-50 dark:bg-gray-700 rounded-2xl p-3 text-center flex flex-col justify-center">
+              <div className="text-lg font-bold text-zen-sage-800 dark:text-gray-200">
+                {totalEntries}
+              </div>
+              <div className="text-xs text-zen-sage-600 dark:text-gray-400">
+                {totalEntries === 1 ? 'Entry' : 'Entries'}
+              </div>
+            </div>
+          </div>
+
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Mood trend chart">
+            {moods.map(mood => (
+              <g key={mood.level}>
+                <line
+                  x1={CHART_LEFT}
+                  x2={CHART_WIDTH}
+                  y1={moodToY(mood.level)}
+                  y2={moodToY(mood.level)}
+                  strokeWidth="0.5"
+                  className="stroke-zen-sage-100 dark:stroke-gray-700"
+                />
+                <text x={0} y={moodToY(mood.level) + 4} fontSize="11">
+                  {mood.emoji}
+                </text>
+              </g>
+            ))}
+
+            {points.map((point, index) => point.entryCount > 0 && (
+              <rect
+                key={point.date}
+                x={getX(index) - slotWidth * 0.35}
+                y={CHART_HEIGHT - CHART_BOTTOM - (point.entryCount / maxEntryCount) * plotHeight * BAR_HEIGHT_SHARE}
+                width={slotWidth * 0.7}
+                height={(point.entryCount / maxEntryCount) * plotHeight * BAR_HEIGHT_SHARE}
+                rx={Math.min(slotWidth * 0.2, 2)}
+                className="fill-zen-lavender-200 dark:fill-gray-600"
+              >
+                <title>
+                  {`${formatDay(point.date, 30)}: ${point.entryCount} ${point.entryCount === 1 ? 'entry' : 'entries'}`}
+                </title>
+              </rect>
+            ))}
+
+            <path
+              d={dailyPath}
+              fill="none"
+              strokeWidth="1.5"
+              strokeLinejoin="round"
+              className="stroke-zen-sage-300 dark:stroke-gray-500"
+            />
+            {points.map((point, index) => point.averageMood !== null && (
+              <circle
+                key={point.date}
+                cx={getX(index)}
+                cy={moodToY(point.averageMood)}
+                r={dotRadius}
+                className="fill-zen-sage-400 dark:fill-gray-400"
+              >
+                <title>{`${formatDay(point.date, 30)}: ${point.averageMood.toFixed(1)}`}</title>
+              </circle>
+            ))}
+
+            <path
+              d={movingAveragePath}
+              fill="none"
+              strokeWidth="2.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="stroke-zen-mint-500"
+            />
+          </svg>
+
+          <div className="flex justify-between text-xs text-zen-sage-500 dark:text-gray-400 mt-1 pl-[7.5%]">
+            <span>{formatDay(points[0].date, rangeDays)}</span>
+            <span>{formatDay(points[Math.floor(points.length / 2)].date, rangeDays)}</span>
+            <span>{formatDay(points[points.length - 1].date, rangeDays)}</span>
+          </div>
+
+          <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-3 text-xs text-zen-sage-600 dark:text-gray-400">
+            <div className="flex items-center space-x-1">
+              <span className="w-3 h-0.5 bg-zen-sage-300 dark:bg-gray-500" />
+              <span>Daily mood</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <span className="w-3 h-1 rounded-full bg-zen-mint-500" />
+              <span>{movingAverageWindow}-day average</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <span className="w-3 h-3 rounded-sm bg-zen-lavender-200 dark:bg-gray-600" />
+              <span>Entries</span>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <h3 className="font-medium text-zen-sage-800 dark:text-gray-200 mb-3">Mood by weekday</h3>
+            <div className="flex items-end space-x-2 h-20">
+              {weekdays.map(day => (
+                <div
+                  key={day.weekday}
+                  className="flex-1 flex flex-col justify-end items-center h-full"
+                  title={day.averageMood !== null
+                    ? `${WEEKDAY_NAMES[day.weekday]}: ${day.averageMood.toFixed(1)} (${day.entryCount} ${day.entryCount === 1 ? 'entry' : 'entries'})`
+                    : `${WEEKDAY_NAMES[day.weekday]}: no entries`}
+                >
+                  <div
+                    className={`w-full rounded-t-md ${
+                      day.weekday === bestWeekday?.weekday
+                        ? 'bg-zen-mint-400'
+                        : day.weekday === worstWeekday?.weekday
+                          ? 'bg-zen-peach-300'
+                          : 'bg-zen-sage-200 dark:bg-gray-600'
+                    }`}
+                    style={{ height: day.averageMood !== null ? `${(day.averageMood / 5) * 100}%` : '4%' }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-2 mt-1">
+              {weekdays.map(day => (
+                <span key={day.weekday} className="flex-1 text-center text-xs text-zen-sage-500 dark:text-gray-400">
+                  {WEEKDAY_NAMES[day.weekday].slice(0, 3)}
+                </span>
+              ))}
+            </div>
+
+            {bestWeekday && worstWeekday && (
+              <div className="grid grid-cols-2 gap-3 mt-4">
+                <div className="flex items-center space-x-2 p-3 bg-zen-mint-50 dark:bg-gray-700 rounded-2xl">
+                  <TrendingUp className="w-5 h-5 text-zen-mint-500 flex-shrink-0" />
+                  <div className="text-sm">
+                    <div className="font-medium text-zen-sage-800 dark:text-gray-200">
+                      {WEEKDAY_NAMES[bestWeekday.weekday]}s
+                    </div>
+                    <div className="text-xs text-zen-sage-600 dark:text-gray-400">
+                      Your best day {getMoodEmoji(bestWeekday.averageMood as number)}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 p-3 bg-zen-peach-50 dark:bg-gray-700 rounded-2xl">
+                  <TrendingDown className="w-5 h-5 text-zen-peach-500 flex-shrink-0" />
+                  <div className="text-sm">
+                    <div className="font-medium text-zen-sage-800 dark:text-gray-200">
+                      {WEEKDAY_NAMES[worstWeekday.weekday]}s
+                    </div>
+                    <div className="text-xs text-zen-sage-600 dark:text-gray-400">
+                      Your toughest day {getMoodEmoji(worstWeekday.averageMood as number)}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <MoodByTopic startDate={points[0].date} endDate={today} refreshKey={refreshKey} />
+        </motion.div>
+      )}
+    </div>
+  );
+}
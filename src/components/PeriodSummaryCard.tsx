@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Sparkles, RefreshCw, Share2, Download, Trophy, CloudRain, Activity } from 'lucide-react';
+import { usePeriodSummary, PeriodSummary, PeriodSummaryEntry, SummaryPeriodType } from '../hooks/usePeriodSummary';
+import { useEncryption } from '../hooks/useEncryption';
+import { addDays, parseDateOnly } from '../utils/dates';
+
+interface PeriodSummaryCardProps {
+  today: string;
+  loadEntries: (startDate: string, endDate: string) => Promise<PeriodSummaryEntry[]>;
+}
+
+// First and last day of the week (Monday to Sunday) or month `offset` periods before the one holding `today`
+const getPeriodRange = (periodType: SummaryPeriodType, today: string, offset: number): { start: string; end: string } => {
+  if (periodType === 'week') {
+    const start = addDays(today, -((parseDateOnly(today).getDay() + 6) % 7) + offset * 7);
+    return { start, end: addDays(start, 6) };
+  }
+
+  const [year, month] = today.split('-').map(Number);
+  const start = new Date(Date.UTC(year, month - 1 + offset, 1)).toISOString().split('T')[0];
+  const end = new Date(Date.UTC(year, month + offset, 0)).toISOString().split('T')[0];
+  return { start, end };
+};
+
+const formatPeriod = (periodType: SummaryPeriodType, start: string, end: string): string => {
+  if (periodType === 'month') {
+    return parseDateOnly(start).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+
+  const format = (date: string) => parseDateOnly(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(start)} – ${format(end)}`;
+};
+
+const buildSummaryMarkdown = (summary: PeriodSummary): string => {
+  const sections = [
+    `# Zeno's reflection on ${summary.periodType === 'week' ? 'the week of ' : ''}${formatPeriod(summary.periodType, summary.periodStart, summary.periodEnd)}`,
+    summary.summary
+  ];
+  if (summary.moodArc) sections.push(`**Mood arc:** ${summary.moodArc}`);
+  if (summary.themes.length > 0) sections.push(`## Themes\n\n${summary.themes.map(theme => `- ${theme}`).join('\n')}`);
+  if (summary.wins.length > 0) sections.push(`## Wins\n\n${summary.wins.map(win => `- ${win}`).join('\n')}`);
+  if (summary.stressors.length > 0) sections.push(`## Recurring stressors\n\n${summary.stressors.map(stressor => `- ${stressor}`).join('\n')}`);
+  sections.push(`_Written from ${summary.entryCount} journal ${summary.entryCount === 1 ? 'entry' : 'entries'} in Zensai._`);
+  return sections.join('\n\n');
+};
+
+// Zeno's weekly or monthly reflection, with regenerate, share and download
+export default function PeriodSummaryCard({ today, loadEntries }: PeriodSummaryCardProps) {
+  const { isEncryptionEnabled } = useEncryption();
+  const [periodType, setPeriodType] = useState<SummaryPeriodType>('week');
+  const [offset, setOffset] = useState(0);
+  // With end-to-end encryption on, entry text only goes to Zeno with consent
+  const [allowAi, setAllowAi] = useState(false);
+  const [isLoadingEntries, setIsLoadingEntries] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const { start, end } = getPeriodRange(periodType, today, offset);
+  const { summary, isLoading, isGenerating, error, generateSummary } = usePeriodSummary(periodType, start, end);
+  const isBusy = isLoadingEntries || isGenerating;
+  const canUseAi = !isEncryptionEnabled || allowAi;
+
+  const changePeriodType = (type: SummaryPeriodType) => {
+    setPeriodType(type);
+    setOffset(0);
+    setNotice('');
+  };
+
+  const changeOffset = (change: number) => {
+    setOffset(current => Math.min(current + change, 0));
+    setNotice('');
+  };
+
+  const handleGenerate = async () => {
+    setNotice('');
+    setIsLoadingEntries(true);
+    let entries: PeriodSummaryEntry[];
+    try {
+      entries = await loadEntries(start, end < today ? end : today);
+    } finally {
+      setIsLoadingEntries(false);
+    }
+    await generateSummary(entries);
+  };
+
+  const handleShare = async () => {
+    if (!summary) return;
+    const text = buildSummaryMarkdown(summary);
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: "Zeno's reflection", text });
+        return;
+      }
+
+      await navigator.clipboard.writeText(text);
+      setNotice('Copied to your clipboard');
+    } catch (err) {
+      // Closing the share sheet rejects too
+      if (err instanceof Error && err.name === 'AbortError') return;
+      console.error('Error sharing summary:', err);
+      setNotice('Sharing isn\'t available here, so try downloading instead');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!summary) return;
+
+    const blob = new Blob([buildSummaryMarkdown(summary)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `zensai-${summary.periodType}-summary-${summary.periodStart}.md`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex bg-zen-sage-100 dark:bg-gray-700 rounded-xl p-1">
+          {(['week', 'month'] as SummaryPeriodType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => changePeriodType(type)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                periodType === type
+                  ? 'bg-white dark:bg-gray-800 text-zen-sage-800 dark:text-gray-200 shadow-sm'
+                  : 'text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200'
+              }`}
+            >
+              {type === 'week' ? 'Week' : 'Month'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => changeOffset(-1)}
+            disabled={isBusy}
+            className="p-1 text-zen-sage-500 dark:text-gray-400 hover:text-zen-sage-700 dark:hover:text-gray-200 rounded-full disabled:opacity-50"
+            aria-label={`Previous ${periodType}`}
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-zen-sage-700 dark:text-gray-300 min-w-[8rem] text-center">
+            {formatPeriod(periodType, start, end)}
+          </span>
+          <button
+            onClick={() => changeOffset(1)}
+            disabled={isBusy || offset === 0}
+            className="p-1 text-zen-sage-500 dark:text-gray-400 hover:text-zen-sage-700 dark:hover:text-gray-200 rounded-full disabled:opacity-50"
+            aria-label={`Next ${periodType}`}
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="w-8 h-8 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : summary ? (
+        <motion.div
+          key={`${summary.periodType}-${summary.periodStart}`}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="space-y-4"
+        >
+          <p className="text-zen-sage-700 dark:text-gray-300 leading-relaxed">{summary.summary}</p>
+
+          {summary.moodArc && (
+            <div className="flex items-start space-x-2 text-sm text-zen-sage-600 dark:text-gray-400">
+              <Activity className="w-4 h-4 mt-0.5 text-zen-mint-500 flex-shrink-0" />
+              <span>{summary.moodArc}</span>
+            </div>
+          )}
+
+          {summary.themes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {summary.themes.map(theme => (
+                <span
+                  key={theme}
+                  className="px-3 py-1 text-xs rounded-full bg-zen-lavender-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300"
+                >
+                  {theme}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {(summary.wins.length > 0 || summary.stressors.length > 0) && (
+            <div className="grid sm:grid-cols-2 gap-3">
+              {summary.wins.length > 0 && (
+                <div className="p-3 bg-zen-mint-50 dark:bg-gray-700 rounded-2xl">
+                  <div className="flex items-center space-x-2 mb-2 text-sm font-medium text-zen-sage-800 dark:text-gray-200">
+                    <Trophy className="w-4 h-4 text-zen-mint-500" />
+                    <span>Wins</span>
+                  </div>
+                  <ul className="space-y-1 text-sm text-zen-sage-600 dark:text-gray-400">
+                    {summary.wins.map(win => <li key={win}>{win}</li>)}
+                  </ul>
+                </div>
+              )}
+              {summary.stressors.length > 0 && (
+                <div className="p-3 bg-zen-peach-50 dark:bg-gray-700 rounded-2xl">
+                  <div className="flex items-center space-x-2 mb-2 text-sm font-medium text-zen-sage-800 dark:text-gray-200">
+                    <CloudRain className="w-4 h-4 text-zen-peach-500" />
+                    <span>Recurring stressors</span>
+                  </div>
+                  <ul className="space-y-1 text-sm text-zen-sage-600 dark:text-gray-400">
+                    {summary.stressors.map(stressor => <li key={stressor}>{stressor}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+            <span className="text-xs text-zen-sage-500 dark:text-gray-400">
+              From {summary.entryCount} {summary.entryCount === 1 ? 'entry' : 'entries'}
+              {summary.generatedBy === 'fallback' && ' • Zeno couldn\'t reach the AI, so this is a simpler summary'}
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleGenerate}
+                disabled={isBusy || !canUseAi}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-zen-sage-600 dark:text-gray-300 bg-zen-sage-100 dark:bg-gray-700 rounded-lg hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+                <span>Regenerate</span>
+              </button>
+              <button
+                onClick={handleShare}
+                className="p-2 text-zen-sage-600 dark:text-gray-300 bg-zen-sage-100 dark:bg-gray-700 rounded-lg hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+                aria-label="Share summary"
+              >
+                <Share2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDownload}
+                className="p-2 text-zen-sage-600 dark:text-gray-300 bg-zen-sage-100 dark:bg-gray-700 rounded-lg hover:bg-zen-sage-200 dark:hover:bg-gray-600 transition-colors"
+                aria-label="Download summary"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      ) : (
+        <div className="text-center py-6">
+          <Sparkles className="w-10 h-10 text-zen-mint-400 mx-auto mb-3 opacity-70" />
+          <p className="text-zen-sage-600 dark:text-gray-400 mb-4 max-w-sm mx-auto">
+            Zeno can read your entries from this {periodType} and reflect on your themes, mood, wins and stressors.
+          </p>
+          <button
+            onClick={handleGenerate}
+            disabled={isBusy || !canUseAi}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white rounded-xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-colors shadow-md disabled:opacity-50"
+          >
+            <Sparkles className={`w-4 h-4 ${isBusy ? 'animate-pulse' : ''}`} />
+            <span>{isBusy ? 'Reflecting...' : `Summarize this ${periodType}`}</span>
+          </button>
+        </div>
+      )}
+
+      {isEncryptionEnabled && (
+        <label className="mt-4 flex items-start space-x-2 text-sm text-zen-sage-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={allowAi}
+            onChange={(e) => setAllowAi(e.target.checked)}
+            disabled={isBusy}
+            className="mt-1"
+          />
+          <span>
+            Let Zeno read this {periodType}'s entries to write a summary.
+            Your journal is end-to-end encrypted, so entries aren't sent to AI features unless you allow it here.
+          </span>
+        </label>
+      )}
+
+      {notice && (
+        <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-2">{notice}</p>
+      )}
+    </div>
+  );
+}
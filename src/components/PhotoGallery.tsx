@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { usePhotoUrls } from '../hooks/usePhotoUrls';
+
+interface GalleryPhoto {
+  id: string;
+  storage_path: string;
+  thumbnail_path?: string | null;
+  caption: string | null;
+}
+
+interface PhotoGalleryProps {
+  photos: GalleryPhoto[];
+  className?: string;
+}
+
+export default function PhotoGallery({ photos, className = '' }: PhotoGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  // Small galleries use thumbnails; a single photo is shown large, so it gets the full image
+  const getGridPath = (photo: GalleryPhoto) =>
+    photos.length === 1 ? photo.storage_path : photo.thumbnail_path || photo.storage_path;
+  const openPath = openIndex !== null ? photos[openIndex]?.storage_path : null;
+  const photoUrls = usePhotoUrls([...photos.map(getGridPath), openPath]);
+
+  const showPrevious = () => {
+    setOpenIndex(index => index === null ? null : (index - 1 + photos.length) % photos.length);
+  };
+
+  const showNext = () => {
+    setOpenIndex(index => index === null ? null : (index + 1) % photos.length);
+  };
+
+  // Keyboard navigation while the lightbox is open
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpenIndex(null);
+      if (e.key === 'ArrowLeft') setOpenIndex(index => index === null ? null : (index - 1 + photos.length) % photos.length);
+      if (e.key === 'ArrowRight') setOpenIndex(index => index === null ? null : (index + 1) % photos.length);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [openIndex, photos.length]);
+
+  if (photos.length === 0) return null;
+
+  const openPhoto = openIndex !== null ? photos[openIndex] : null;
+
+  return (
+    <>
+      <div className={`grid gap-3 ${photos.length === 1 ? 'grid-cols-1' : 'grid-cols-2 sm:grid-cols-3'} ${className}`}>
+        {photos.map((photo, index) => (
+          <button
+            key={photo.id}
+            onClick={() => setOpenIndex(index)}
+            className="group text-left"
+          >
+            <div className={`rounded-xl overflow-hidden shadow-md bg-zen-sage-100 dark:bg-gray-700 ${
+              photos.length === 1 ? 'min-h-[8rem]' : 'h-32'
+            }`}>
+              {photoUrls[getGridPath(photo)] && (
+                <img
+                  src={photoUrls[getGridPath(photo)]}
+                  alt={photo.caption || `Photo ${index + 1}`}
+                  loading="lazy"
+                  className={`w-full object-cover group-hover:scale-105 transition-transform duration-300 ${
+                    photos.length === 1 ? 'max-h-96' : 'h-32'
+                  }`}
+                />
+              )}
+            </div>
+            {photo.caption && (
+              <p className="mt-1 text-xs text-zen-sage-600 dark:text-gray-400 truncate">{photo.caption}</p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Lightbox */}
+      <AnimatePresence>
+        {openPhoto && (
+          <motion.div
+            className="fixed inset-0 bg-black/90 flex items-center justify-center z-[60] p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setOpenIndex(null)}
+          >
+            <button
+              onClick={() => setOpenIndex(null)}
+              className="absolute top-4 right-4 p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+              title="Close"
+            >
+              <X className="w-6 h-6" />
+            </button>
+
+            {photos.length > 1 && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    showPrevious();
+                  }}
+                  className="absolute left-4 p-3 text-white/80 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+                  title="Previous photo"
+                >
+                  <ChevronLeft className="w-6 h-6" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    showNext();
+                  }}
+                  className="absolute right-4 p-3 text-white/80 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+                  title="Next photo"
+                >
+                  <ChevronRight className="w-6 h-6" />
+                </button>
+              </>
+            )}
+
+            <motion.figure
+              key={openPhoto.id}
+              className="max-w-4xl w-full flex flex-col items-center"
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ duration: 0.2 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <img
+                src={photoUrls[openPhoto.storage_path] || photoUrls[getGridPath(openPhoto)]}
+                alt={openPhoto.caption || 'Journal photo'}
+                className="max-h-[80vh] max-w-full rounded-xl object-contain"
+              />
+              <figcaption className="mt-3 text-center text-white/90 text-sm">
+                {openPhoto.caption}
+                {photos.length > 1 && (
+                  <span className="block text-white/60 text-xs mt-1">
+                    {openIndex! + 1} of {photos.length}
+                  </span>
+                )}
+              </figcaption>
+            </motion.figure>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
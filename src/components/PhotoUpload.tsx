@@ -1,82 +1,130 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, X, Upload, Image as ImageIcon } from 'lucide-react';
+import { X, Upload, Image as ImageIcon, Plus, ChevronLeft, ChevronRight } from 'lucide-react';
+import { AttachmentInput, MAX_ENTRY_ATTACHMENTS } from '../hooks/useJournal';
+import { usePhotoUrls } from '../hooks/usePhotoUrls';
 
 interface PhotoUploadProps {
   isPremiumUser?: boolean;
   onUpsellTrigger?: () => void;
-  onPhotoSelect: (file: File | null) => void;
-  currentPhoto?: string | null;
+  photos: AttachmentInput[];
+  onChange: (photos: AttachmentInput[]) => void;
+  maxPhotos?: number;
   disabled?: boolean;
   className?: string;
 }
 
-export default function PhotoUpload({ 
+// Photos are resized and re-encoded before upload, so large originals straight off a phone are fine
+const MAX_PHOTO_SIZE = 25 * 1024 * 1024;
+
+export default function PhotoUpload({
   isPremiumUser = true,
   onUpsellTrigger,
-  onPhotoSelect, 
-  currentPhoto, 
-  disabled = false, 
-  className = '' 
+  photos,
+  onChange,
+  maxPhotos = MAX_ENTRY_ATTACHMENTS,
+  disabled = false,
+  className = ''
 }: PhotoUploadProps) {
-  const [preview, setPreview] = useState<string | null>(currentPhoto || null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewUrlsRef = useRef(new Map<File, string>());
+  const savedPhotoUrls = usePhotoUrls(photos.map(photo => photo.path));
 
   const isFeatureDisabled = !isPremiumUser || disabled;
+  const canAddMore = photos.length < maxPhotos;
+
+  // Object URLs for new files are cached per File and released once the photo is removed
+  const getPreviewUrl = (photo: AttachmentInput): string => {
+    if (photo.path) return savedPhotoUrls[photo.path] || '';
+    if (!photo.file) return '';
+
+    let previewUrl = previewUrlsRef.current.get(photo.file);
+    if (!previewUrl) {
+      previewUrl = URL.createObjectURL(photo.file);
+      previewUrlsRef.current.set(photo.file, previewUrl);
+    }
+    return previewUrl;
+  };
 
-  const handleFileSelect = (file: File | null) => {
+  useEffect(() => {
+    const currentFiles = new Set(photos.map(photo => photo.file).filter(Boolean));
+    previewUrlsRef.current.forEach((previewUrl, file) => {
+      if (!currentFiles.has(file)) {
+        URL.revokeObjectURL(previewUrl);
+        previewUrlsRef.current.delete(file);
+      }
+    });
+  }, [photos]);
+
+  useEffect(() => {
+    const previewUrls = previewUrlsRef.current;
+    return () => {
+      previewUrls.forEach(previewUrl => URL.revokeObjectURL(previewUrl));
+      previewUrls.clear();
+    };
+  }, []);
+
+  const handleFilesSelect = (files: File[]) => {
     if (!isPremiumUser) {
       if (onUpsellTrigger) onUpsellTrigger();
       return;
     }
 
-    if (!file) {
-      setPreview(null);
-      onPhotoSelect(null);
-      return;
+    const validFiles: File[] = [];
+    const skipped: string[] = [];
+
+    for (const file of files) {
+      // Validate file type
+      if (!file.type.startsWith('image/')) {
+        skipped.push(`${file.name} isn't an image`);
+        continue;
+      }
+
+      // Validate file size (max 25MB)
+      if (file.size > MAX_PHOTO_SIZE) {
+        skipped.push(`${file.name} is larger than 25MB`);
+        continue;
+      }
+
+      validFiles.push(file);
     }
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      alert('Please select an image file');
-      return;
+    const remainingSlots = maxPhotos - photos.length;
+    if (validFiles.length > remainingSlots) {
+      skipped.push(`only ${maxPhotos} photos can be added to an entry`);
     }
 
-    // Validate file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      alert('Image must be smaller than 5MB');
-      return;
+    if (skipped.length > 0) {
+      alert(`Some photos weren't added: ${skipped.join(', ')}.`);
     }
 
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setPreview(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    const newPhotos = validFiles.slice(0, Math.max(0, remainingSlots)).map(file => ({
+      key: crypto.randomUUID(),
+      file,
+      caption: ''
+    }));
 
-    onPhotoSelect(file);
+    if (newPhotos.length > 0) {
+      onChange([...photos, ...newPhotos]);
+    }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0] || null;
-    handleFileSelect(file);
+    handleFilesSelect(Array.from(e.target.files || []));
+    e.target.value = '';
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
+
     if (isFeatureDisabled) {
       if (!isPremiumUser && onUpsellTrigger) onUpsellTrigger();
       return;
     }
-    
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      handleFileSelect(file);
-    }
+
+    handleFilesSelect(Array.from(e.dataTransfer.files));
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -91,12 +139,21 @@ export default function PhotoUpload({
     setIsDragging(false);
   };
 
-  const clearPhoto = () => {
-    setPreview(null);
-    onPhotoSelect(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const removePhoto = (key: string) => {
+    onChange(photos.filter(photo => photo.key !== key));
+  };
+
+  const movePhoto = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= photos.length) return;
+
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const updateCaption = (key: string, caption: string) => {
+    onChange(photos.map(photo => photo.key === key ? { ...photo, caption } : photo));
   };
 
   const openFileDialog = () => {
@@ -104,7 +161,7 @@ export default function PhotoUpload({
       if (!isPremiumUser && onUpsellTrigger) onUpsellTrigger();
       return;
     }
-    
+
     if (fileInputRef.current) {
       fileInputRef.current.click();
     }
@@ -116,50 +173,96 @@ export default function PhotoUpload({
         ref={fileInputRef}
         type="file"
         accept="image/*"
+        multiple
         onChange={handleInputChange}
         className="hidden"
         disabled={isFeatureDisabled}
       />
 
       <AnimatePresence mode="wait">
-        {preview ? (
+        {photos.length > 0 ? (
           <motion.div
-            key="preview"
+            key="gallery"
             initial={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.9 }}
             transition={{ duration: 0.3 }}
-            className="relative group"
+            className="grid grid-cols-2 sm:grid-cols-3 gap-3"
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
           >
-            <div className="relative rounded-2xl overflow-hidden shadow-lg border border-zen-sage-200">
-              <img
-                src={preview}
-                alt="Journal photo"
-                className="w-full h-48 object-cover"
-              />
-              
-              {/* Overlay with actions */}
-              <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-all duration-300 flex items-center justify-center">
-                <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-2">
-                  <button
-                    onClick={openFileDialog}
-                    disabled={disabled}
-                    className="p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg"
-                    title="Change photo"
-                  >
-                    <Camera className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={clearPhoto}
-                    disabled={disabled}
-                    className="p-2 bg-white/90 text-red-600 rounded-full hover:bg-white transition-colors shadow-lg"
-                    title="Remove photo"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
+            {photos.map((photo, index) => (
+              <div key={photo.key} className="space-y-2">
+                <div className="relative group rounded-2xl overflow-hidden shadow-lg border border-zen-sage-200 dark:border-gray-600">
+                  <img
+                    src={getPreviewUrl(photo)}
+                    alt={photo.caption || `Photo ${index + 1}`}
+                    className="w-full h-32 object-cover"
+                  />
+
+                  {/* Overlay with actions */}
+                  <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-all duration-300 flex items-center justify-center">
+                    <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => movePhoto(index, -1)}
+                        disabled={disabled || index === 0}
+                        className="p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg disabled:opacity-40"
+                        title="Move earlier"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removePhoto(photo.key)}
+                        disabled={disabled}
+                        className="p-2 bg-white/90 text-red-600 rounded-full hover:bg-white transition-colors shadow-lg"
+                        title="Remove photo"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => movePhoto(index, 1)}
+                        disabled={disabled || index === photos.length - 1}
+                        className="p-2 bg-white/90 text-zen-sage-700 rounded-full hover:bg-white transition-colors shadow-lg disabled:opacity-40"
+                        title="Move later"
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
                 </div>
+                <input
+                  type="text"
+                  value={photo.caption}
+                  onChange={(e) => updateCaption(photo.key, e.target.value)}
+                  placeholder="Add a caption..."
+                  maxLength={500}
+                  disabled={disabled}
+                  className="w-full px-3 py-1.5 text-sm bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500"
+                />
               </div>
-            </div>
+            ))}
+
+            {canAddMore && (
+              <button
+                type="button"
+                onClick={openFileDialog}
+                disabled={isFeatureDisabled}
+                className={`h-32 flex flex-col items-center justify-center border-2 border-dashed rounded-2xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isDragging
+                    ? 'border-zen-mint-400 bg-zen-mint-50'
+                    : 'border-zen-sage-300 hover:border-zen-mint-400 hover:bg-zen-mint-50/50'
+                }`}
+              >
+                <Plus className="w-6 h-6 text-zen-sage-500 mb-1" />
+                <span className="text-xs text-zen-sage-500">
+                  {photos.length}/{maxPhotos} photos
+                </span>
+              </button>
+            )}
           </motion.div>
         ) : (
           <motion.div
@@ -170,8 +273,8 @@ export default function PhotoUpload({
             transition={{ duration: 0.3 }}
             className={`
               relative border-2 border-dashed rounded-2xl p-8 text-center transition-all duration-300 ${!isFeatureDisabled ? 'cursor-pointer' : 'cursor-not-allowed'}
-              ${isDragging 
-                ? 'border-zen-mint-400 bg-zen-mint-50' 
+              ${isDragging
+                ? 'border-zen-mint-400 bg-zen-mint-50'
                 : 'border-zen-sage-300 hover:border-zen-mint-400 hover:bg-zen-mint-50/50'
               }
               ${isFeatureDisabled ? 'opacity-50' : ''}
@@ -192,10 +295,10 @@ export default function PhotoUpload({
                   <ImageIcon className="w-6 h-6 text-zen-sage-600" />
                 )}
               </div>
-              
+
               <div>
                 <p className="font-medium text-zen-sage-700 mb-1">
-                  {isDragging ? 'Drop your photo here' : 'Add a photo to your entry'}
+                  {isDragging ? 'Drop your photos here' : 'Add photos to your entry'}
                 </p>
                 {!isPremiumUser ? (
                   <p className="text-sm text-zen-peach-500 font-medium">
@@ -203,7 +306,7 @@ export default function PhotoUpload({
                   </p>
                 ) : (
                   <p className="text-sm text-zen-sage-500">
-                    Drag & drop or click to browse • Max 5MB
+                    Drag & drop or click to browse • Up to {maxPhotos} photos, 25MB each
                   </p>
                 )}
               </div>
@@ -213,4 +316,4 @@ export default function PhotoUpload({
       </AnimatePresence>
     </div>
   );
-}
\ No newline at end of file
+}
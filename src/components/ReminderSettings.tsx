@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, BellOff, Moon, Globe, AlertCircle, Save } from 'lucide-react';
+import { useReminders, ReminderSchedule } from '../hooks/useReminders';
+import { getDeviceTimezone, formatTimezone } from '../utils/dates';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Same rule as the reminder job: windows such as 22:00-07:00 wrap past midnight
+const isDuringQuietHours = (schedule: ReminderSchedule) => {
+  if (!schedule.quietHoursStart || !schedule.quietHoursEnd) return false;
+
+  const time = toMinutes(schedule.reminderTime);
+  const start = toMinutes(schedule.quietHoursStart);
+  const end = toMinutes(schedule.quietHoursEnd);
+  if (start === end) return false;
+
+  return start < end ? time >= start && time < end : time >= start || time < end;
+};
+
+export default function ReminderSettings() {
+  const {
+    schedule,
+    isLoading,
+    isSubscribed,
+    permission,
+    isPushSupported,
+    saveSchedule,
+    enableReminders,
+    disableReminders
+  } = useReminders();
+  const [form, setForm] = useState<ReminderSchedule>(schedule);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setForm(schedule);
+  }, [schedule]);
+
+  const deviceTimezone = getDeviceTimezone();
+  const hasQuietHours = !!form.quietHoursStart && !!form.quietHoursEnd;
+  const isDirty = JSON.stringify(form) !== JSON.stringify(schedule);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 2000);
+  };
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    setError('');
+    const result = schedule.isEnabled ? await disableReminders() : await enableReminders();
+    if (result.success) {
+      showMessage(schedule.isEnabled ? 'Reminders turned off' : 'Reminders turned on');
+    } else {
+      setError(result.error || 'Failed to update reminders');
+    }
+    setIsSaving(false);
+  };
+
+  const handleSubscribeDevice = async () => {
+    setIsSaving(true);
+    setError('');
+    const result = await enableReminders();
+    if (result.success) {
+      showMessage('This device will get reminders too');
+    } else {
+      setError(result.error || 'Failed to turn on notifications for this device');
+    }
+    setIsSaving(false);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+    const result = await saveSchedule(form);
+    if (result.success) {
+      showMessage('Reminder schedule saved');
+    } else {
+      setError(result.error || 'Failed to save your reminder settings');
+    }
+    setIsSaving(false);
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter(d => d !== day)
+        : [...prev.daysOfWeek, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const toggleQuietHours = () => {
+    setForm(prev => hasQuietHours
+      ? { ...prev, quietHoursStart: null, quietHoursEnd: null }
+      : { ...prev, quietHoursStart: '22:00', quietHoursEnd: '07:00' });
+  };
+
+  const timeInputClassName = 'px-3 py-2 bg-white dark:bg-gray-800 border border-zen-sage-200 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent text-zen-sage-800 dark:text-gray-200';
+
+  return (
+    <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {schedule.isEnabled ? (
+            <Bell className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" />
+          ) : (
+            <BellOff className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" />
+          )}
+          <div>
+            <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">Journaling Reminders</h4>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+              A gentle nudge on days you haven't written yet
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleToggle}
+          disabled={isLoading || isSaving || (!schedule.isEnabled && (!isPushSupported || permission === 'denied'))}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 ${
+            schedule.isEnabled ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              schedule.isEnabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {!isPushSupported && (
+        <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-3">
+          This browser can't receive notifications. On iPhone and iPad, add Zensai to your Home Screen first.
+        </p>
+      )}
+      {isPushSupported && permission === 'denied' && (
+        <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-3">
+          Notifications are blocked for Zensai. Allow them in your browser settings to get reminders.
+        </p>
+      )}
+
+      <AnimatePresence>
+        {schedule.isEnabled && (
+          <motion.div
+            className="mt-4 space-y-4 overflow-hidden"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            {isPushSupported && !isSubscribed && permission !== 'denied' && (
+              <button
+                onClick={handleSubscribeDevice}
+                disabled={isSaving}
+                className="text-sm text-zen-mint-600 dark:text-zen-mint-400 hover:text-zen-mint-700 font-medium disabled:opacity-50"
+              >
+                Also send reminders to this device
+              </button>
+            )}
+
+            {/* Days */}
+            <div>
+              <p className="text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">Remind me on</p>
+              <div className="flex space-x-2">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={day}
+                    onClick={() => toggleDay(day)}
+                    title={DAY_NAMES[day]}
+                    className={`w-9 h-9 rounded-full text-sm font-medium transition-colors ${
+                      form.daysOfWeek.includes(day)
+                        ? 'bg-zen-mint-400 text-white'
+                        : 'bg-white dark:bg-gray-800 text-zen-sage-600 dark:text-gray-400 hover:bg-zen-sage-100 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Time and time zone */}
+            <div>
+              <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">At</label>
+              <input
+                type="time"
+                value={form.reminderTime}
+                onChange={(e) => e.target.value && setForm(prev => ({ ...prev, reminderTime: e.target.value }))}
+                className={timeInputClassName}
+              />
+              <p className="flex items-center text-xs text-zen-sage-500 dark:text-gray-400 mt-2">
+                <Globe className="w-3 h-3 mr-1 flex-shrink-0" />
+                <span>Time zone: {formatTimezone(form.timezone)}</span>
+                {form.timezone !== deviceTimezone && (
+                  <button
+                    onClick={() => setForm(prev => ({ ...prev, timezone: deviceTimezone }))}
+                    className="ml-2 text-zen-mint-600 dark:text-zen-mint-400 hover:text-zen-mint-700 font-medium"
+                  >
+                    Use {formatTimezone(deviceTimezone)}
+                  </button>
+                )}
+              </p>
+            </div>
+
+            {/* Quiet hours */}
+            <div>
+              <label className="flex items-center space-x-2 text-sm font-medium text-zen-sage-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hasQuietHours}
+                  onChange={toggleQuietHours}
+                  className="rounded border-zen-sage-300 text-zen-mint-500 focus:ring-zen-mint-400"
+                />
+                <Moon className="w-4 h-4" />
+                <span>Quiet hours</span>
+              </label>
+              {hasQuietHours && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <input
+                    type="time"
+                    value={form.quietHoursStart || ''}
+                    onChange={(e) => e.target.value && setForm(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                    className={timeInputClassName}
+                  />
+                  <span className="text-sm text-zen-sage-600 dark:text-gray-400">to</span>
+                  <input
+                    type="time"
+                    value={form.quietHoursEnd || ''}
+                    onChange={(e) => e.target.value && setForm(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                    className={timeInputClassName}
+                  />
+                </div>
+              )}
+              {isDuringQuietHours(form) && (
+                <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-2">
+                  Your reminder time falls in your quiet hours, so it will arrive when they end (if it's still the same day).
+                </p>
+              )}
+            </div>
+
+            {isDirty && (
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex items-center space-x-2 px-4 py-2 bg-zen-mint-400 text-white text-sm rounded-xl hover:bg-zen-mint-500 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                <span>{isSaving ? 'Saving...' : 'Save Reminder Schedule'}</span>
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {(error || message) && (
+        <p className={`text-sm flex items-center mt-3 ${error ? 'text-red-600 dark:text-red-400' : 'text-zen-mint-600 dark:text-zen-mint-400'}`}>
+          {error && <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />}
+          {error || message}
+        </p>
+      )}
+    </div>
+  );
+}
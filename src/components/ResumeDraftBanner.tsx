@@ -0,0 +1,59 @@
+import { motion } from 'framer-motion';
+import { FileText, X } from 'lucide-react';
+import { Draft } from '../hooks/useDrafts';
+
+interface ResumeDraftBannerProps {
+  draft: Draft;
+  otherDraftCount: number;
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+export default function ResumeDraftBanner({ draft, otherDraftCount, onResume, onDismiss }: ResumeDraftBannerProps) {
+  const savedAt = new Date(draft.updatedAt).toLocaleString('en-US', {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+
+  return (
+    <motion.div
+      className="mb-6 bg-zen-peach-50 dark:bg-gray-700 border border-zen-peach-200 dark:border-gray-600 rounded-2xl p-4"
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      exit={{ opacity: 0, height: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3 min-w-0">
+          <FileText className="w-5 h-5 text-zen-peach-500 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 truncate">
+              Pick up where you left off? "{draft.name}"
+            </p>
+            <p className="text-xs text-zen-sage-600 dark:text-gray-400">
+              Last edited {savedAt}
+              {otherDraftCount > 0 && ` • ${otherDraftCount} more in Drafts`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 ml-3">
+          <button
+            onClick={onResume}
+            className="px-3 py-1 bg-zen-peach-400 text-white text-sm rounded-lg hover:bg-zen-peach-500 transition-colors duration-200"
+          >
+            Resume
+          </button>
+          <button
+            onClick={onDismiss}
+            className="p-1 text-zen-sage-400 hover:text-zen-sage-600 dark:hover:text-gray-200 transition-colors"
+            title="Not now"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,103 @@
+import { motion } from 'framer-motion';
+import { Heart, Phone, MessageSquare, ExternalLink, X } from 'lucide-react';
+import { safetyRegions, DEFAULT_SAFETY_REGION, SafetyResource } from '../data/safetyResources';
+
+interface SafetyCardProps {
+  level: 'concern' | 'urgent';
+  region: string;
+  onDismiss: () => void;
+}
+
+const LINK_CLASSES = 'inline-flex items-center space-x-1 px-3 py-1.5 text-sm font-medium rounded-xl bg-white dark:bg-gray-800 text-zen-lavender-700 dark:text-zen-lavender-300 border border-zen-lavender-200 dark:border-gray-600 hover:bg-zen-lavender-100 dark:hover:bg-gray-700 transition-colors';
+
+const toTelHref = (phone: string) => `tel:${phone.replace(/\s+/g, '')}`;
+
+const toSmsHref = ({ number, body }: NonNullable<SafetyResource['sms']>) =>
+  `sms:${number}${body ? `?body=${encodeURIComponent(body)}` : ''}`;
+
+// Shown after saving an entry that mentions self-harm or suicide. It never blocks the journal
+// and stays until dismissed, so there's time to read it.
+export default function SafetyCard({ level, region, onDismiss }: SafetyCardProps) {
+  const { resources, emergencyNumber, label } = safetyRegions[region] || safetyRegions[DEFAULT_SAFETY_REGION];
+
+  return (
+    <motion.div
+      className="relative bg-zen-lavender-50 dark:bg-gray-800 rounded-3xl p-6 mb-8 shadow-xl border border-zen-lavender-200 dark:border-gray-700"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      transition={{ duration: 0.4 }}
+      role="region"
+      aria-label="Support resources"
+    >
+      <button
+        onClick={onDismiss}
+        className="absolute top-4 right-4 p-1 text-zen-sage-400 hover:text-zen-sage-600 dark:text-gray-500 dark:hover:text-gray-300 transition-colors"
+        aria-label="Dismiss"
+      >
+        <X className="w-5 h-5" />
+      </button>
+
+      <h3 className="flex items-center text-lg font-display font-semibold text-zen-sage-800 dark:text-gray-200 mb-2 pr-8">
+        <Heart className="w-5 h-5 mr-2 text-zen-lavender-500" />
+        Zeno is here with you
+      </h3>
+      <p className="text-zen-sage-700 dark:text-gray-300 mb-4">
+        Some of what you wrote sounds really heavy. You don't have to carry it alone. Talking with someone
+        can help, whether that's now or whenever you're ready.
+      </p>
+
+      {level === 'urgent' && emergencyNumber && (
+        <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 mb-4">
+          If you might act on these thoughts or you're in danger right now, please call{' '}
+          <a href={toTelHref(emergencyNumber)} className="underline text-zen-lavender-700 dark:text-zen-lavender-300">
+            {emergencyNumber}
+          </a>{' '}
+          or go to your nearest emergency department.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {resources.map(resource => (
+          <li key={`${resource.name}-${resource.phone || resource.sms?.number || resource.url}`}>
+            <p className="font-medium text-zen-sage-800 dark:text-gray-200">{resource.name}</p>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400 mb-2">{resource.description}</p>
+            <div className="flex flex-wrap gap-2">
+              {resource.phone && (
+                <a href={toTelHref(resource.phone)} className={LINK_CLASSES}>
+                  <Phone className="w-4 h-4" />
+                  <span>Call {resource.phone}</span>
+                </a>
+              )}
+              {resource.sms && (
+                <a href={toSmsHref(resource.sms)} className={LINK_CLASSES}>
+                  <MessageSquare className="w-4 h-4" />
+                  <span>Text {resource.sms.number}</span>
+                </a>
+              )}
+              {resource.url && (
+                <a href={resource.url} target="_blank" rel="noopener noreferrer" className={LINK_CLASSES}>
+                  <ExternalLink className="w-4 h-4" />
+                  <span>Visit site</span>
+                </a>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-4">
+        {region !== DEFAULT_SAFETY_REGION && (
+          <>
+            Showing helplines for {label}. Somewhere else?{' '}
+            <a href="https://findahelpline.com" target="_blank" rel="noopener noreferrer" className="underline">
+              Find a helpline near you
+            </a>
+            .{' '}
+          </>
+        )}
+        You can change your region or turn this check off in Settings.
+      </p>
+    </motion.div>
+  );
+}
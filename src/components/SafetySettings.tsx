@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LifeBuoy, Globe, AlertCircle, Trash2 } from 'lucide-react';
+import { useSafetyHistory, SafetySettings as SafetySettingsValue } from '../hooks/useSafetyCheck';
+import { safetyRegions } from '../data/safetyResources';
+
+interface SafetySettingsProps {
+  settings: SafetySettingsValue;
+  onChange: (changes: Partial<SafetySettingsValue>) => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function SafetySettings({ settings, onChange }: SafetySettingsProps) {
+  const { eventCount, isDeleting, deleteHistory } = useSafetyHistory(settings.isHistoryEnabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 2000);
+  };
+
+  const handleChange = async (changes: Partial<SafetySettingsValue>, successMessage: string) => {
+    setIsSaving(true);
+    setError('');
+    const result = await onChange(changes);
+    if (result.success) {
+      showMessage(successMessage);
+    } else {
+      setError(result.error || 'Failed to update safety settings');
+    }
+    setIsSaving(false);
+  };
+
+  const handleDeleteHistory = async () => {
+    setError('');
+    if (await deleteHistory()) {
+      showMessage('Safety history deleted');
+    } else {
+      setError('Failed to delete your safety history');
+    }
+  };
+
+  return (
+    <div className="p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <LifeBuoy className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" />
+          <div>
+            <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">Safety Check</h4>
+            <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+              If an entry mentions self-harm or suicide, Zeno gently shares places to find support
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => handleChange(
+            { isEnabled: !settings.isEnabled },
+            settings.isEnabled ? 'Safety check turned off' : 'Safety check turned on'
+          )}
+          disabled={isSaving}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 ${
+            settings.isEnabled ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              settings.isEnabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {settings.isEnabled && (
+          <motion.div
+            className="mt-4 space-y-4 overflow-hidden"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            {/* Region */}
+            <div>
+              <label className="flex items-center text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                <Globe className="w-4 h-4 mr-1" />
+                Show helplines for
+              </label>
+              <select
+                value={settings.region}
+                onChange={(e) => handleChange({ region: e.target.value }, 'Helplines updated')}
+                disabled={isSaving}
+                className="px-3 py-2 bg-white dark:bg-gray-800 border border-zen-sage-200 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent text-zen-sage-800 dark:text-gray-200"
+              >
+                {Object.entries(safetyRegions).map(([key, region]) => (
+                  <option key={key} value={key}>{region.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* History opt-in */}
+            <div>
+              <label className="flex items-center space-x-2 text-sm font-medium text-zen-sage-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.isHistoryEnabled}
+                  onChange={() => handleChange(
+                    { isHistoryEnabled: !settings.isHistoryEnabled },
+                    settings.isHistoryEnabled ? 'Safety history turned off and deleted' : 'Safety history turned on'
+                  )}
+                  disabled={isSaving}
+                  className="rounded border-zen-sage-300 text-zen-mint-500 focus:ring-zen-mint-400"
+                />
+                <span>Keep a private history of safety checks</span>
+              </label>
+              <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-1 ml-6">
+                {settings.isHistoryEnabled
+                  ? `${eventCount === 1 ? '1 entry has' : `${eventCount} entries have`} been flagged. Only the date and level are kept, never why.`
+                  : 'Off by default: the check runs when you save and its result is forgotten straight away.'}
+              </p>
+              {settings.isHistoryEnabled && eventCount > 0 && (
+                <button
+                  onClick={handleDeleteHistory}
+                  disabled={isDeleting}
+                  className="flex items-center space-x-1 mt-2 ml-6 text-sm text-zen-peach-600 dark:text-zen-peach-400 hover:text-zen-peach-700 font-medium disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>{isDeleting ? 'Deleting...' : 'Delete history'}</span>
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {(error || message) && (
+        <p className={`text-sm flex items-center mt-3 ${error ? 'text-red-600 dark:text-red-400' : 'text-zen-mint-600 dark:text-zen-mint-400'}`}>
+          {error && <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />}
+          {error || message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -13,26 +13,37 @@ import {
   AlertCircle,
   Moon,
   Sun,
-  Bell,
   Shield,
   Heart,
   Sparkles,
   Download,
   Trophy,
-  ChevronDown
+  ChevronDown,
+  Cloud,
+  FileText,
+  Lock
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { supabase } from '../lib/supabase';
 import { usePremium } from '../hooks/usePremium';
 import UpsellModal from './UpsellModal';
+import EncryptionSettings from './EncryptionSettings';
+import ReminderSettings from './ReminderSettings';
+import SafetySettings from './SafetySettings';
+import { SafetySettings as SafetySettingsValue } from '../hooks/useSafetyCheck';
 import { fonts } from '../data/fonts';
+import { getDeviceTimezone, getSupportedTimezones, formatTimezone } from '../utils/dates';
 import Logo from './Logo';
 import { useNavigate } from 'react-router-dom';
 import LottieAvatar from './LottieAvatar';
 
 interface SettingsScreenProps {
   onBack: () => void;
+  isDraftSyncEnabled?: boolean;
+  onDraftSyncChange?: (enabled: boolean) => void;
+  safetySettings?: SafetySettingsValue;
+  onSafetySettingsChange?: (changes: Partial<SafetySettingsValue>) => Promise<{ success: boolean; error?: string }>;
 }
 
 interface UserProfile {
@@ -41,11 +52,18 @@ interface UserProfile {
   current_streak: number;
   best_streak: number;
   last_entry_date: string | null;
+  timezone: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export default function SettingsScreen({ onBack }: SettingsScreenProps) {
+export default function SettingsScreen({
+  onBack,
+  isDraftSyncEnabled = false,
+  onDraftSyncChange,
+  safetySettings,
+  onSafetySettingsChange
+}: SettingsScreenProps) {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const { isPremium, isUpsellModalOpen, upsellContent, showUpsellModal, hideUpsellModal } = usePremium();
@@ -62,23 +80,23 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
   const [originalName, setOriginalName] = useState('');
   const [journalingGoal, setJournalingGoal] = useState(3);
   const [originalGoal, setOriginalGoal] = useState(3);
+  const [timezone, setTimezone] = useState(getDeviceTimezone());
+  const [originalTimezone, setOriginalTimezone] = useState(getDeviceTimezone());
   
+  const [timezones] = useState(getSupportedTimezones);
+
   // Font customization
   const [selectedFont, setSelectedFont] = useState('');
   
-  // Preferences state
-  const [notifications, setNotifications] = useState(true);
-  
   // Modal states
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
 
-  // Load user profile and preferences
+  // Load user profile
   useEffect(() => {
     if (user) {
       loadUserProfile();
-      loadUserPreferences();
     }
   }, [user]);
 
@@ -106,6 +124,8 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
       setOriginalName(profileData.name || user.name || '');
       setJournalingGoal(profileData.journaling_goal_frequency || 3);
       setOriginalGoal(profileData.journaling_goal_frequency || 3);
+      setTimezone(profileData.timezone || getDeviceTimezone());
+      setOriginalTimezone(profileData.timezone || getDeviceTimezone());
       setSelectedFont(profileData.selected_font || 'Inter');
     } catch (err) {
       console.error('Error loading profile:', err);
@@ -115,17 +135,10 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     }
   };
 
-  const loadUserPreferences = () => {
-    // Load preferences from localStorage
-    const savedNotifications = localStorage.getItem('zensai-notifications');
-    
-    setNotifications(savedNotifications !== 'false'); // Default to true
-  };
-
   const handleSaveProfile = async () => {
     if (!user || !profile) return;
 
-    if (displayName.trim() === originalName && journalingGoal === originalGoal) {
+    if (displayName.trim() === originalName && journalingGoal === originalGoal && timezone === originalTimezone) {
       setSuccess('No changes to save');
       setTimeout(() => setSuccess(''), 3000);
       return;
@@ -148,6 +161,10 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
         updateData.journaling_goal_frequency = journalingGoal;
       }
 
+      if (timezone !== originalTimezone) {
+        updateData.timezone = timezone;
+      }
+
       const { error: updateError } = await supabase
         .from('profiles')
         .update(updateData)
@@ -161,10 +178,12 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
 
       setOriginalName(displayName.trim());
       setOriginalGoal(journalingGoal);
+      setOriginalTimezone(timezone);
       setProfile(prev => prev ? { 
         ...prev, 
         name: displayName.trim(),
-        journaling_goal_frequency: journalingGoal
+        journaling_goal_frequency: journalingGoal,
+        timezone
       } : null);
       setSuccess('Profile updated successfully!');
       setTimeout(() => setSuccess(''), 3000);
@@ -182,14 +201,14 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     setTimeout(() => setSuccess(''), 2000);
   };
 
-  const handleToggleNotifications = (enabled: boolean) => {
-    setNotifications(enabled);
-    localStorage.setItem('zensai-notifications', enabled.toString());
-    setSuccess(enabled ? 'Notifications enabled' : 'Notifications disabled');
+  const handleToggleDraftSync = (enabled: boolean) => {
+    if (!onDraftSyncChange) return;
+    onDraftSyncChange(enabled);
+    setSuccess(enabled ? 'Drafts will sync across your devices' : 'Drafts will stay on this device');
     setTimeout(() => setSuccess(''), 2000);
   };
 
-  const handleExportData = async () => {
+  const handleExportData = async (format: 'json' | 'markdown') => {
     if (!user) return;
 
     try {
@@ -197,7 +216,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
       setError('');
 
       const { data, error: functionError } = await supabase.functions.invoke('export-journal-data', {
-        body: { user_id: user.id }
+        body: { user_id: user.id, format }
       });
 
       if (functionError) {
@@ -212,13 +231,13 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
       }
 
       // Create and download the file
-      const blob = new Blob([JSON.stringify(data.data, null, 2)], { 
-        type: 'application/json' 
-      });
+      const blob = format === 'markdown'
+        ? new Blob([data.data.markdown], { type: 'text/markdown' })
+        : new Blob([JSON.stringify(data.data, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `zensai-journal-export-${new Date().toISOString().split('T')[0]}.json`;
+      link.download = `zensai-journal-export-${new Date().toISOString().split('T')[0]}.${format === 'markdown' ? 'md' : 'json'}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -288,7 +307,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
     });
   };
 
-  const hasUnsavedChanges = displayName.trim() !== originalName || journalingGoal !== originalGoal;
+  const hasUnsavedChanges = displayName.trim() !== originalName || journalingGoal !== originalGoal || timezone !== originalTimezone;
 
   if (isLoading) {
     return (
@@ -537,6 +556,33 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                     Set your weekly journaling goal to stay motivated and track your progress.
                   </p>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-zen-sage-700 dark:text-gray-300 mb-2">
+                    Time Zone
+                  </label>
+                  <select
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    className="w-full px-4 py-3 border border-zen-sage-200 dark:border-gray-600 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent bg-white/70 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200"
+                    disabled={isSaving}
+                  >
+                    {(timezones.includes(timezone) ? timezones : [timezone, ...timezones]).map(zone => (
+                      <option key={zone} value={zone}>{formatTimezone(zone)}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-2">
+                    Your streaks and "today" follow this time zone.
+                    {timezone !== getDeviceTimezone() && (
+                      <button
+                        onClick={() => setTimezone(getDeviceTimezone())}
+                        className="ml-1 text-zen-mint-600 dark:text-zen-mint-400 hover:text-zen-mint-700 font-medium"
+                      >
+                        Use this device's ({formatTimezone(getDeviceTimezone())})
+                      </button>
+                    )}
+                  </p>
+                </div>
                 
                 {hasUnsavedChanges && (
                   <motion.button
@@ -597,30 +643,40 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                   </button>
                 </div>
 
-                {/* Notifications Toggle */}
-                <div className="flex items-center justify-between p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
-                  <div className="flex items-center space-x-3">
-                    <Bell className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" />
-                    <div>
-                      <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">Notifications</h4>
-                      <p className="text-sm text-zen-sage-600 dark:text-gray-400">
-                        Gentle reminders for journaling
-                      </p>
+                {/* Journaling Reminders */}
+                <ReminderSettings />
+
+                {/* Safety Check */}
+                {safetySettings && onSafetySettingsChange && (
+                  <SafetySettings settings={safetySettings} onChange={onSafetySettingsChange} />
+                )}
+
+                {/* Draft Sync Toggle */}
+                {onDraftSyncChange && (
+                  <div className="flex items-center justify-between p-4 bg-zen-sage-50 dark:bg-gray-700 rounded-2xl">
+                    <div className="flex items-center space-x-3">
+                      <Cloud className="w-5 h-5 text-zen-sage-600 dark:text-gray-300" />
+                      <div>
+                        <h4 className="font-medium text-zen-sage-800 dark:text-gray-200">Sync Drafts</h4>
+                        <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+                          Continue unsaved drafts on your other devices (photos stay on this device)
+                        </p>
+                      </div>
                     </div>
-                  </div>
-                  <button
-                    onClick={() => handleToggleNotifications(!notifications)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                      notifications ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
-                    }`}
-                  >
-                    <span
-                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                        notifications ? 'translate-x-6' : 'translate-x-1'
+                    <button
+                      onClick={() => handleToggleDraftSync(!isDraftSyncEnabled)}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                        isDraftSyncEnabled ? 'bg-zen-mint-400' : 'bg-zen-sage-300'
                       }`}
-                    />
-                  </button>
-                </div>
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          isDraftSyncEnabled ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -679,6 +735,16 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               </div>
             </div>
 
+            {/* Encryption Section */}
+            <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
+              <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center">
+                <Lock className="w-5 h-5 mr-2 text-zen-mint-500" />
+                Encryption
+              </h3>
+
+              <EncryptionSettings />
+            </div>
+
             {/* Data & Privacy Section */}
             <div className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-3xl p-6 shadow-xl border border-white/20 dark:border-gray-600/20">
               <h3 className="text-lg font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-4 flex items-center">
@@ -688,7 +754,7 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
               
               <div className="space-y-4">
                 <button
-                  onClick={handleExportData}
+                  onClick={() => handleExportData('json')}
                   disabled={isExporting}
                   className="flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full"
                 >
@@ -704,9 +770,18 @@ export default function SettingsScreen({ onBack }: SettingsScreenProps) {
                     </>
                   )}
                 </button>
+
+                <button
+                  onClick={() => handleExportData('markdown')}
+                  disabled={isExporting}
+                  className="flex items-center space-x-2 px-4 py-3 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-800 dark:text-gray-200 rounded-2xl hover:bg-zen-sage-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full"
+                >
+                  <FileText className="w-4 h-4" />
+                  <span>Export as Markdown</span>
+                </button>
                 
                 <p className="text-xs text-zen-sage-500 dark:text-gray-400">
-                  Download all your journal entries and data in JSON format.
+                  Download all your journal entries and data in JSON format, or your entries as a Markdown document with their formatting intact.
                 </p>
               </div>
             </div>
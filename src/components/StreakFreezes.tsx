@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Snowflake, Flame } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import { getLocalDateString, addDays, daysBetween, parseDateOnly } from '../utils/dates';
+
+// Must match create-checkout-session
+const STREAK_FREEZE_PACK_SIZE = 3;
+const MAX_STREAK_FREEZES = 10;
+
+type DayState = 'journaled' | 'frozen' | 'missed' | 'today';
+
+interface StreakFreezesProps {
+  currentStreak: number;
+  lastEntryDate: string | null;
+  timezone: string | null;
+  freezesAvailable: number;
+  freezeDays: string[];
+  entryDates: string[];
+  isPremium: boolean;
+}
+
+// The days the current streak spans, walking back from its last entry; frozen days don't count
+const getStreakStart = (lastEntryDate: string, currentStreak: number, frozen: Set<string>): string => {
+  let day = lastEntryDate;
+  let remaining = currentStreak;
+
+  while (remaining > 0) {
+    if (!frozen.has(day)) remaining--;
+    if (remaining > 0) day = addDays(day, -1);
+  }
+
+  return day;
+};
+
+export default function StreakFreezes({
+  currentStreak,
+  lastEntryDate,
+  timezone,
+  freezesAvailable,
+  freezeDays,
+  entryDates,
+  isPremium
+}: StreakFreezesProps) {
+  const { user } = useAuth();
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [purchaseError, setPurchaseError] = useState('');
+
+  const today = getLocalDateString(timezone);
+  const frozen = new Set(freezeDays);
+  const journaled = new Set(entryDates);
+  const streakStart = lastEntryDate && currentStreak > 0
+    ? getStreakStart(lastEntryDate, currentStreak, frozen)
+    : null;
+
+  const getDayState = (day: string): DayState => {
+    if (frozen.has(day)) return 'frozen';
+    if (journaled.has(day)) return 'journaled';
+    // Every unfrozen day inside the streak has an entry, even if it isn't loaded
+    if (streakStart && lastEntryDate && day >= streakStart && day <= lastEntryDate) return 'journaled';
+    return day === today ? 'today' : 'missed';
+  };
+
+  const days = Array.from({ length: 7 }, (_, index) => addDays(today, index - 6));
+
+  // Missed days since the last entry, which the next entry will try to cover with freezes
+  const missedDays = lastEntryDate ? Math.max(daysBetween(lastEntryDate, today) - 1, 0) : 0;
+  let statusMessage = '';
+  if (currentStreak > 0 && missedDays > 0) {
+    statusMessage = missedDays <= freezesAvailable
+      ? `Write today and ${missedDays === 1 ? 'a streak freeze' : `${missedDays} streak freezes`} will keep your ${currentStreak}-day streak going.`
+      : 'Every day is a fresh start. Your next entry begins a new streak. 🌱';
+  }
+
+  const priceId = import.meta.env.VITE_STRIPE_PRICE_ID_STREAK_FREEZES;
+  const canPurchase = !!priceId && freezesAvailable + STREAK_FREEZE_PACK_SIZE <= MAX_STREAK_FREEZES;
+
+  const handlePurchase = async () => {
+    if (!user) return;
+
+    setIsPurchasing(true);
+    setPurchaseError('');
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('create-checkout-session', {
+        body: {
+          priceId,
+          userId: user.id,
+          email: user.email,
+          name: user.name,
+        },
+      });
+
+      if (functionError || !data?.success || !data.url) {
+        console.error('Error creating streak freeze checkout:', functionError || data?.error);
+        setPurchaseError(data?.error || 'Failed to start checkout. Please try again.');
+        return;
+      }
+
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Error purchasing streak freezes:', err);
+      setPurchaseError('An unexpected error occurred. Please try again.');
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="max-w-md mx-auto bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-2xl p-4 mb-6 border border-zen-mint-200 dark:border-gray-700"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.4, delay: 0.3 }}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {days.map(day => {
+            const state = getDayState(day);
+            return (
+              <div key={day} className="flex flex-col items-center">
+                <div
+                  className={`w-8 h-8 rounded-full flex items-center justify-center ${
+                    state === 'journaled'
+                      ? 'bg-zen-mint-400 text-white'
+                      : state === 'frozen'
+                        ? 'bg-sky-100 dark:bg-sky-900/40 text-sky-500'
+                        : state === 'today'
+                          ? 'border-2 border-dashed border-zen-mint-300 dark:border-gray-500'
+                          : 'bg-zen-sage-100 dark:bg-gray-700'
+                  }`}
+                  title={state === 'frozen' ? 'Covered by a streak freeze' : state === 'journaled' ? 'Journaled' : undefined}
+                >
+                  {state === 'journaled' && <Flame className="w-4 h-4" />}
+                  {state === 'frozen' && <Snowflake className="w-4 h-4" />}
+                </div>
+                <span className="text-xs text-zen-sage-500 dark:text-gray-400 mt-1">
+                  {parseDateOnly(day).toLocaleDateString('en-US', { weekday: 'narrow' })}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div
+          className="flex flex-col items-center ml-4"
+          title={`Streak freezes cover days you miss. You earn ${isPremium ? 2 : 1} every 7 days of a streak (up to ${isPremium ? 5 : 2}).`}
+        >
+          <div className="flex items-center space-x-1 text-sky-500">
+            <Snowflake className="w-5 h-5" />
+            <span className="text-xl font-bold">{freezesAvailable}</span>
+          </div>
+          <span className="text-xs text-zen-sage-500 dark:text-gray-400">
+            {freezesAvailable === 1 ? 'freeze' : 'freezes'}
+          </span>
+        </div>
+      </div>
+
+      {statusMessage && (
+        <p className="text-sm text-zen-sage-700 dark:text-gray-300 mt-3">{statusMessage}</p>
+      )}
+
+      {canPurchase && (
+        <button
+          onClick={handlePurchase}
+          disabled={isPurchasing}
+          className="mt-3 text-sm text-sky-600 dark:text-sky-400 hover:text-sky-700 font-medium disabled:opacity-50"
+        >
+          {isPurchasing ? 'Opening checkout...' : `Get ${STREAK_FREEZE_PACK_SIZE} more streak freezes`}
+        </button>
+      )}
+      {purchaseError && (
+        <p className="text-xs text-red-600 dark:text-red-400 mt-1">{purchaseError}</p>
+      )}
+    </motion.div>
+  );
+}
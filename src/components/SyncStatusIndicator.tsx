@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+
+interface SyncConflict {
+  entryId: string;
+  label: string;
+}
+
+interface SyncStatusIndicatorProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  onSyncNow: () => void;
+  onResolveConflict: (entryId: string, keep: 'mine' | 'theirs') => void;
+}
+
+export default function SyncStatusIndicator({
+  isOnline,
+  isSyncing,
+  pendingCount,
+  conflicts,
+  onSyncNow,
+  onResolveConflict
+}: SyncStatusIndicatorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const pendingLabel = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to sync`;
+  const title = !isOnline
+    ? `You're offline. ${pendingCount > 0 ? pendingLabel : 'New entries are saved on this device.'}`
+    : isSyncing
+      ? 'Syncing your changes...'
+      : pendingCount > 0
+        ? pendingLabel
+        : 'All changes synced';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-full transition-all duration-300 relative ${
+          isOnline
+            ? 'text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 hover:bg-white/50 dark:hover:bg-gray-700/50'
+            : 'text-zen-peach-600 dark:text-zen-peach-400 bg-zen-peach-50 dark:bg-gray-700'
+        }`}
+        title={title}
+      >
+        {!isOnline ? (
+          <CloudOff className="w-4 h-4" />
+        ) : isSyncing ? (
+          <RefreshCw className="w-4 h-4 animate-spin" />
+        ) : (
+          <Cloud className="w-4 h-4" />
+        )}
+        <span className="text-sm font-medium hidden sm:inline">{isOnline ? 'Online' : 'Offline'}</span>
+        {pendingCount > 0 && (
+          <span className={`absolute -top-1 -right-1 w-5 h-5 text-white text-xs rounded-full flex items-center justify-center font-bold ${
+            conflicts.length > 0 ? 'bg-red-500' : 'bg-zen-peach-400'
+          }`}>
+            {pendingCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            className="absolute right-0 top-full z-30 mt-2 w-72 bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-zen-mint-200 dark:border-gray-600 p-3"
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            transition={{ duration: 0.2 }}
+          >
+            <p className="text-sm text-zen-sage-700 dark:text-gray-300">{title}</p>
+
+            {isOnline && pendingCount > conflicts.length && (
+              <button
+                onClick={onSyncNow}
+                disabled={isSyncing}
+                className="mt-2 w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-zen-mint-700 dark:text-zen-mint-400 hover:bg-zen-mint-50 dark:hover:bg-gray-700 rounded-xl transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                <span>Sync now</span>
+              </button>
+            )}
+
+            {conflicts.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <p className="flex items-start text-xs text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+                  These entries were changed on another device while you edited them offline. The version you don't keep stays in the entry's edit history.
+                </p>
+                {conflicts.map(conflict => (
+                  <div key={conflict.entryId} className="p-2 bg-zen-sage-50 dark:bg-gray-700 rounded-xl">
+                    <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200 truncate mb-2">{conflict.label}</p>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => onResolveConflict(conflict.entryId, 'mine')}
+                        disabled={!isOnline}
+                        className="flex-1 px-2 py-1 text-xs bg-zen-mint-400 text-white rounded-lg hover:bg-zen-mint-500 transition-colors disabled:opacity-50"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        onClick={() => onResolveConflict(conflict.entryId, 'theirs')}
+                        disabled={!isOnline}
+                        className="flex-1 px-2 py-1 text-xs bg-zen-sage-100 dark:bg-gray-600 text-zen-sage-800 dark:text-gray-200 rounded-lg hover:bg-zen-sage-200 dark:hover:bg-gray-500 transition-colors disabled:opacity-50"
+                      >
+                        Keep other version
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Tag, X } from 'lucide-react';
+import { normalizeTag, MAX_TAGS_PER_ENTRY } from '../utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  disabled?: boolean;
+  className?: string;
+}
+
+export default function TagInput({
+  tags,
+  onChange,
+  suggestions = [],
+  disabled = false,
+  className = ''
+}: TagInputProps) {
+  const [inputValue, setInputValue] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+
+  const isFull = tags.length >= MAX_TAGS_PER_ENTRY;
+
+  // Suggest previously used tags that match what the user is typing
+  const matchingSuggestions = useMemo(() => {
+    const query = normalizeTag(inputValue);
+    return suggestions
+      .filter(tag => !tags.includes(tag) && (query === '' || tag.includes(query)))
+      .slice(0, 6);
+  }, [suggestions, tags, inputValue]);
+
+  const addTag = (rawTag: string) => {
+    const tag = normalizeTag(rawTag);
+    if (!tag || tags.includes(tag) || isFull) {
+      setInputValue('');
+      return;
+    }
+    onChange([...tags, tag]);
+    setInputValue('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(inputValue);
+    } else if (e.key === 'Backspace' && inputValue === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-white/50 dark:bg-gray-700/50 border border-zen-mint-200 dark:border-gray-600 rounded-xl focus-within:ring-2 focus-within:ring-zen-mint-400 focus-within:border-transparent transition-all duration-300">
+        <Tag className="w-4 h-4 text-zen-sage-400 dark:text-gray-500" />
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="flex items-center space-x-1 px-2 py-1 bg-zen-mint-100 dark:bg-zen-mint-900/30 text-zen-mint-700 dark:text-zen-mint-400 text-sm rounded-full"
+          >
+            <span>#{tag}</span>
+            {!disabled && (
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="hover:text-zen-mint-900 dark:hover:text-zen-mint-200 transition-colors"
+                title={`Remove ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+        <input
+          type="text"
+          value={inputValue}
+          onChange={(e) => setInputValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (inputValue.trim()) addTag(inputValue);
+          }}
+          placeholder={isFull ? `Up to ${MAX_TAGS_PER_ENTRY} tags` : tags.length === 0 ? 'Add tags like work, family, gratitude...' : 'Add another tag...'}
+          disabled={disabled || isFull}
+          className="flex-1 min-w-[120px] bg-transparent focus:outline-none text-sm text-zen-sage-800 dark:text-gray-200 placeholder-zen-sage-400 dark:placeholder-gray-500"
+        />
+      </div>
+
+      {/* Autocomplete Suggestions */}
+      <AnimatePresence>
+        {isFocused && !isFull && matchingSuggestions.length > 0 && (
+          <motion.div
+            className="absolute z-20 mt-2 w-full bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-zen-mint-200 dark:border-gray-600 p-2 flex flex-wrap gap-2"
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            transition={{ duration: 0.2 }}
+          >
+            {matchingSuggestions.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                // Prevent the input blur from firing before the click registers
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+                className="px-2 py-1 bg-zen-sage-100 dark:bg-gray-700 text-zen-sage-700 dark:text-gray-300 text-sm rounded-full hover:bg-zen-mint-100 dark:hover:bg-zen-mint-900/30 transition-colors"
+              >
+                #{tag}
+              </button>
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
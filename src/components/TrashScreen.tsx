@@ -0,0 +1,185 @@
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trash2, RotateCcw, Clock } from 'lucide-react';
+import { useJournalTrash, getDaysUntilPurge, TRASH_RETENTION_DAYS } from '../hooks/useJournalTrash';
+import LottieAvatar from './LottieAvatar';
+import { moods } from '../data/moods';
+import { stripMarkdown } from '../utils/markdown';
+
+interface TrashScreenProps {
+  onBack: () => void;
+}
+
+export default function TrashScreen({ onBack }: TrashScreenProps) {
+  const { trashedEntries, isLoading, error, restoreEntry, purgeEntry, emptyTrash } = useJournalTrash();
+
+  const getMoodData = (moodString: string) => {
+    const moodLevels: Record<string, number> = { struggling: 1, low: 2, neutral: 3, good: 4, amazing: 5 };
+    return moods.find(m => m.level === (moodLevels[moodString] || 3));
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const handleRestore = async (entryId: string) => {
+    const result = await restoreEntry(entryId);
+    if (!result.success) {
+      window.alert(result.error);
+    }
+  };
+
+  const handlePurge = async (entryId: string) => {
+    if (window.confirm('Permanently delete this entry? This action cannot be undone.')) {
+      const result = await purgeEntry(entryId);
+      if (!result.success) {
+        window.alert(result.error);
+      }
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (window.confirm(`Permanently delete all ${trashedEntries.length} entries in the trash? This action cannot be undone.`)) {
+      const result = await emptyTrash();
+      if (!result.success) {
+        window.alert(result.error);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50">
+      {/* Header */}
+      <motion.header
+        className="relative z-10 p-4 bg-white/30 backdrop-blur-sm border-b border-white/20"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <div className="container mx-auto max-w-4xl flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={onBack}
+              className="p-2 text-zen-sage-600 hover:text-zen-sage-800 hover:bg-white/50 rounded-full transition-all duration-300"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="font-display font-bold text-zen-sage-800 flex items-center">
+                <Trash2 className="w-5 h-5 mr-2 text-zen-sage-500" />
+                Trash
+              </h1>
+              <p className="text-xs text-zen-sage-600">
+                Deleted entries are kept for {TRASH_RETENTION_DAYS} days before they're removed for good
+              </p>
+            </div>
+          </div>
+
+          {trashedEntries.length > 0 && (
+            <button
+              onClick={handleEmptyTrash}
+              className="px-4 py-2 text-sm text-red-600 hover:text-red-700 hover:bg-red-50 rounded-xl transition-all font-medium"
+            >
+              Empty Trash
+            </button>
+          )}
+        </div>
+      </motion.header>
+
+      <div className="container mx-auto px-4 py-6 max-w-4xl">
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-2xl text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="w-12 h-12 border-4 border-zen-mint-400 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : trashedEntries.length === 0 ? (
+          <motion.div
+            className="text-center py-16"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <LottieAvatar mood={3} size="lg" variant="idle" />
+            <h3 className="text-xl font-display font-semibold text-zen-sage-800 mt-6 mb-2">
+              Trash is empty
+            </h3>
+            <p className="text-zen-sage-600">
+              Entries you delete will wait here in case you change your mind.
+            </p>
+          </motion.div>
+        ) : (
+          <div className="space-y-4">
+            {trashedEntries.map((entry, index) => {
+              const moodData = getMoodData(entry.mood);
+              const daysLeft = getDaysUntilPurge(entry.deleted_at);
+              const plainContent = stripMarkdown(entry.content);
+
+              return (
+                <motion.div
+                  key={entry.id}
+                  className="bg-white/70 backdrop-blur-sm rounded-2xl p-6 shadow-lg border border-white/20"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(index, 10) * 0.05 }}
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex items-center space-x-3">
+                      <div className="text-xl">{moodData?.emoji}</div>
+                      <div>
+                        {entry.title && (
+                          <h4 className="font-display font-semibold text-zen-sage-800">{entry.title}</h4>
+                        )}
+                        <p className="text-sm text-zen-sage-600">
+                          Written {formatDate(entry.created_at)} • {moodData?.label}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleRestore(entry.id)}
+                        className="flex items-center space-x-1 px-3 py-2 text-sm text-zen-mint-700 bg-zen-mint-100 hover:bg-zen-mint-200 rounded-lg transition-all"
+                        title="Restore entry"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        <span>Restore</span>
+                      </button>
+                      <button
+                        onClick={() => handlePurge(entry.id)}
+                        className="p-2 text-zen-sage-500 hover:text-red-600 hover:bg-red-100 rounded-lg transition-all"
+                        title="Delete forever"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <p className="text-zen-sage-700 leading-relaxed">
+                    {plainContent.length > 200 ? `${plainContent.substring(0, 200)}...` : plainContent}
+                  </p>
+
+                  <p className="flex items-center space-x-1 text-xs text-zen-sage-500 mt-3">
+                    <Clock className="w-3 h-3" />
+                    <span>
+                      {daysLeft === 0
+                        ? 'Will be permanently deleted soon'
+                        : `Permanently deleted in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`
+                      }
+                    </span>
+                  </p>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
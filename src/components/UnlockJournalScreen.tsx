@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, KeyRound, AlertCircle, LogOut, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from '../hooks/useEncryption';
+import Logo from './Logo';
+
+// Shown instead of the app while an end-to-end encrypted journal is locked
+export default function UnlockJournalScreen() {
+  const { logout } = useAuth();
+  const { unlock, recoverWithKey, error: loadError, retry } = useEncryption();
+  const [mode, setMode] = useState<'passphrase' | 'recovery'>('passphrase');
+  const [passphrase, setPassphrase] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState('');
+
+  const switchMode = (nextMode: 'passphrase' | 'recovery') => {
+    setMode(nextMode);
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (mode === 'recovery' && newPassphrase !== confirmPassphrase) {
+      setError('The new passphrases don\'t match.');
+      return;
+    }
+
+    setIsUnlocking(true);
+    const result = mode === 'passphrase'
+      ? await unlock(passphrase)
+      : await recoverWithKey(recoveryKey, newPassphrase);
+    setIsUnlocking(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to unlock your journal');
+    }
+  };
+
+  const inputClassName = 'w-full px-4 py-3 bg-white/70 dark:bg-gray-700 border-2 border-zen-mint-200 dark:border-gray-600 rounded-2xl focus:outline-none focus:ring-2 focus:ring-zen-mint-400 focus:border-transparent placeholder-zen-sage-400 dark:placeholder-gray-500 text-zen-sage-800 dark:text-gray-200';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zen-mint-50 via-zen-cream-50 to-zen-lavender-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+      <motion.div
+        className="w-full max-w-md bg-white/90 dark:bg-gray-800/90 backdrop-blur-sm rounded-3xl p-8 shadow-2xl border border-white/30 dark:border-gray-600/30"
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="text-center mb-6">
+          <div className="flex justify-center mb-4">
+            <Logo size="lg" />
+          </div>
+          <h1 className="text-2xl font-display font-bold text-zen-sage-800 dark:text-gray-200 mb-2 flex items-center justify-center">
+            <Lock className="w-5 h-5 mr-2 text-zen-mint-500" />
+            Your journal is locked
+          </h1>
+          <p className="text-sm text-zen-sage-600 dark:text-gray-400">
+            {loadError
+              ? 'Your entries are end-to-end encrypted when this is turned on, so we need to check your settings first.'
+              : mode === 'passphrase'
+                ? 'Your entries are end-to-end encrypted. Enter your passphrase to read and write them on this device.'
+                : 'Enter the recovery key you saved when you turned on encryption, then choose a new passphrase.'}
+          </p>
+        </div>
+
+        <AnimatePresence>
+          {(error || loadError) && (
+            <motion.div
+              className="flex items-start space-x-2 p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-2xl text-sm"
+              initial={{ opacity: 0, y: -5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+            >
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error || loadError}</span>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {loadError ? (
+          <button
+            onClick={retry}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 transition-colors shadow-md"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'passphrase' ? (
+              <div className="relative">
+                <input
+                  type={showPassphrase ? 'text' : 'password'}
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  autoComplete="current-password"
+                  autoFocus
+                  disabled={isUnlocking}
+                  className={`${inputClassName} pr-12`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassphrase(!showPassphrase)}
+                  className="absolute right-4 top-1/2 transform -translate-y-1/2 text-zen-sage-400 hover:text-zen-sage-600 dark:hover:text-gray-300"
+                  title={showPassphrase ? 'Hide passphrase' : 'Show passphrase'}
+                >
+                  {showPassphrase ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+              </div>
+            ) : (
+              <>
+                <input
+                  type="text"
+                  value={recoveryKey}
+                  onChange={(e) => setRecoveryKey(e.target.value)}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  spellCheck={false}
+                  autoFocus
+                  disabled={isUnlocking}
+                  className={`${inputClassName} font-mono text-sm`}
+                />
+                <input
+                  type="password"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  placeholder="New passphrase"
+                  autoComplete="new-password"
+                  disabled={isUnlocking}
+                  className={inputClassName}
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm new passphrase"
+                  autoComplete="new-password"
+                  disabled={isUnlocking}
+                  className={inputClassName}
+                />
+              </>
+            )}
+
+            <button
+              type="submit"
+              disabled={isUnlocking || (mode === 'passphrase' ? !passphrase : !recoveryKey || !newPassphrase)}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-gradient-to-r from-zen-mint-400 to-zen-mint-500 text-white rounded-2xl hover:from-zen-mint-500 hover:to-zen-mint-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-md"
+            >
+              {isUnlocking ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  <span>Unlocking...</span>
+                </>
+              ) : (
+                <>
+                  <KeyRound className="w-4 h-4" />
+                  <span>{mode === 'passphrase' ? 'Unlock Journal' : 'Reset Passphrase & Unlock'}</span>
+                </>
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => switchMode(mode === 'passphrase' ? 'recovery' : 'passphrase')}
+              disabled={isUnlocking}
+              className="w-full text-sm text-zen-sage-600 dark:text-gray-400 hover:text-zen-sage-800 dark:hover:text-gray-200 transition-colors"
+            >
+              {mode === 'passphrase' ? 'Forgot your passphrase? Use your recovery key' : 'Back to passphrase'}
+            </button>
+          </form>
+        )}
+
+        <button
+          onClick={logout}
+          className="mt-6 w-full flex items-center justify-center space-x-2 text-sm text-zen-sage-500 dark:text-gray-400 hover:text-zen-sage-700 dark:hover:text-gray-200 transition-colors"
+        >
+          <LogOut className="w-4 h-4" />
+          <span>Sign Out</span>
+        </button>
+      </motion.div>
+    </div>
+  );
+}
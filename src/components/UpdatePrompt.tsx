@@ -0,0 +1,80 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCw, X, CheckCircle } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+// Check for a new version of the app every hour while it stays open
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Registers the service worker and lets the user choose when a new version takes over
+export default function UpdatePrompt() {
+  const {
+    offlineReady: [offlineReady, setOfflineReady],
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_swUrl, registration) {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) {
+          registration.update();
+        }
+      }, UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+
+  const close = () => {
+    setOfflineReady(false);
+    setNeedRefresh(false);
+  };
+
+  return (
+    <AnimatePresence>
+      {(offlineReady || needRefresh) && (
+        <motion.div
+          className="fixed bottom-4 right-4 left-4 sm:left-auto sm:max-w-sm z-50 bg-white dark:bg-gray-800 border border-zen-mint-200 dark:border-gray-600 rounded-2xl shadow-xl px-5 py-4"
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          role="status"
+        >
+          <div className="flex items-start space-x-3">
+            {needRefresh ? (
+              <RefreshCw className="w-5 h-5 text-zen-mint-500 flex-shrink-0 mt-0.5" />
+            ) : (
+              <CheckCircle className="w-5 h-5 text-zen-mint-500 flex-shrink-0 mt-0.5" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-zen-sage-800 dark:text-gray-200">
+                {needRefresh ? 'A new version of Zensai is available' : 'Zensai is ready to work offline'}
+              </p>
+              {needRefresh && (
+                <p className="text-xs text-zen-sage-600 dark:text-gray-400 mt-1">
+                  Reload to get the latest version. Your drafts are kept.
+                </p>
+              )}
+              {needRefresh && (
+                <button
+                  onClick={() => updateServiceWorker(true)}
+                  className="mt-3 px-4 py-2 bg-zen-mint-400 text-white text-sm rounded-xl hover:bg-zen-mint-500 transition-colors"
+                >
+                  Reload
+                </button>
+              )}
+            </div>
+            <button
+              onClick={close}
+              className="flex-shrink-0 p-1 text-zen-sage-400 hover:text-zen-sage-600 dark:hover:text-gray-200 rounded-full transition-colors"
+              title={needRefresh ? 'Later' : 'Dismiss'}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
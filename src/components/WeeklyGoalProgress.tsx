@@ -0,0 +1,126 @@
+import { motion } from 'framer-motion';
+import { Target } from 'lucide-react';
+import { WeeklyGoalWeek } from '../hooks/useWeeklyGoals';
+import { daysBetween, parseDateOnly } from '../utils/dates';
+
+interface WeeklyGoalProgressProps {
+  currentWeek: WeeklyGoalWeek;
+  completedWeeks: WeeklyGoalWeek[];
+  completionRate: number | null;
+  goalStreak: number;
+  bestGoalStreak: number;
+  today: string;
+}
+
+const RING_RADIUS = 28;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+const HISTORY_WEEKS = 8;
+
+const formatWeek = (weekStart: string) =>
+  parseDateOnly(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function WeeklyGoalProgress({
+  currentWeek,
+  completedWeeks,
+  completionRate,
+  goalStreak,
+  bestGoalStreak,
+  today
+}: WeeklyGoalProgressProps) {
+  const { daysJournaled, goal, goalMet } = currentWeek;
+  const progress = Math.min(daysJournaled / goal, 1);
+  const daysNeeded = goal - daysJournaled;
+  // Including today
+  const daysLeftInWeek = 7 - daysBetween(currentWeek.weekStart, today);
+
+  let statusMessage: string;
+  if (goalMet) {
+    statusMessage = 'Goal met this week! 🎉';
+  } else if (daysNeeded <= daysLeftInWeek) {
+    statusMessage = `${daysNeeded} more ${daysNeeded === 1 ? 'day' : 'days'} to reach your goal`;
+  } else {
+    statusMessage = 'A fresh week starts Monday. 🌱';
+  }
+
+  // Oldest first, so the bars read left to right
+  const history = completedWeeks.slice(0, HISTORY_WEEKS).reverse();
+
+  return (
+    <motion.div
+      className="max-w-md mx-auto bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-2xl p-4 mb-6 border border-zen-mint-200 dark:border-gray-700"
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.4, delay: 0.35 }}
+    >
+      <div className="flex items-center space-x-4">
+        <div className="relative w-16 h-16 flex-shrink-0">
+          <svg className="w-16 h-16 -rotate-90" viewBox="0 0 64 64">
+            <circle
+              cx="32"
+              cy="32"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="6"
+              className="stroke-zen-sage-100 dark:stroke-gray-700"
+            />
+            <motion.circle
+              cx="32"
+              cy="32"
+              r={RING_RADIUS}
+              fill="none"
+              strokeWidth="6"
+              strokeLinecap="round"
+              strokeDasharray={RING_CIRCUMFERENCE}
+              initial={{ strokeDashoffset: RING_CIRCUMFERENCE }}
+              animate={{ strokeDashoffset: RING_CIRCUMFERENCE * (1 - progress) }}
+              transition={{ duration: 0.8, ease: 'easeOut' }}
+              className={goalMet ? 'stroke-zen-mint-500' : 'stroke-zen-peach-400'}
+            />
+          </svg>
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-sm font-bold text-zen-sage-800 dark:text-gray-200">
+              {daysJournaled}/{goal}
+            </span>
+          </div>
+        </div>
+
+        <div className="text-left flex-1">
+          <div className="flex items-center space-x-2">
+            <Target className="w-4 h-4 text-zen-mint-600 dark:text-zen-mint-400" />
+            <span className="font-medium text-zen-sage-800 dark:text-gray-200">This week's goal</span>
+          </div>
+          <p className="text-sm text-zen-sage-600 dark:text-gray-400 mt-1">{statusMessage}</p>
+          {goalStreak > 0 && (
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-1">
+              🎯 {goalStreak}-week goal streak{bestGoalStreak > goalStreak ? ` • Best: ${bestGoalStreak}` : ''}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-end space-x-1 h-10">
+            {history.map(week => (
+              <div
+                key={week.weekStart}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={`Week of ${formatWeek(week.weekStart)}: ${week.daysJournaled}/${week.goal} days`}
+              >
+                <div
+                  className={`rounded-sm ${week.goalMet ? 'bg-zen-mint-400' : 'bg-zen-sage-200 dark:bg-gray-600'}`}
+                  style={{ height: `${Math.max((week.daysJournaled / 7) * 100, 8)}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          {completionRate !== null && (
+            <p className="text-xs text-zen-sage-500 dark:text-gray-400 mt-2">
+              Goal met in {completionRate}% of the last {completedWeeks.length} {completedWeeks.length === 1 ? 'week' : 'weeks'}
+            </p>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
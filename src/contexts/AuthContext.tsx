@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { unsubscribeFromPush } from '../lib/pushNotifications';
+import { getDeviceTimezone } from '../utils/dates';
 
 interface User {
   id: string;
@@ -23,6 +25,19 @@ interface AuthContextType extends AuthState {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Earlier service workers cached every Supabase read, journal entries included. Nothing writes to
+// that cache any more, so it's deleted wherever it's still on disk.
+const LEGACY_READ_CACHE = 'zensai-supabase-reads';
+// Reads the service worker keeps for offline use (see vite.config.ts), dropped on sign-out
+const READ_CACHE = 'zensai-settings-reads';
+
+const deleteReadCaches = (cacheNames: string[]) => {
+  if ('caches' in window) {
+    Promise.all(cacheNames.map(name => caches.delete(name)))
+      .catch(err => console.warn('Failed to clear cached reads:', err));
+  }
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
@@ -31,6 +46,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   useEffect(() => {
+    deleteReadCaches([LEGACY_READ_CACHE]);
+
     // Get initial session
     const getInitialSession = async () => {
       try {
@@ -79,6 +96,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           isLoading: false
         });
       } else if (event === 'SIGNED_OUT') {
+        deleteReadCaches([LEGACY_READ_CACHE, READ_CACHE]);
         setAuthState({
           user: null,
           isAuthenticated: false,
@@ -141,7 +159,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         password,
         options: {
           data: {
-            name: name
+            name: name,
+            // Streaks and "today" are counted in this zone, see handle_new_user
+            timezone: getDeviceTimezone()
           }
         }
       });
@@ -182,10 +202,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = async (): Promise<void> => {
     try {
+      // Reminders for this account shouldn't keep arriving on a browser it signed out of
+      await unsubscribeFromPush();
+
       const { error } = await supabase.auth.signOut();
       if (error) {
         console.error('Logout error:', error);
       }
+
       // User state will be updated by the auth state change listener
     } catch (error) {
       console.error('Logout error:', error);
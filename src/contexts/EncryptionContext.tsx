@@ -0,0 +1,322 @@
+import { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import {
+  EncryptionKeyRecord,
+  MIN_PASSPHRASE_LENGTH,
+  createEncryptionKeys,
+  unlockWithPassphrase,
+  unlockWithRecoveryKey,
+  wrapWithPassphrase,
+  wrapWithNewRecoveryKey,
+  encryptText,
+  decryptText
+} from '../lib/entryCrypto';
+
+// Columns an entry (or revision) carries when end-to-end encryption is on
+export interface EncryptedEntryFields {
+  content: string;
+  title: string | null;
+  is_encrypted?: boolean;
+  encrypted_content?: string | null;
+  encrypted_title?: string | null;
+}
+
+export const UNREADABLE_ENTRY_TEXT = '*This entry could not be decrypted.*';
+
+interface EncryptionContextType {
+  isEncryptionEnabled: boolean;
+  isUnlocked: boolean;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => void;
+  enableEncryption: (passphrase: string) => Promise<{ success: boolean; recoveryKey?: string; error?: string }>;
+  unlock: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  recoverWithKey: (recoveryKey: string, newPassphrase: string) => Promise<{ success: boolean; error?: string }>;
+  changePassphrase: (newPassphrase: string) => Promise<{ success: boolean; error?: string }>;
+  regenerateRecoveryKey: () => Promise<{ success: boolean; recoveryKey?: string; error?: string }>;
+  lock: () => void;
+  encryptEntryFields: (content: string, title: string | null) => Promise<Required<EncryptedEntryFields>>;
+  decryptEntryFields: <T extends EncryptedEntryFields>(entry: T) => Promise<T>;
+}
+
+// Read with useEncryption (hooks/useEncryption)
+export const EncryptionContext = createContext<EncryptionContextType | undefined>(undefined);
+
+// The key record is only ever stored wrapped, so a copy is kept for opening the app offline
+const keyRecordStorageKey = (userId: string) => `zensai-encryption-key-${userId}`;
+
+const readCachedKeyRecord = (userId: string): EncryptionKeyRecord | null | undefined => {
+  const stored = localStorage.getItem(keyRecordStorageKey(userId));
+  if (stored === null) return undefined;
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return undefined;
+  }
+};
+
+const cacheKeyRecord = (userId: string, record: EncryptionKeyRecord | null) => {
+  localStorage.setItem(keyRecordStorageKey(userId), JSON.stringify(record));
+};
+
+const passphraseError = (passphrase: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Your passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`;
+  }
+  return null;
+};
+
+export function EncryptionProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [keyRecord, setKeyRecord] = useState<EncryptionKeyRecord | null>(null);
+  // The unwrapped key only ever lives in memory; reloading the app locks the journal again
+  const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+  // Which user's key record has been loaded, so the app waits for it after every sign-in
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const userId = user?.id;
+  const isLoading = !!userId && loadedUserId !== userId;
+
+  // Keyed on the user id so a refreshed session doesn't lock the journal again
+  useEffect(() => {
+    setDataKey(null);
+    setKeyRecord(null);
+    setError(null);
+
+    if (!userId) return;
+
+    let cancelled = false;
+
+    const loadKeyRecord = async () => {
+      const { data, error: loadError } = await supabase
+        .from('user_encryption_keys')
+        .select('kdf_salt, kdf_iterations, wrapped_key, recovery_salt, recovery_wrapped_key')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (cancelled) return;
+
+      const cachedRecord = loadError && !navigator.onLine ? readCachedKeyRecord(userId) : undefined;
+
+      if (!loadError) {
+        setKeyRecord(data || null);
+        cacheKeyRecord(userId, data || null);
+      } else if (cachedRecord !== undefined) {
+        // Offline: use the settings this device saw last time
+        setKeyRecord(cachedRecord);
+      } else {
+        // Fail closed: without the key record we can't tell whether new entries must be encrypted
+        console.error('Error loading encryption settings:', loadError);
+        setError('We couldn\'t check your encryption settings. Please try again.');
+      }
+      setLoadedUserId(userId);
+    };
+
+    loadKeyRecord();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, reloadCount]);
+
+  const retry = () => {
+    setLoadedUserId(null);
+    setReloadCount(count => count + 1);
+  };
+
+  const enableEncryption = async (passphrase: string): Promise<{ success: boolean; recoveryKey?: string; error?: string }> => {
+    if (!user) {
+      return { success: false, error: 'You must be logged in to turn on encryption' };
+    }
+
+    const invalid = passphraseError(passphrase);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    try {
+      const { dataKey: newKey, record, recoveryKey } = await createEncryptionKeys(passphrase);
+
+      const { error } = await supabase
+        .from('user_encryption_keys')
+        .insert({ user_id: user.id, ...record });
+
+      if (error) {
+        console.error('Error saving encryption key:', error);
+        return { success: false, error: 'Failed to turn on encryption. Please try again.' };
+      }
+
+      setKeyRecord(record);
+      cacheKeyRecord(user.id, record);
+      setDataKey(newKey);
+      return { success: true, recoveryKey };
+    } catch (err) {
+      console.error('Error turning on encryption:', err);
+      return { success: false, error: 'Encryption is not supported in this browser.' };
+    }
+  };
+
+  const unlock = async (passphrase: string): Promise<{ success: boolean; error?: string }> => {
+    if (!keyRecord) {
+      return { success: false, error: 'Encryption is not turned on' };
+    }
+
+    const key = await unlockWithPassphrase(keyRecord, passphrase);
+    if (!key) {
+      return { success: false, error: 'That passphrase is incorrect.' };
+    }
+
+    setDataKey(key);
+    return { success: true };
+  };
+
+  const savePassphrase = async (key: CryptoKey, newPassphrase: string): Promise<{ success: boolean; error?: string }> => {
+    if (!user || !keyRecord) {
+      return { success: false, error: 'Encryption is not turned on' };
+    }
+
+    const fields = await wrapWithPassphrase(key, newPassphrase);
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update(fields)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving passphrase:', error);
+      return { success: false, error: 'Failed to save your new passphrase. Please try again.' };
+    }
+
+    setKeyRecord({ ...keyRecord, ...fields });
+    cacheKeyRecord(user.id, { ...keyRecord, ...fields });
+    return { success: true };
+  };
+
+  // A forgotten passphrase is replaced by unlocking with the recovery key
+  const recoverWithKey = async (recoveryKey: string, newPassphrase: string): Promise<{ success: boolean; error?: string }> => {
+    if (!keyRecord) {
+      return { success: false, error: 'Encryption is not turned on' };
+    }
+
+    const invalid = passphraseError(newPassphrase);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const key = await unlockWithRecoveryKey(keyRecord, recoveryKey);
+    if (!key) {
+      return { success: false, error: 'That recovery key is incorrect.' };
+    }
+
+    const result = await savePassphrase(key, newPassphrase);
+    if (result.success) {
+      setDataKey(key);
+    }
+    return result;
+  };
+
+  const changePassphrase = async (newPassphrase: string): Promise<{ success: boolean; error?: string }> => {
+    if (!dataKey) {
+      return { success: false, error: 'Unlock your journal first' };
+    }
+
+    const invalid = passphraseError(newPassphrase);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return savePassphrase(dataKey, newPassphrase);
+  };
+
+  // Replaces the recovery key; the old one stops working immediately
+  const regenerateRecoveryKey = async (): Promise<{ success: boolean; recoveryKey?: string; error?: string }> => {
+    if (!user || !keyRecord || !dataKey) {
+      return { success: false, error: 'Unlock your journal first' };
+    }
+
+    const { recoveryKey, fields } = await wrapWithNewRecoveryKey(dataKey);
+
+    const { error } = await supabase
+      .from('user_encryption_keys')
+      .update(fields)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error saving recovery key:', error);
+      return { success: false, error: 'Failed to create a new recovery key. Please try again.' };
+    }
+
+    setKeyRecord({ ...keyRecord, ...fields });
+    cacheKeyRecord(user.id, { ...keyRecord, ...fields });
+    return { success: true, recoveryKey };
+  };
+
+  const lock = () => {
+    setDataKey(null);
+  };
+
+  // Column values to write for an entry. With encryption on, the plaintext columns stay empty.
+  const encryptEntryFields = useCallback(async (
+    content: string,
+    title: string | null
+  ): Promise<Required<EncryptedEntryFields>> => {
+    if (!keyRecord) {
+      return { content, title, is_encrypted: false, encrypted_content: null, encrypted_title: null };
+    }
+
+    if (!dataKey) {
+      throw new Error('Unlock your journal to save entries');
+    }
+
+    return {
+      content: '',
+      title: null,
+      is_encrypted: true,
+      encrypted_content: await encryptText(dataKey, content),
+      encrypted_title: title ? await encryptText(dataKey, title) : null
+    };
+  }, [keyRecord, dataKey]);
+
+  // Fill in content and title from the encrypted columns, when the row has them
+  const decryptEntryFields = useCallback(async <T extends EncryptedEntryFields>(entry: T): Promise<T> => {
+    if (!entry.is_encrypted || !entry.encrypted_content) return entry;
+
+    if (!dataKey) {
+      return { ...entry, content: UNREADABLE_ENTRY_TEXT, title: null };
+    }
+
+    try {
+      return {
+        ...entry,
+        content: await decryptText(dataKey, entry.encrypted_content),
+        title: entry.encrypted_title ? await decryptText(dataKey, entry.encrypted_title) : null
+      };
+    } catch (err) {
+      console.error('Error decrypting entry:', err);
+      return { ...entry, content: UNREADABLE_ENTRY_TEXT, title: null };
+    }
+  }, [dataKey]);
+
+  return (
+    <EncryptionContext.Provider value={{
+      isEncryptionEnabled: !!keyRecord,
+      isUnlocked: !!dataKey,
+      isLoading,
+      error,
+      retry,
+      enableEncryption,
+      unlock,
+      recoverWithKey,
+      changePassphrase,
+      regenerateRecoveryKey,
+      lock,
+      encryptEntryFields,
+      decryptEntryFields
+    }}>
+      {children}
+    </EncryptionContext.Provider>
+  );
+}
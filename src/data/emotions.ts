@@ -0,0 +1,35 @@
+export type EmotionTone = 'pleasant' | 'unpleasant' | 'mixed';
+
+export interface Emotion {
+  label: string;
+  emoji: string;
+  tone: EmotionTone;
+}
+
+// The emotions analyze-mood can name, keyed by the name it returns
+export const emotions: Record<string, Emotion> = {
+  joy: { label: 'Joy', emoji: '😄', tone: 'pleasant' },
+  gratitude: { label: 'Gratitude', emoji: '🙏', tone: 'pleasant' },
+  calm: { label: 'Calm', emoji: '😌', tone: 'pleasant' },
+  hope: { label: 'Hope', emoji: '🌱', tone: 'pleasant' },
+  pride: { label: 'Pride', emoji: '🦁', tone: 'pleasant' },
+  love: { label: 'Love', emoji: '💛', tone: 'pleasant' },
+  excitement: { label: 'Excitement', emoji: '🤩', tone: 'pleasant' },
+  contentment: { label: 'Contentment', emoji: '☺️', tone: 'pleasant' },
+  relief: { label: 'Relief', emoji: '😮‍💨', tone: 'pleasant' },
+  curiosity: { label: 'Curiosity', emoji: '🤔', tone: 'mixed' },
+  sadness: { label: 'Sadness', emoji: '😢', tone: 'unpleasant' },
+  anxiety: { label: 'Anxiety', emoji: '😰', tone: 'unpleasant' },
+  anger: { label: 'Anger', emoji: '😠', tone: 'unpleasant' },
+  frustration: { label: 'Frustration', emoji: '😤', tone: 'unpleasant' },
+  loneliness: { label: 'Loneliness', emoji: '🥀', tone: 'unpleasant' },
+  fear: { label: 'Fear', emoji: '😨', tone: 'unpleasant' },
+  guilt: { label: 'Guilt', emoji: '😓', tone: 'unpleasant' },
+  shame: { label: 'Shame', emoji: '😳', tone: 'unpleasant' },
+  overwhelm: { label: 'Overwhelm', emoji: '🌊', tone: 'unpleasant' },
+  exhaustion: { label: 'Exhaustion', emoji: '😩', tone: 'unpleasant' },
+  boredom: { label: 'Boredom', emoji: '😑', tone: 'mixed' },
+  confusion: { label: 'Confusion', emoji: '😕', tone: 'mixed' },
+  disappointment: { label: 'Disappointment', emoji: '😞', tone: 'unpleasant' },
+  grief: { label: 'Grief', emoji: '🖤', tone: 'unpleasant' }
+};
@@ -0,0 +1,114 @@
+export interface SafetyResource {
+  name: string;
+  description: string;
+  phone?: string; // dialled as written
+  sms?: { number: string; body?: string };
+  url?: string;
+}
+
+export interface SafetyRegion {
+  label: string;
+  resources: SafetyResource[];
+  emergencyNumber: string | null;
+}
+
+// Helplines shown with the safety card, keyed by the region stored in profiles.safety_region.
+// Keep these to free, 24/7 services, and check them against the services' own sites when editing.
+export const safetyRegions: Record<string, SafetyRegion> = {
+  us: {
+    label: 'United States',
+    emergencyNumber: '911',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', description: 'Call or text, 24/7', phone: '988', sms: { number: '988' } },
+      { name: 'Crisis Text Line', description: 'Text HOME to 741741', sms: { number: '741741', body: 'HOME' } }
+    ]
+  },
+  ca: {
+    label: 'Canada',
+    emergencyNumber: '911',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', description: 'Call or text, 24/7', phone: '988', sms: { number: '988' } }
+    ]
+  },
+  uk: {
+    label: 'United Kingdom',
+    emergencyNumber: '999',
+    resources: [
+      { name: 'Samaritans', description: 'Call free, 24/7', phone: '116 123' },
+      { name: 'Shout', description: 'Text SHOUT to 85258', sms: { number: '85258', body: 'SHOUT' } }
+    ]
+  },
+  ie: {
+    label: 'Ireland',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Samaritans', description: 'Call free, 24/7', phone: '116 123' },
+      { name: 'Text About It', description: 'Text HELLO to 50808', sms: { number: '50808', body: 'HELLO' } }
+    ]
+  },
+  au: {
+    label: 'Australia',
+    emergencyNumber: '000',
+    resources: [
+      { name: 'Lifeline', description: 'Call 24/7', phone: '13 11 14' },
+      { name: 'Beyond Blue', description: 'Call 24/7', phone: '1300 22 4636' }
+    ]
+  },
+  nz: {
+    label: 'New Zealand',
+    emergencyNumber: '111',
+    resources: [
+      { name: 'Need to Talk?', description: 'Call or text 1737, 24/7', phone: '1737', sms: { number: '1737' } },
+      { name: 'Lifeline Aotearoa', description: 'Call 24/7', phone: '0800 543 354' }
+    ]
+  },
+  in: {
+    label: 'India',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Tele-MANAS', description: 'Call free, 24/7', phone: '14416' }
+    ]
+  },
+  de: {
+    label: 'Germany',
+    emergencyNumber: '112',
+    resources: [
+      { name: 'TelefonSeelsorge', description: 'Call free, 24/7', phone: '0800 111 0 111' },
+      { name: 'TelefonSeelsorge', description: 'Second line, call free, 24/7', phone: '0800 111 0 222' }
+    ]
+  },
+  fr: {
+    label: 'France',
+    emergencyNumber: '112',
+    resources: [
+      { name: '3114', description: 'National suicide prevention line, 24/7', phone: '3114' }
+    ]
+  },
+  international: {
+    label: 'Somewhere else',
+    emergencyNumber: null,
+    resources: [
+      { name: 'Find A Helpline', description: 'Free helplines in your country', url: 'https://findahelpline.com' }
+    ]
+  }
+};
+
+export const DEFAULT_SAFETY_REGION = 'international';
+
+// Region codes in language tags that differ from our keys
+const REGION_ALIASES: Record<string, string> = { gb: 'uk' };
+
+// Best guess from the browser's language, e.g. en-AU -> au, used until the user picks a region
+export const getDefaultSafetyRegion = (): string => {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+
+  for (const language of languages) {
+    const region = language?.split('-')[1]?.toLowerCase();
+    if (!region) continue;
+
+    const key = REGION_ALIASES[region] || region;
+    if (safetyRegions[key]) return key;
+  }
+
+  return DEFAULT_SAFETY_REGION;
+};
@@ -0,0 +1,26 @@
+export interface Topic {
+  label: string;
+  emoji: string;
+}
+
+// The topics extract-entry-topics can find, keyed by the name it returns
+export const topics: Record<string, Topic> = {
+  work: { label: 'Work', emoji: '💼' },
+  school: { label: 'School', emoji: '🎓' },
+  family: { label: 'Family', emoji: '👨‍👩‍👧' },
+  relationships: { label: 'Relationships', emoji: '💞' },
+  friends: { label: 'Friends', emoji: '🤝' },
+  health: { label: 'Health', emoji: '🩺' },
+  sleep: { label: 'Sleep', emoji: '😴' },
+  exercise: { label: 'Exercise', emoji: '🏃' },
+  food: { label: 'Food', emoji: '🍲' },
+  money: { label: 'Money', emoji: '💰' },
+  creativity: { label: 'Creativity', emoji: '🎨' },
+  nature: { label: 'Nature', emoji: '🌿' },
+  travel: { label: 'Travel', emoji: '✈️' },
+  'self-care': { label: 'Self-care', emoji: '🛁' },
+  home: { label: 'Home', emoji: '🏠' },
+  pets: { label: 'Pets', emoji: '🐾' },
+  spirituality: { label: 'Spirituality', emoji: '🕊️' },
+  hobbies: { label: 'Hobbies', emoji: '🎲' }
+};
@@ -0,0 +1,320 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+import { MoodLevel } from '../types';
+import { AttachmentInput } from './useJournal';
+import { getStoredDrafts, putStoredDraft, deleteStoredDraft, StoredDraft } from '../lib/draftStore';
+
+export type Draft = StoredDraft;
+
+export interface DraftFields {
+  title: string;
+  content: string;
+  mood: MoodLevel | null;
+  tags: string[];
+  photos: AttachmentInput[];
+}
+
+interface ServerDraft {
+  id: string;
+  name: string;
+  title: string | null;
+  content: string;
+  mood: string | null;
+  tags: string[] | null;
+  updated_at: string;
+}
+
+export const DRAFT_SYNC_STORAGE_KEY = 'zensai-sync-drafts';
+const AUTOSAVE_DELAY_MS = 1000;
+
+const MOOD_STRINGS: Record<MoodLevel, string> = {
+  1: 'struggling',
+  2: 'low',
+  3: 'neutral',
+  4: 'good',
+  5: 'amazing'
+};
+
+const moodFromString = (mood: string | null): MoodLevel | null => {
+  const match = Object.entries(MOOD_STRINGS).find(([, value]) => value === mood);
+  return match ? (Number(match[0]) as MoodLevel) : null;
+};
+
+const defaultDraftName = () => {
+  return `Draft from ${new Date().toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })}`;
+};
+
+export const isDraftEmpty = (fields: DraftFields): boolean => {
+  return !fields.title.trim() && !fields.content.trim() && !fields.mood && fields.tags.length === 0 && fields.photos.length === 0;
+};
+
+// Turn stored photos back into Files the composer can upload
+export const getDraftPhotos = (draft: Draft): AttachmentInput[] => {
+  return draft.photos.map(photo => ({
+    key: crypto.randomUUID(),
+    file: new File([photo.blob], photo.name, { type: photo.blob.type }),
+    caption: photo.caption
+  }));
+};
+
+export function useDrafts() {
+  const { user } = useAuth();
+  const { isEncryptionEnabled } = useEncryption();
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [isSyncPreferred, setIsSyncPreferred] = useState(
+    () => localStorage.getItem(DRAFT_SYNC_STORAGE_KEY) === 'true'
+  );
+  // Synced drafts are stored as plaintext, so they stay on this device while the journal is encrypted
+  const isSyncEnabled = isSyncPreferred && !isEncryptionEnabled;
+
+  const draftsRef = useRef<Draft[]>([]);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingSaveRef = useRef<{ id: string; fields: DraftFields } | null>(null);
+
+  useEffect(() => {
+    draftsRef.current = drafts;
+  }, [drafts]);
+
+  const pushToServer = useCallback(async (draft: Draft) => {
+    if (!user) return;
+
+    const { error: syncError } = await supabase
+      .from('journal_drafts')
+      .upsert({
+        id: draft.id,
+        user_id: user.id,
+        name: draft.name,
+        title: draft.title || null,
+        content: draft.content,
+        mood: draft.mood ? MOOD_STRINGS[draft.mood] : null,
+        tags: draft.tags,
+        updated_at: draft.updatedAt
+      });
+
+    if (syncError) {
+      console.error('Error syncing draft:', syncError);
+    }
+  }, [user]);
+
+  const loadDrafts = useCallback(async () => {
+    if (!user) {
+      setDrafts([]);
+      setIsLoaded(true);
+      return;
+    }
+
+    let localDrafts: Draft[] = [];
+    try {
+      localDrafts = await getStoredDrafts(user.id);
+    } catch (err) {
+      console.warn('Drafts are unavailable on this device:', err);
+    }
+
+    if (isSyncEnabled) {
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('journal_drafts')
+          .select('id, name, title, content, mood, tags, updated_at')
+          .eq('user_id', user.id);
+
+        if (fetchError) {
+          console.error('Error loading synced drafts:', fetchError);
+        } else {
+          // Newest copy wins; photos only exist locally so keep the local one
+          for (const serverDraft of (data || []) as ServerDraft[]) {
+            const localDraft = localDrafts.find(draft => draft.id === serverDraft.id);
+            if (localDraft && localDraft.updatedAt >= serverDraft.updated_at) continue;
+
+            const mergedDraft: Draft = {
+              id: serverDraft.id,
+              userId: user.id,
+              name: serverDraft.name,
+              title: serverDraft.title || '',
+              content: serverDraft.content,
+              mood: moodFromString(serverDraft.mood),
+              tags: serverDraft.tags || [],
+              photos: localDraft?.photos || [],
+              updatedAt: serverDraft.updated_at
+            };
+
+            localDrafts = [mergedDraft, ...localDrafts.filter(draft => draft.id !== serverDraft.id)];
+            putStoredDraft(mergedDraft).catch(err => console.warn('Failed to cache synced draft:', err));
+          }
+        }
+      } catch (err) {
+        console.error('Error loading synced drafts:', err);
+      }
+    }
+
+    setDrafts([...localDrafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+    setIsLoaded(true);
+  }, [user, isSyncEnabled]);
+
+  useEffect(() => {
+    loadDrafts();
+  }, [loadDrafts]);
+
+  const saveDraft = useCallback(async (draftId: string, fields: DraftFields): Promise<Draft | null> => {
+    if (!user) return null;
+
+    const existingDraft = draftsRef.current.find(draft => draft.id === draftId);
+    const draft: Draft = {
+      id: draftId,
+      userId: user.id,
+      name: existingDraft?.name || defaultDraftName(),
+      title: fields.title,
+      content: fields.content,
+      mood: fields.mood,
+      tags: fields.tags,
+      photos: fields.photos
+        .filter(photo => photo.file)
+        .map(photo => ({ blob: photo.file!, name: photo.file!.name, caption: photo.caption })),
+      updatedAt: new Date().toISOString()
+    };
+
+    setIsSaving(true);
+    try {
+      await putStoredDraft(draft);
+      setDrafts(prev => [draft, ...prev.filter(d => d.id !== draftId)]);
+      setLastSavedAt(new Date());
+
+      if (isSyncEnabled) {
+        await pushToServer(draft);
+      }
+
+      return draft;
+    } catch (err) {
+      console.error('Error saving draft:', err);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [user, isSyncEnabled, pushToServer]);
+
+  // Write any debounced save right away (e.g. before switching drafts)
+  const flushPendingSave = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) {
+      await saveDraft(pending.id, pending.fields);
+    }
+  }, [saveDraft]);
+
+  const scheduleSave = useCallback((draftId: string, fields: DraftFields) => {
+    pendingSaveRef.current = { id: draftId, fields };
+
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      flushPendingSave();
+    }, AUTOSAVE_DELAY_MS);
+  }, [flushPendingSave]);
+
+  // Don't lose the last keystrokes when the tab closes or the composer unmounts
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushPendingSave();
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      flushPendingSave();
+    };
+  }, [flushPendingSave]);
+
+  const deleteDraft = useCallback(async (draftId: string) => {
+    // Cancel a pending save so the deleted draft isn't written back
+    if (pendingSaveRef.current?.id === draftId) {
+      pendingSaveRef.current = null;
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+    }
+
+    setDrafts(prev => prev.filter(draft => draft.id !== draftId));
+
+    try {
+      await deleteStoredDraft(draftId);
+    } catch (err) {
+      console.warn('Failed to delete local draft:', err);
+    }
+
+    if (isSyncEnabled && user) {
+      const { error: deleteError } = await supabase
+        .from('journal_drafts')
+        .delete()
+        .eq('id', draftId)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        console.error('Error deleting synced draft:', deleteError);
+      }
+    }
+  }, [user, isSyncEnabled]);
+
+  const renameDraft = useCallback(async (draftId: string, name: string) => {
+    const draft = draftsRef.current.find(d => d.id === draftId);
+    const trimmedName = name.trim();
+    if (!draft || !trimmedName) return;
+
+    const renamedDraft = { ...draft, name: trimmedName, updatedAt: new Date().toISOString() };
+    setDrafts(prev => prev.map(d => d.id === draftId ? renamedDraft : d));
+
+    try {
+      await putStoredDraft(renamedDraft);
+      if (isSyncEnabled) {
+        await pushToServer(renamedDraft);
+      }
+    } catch (err) {
+      console.error('Error renaming draft:', err);
+    }
+  }, [isSyncEnabled, pushToServer]);
+
+  const setSyncEnabled = useCallback(async (enabled: boolean) => {
+    localStorage.setItem(DRAFT_SYNC_STORAGE_KEY, enabled.toString());
+    setIsSyncPreferred(enabled);
+
+    // Upload existing drafts so they're available on other devices straight away
+    if (enabled && !isEncryptionEnabled) {
+      await Promise.all(draftsRef.current.map(draft => pushToServer(draft)));
+    }
+  }, [pushToServer, isEncryptionEnabled]);
+
+  const createDraftId = useCallback(() => crypto.randomUUID(), []);
+
+  return {
+    drafts,
+    isLoaded,
+    isSaving,
+    lastSavedAt,
+    isSyncEnabled,
+    setSyncEnabled,
+    createDraftId,
+    scheduleSave,
+    flushPendingSave,
+    deleteDraft,
+    renameDraft,
+    refreshDrafts: loadDrafts
+  };
+}
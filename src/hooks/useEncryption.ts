@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { EncryptionContext } from '../contexts/EncryptionContext';
+
+export function useEncryption() {
+  const context = useContext(EncryptionContext);
+  if (context === undefined) {
+    throw new Error('useEncryption must be used within an EncryptionProvider');
+  }
+  return context;
+}
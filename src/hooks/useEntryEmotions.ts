@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { EmotionScore } from './useMoodAnalyzer';
+
+export interface EntryEmotions {
+  emotions: EmotionScore[]; // strongest first
+  valence: number; // -1 = very unpleasant to 1 = very pleasant
+  arousal: number; // 0 = very calm to 1 = very energized
+  confidence: number;
+  analysis: string | null;
+}
+
+interface EntryEmotionsRow {
+  emotions: EmotionScore[];
+  valence: number | string;
+  arousal: number | string;
+  confidence: number | string;
+  analysis: string | null;
+}
+
+// The stored emotion analysis of one entry; entries saved without one (or edited since) have none
+export function useEntryEmotions(entryId: string | null) {
+  const { user } = useAuth();
+  const [entryEmotions, setEntryEmotions] = useState<EntryEmotions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setEntryEmotions(null);
+    if (!user || !entryId) return;
+
+    // Ignore the response if another entry was opened while it was loading
+    let isCurrent = true;
+
+    const loadEntryEmotions = async () => {
+      setIsLoading(true);
+
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('entry_emotions')
+          .select('emotions, valence, arousal, confidence, analysis')
+          .eq('entry_id', entryId)
+          .maybeSingle();
+
+        if (!isCurrent) return;
+
+        if (fetchError) {
+          console.error('Error loading entry emotions:', fetchError);
+          return;
+        }
+
+        if (!data) return;
+
+        const row: EntryEmotionsRow = data;
+        // numeric columns arrive as strings
+        setEntryEmotions({
+          emotions: row.emotions || [],
+          valence: Number(row.valence),
+          arousal: Number(row.arousal),
+          confidence: Number(row.confidence),
+          analysis: row.analysis
+        });
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading entry emotions:', err);
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadEntryEmotions();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, entryId]);
+
+  return { entryEmotions, isLoading };
+}
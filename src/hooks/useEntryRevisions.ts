@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  title: string | null;
+  content: string;
+  is_encrypted: boolean;
+  encrypted_content: string | null;
+  encrypted_title: string | null;
+  mood: string;
+  tags: string[];
+  photo_url: string | null;
+  photo_filename: string | null;
+  revised_at: string;
+}
+
+export function useEntryRevisions(entryId: string | null) {
+  const { user } = useAuth();
+  const { decryptEntryFields } = useEncryption();
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Previous versions of the entry, newest first
+  const loadRevisions = useCallback(async () => {
+    if (!user || !entryId) {
+      setRevisions([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: revisionsError } = await supabase
+        .from('journal_entry_revisions')
+        .select('id, entry_id, title, content, is_encrypted, encrypted_content, encrypted_title, mood, tags, photo_url, photo_filename, revised_at')
+        .eq('entry_id', entryId)
+        .eq('user_id', user.id)
+        .order('revised_at', { ascending: false });
+
+      if (revisionsError) {
+        console.error('Error loading entry revisions:', revisionsError);
+        setError('Failed to load the history of this entry');
+        return;
+      }
+
+      const decrypted = await Promise.all((data || []).map(revision => decryptEntryFields(revision)));
+      setRevisions(decrypted.map(revision => ({
+        ...revision,
+        tags: revision.tags || []
+      })));
+    } catch (err) {
+      console.error('Error loading entry revisions:', err);
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, entryId, decryptEntryFields]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  return {
+    revisions,
+    isLoading,
+    error,
+    refreshRevisions: loadRevisions
+  };
+}
+
+// Versions saved before end-to-end encryption was turned on are still plaintext, so once it's on
+// they're counted and can be deleted
+export function usePlaintextRevisions() {
+  const { user } = useAuth();
+  const { isEncryptionEnabled } = useEncryption();
+  const [count, setCount] = useState(0);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setCount(0);
+    if (!user || !isEncryptionEnabled) return;
+
+    let isCurrent = true;
+
+    const loadCount = async () => {
+      const { count: plaintextCount, error } = await supabase
+        .from('journal_entry_revisions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .eq('is_encrypted', false);
+
+      if (!isCurrent) return;
+
+      if (error) {
+        console.error('Error counting unencrypted revisions:', error);
+        return;
+      }
+
+      setCount(plaintextCount || 0);
+    };
+
+    loadCount();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, isEncryptionEnabled]);
+
+  const deletePlaintextRevisions = useCallback(async (): Promise<boolean> => {
+    if (!user) return false;
+
+    setIsDeleting(true);
+    try {
+      const { error } = await supabase
+        .from('journal_entry_revisions')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('is_encrypted', false);
+
+      if (error) {
+        console.error('Error deleting unencrypted revisions:', error);
+        return false;
+      }
+
+      setCount(0);
+      return true;
+    } catch (err) {
+      console.error('Error deleting unencrypted revisions:', err);
+      return false;
+    } finally {
+      setIsDeleting(false);
+    }
+  }, [user]);
+
+  return { count, isDeleting, deletePlaintextRevisions };
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface EntryTopics {
+  topics: string[];
+  people: string[];
+  places: string[];
+}
+
+// The stored topics, people and places of one entry; entries saved without them (or edited since) have none
+export function useEntryTopics(entryId: string | null) {
+  const { user } = useAuth();
+  const [entryTopics, setEntryTopics] = useState<EntryTopics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setEntryTopics(null);
+    if (!user || !entryId) return;
+
+    // Ignore the response if another entry was opened while it was loading
+    let isCurrent = true;
+
+    const loadEntryTopics = async () => {
+      setIsLoading(true);
+
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('entry_topics')
+          .select('topics, people, places')
+          .eq('entry_id', entryId)
+          .maybeSingle();
+
+        if (!isCurrent) return;
+
+        if (fetchError) {
+          console.error('Error loading entry topics:', fetchError);
+          return;
+        }
+
+        setEntryTopics(data);
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading entry topics:', err);
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadEntryTopics();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, entryId]);
+
+  return { entryTopics, isLoading };
+}
@@ -1,18 +1,88 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { EncryptedEntryFields } from '../contexts/EncryptionContext';
+import { useEncryption } from './useEncryption';
+import { useOnlineStatus } from './useOnlineStatus';
 import { MoodLevel } from '../types';
+import { normalizeTags } from '../utils/tags';
+import { getDeviceTimezone, getLocalDateString, parseDateOnly } from '../utils/dates';
+import { prepareImageForUpload } from '../utils/imageProcessing';
+import { ENTRY_SELECT, isNetworkError, queueEntryChange, syncOutbox } from '../lib/entrySync';
+import {
+  OutboxItem,
+  getCachedEntries,
+  getCachedEntry,
+  getCachedProfile,
+  getOutboxItems,
+  putCachedEntries,
+  putCachedProfile,
+  putOutboxItem,
+  deleteOutboxItem,
+  deleteCachedEntry,
+  replaceCachedEntries,
+  subscribeToOutbox
+} from '../lib/offlineStore';
+
+export interface EntryAttachment {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  storage_path: string;
+  file_name: string | null;
+  thumbnail_path: string | null;
+  width: number | null;
+  height: number | null;
+  caption: string | null;
+  position: number;
+  created_at: string;
+}
+
+// A photo in the composer or edit form: either already saved (id) or a new upload (file)
+export interface AttachmentInput {
+  key: string;
+  id?: string;
+  file?: File;
+  // Storage path used to preview a saved photo
+  path?: string;
+  caption: string;
+}
 
 interface JournalEntry {
   id: string;
   user_id: string;
   content: string;
   mood: string;
+  // Legacy single photo; holds a storage path, like the attachment rows
   photo_url: string | null;
   photo_filename: string | null;
   title: string | null;
+  // With end-to-end encryption on, content and title are decrypted from these after loading
+  is_encrypted: boolean;
+  encrypted_content: string | null;
+  encrypted_title: string | null;
+  tags: string[];
+  attachments: EntryAttachment[];
+  // The local day (YYYY-MM-DD) the entry is about; earlier than created_at for backdated entries
+  entry_date: string;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null;
+}
+
+interface UploadedPhoto {
+  storage_path: string;
+  file_name: string;
+  thumbnail_path: string;
+  width: number;
+  height: number;
+  caption: string | null;
+  position: number;
+}
+
+interface EntryCursor {
+  created_at: string;
+  id: string;
 }
 
 interface Profile {
@@ -21,11 +91,16 @@ interface Profile {
   current_streak: number;
   best_streak: number;
   last_entry_date: string | null;
+  timezone: string | null;
+  streak_freezes_available: number;
   journaling_goal_frequency: number;
   total_badges_earned: number;
   subscription_status: string;
   subscription_tier: string;
   subscription_expires_at: string | null;
+  safety_check_enabled: boolean;
+  safety_region: string | null;
+  safety_history_opt_in: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -44,30 +119,110 @@ interface Badge {
   progress_percentage: number;
 }
 
+const ENTRIES_PAGE_SIZE = 30;
+const FREE_ENTRY_LIMIT = 30;
+export const FREE_HISTORY_DAYS = 30;
+const STREAK_FREEZE_DAYS_LIMIT = 60;
+export const MAX_ENTRY_ATTACHMENTS = 10;
+const OFFLINE_PHOTOS_ERROR = 'You\'re offline. Photos can be added or changed once you\'re back online.';
+const FUTURE_ENTRY_DATE_ERROR = 'An entry can\'t be dated in the future.';
+const PHOTOS_NOT_SAVED_WARNING = 'Your entry was saved, but its new photos couldn\'t be. Please try adding them again.';
+
+// Storage objects behind a photo: the full-size image and, for newer uploads, its thumbnail
+export const getAttachmentPaths = (attachment: { storage_path: string; thumbnail_path?: string | null }): string[] => {
+  return attachment.thumbnail_path ? [attachment.storage_path, attachment.thumbnail_path] : [attachment.storage_path];
+};
+
+const sortAttachments = (entry: JournalEntry): JournalEntry => ({
+  ...entry,
+  attachments: [...(entry.attachments || [])].sort((a, b) => a.position - b.position)
+});
+
+// Show changes still waiting in the outbox on top of rows loaded from the server or the offline cache
+const applyOutbox = (rows: JournalEntry[], items: OutboxItem[], includeCreated: boolean): JournalEntry[] => {
+  const created = includeCreated
+    ? items
+        .filter(item => item.action === 'create')
+        // A queued create holds every column that will be inserted
+        .map(item => ({
+          photo_url: null,
+          photo_filename: null,
+          attachments: [],
+          updated_at: item.queuedAt,
+          deleted_at: null,
+          ...item.changes
+        }) as unknown as JournalEntry)
+        .reverse()
+    : [];
+
+  const merged = rows
+    .filter(row => !items.some(item => item.entryId === row.id && item.action === 'delete'))
+    .map(row => {
+      const item = items.find(pending => pending.entryId === row.id && pending.action === 'update');
+      return item ? { ...row, ...item.changes } as JournalEntry : row;
+    });
+
+  return [...created.filter(entry => !merged.some(row => row.id === entry.id)), ...merged];
+};
+
 export function useJournal() {
   const { user, isAuthenticated } = useAuth();
+  const { encryptEntryFields, decryptEntryFields } = useEncryption();
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [badges, setBadges] = useState<Badge[]>([]);
+  const [userTags, setUserTags] = useState<string[]>([]);
+  const [streakFreezeDays, setStreakFreezeDays] = useState<string[]>([]);
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const isLoadingMoreRef = useRef(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const isOnline = useOnlineStatus();
+  // Changes written offline that haven't reached the server yet, shared by every screen through IndexedDB
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const userId = user?.id;
 
   // Calculate premium status directly from profile
   const isPremium = profile?.subscription_status === 'premium' && 
     (!profile?.subscription_expires_at || new Date(profile.subscription_expires_at) > new Date());
 
+  const loadUserTags = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data: tagData, error: tagError } = await supabase
+        .rpc('get_user_tags', { target_user_id: user.id });
+
+      if (tagError) {
+        console.error('Error loading tags:', tagError);
+        return;
+      }
+
+      setUserTags((tagData || []).map((row: { tag: string }) => row.tag));
+    } catch (err) {
+      console.error('Error loading tags:', err);
+    }
+  }, [user]);
+
   // Load user profile and entries
   useEffect(() => {
     if (isAuthenticated && user) {
       loadUserData();
       loadUserBadges();
+      loadUserTags();
     } else {
       setIsLoading(false);
       setEntries([]);
       setProfile(null);
       setBadges([]);
+      setUserTags([]);
+      setTotalEntries(0);
+      setHasMore(false);
     }
-  }, [isAuthenticated, user]);
+  }, [isAuthenticated, user, loadUserTags]);
 
   const loadUserData = async () => {
     if (!user) return;
@@ -76,52 +231,48 @@ export function useJournal() {
       setIsLoading(true);
       setError(null);
 
-      // Load profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user.id)
-        .single();
+      // Send changes written offline first, so the entries loaded below include them
+      if (navigator.onLine) {
+        await syncOutbox(user.id).catch(err => console.error('Error syncing offline changes:', err));
+      }
 
-      if (profileError) {
-        console.error('Error loading profile:', profileError);
+      const profileData = navigator.onLine ? await loadProfile() : null;
+      if (!profileData) {
+        // Offline or the server can't be reached: show the journal as it was last loaded
+        if (await loadFromCache()) return;
         setError('Failed to load profile data');
         return;
       }
 
-      setProfile(profileData);
+      await loadStreakFreezeDays();
 
-      // Load recent journal entries
-      // For free users, limit to 30 days or 30 entries
-      let query = supabase
+      // Check premium status from the loaded profile data
+      const userIsPremium = profileData.subscription_status === 'premium' && 
+        (!profileData.subscription_expires_at || new Date(profileData.subscription_expires_at) > new Date());
+
+      // Count every entry on the server so totals stay accurate while only a page is loaded
+      const { count, error: countError } = await supabase
         .from('journal_entries')
-        .select('*')
+        .select('id', { count: 'exact', head: true })
         .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-      
-      // Check premium status from the loaded profile data
-      const userIsPremium = profileData?.subscription_status === 'premium' && 
-        (!profileData?.subscription_expires_at || new Date(profileData.subscription_expires_at) > new Date());
-      
-      if (!userIsPremium) {
-        // Get entries from the last 30 days or the most recent 30 entries
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-        
-        query = query
-          .gt('created_at', thirtyDaysAgo.toISOString())
-          .limit(30);
-      }
+        .is('deleted_at', null);
 
-      const { data: entriesData, error: entriesError } = await query;
+      if (countError) {
+        console.error('Error counting entries:', countError);
+      } else {
+        setTotalEntries(count || 0);
+      }
 
-      if (entriesError) {
-        console.error('Error loading entries:', entriesError);
+      // Load the most recent page of journal entries
+      const page = await fetchEntriesPage(userIsPremium, null);
+      if (!page) {
+        if (await loadFromCache()) return;
         setError('Failed to load journal entries');
         return;
       }
 
-      setEntries(entriesData || []);
+      setEntries(page.entries);
+      setHasMore(page.hasMore);
     } catch (err) {
       console.error('Error loading user data:', err);
       setError('An unexpected error occurred');
@@ -130,6 +281,207 @@ export function useJournal() {
     }
   };
 
+  const loadProfile = async (): Promise<Profile | null> => {
+    if (!user) return null;
+
+    const fetchProfile = () => supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .single();
+
+    let { data: profileData, error: profileError } = await fetchProfile();
+
+    if (profileError) {
+      console.error('Error loading profile:', profileError);
+      return null;
+    }
+
+    // Accounts created before time zones were captured count their days in this device's zone from now on.
+    // Saving it rebuilds the streaks, so load the profile again afterwards.
+    if (!profileData.timezone) {
+      const { error: timezoneError } = await supabase
+        .from('profiles')
+        .update({ timezone: getDeviceTimezone() })
+        .eq('user_id', user.id);
+
+      if (timezoneError) {
+        console.warn('Failed to save time zone:', timezoneError);
+      } else {
+        ({ data: profileData, error: profileError } = await fetchProfile());
+        if (profileError) {
+          console.error('Error loading profile:', profileError);
+          return null;
+        }
+      }
+    }
+
+    setProfile(profileData);
+    putCachedProfile(profileData).catch(err => console.warn('Failed to cache profile:', err));
+    return profileData;
+  };
+
+  // Recent missed days that a streak freeze covered, newest first
+  const loadStreakFreezeDays = async (): Promise<string[]> => {
+    if (!user) return [];
+
+    const { data, error: freezeError } = await supabase
+      .from('streak_freeze_days')
+      .select('freeze_date')
+      .eq('user_id', user.id)
+      .order('freeze_date', { ascending: false })
+      .limit(STREAK_FREEZE_DAYS_LIMIT);
+
+    if (freezeError) {
+      console.error('Error loading streak freezes:', freezeError);
+      return streakFreezeDays;
+    }
+
+    const days = (data || []).map(row => row.freeze_date as string);
+    setStreakFreezeDays(days);
+    return days;
+  };
+
+  const loadOutboxItems = async (): Promise<OutboxItem[]> => {
+    if (!user) return [];
+
+    try {
+      return await getOutboxItems(user.id);
+    } catch (err) {
+      console.warn('Failed to read offline changes:', err);
+      return [];
+    }
+  };
+
+  // The profile and entries saved on this device the last time they loaded, plus any offline changes
+  const loadFromCache = async (): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const cachedProfile = await getCachedProfile<Profile>(user.id);
+      if (!cachedProfile) return false;
+
+      const [cachedRows, items] = await Promise.all([getCachedEntries<JournalEntry>(user.id), loadOutboxItems()]);
+      // Rows cached before entries had a date of their own fall back to the day they were written
+      const rows = cachedRows.map(row => row.entry_date
+        ? row
+        : { ...row, entry_date: getLocalDateString(cachedProfile.timezone, new Date(row.created_at)) });
+      const cachedEntries = await Promise.all(
+        applyOutbox(rows, items, true).map(async entry => sortAttachments(await decryptEntryFields(entry)))
+      );
+
+      setProfile(cachedProfile);
+      setEntries(cachedEntries);
+      setTotalEntries(cachedEntries.length);
+      setHasMore(false);
+      return true;
+    } catch (err) {
+      console.error('Error loading offline journal:', err);
+      return false;
+    }
+  };
+
+  // Fetch one page of entries older than the cursor, newest first.
+  // Ordering by (created_at, id) keeps pages stable when entries share a timestamp.
+  const fetchEntriesPage = async (
+    userIsPremium: boolean,
+    cursor: EntryCursor | null,
+    loadedCount = 0
+  ): Promise<{ entries: JournalEntry[]; hasMore: boolean } | null> => {
+    if (!user) return null;
+
+    // For free users, limit to 30 days or 30 entries
+    const pageSize = userIsPremium
+      ? ENTRIES_PAGE_SIZE
+      : Math.min(ENTRIES_PAGE_SIZE, FREE_ENTRY_LIMIT - loadedCount);
+
+    if (pageSize <= 0) {
+      return { entries: [], hasMore: false };
+    }
+
+    // Request one extra row to know whether another page exists
+    let query = supabase
+      .from('journal_entries')
+      .select(ENTRY_SELECT)
+      .eq('user_id', user.id)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pageSize + 1);
+
+    if (!userIsPremium) {
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - FREE_HISTORY_DAYS);
+      query = query.gt('created_at', thirtyDaysAgo.toISOString());
+    }
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data: entriesData, error: entriesError } = await query;
+
+    if (entriesError) {
+      console.error('Error loading entries:', entriesError);
+      return null;
+    }
+
+    const rows: JournalEntry[] = entriesData || [];
+
+    // Keep a copy on this device so the journal can be read offline
+    (cursor ? putCachedEntries(rows) : replaceCachedEntries(user.id, rows))
+      .catch(err => console.warn('Failed to cache entries:', err));
+
+    const pendingChanges = await loadOutboxItems();
+    const pageEntries = await Promise.all(
+      applyOutbox(rows.slice(0, pageSize), pendingChanges, !cursor)
+        .map(async entry => sortAttachments(await decryptEntryFields(entry)))
+    );
+    const reachedFreeLimit = !userIsPremium && loadedCount + pageEntries.length >= FREE_ENTRY_LIMIT;
+
+    return {
+      entries: pageEntries,
+      hasMore: rows.length > pageSize && !reachedFreeLimit
+    };
+  };
+
+  // Load the next page of older entries for infinite scroll
+  const loadMore = async (): Promise<void> => {
+    if (!user || !hasMore || isLoadingMoreRef.current || entries.length === 0) return;
+
+    const lastEntry = entries[entries.length - 1];
+
+    try {
+      isLoadingMoreRef.current = true;
+      setIsLoadingMore(true);
+
+      const page = await fetchEntriesPage(
+        isPremium,
+        { created_at: lastEntry.created_at, id: lastEntry.id },
+        entries.length
+      );
+
+      if (!page) {
+        setError('Failed to load more journal entries');
+        return;
+      }
+
+      setEntries(prev => [
+        ...prev,
+        ...page.entries.filter(entry => !prev.some(existing => existing.id === entry.id))
+      ]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more entries:', err);
+      setError('An unexpected error occurred');
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  };
+
   const loadUserBadges = async () => {
     if (!user) return;
 
@@ -148,6 +500,11 @@ export function useJournal() {
     }
   };
 
+  // Merge newly used tags into the autocomplete list without another round trip
+  const rememberTags = (tags: string[]) => {
+    setUserTags(prev => [...prev, ...tags.filter(tag => !prev.includes(tag))]);
+  };
+
   const updateJournalingGoal = async (frequency: number): Promise<{ success: boolean; error?: string }> => {
     if (!user || !isAuthenticated) {
       return { success: false, error: 'You must be logged in to update your goal' };
@@ -186,12 +543,165 @@ export function useJournal() {
     }
   };
 
+  const removeStoredPhotos = async (paths: string[]) => {
+    if (paths.length === 0) return;
+
+    const { error: storageError } = await supabase.storage
+      .from('journal-photos')
+      .remove(paths);
+
+    if (storageError) {
+      console.warn('Failed to delete photos:', storageError);
+    }
+  };
+
+  // Photos live in a private bucket, so only the storage path is kept; see usePhotoUrls
+  const uploadPhotoObject = async (path: string, blob: Blob, contentType: string): Promise<boolean> => {
+    const { error: uploadError } = await supabase.storage
+      .from('journal-photos')
+      .upload(path, blob, {
+        cacheControl: '3600',
+        contentType,
+        upsert: false
+      });
+
+    if (uploadError) {
+      console.error('Photo upload error:', uploadError);
+      return false;
+    }
+
+    return true;
+  };
+
+  // Resize, strip metadata and upload new photos with their thumbnails.
+  // If one fails, everything already uploaded in this batch is removed again.
+  const uploadPhotoFiles = async (
+    photos: { file: File; caption: string; position: number }[]
+  ): Promise<UploadedPhoto[] | null> => {
+    if (!user) return null;
+
+    const uploaded: UploadedPhoto[] = [];
+    const uploadedPaths: string[] = [];
+
+    for (const photo of photos) {
+      try {
+        const { full, thumbnail } = await prepareImageForUpload(photo.file);
+
+        // Generate unique filenames; the thumbnail sits next to the original
+        const timestamp = Date.now();
+        const baseName = `${user.id}/${timestamp}_${Math.random().toString(36).substring(7)}`;
+        const fullPath = `${baseName}.${full.extension}`;
+        const thumbnailPath = `${baseName}_thumb.${thumbnail.extension}`;
+
+        if (!await uploadPhotoObject(fullPath, full.blob, full.mimeType)) {
+          await removeStoredPhotos(uploadedPaths);
+          return null;
+        }
+        uploadedPaths.push(fullPath);
+
+        if (!await uploadPhotoObject(thumbnailPath, thumbnail.blob, thumbnail.mimeType)) {
+          await removeStoredPhotos(uploadedPaths);
+          return null;
+        }
+        uploadedPaths.push(thumbnailPath);
+
+        uploaded.push({
+          storage_path: fullPath,
+          file_name: photo.file.name,
+          thumbnail_path: thumbnailPath,
+          width: full.width,
+          height: full.height,
+          caption: photo.caption.trim() || null,
+          position: photo.position
+        });
+      } catch (photoError) {
+        console.error('Photo processing error:', photoError);
+        await removeStoredPhotos(uploadedPaths);
+        return null;
+      }
+    }
+
+    return uploaded;
+  };
+
+  // Null when the photos couldn't be saved; their uploads are removed again
+  const insertAttachments = async (entryId: string, uploaded: UploadedPhoto[]): Promise<EntryAttachment[] | null> => {
+    if (!user || uploaded.length === 0) return [];
+
+    const { data, error: insertError } = await supabase
+      .from('entry_attachments')
+      .insert(uploaded.map(photo => ({ ...photo, entry_id: entryId, user_id: user.id })))
+      .select();
+
+    if (insertError) {
+      console.error('Error saving photos:', insertError);
+      await removeStoredPhotos(uploaded.flatMap(getAttachmentPaths));
+      return null;
+    }
+
+    return data || [];
+  };
+
+  // Save a new entry to the outbox. It's inserted with the same id and time once the connection is back.
+  const queueNewEntry = async (
+    textFields: Required<EncryptedEntryFields>,
+    content: string,
+    title: string | null,
+    moodString: string,
+    entryTags: string[],
+    entryDate: string
+  ): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
+    if (!user) {
+      return { success: false, error: 'You must be logged in to save entries' };
+    }
+
+    const entryId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const changes = {
+      id: entryId,
+      user_id: user.id,
+      ...textFields,
+      mood: moodString,
+      tags: entryTags,
+      entry_date: entryDate,
+      created_at: now
+    };
+
+    await queueEntryChange({ userId: user.id, entryId, action: 'create', changes, baseUpdatedAt: null });
+
+    const queuedEntry: JournalEntry = {
+      ...changes,
+      content,
+      title,
+      photo_url: null,
+      photo_filename: null,
+      attachments: [],
+      updated_at: now,
+      deleted_at: null
+    };
+    setEntries(prev => [queuedEntry, ...prev]);
+    setTotalEntries(prev => prev + 1);
+    rememberTags(entryTags);
+
+    return { success: true, queued: true };
+  };
+
   const addEntry = async (
     content: string, 
     title: string | null,
     mood: MoodLevel, 
-    photoFile?: File
-  ): Promise<{ success: boolean; error?: string }> => {
+    photos: AttachmentInput[] = [],
+    tags: string[] = [],
+    entryDate?: string
+  ): Promise<{
+    success: boolean;
+    queued?: boolean;
+    entryId?: string;
+    streakFreezesUsed?: number;
+    streakFreezesEarned?: number;
+    warning?: string; // saved, but not completely
+    error?: string;
+  }> => {
     if (!user || !isAuthenticated) {
       return { success: false, error: 'You must be logged in to save entries' };
     }
@@ -200,52 +710,48 @@ export function useJournal() {
       return { success: false, error: 'Entry content cannot be empty' };
     }
 
+    // Defaults to today, fixed now so an entry queued offline keeps the day it was written
+    const today = getLocalDateString(profile?.timezone);
+    const date = entryDate || today;
+    if (date > today) {
+      return { success: false, error: FUTURE_ENTRY_DATE_ERROR };
+    }
+
+    const newPhotos = photos.filter(photo => photo.file);
+
     // Check if photo uploads are allowed for free users
-    if (photoFile && !isPremium) {
+    if (newPhotos.length > 0 && !isPremium) {
       return { success: false, error: 'Photo uploads are a premium feature. Please upgrade to add photos to your entries.' };
     }
 
+    if (newPhotos.length > MAX_ENTRY_ATTACHMENTS) {
+      return { success: false, error: `You can add up to ${MAX_ENTRY_ATTACHMENTS} photos to an entry.` };
+    }
+
+    if (newPhotos.length > 0 && !isOnline) {
+      return { success: false, error: OFFLINE_PHOTOS_ERROR };
+    }
+
     try {
       setError(null);
 
       // Convert mood level to string
       const moodString = getMoodString(mood);
-      
-      let photoUrl: string | null = null;
-      let photoFilename: string | null = null;
-
-      // Handle photo upload if provided
-      if (photoFile) {
-        try {
-          // Generate unique filename
-          const timestamp = Date.now();
-          const fileExt = photoFile.name.split('.').pop()?.toLowerCase();
-          const fileName = `${user.id}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-          
-          // Upload to Supabase Storage
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('journal-photos')
-            .upload(fileName, photoFile, {
-              cacheControl: '3600',
-              upsert: false
-            });
-
-          if (uploadError) {
-            console.error('Photo upload error:', uploadError);
-            return { success: false, error: 'Failed to upload photo. Please try again.' };
-          }
+      const entryTags = normalizeTags(tags);
+      // Encrypted in the browser when end-to-end encryption is on
+      const textFields = await encryptEntryFields(content.trim(), title?.trim() || null);
 
-          // Get public URL
-          const { data: urlData } = supabase.storage
-            .from('journal-photos')
-            .getPublicUrl(fileName);
+      if (!isOnline) {
+        return await queueNewEntry(textFields, content.trim(), title?.trim() || null, moodString, entryTags, date);
+      }
+      
+      // Upload photos before saving so a failed upload doesn't leave a half-saved entry
+      const uploaded = await uploadPhotoFiles(
+        newPhotos.map((photo, index) => ({ file: photo.file!, caption: photo.caption, position: index }))
+      );
 
-          photoUrl = urlData.publicUrl;
-          photoFilename = photoFile.name;
-        } catch (photoError) {
-          console.error('Photo processing error:', photoError);
-          return { success: false, error: 'Failed to process photo. Please try again.' };
-        }
+      if (!uploaded) {
+        return { success: false, error: 'Failed to upload photos. Please try again.' };
       }
 
       // Insert journal entry
@@ -253,20 +759,34 @@ export function useJournal() {
         .from('journal_entries')
         .insert({
           user_id: user.id,
-          content: content.trim(),
-          title: title?.trim() || null,
+          ...textFields,
           mood: moodString,
-          photo_url: photoUrl,
-          photo_filename: photoFilename
+          tags: entryTags,
+          entry_date: date
         })
         .select()
         .single();
 
       if (entryError) {
+        // The connection dropped without the app noticing; keep the entry for later instead
+        if (isNetworkError(entryError) && uploaded.length === 0) {
+          return await queueNewEntry(textFields, content.trim(), title?.trim() || null, moodString, entryTags, date);
+        }
+
         console.error('Error saving entry:', entryError);
+        await removeStoredPhotos(uploaded.flatMap(getAttachmentPaths));
         return { success: false, error: 'Failed to save your journal entry. Please try again.' };
       }
 
+      const attachments = await insertAttachments(entryData.id, uploaded);
+      const warning = attachments ? undefined : PHOTOS_NOT_SAVED_WARNING;
+      const savedEntry = sortAttachments({
+        ...entryData,
+        content: content.trim(),
+        title: title?.trim() || null,
+        attachments: attachments || []
+      });
+
       // Reload profile to get updated streak
       const { data: updatedProfile, error: profileError } = await supabase
         .from('profiles')
@@ -277,24 +797,73 @@ export function useJournal() {
       if (profileError) {
         console.error('Error loading updated profile:', profileError);
         // Entry was saved, but we couldn't get updated streak
-        setEntries(prev => [entryData, ...prev]);
-        return { success: true };
+        setEntries(prev => [savedEntry, ...prev]);
+        setTotalEntries(prev => prev + 1);
+        return { success: true, entryId: entryData.id, warning };
       }
 
       // Update local state
       setProfile(updatedProfile);
-      setEntries(prev => [entryData, ...prev]);
+      setEntries(prev => [savedEntry, ...prev]);
+      setTotalEntries(prev => prev + 1);
+      rememberTags(entryTags);
+      
+      // Freezes used to bridge missed days show up as new frozen days
+      const freezeDays = await loadStreakFreezeDays();
+      const streakFreezesUsed = freezeDays.filter(day => !streakFreezeDays.includes(day)).length;
+      const streakFreezesEarned = updatedProfile.streak_freezes_available -
+        (profile?.streak_freezes_available ?? updatedProfile.streak_freezes_available) + streakFreezesUsed;
       
       // Reload badges as new entry might unlock badges
       await loadUserBadges();
 
-      return { success: true };
+      return {
+        success: true,
+        entryId: entryData.id,
+        streakFreezesUsed,
+        streakFreezesEarned: Math.max(streakFreezesEarned, 0),
+        warning
+      };
     } catch (err) {
       console.error('Error adding entry:', err);
       return { success: false, error: 'An unexpected error occurred. Please try again.' };
     }
   };
 
+  // Entries dated from `startDate` to `endDate` (inclusive), oldest first, including ones outside the loaded pages
+  const getEntriesForRange = async (startDate: string, endDate: string): Promise<JournalEntry[]> => {
+    const loadedEntries = entries
+      .filter(entry => entry.entry_date >= startDate && entry.entry_date <= endDate)
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.created_at.localeCompare(b.created_at));
+    if (!user || !isOnline) return loadedEntries;
+
+    try {
+      const { data, error: entriesError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_SELECT)
+        .eq('user_id', user.id)
+        .gte('entry_date', startDate)
+        .lte('entry_date', endDate)
+        .is('deleted_at', null)
+        .order('entry_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (entriesError) {
+        console.error('Error loading entries for range:', entriesError);
+        return loadedEntries;
+      }
+
+      const rows: JournalEntry[] = data || [];
+      return await Promise.all(rows.map(async entry => sortAttachments(await decryptEntryFields(entry))));
+    } catch (err) {
+      console.error('Error loading entries for range:', err);
+      return loadedEntries;
+    }
+  };
+
+  // Every entry dated `date`, for the mood calendar's day details; offline, only the loaded ones
+  const getEntriesForDate = (date: string): Promise<JournalEntry[]> => getEntriesForRange(date, date);
+
   const getStreak = (): number => {
     return profile?.current_streak || 0;
   };
@@ -303,18 +872,26 @@ export function useJournal() {
     return profile?.best_streak || 0;
   };
 
+  const getStreakFreezes = (): number => {
+    return profile?.streak_freezes_available || 0;
+  };
+
   const getTotalEntries = (): number => {
-    return entries.length;
+    return totalEntries;
   };
 
   const getLastEntryDate = (): Date | null => {
     if (!profile?.last_entry_date) return null;
-    return new Date(profile.last_entry_date);
+    return parseDateOnly(profile.last_entry_date);
   };
 
+  // last_entry_date is a local date in the profile's time zone
   const hasEntryToday = (): boolean => {
-    const today = new Date().toISOString().split('T')[0];
-    return profile?.last_entry_date === today;
+    return profile?.last_entry_date === getLocalDateString(profile?.timezone);
+  };
+
+  const updateLocalEntry = (entryId: string, fields: Partial<JournalEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === entryId ? sortAttachments({ ...entry, ...fields }) : entry));
   };
 
   const updateEntry = async (
@@ -322,9 +899,10 @@ export function useJournal() {
     content: string, 
     title: string | null,
     mood: MoodLevel, 
-    photoFile?: File,
-    removePhoto?: boolean
-  ): Promise<{ success: boolean; error?: string }> => {
+    photos?: AttachmentInput[],
+    tags?: string[],
+    entryDate?: string
+  ): Promise<{ success: boolean; queued?: boolean; warning?: string; error?: string }> => {
     if (!user || !isAuthenticated) {
       return { success: false, error: 'You must be logged in to update entries' };
     }
@@ -333,173 +911,286 @@ export function useJournal() {
       return { success: false, error: 'Entry content cannot be empty' };
     }
 
+    if (entryDate && entryDate > getLocalDateString(profile?.timezone)) {
+      return { success: false, error: FUTURE_ENTRY_DATE_ERROR };
+    }
+
+    const newPhotos = photos?.filter(photo => photo.file) || [];
+
     // Check if photo uploads are allowed for free users
-    if (photoFile && !isPremium) {
+    if (newPhotos.length > 0 && !isPremium) {
       return { success: false, error: 'Photo uploads are a premium feature. Please upgrade to add photos to your entries.' };
     }
 
+    if (photos && photos.length > MAX_ENTRY_ATTACHMENTS) {
+      return { success: false, error: `You can add up to ${MAX_ENTRY_ATTACHMENTS} photos to an entry.` };
+    }
+
     try {
       setError(null);
 
       // Convert mood level to string
       const moodString = getMoodString(mood);
+      const entryTags = tags ? normalizeTags(tags) : undefined;
+      const textFields = await encryptEntryFields(content.trim(), title?.trim() || null);
       
-      let photoUrl: string | null = null;
-      let photoFilename: string | null = null;
-      
-      // Get current entry to check for existing photo
+      // Get current entry to compare its photos with the edited list
       const currentEntry = entries.find(e => e.id === entryId);
-      
-      if (removePhoto && currentEntry?.photo_url) {
-        // Delete existing photo from storage
-        try {
-          const fileName = currentEntry.photo_url.split('/').pop();
-          if (fileName) {
-            await supabase.storage
-              .from('journal-photos')
-              .remove([`${user.id}/${fileName}`]);
-          }
-        } catch (deleteError) {
-          console.warn('Failed to delete old photo:', deleteError);
+      const currentAttachments = currentEntry?.attachments || [];
+      const photosChanged = !!photos && (
+        newPhotos.length > 0 ||
+        photos.length !== currentAttachments.length ||
+        photos.some((photo, index) =>
+          photo.id !== currentAttachments[index]?.id ||
+          (photo.caption.trim() || null) !== currentAttachments[index]?.caption
+        )
+      );
+
+      // Text, mood and tags can be edited offline; the edit is replayed once the connection is back
+      const queueUpdate = async (): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
+        const cachedEntry = await getCachedEntry<JournalEntry>(entryId).catch(() => undefined);
+        await queueEntryChange({
+          userId: user.id,
+          entryId,
+          action: 'update',
+          changes: {
+            ...textFields,
+            mood: moodString,
+            ...(entryTags ? { tags: entryTags } : {}),
+            ...(entryDate ? { entry_date: entryDate } : {})
+          },
+          baseUpdatedAt: cachedEntry?.updated_at || currentEntry?.updated_at || null
+        });
+
+        updateLocalEntry(entryId, {
+          ...textFields,
+          content: content.trim(),
+          title: title?.trim() || null,
+          mood: moodString,
+          ...(entryTags ? { tags: entryTags } : {}),
+          ...(entryDate ? { entry_date: entryDate } : {})
+        });
+        if (entryTags) {
+          rememberTags(entryTags);
         }
-        photoUrl = null;
-        photoFilename = null;
-      } else if (photoFile) {
-        // Upload new photo
-        try {
-          // Delete old photo if exists
-          if (currentEntry?.photo_url) {
-            const oldFileName = currentEntry.photo_url.split('/').pop();
-            if (oldFileName) {
-              await supabase.storage
-                .from('journal-photos')
-                .remove([`${user.id}/${oldFileName}`]);
-            }
-          }
-          
-          // Upload new photo
-          const timestamp = Date.now();
-          const fileExt = photoFile.name.split('.').pop()?.toLowerCase();
-          const fileName = `${user.id}/${timestamp}_${Math.random().toString(36).substring(7)}.${fileExt}`;
-          
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('journal-photos')
-            .upload(fileName, photoFile, {
-              cacheControl: '3600',
-              upsert: false
-            });
-
-          if (uploadError) {
-            console.error('Photo upload error:', uploadError);
-            return { success: false, error: 'Failed to upload photo. Please try again.' };
-          }
 
-          const { data: urlData } = supabase.storage
-            .from('journal-photos')
-            .getPublicUrl(fileName);
+        if (isOnline) {
+          syncPendingChanges();
+        }
+        return { success: true, queued: true };
+      };
+
+      // Changes to an entry still waiting to sync go through the outbox too, so they stay in order
+      if (!isOnline || outboxItems.some(item => item.entryId === entryId)) {
+        if (photosChanged) {
+          return {
+            success: false,
+            error: isOnline ? 'This entry is still syncing. Try changing its photos again in a moment.' : OFFLINE_PHOTOS_ERROR
+          };
+        }
+        return await queueUpdate();
+      }
+
+      let uploaded: UploadedPhoto[] = [];
+      if (photos) {
+        const result = await uploadPhotoFiles(
+          photos
+            .map((photo, index) => ({ file: photo.file, caption: photo.caption, position: index }))
+            .filter((photo): photo is { file: File; caption: string; position: number } => !!photo.file)
+        );
 
-          photoUrl = urlData.publicUrl;
-          photoFilename = photoFile.name;
-        } catch (photoError) {
-          console.error('Photo processing error:', photoError);
-          return { success: false, error: 'Failed to process photo. Please try again.' };
+        if (!result) {
+          return { success: false, error: 'Failed to upload photos. Please try again.' };
         }
-      } else {
-        // Keep existing photo
-        photoUrl = currentEntry?.photo_url || null;
-        photoFilename = currentEntry?.photo_filename || null;
+        uploaded = result;
       }
 
       // Prepare update data
       const updateData: any = {
-        content: content.trim(),
-        title: title?.trim() || null,
+        ...textFields,
         mood: moodString,
         updated_at: new Date().toISOString()
       };
-      
-      // Only update photo fields if they were explicitly changed
-      if (removePhoto || photoFile) {
-        updateData.photo_url = photoUrl;
-        updateData.photo_filename = photoFilename;
+
+      // Only update tags if they were provided
+      if (entryTags) {
+        updateData.tags = entryTags;
+      }
+
+      if (entryDate) {
+        updateData.entry_date = entryDate;
+      }
+
+      // Clear the legacy single-photo columns once that photo is removed from the gallery
+      const keptAttachments = photos
+        ? currentAttachments.filter(attachment => photos.some(photo => photo.id === attachment.id))
+        : currentAttachments;
+      if (photos && currentEntry?.photo_url && !keptAttachments.some(a => a.storage_path === currentEntry.photo_url)) {
+        updateData.photo_url = null;
+        updateData.photo_filename = null;
       }
 
       // Update journal entry
-      const { error: updateError } = await supabase
+      const { data: updatedRow, error: updateError } = await supabase
         .from('journal_entries')
         .update(updateData)
         .eq('id', entryId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select(ENTRY_SELECT)
+        .single();
 
       if (updateError) {
+        if (isNetworkError(updateError) && !photosChanged) {
+          return await queueUpdate();
+        }
+
         console.error('Error updating entry:', updateError);
+        await removeStoredPhotos(uploaded.flatMap(getAttachmentPaths));
         return { success: false, error: 'Failed to update your journal entry. Please try again.' };
       }
 
+      let nextAttachments = currentAttachments;
+      let warning: string | undefined;
+
+      if (photos) {
+        // Remove photos that were taken out of the gallery
+        const removedAttachments = currentAttachments.filter(attachment => !keptAttachments.includes(attachment));
+        if (removedAttachments.length > 0) {
+          const { error: removeError } = await supabase
+            .from('entry_attachments')
+            .delete()
+            .in('id', removedAttachments.map(attachment => attachment.id))
+            .eq('user_id', user.id);
+
+          if (removeError) {
+            console.error('Error removing photos:', removeError);
+          } else {
+            await removeStoredPhotos(removedAttachments.flatMap(getAttachmentPaths));
+          }
+        }
+
+        // Save new captions and ordering for the photos that were kept
+        const reorderedAttachments = keptAttachments.map(attachment => {
+          const index = photos.findIndex(photo => photo.id === attachment.id);
+          return { ...attachment, caption: photos[index].caption.trim() || null, position: index };
+        });
+
+        for (const attachment of reorderedAttachments) {
+          const original = currentAttachments.find(a => a.id === attachment.id);
+          if (original?.caption === attachment.caption && original?.position === attachment.position) continue;
+
+          const { error: attachmentError } = await supabase
+            .from('entry_attachments')
+            .update({ caption: attachment.caption, position: attachment.position })
+            .eq('id', attachment.id)
+            .eq('user_id', user.id);
+
+          if (attachmentError) {
+            console.error('Error updating photo:', attachmentError);
+          }
+        }
+
+        const insertedAttachments = await insertAttachments(entryId, uploaded);
+        if (!insertedAttachments) {
+          warning = PHOTOS_NOT_SAVED_WARNING;
+        }
+        nextAttachments = [...reorderedAttachments, ...(insertedAttachments || [])];
+      }
+
+      // The server's updated_at is kept so later offline edits can detect conflicts
+      putCachedEntries([{ ...updatedRow, attachments: nextAttachments }])
+        .catch(err => console.warn('Failed to cache entry:', err));
+
       // Update local state
-      setEntries(prev => prev.map(entry => 
-        entry.id === entryId 
-          ? { 
-              ...entry, 
-              content: content.trim(), 
-              title: title?.trim() || null,
-              mood: moodString, 
-              updated_at: new Date().toISOString(),
-              ...(removePhoto || photoFile ? { photo_url: photoUrl, photo_filename: photoFilename } : {})
-            }
-          : entry
-      ));
+      updateLocalEntry(entryId, {
+        ...textFields,
+        content: content.trim(), 
+        title: title?.trim() || null,
+        mood: moodString, 
+        entry_date: updatedRow.entry_date,
+        updated_at: updatedRow.updated_at,
+        attachments: nextAttachments,
+        ...('photo_url' in updateData ? { photo_url: null, photo_filename: null } : {}),
+        ...(entryTags ? { tags: entryTags } : {})
+      });
+
+      if (entryTags) {
+        rememberTags(entryTags);
+      }
 
-      return { success: true };
+      // Moving an entry to another day recomputes the streaks on the server
+      if (entryDate && entryDate !== currentEntry?.entry_date) {
+        await loadProfile();
+        await loadStreakFreezeDays();
+        await loadUserBadges();
+      }
+
+      return { success: true, warning };
     } catch (err) {
       console.error('Error updating entry:', err);
       return { success: false, error: 'An unexpected error occurred. Please try again.' };
     }
   };
 
-  const deleteEntry = async (entryId: string): Promise<{ success: boolean; error?: string }> => {
+  const deleteEntry = async (entryId: string): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
     if (!user || !isAuthenticated) {
       return { success: false, error: 'You must be logged in to delete entries' };
     }
 
+    const removeLocalEntry = () => {
+      setEntries(prev => prev.filter(entry => entry.id !== entryId));
+      setTotalEntries(prev => Math.max(0, prev - 1));
+    };
+
     try {
       setError(null);
-      
-      // Get entry to check for photo
-      const entryToDelete = entries.find(e => e.id === entryId);
-      
-      // Delete photo from storage if exists
-      if (entryToDelete?.photo_url) {
-        try {
-          const fileName = entryToDelete.photo_url.split('/').pop();
-          if (fileName) {
-            await supabase.storage
-              .from('journal-photos')
-              .remove([`${user.id}/${fileName}`]);
-          }
-        } catch (photoError) {
-          console.warn('Failed to delete photo:', photoError);
-          // Continue with entry deletion even if photo deletion fails
+
+      const deletedAt = new Date().toISOString();
+      const queueDelete = async (): Promise<{ success: boolean; queued?: boolean; error?: string }> => {
+        await queueEntryChange({
+          userId: user.id,
+          entryId,
+          action: 'delete',
+          changes: { deleted_at: deletedAt },
+          baseUpdatedAt: null
+        });
+        removeLocalEntry();
+
+        if (isOnline) {
+          syncPendingChanges();
         }
-      }
+        return { success: true, queued: true };
+      };
 
-      // Delete journal entry
+      if (!isOnline || outboxItems.some(item => item.entryId === entryId)) {
+        return await queueDelete();
+      }
+      
+      // Move the entry to the trash; it (and its photos) is purged after 30 days
       const { error: deleteError } = await supabase
         .from('journal_entries')
-        .delete()
+        .update({ deleted_at: deletedAt })
         .eq('id', entryId)
         .eq('user_id', user.id);
 
       if (deleteError) {
+        if (isNetworkError(deleteError)) {
+          return await queueDelete();
+        }
+
         console.error('Error deleting entry:', deleteError);
         return { success: false, error: 'Failed to delete your journal entry. Please try again.' };
       }
 
+      deleteCachedEntry(entryId).catch(err => console.warn('Failed to update offline journal:', err));
+
       // Update local state
-      setEntries(prev => prev.filter(entry => entry.id !== entryId));
+      removeLocalEntry();
 
-      // Reload profile to get updated streak (deletion might affect streak)
-      await loadUserData();
+      // Reload profile to get the recomputed streak without resetting the pages already loaded.
+      // Freezes that bridged to this entry are given back.
+      await loadProfile();
+      await loadStreakFreezeDays();
       await loadUserBadges();
 
       return { success: true };
@@ -509,25 +1200,156 @@ export function useJournal() {
     }
   };
 
+  // Replay the outbox and bring the entries it touched up to date
+  const syncPendingChanges = async (): Promise<void> => {
+    if (!user || !navigator.onLine) return;
+
+    try {
+      setIsSyncing(true);
+      const synced = await syncOutbox(user.id);
+      if (synced.length === 0) return;
+
+      const syncedEntries = await Promise.all(
+        synced.map(async row => sortAttachments(await decryptEntryFields(row as JournalEntry)))
+      );
+      setEntries(prev => prev
+        .filter(entry => !syncedEntries.some(synced => synced.id === entry.id && synced.deleted_at))
+        .map(entry => syncedEntries.find(synced => synced.id === entry.id) || entry)
+      );
+
+      // New entries may have extended the streak, used freezes or earned badges
+      await loadProfile();
+      await loadStreakFreezeDays();
+      await loadUserBadges();
+    } catch (err) {
+      console.error('Error syncing offline changes:', err);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // An entry edited offline was also changed elsewhere: keep this device's version or the server's
+  const resolveSyncConflict = async (
+    entryId: string,
+    keep: 'mine' | 'theirs'
+  ): Promise<{ success: boolean; error?: string }> => {
+    const conflict = outboxItems.find(item => item.entryId === entryId && item.conflict);
+    if (!user || !conflict) {
+      return { success: false, error: 'This entry has already been synced' };
+    }
+
+    try {
+      if (keep === 'mine') {
+        // Saving over the other version still keeps it in the entry's edit history
+        await putOutboxItem({ ...conflict, conflict: false, baseUpdatedAt: null });
+        await syncPendingChanges();
+        return { success: true };
+      }
+
+      const { data: serverRow, error: loadError } = await supabase
+        .from('journal_entries')
+        .select(ENTRY_SELECT)
+        .eq('id', entryId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (loadError) {
+        console.error('Error loading entry:', loadError);
+        return { success: false, error: 'Failed to load the latest version of this entry. Please try again.' };
+      }
+
+      await deleteOutboxItem(conflict.id);
+
+      if (!serverRow || serverRow.deleted_at) {
+        await deleteCachedEntry(entryId);
+        setEntries(prev => prev.filter(entry => entry.id !== entryId));
+      } else {
+        await putCachedEntries([serverRow]);
+        const serverEntry = sortAttachments(await decryptEntryFields(serverRow as JournalEntry));
+        setEntries(prev => prev.map(entry => entry.id === entryId ? serverEntry : entry));
+      }
+
+      return { success: true };
+    } catch (err) {
+      console.error('Error resolving sync conflict:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  };
+
+  // Keep the pending-sync count in step with the outbox, which every screen shares
+  useEffect(() => {
+    if (!userId) {
+      setOutboxItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    const refreshOutbox = () => {
+      getOutboxItems(userId)
+        .then(items => {
+          if (!cancelled) setOutboxItems(items);
+        })
+        .catch(err => console.warn('Failed to read offline changes:', err));
+    };
+
+    refreshOutbox();
+    const unsubscribe = subscribeToOutbox(refreshOutbox);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  // Replay offline changes as soon as the connection comes back
+  const syncPendingChangesRef = useRef(syncPendingChanges);
+  const wasOnlineRef = useRef(isOnline);
+
+  useEffect(() => {
+    syncPendingChangesRef.current = syncPendingChanges;
+  });
+
+  useEffect(() => {
+    if (isOnline && !wasOnlineRef.current) {
+      syncPendingChangesRef.current();
+    }
+    wasOnlineRef.current = isOnline;
+  }, [isOnline]);
+
   return {
     entries,
     profile,
     badges,
+    userTags,
     isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
     error,
     isPremium,
     addEntry,
     updateEntry,
     deleteEntry,
     updateJournalingGoal,
+    isOnline,
+    isSyncing,
+    pendingSyncCount: outboxItems.length,
+    syncConflicts: outboxItems.filter(item => item.conflict).map(item => item.entryId),
+    syncNow: syncPendingChanges,
+    resolveSyncConflict,
     getStreak,
     getBestStreak,
+    getStreakFreezes,
+    streakFreezeDays,
+    getEntriesForDate,
+    getEntriesForRange,
     getTotalEntries,
     getLastEntryDate,
     hasEntryToday,
     refreshData: () => {
       loadUserData();
       loadUserBadges();
+      loadUserTags();
     }
   };
 }
@@ -0,0 +1,211 @@
+import { useState, useRef, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { EntryAttachment } from './useJournal';
+
+export interface JournalSearchFilters {
+  mood?: string | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  tags?: string[];
+}
+
+export interface JournalSearchResult {
+  id: string;
+  title: string | null;
+  content: string;
+  mood: string;
+  tags: string[];
+  photo_url: string | null;
+  photo_filename: string | null;
+  attachments: EntryAttachment[];
+  created_at: string;
+  updated_at: string;
+  rank: number;
+  title_highlight: string | null;
+  content_snippet: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface SearchRow extends Omit<JournalSearchResult, 'attachments'> {
+  total_count: number;
+}
+
+const SEARCH_PAGE_SIZE = 20;
+
+// search_journal_entries wraps matches in these control characters instead of HTML
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+export const splitHighlights = (text: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+
+  text.split(HIGHLIGHT_START).forEach((part, index) => {
+    if (index === 0) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
+    }
+
+    const [match, ...rest] = part.split(HIGHLIGHT_STOP);
+    if (match) segments.push({ text: match, highlighted: true });
+    const after = rest.join('');
+    if (after) segments.push({ text: after, highlighted: false });
+  });
+
+  return segments;
+};
+
+export function useJournalSearch(isPremium: boolean) {
+  const { user } = useAuth();
+  const [results, setResults] = useState<JournalSearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeQuery, setActiveQuery] = useState('');
+
+  // Track the latest request so slow responses for older queries are ignored
+  const requestIdRef = useRef(0);
+  const lastSearchRef = useRef<{ query: string; filters: JournalSearchFilters } | null>(null);
+
+  const runSearch = useCallback(async (query: string, filters: JournalSearchFilters, offset: number) => {
+    if (!user) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsSearching(true);
+    setError(null);
+
+    // Free users can only search the same 30 days of history they can browse
+    let startDate = filters.startDate || null;
+    if (!isPremium) {
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      if (!startDate || startDate < thirtyDaysAgo) {
+        startDate = thirtyDaysAgo;
+      }
+    }
+
+    try {
+      const { data, error: searchError } = await supabase.rpc('search_journal_entries', {
+        target_user_id: user.id,
+        search_query: query,
+        mood_filter: filters.mood || null,
+        start_date: startDate ? startDate.toISOString() : null,
+        end_date: filters.endDate ? filters.endDate.toISOString() : null,
+        tag_filter: filters.tags && filters.tags.length > 0 ? filters.tags : null,
+        page_size: SEARCH_PAGE_SIZE,
+        page_offset: offset
+      });
+
+      if (requestId !== requestIdRef.current) return;
+
+      if (searchError) {
+        console.error('Error searching journal entries:', searchError);
+        setError('Search failed. Please try again.');
+        return;
+      }
+
+      const rows: SearchRow[] = data || [];
+
+      // The search function only returns entry columns, so fetch the photos for this page separately
+      let attachments: EntryAttachment[] = [];
+      if (rows.length > 0) {
+        const { data: attachmentData, error: attachmentError } = await supabase
+          .from('entry_attachments')
+          .select('*')
+          .in('entry_id', rows.map(row => row.id))
+          .order('position', { ascending: true });
+
+        if (requestId !== requestIdRef.current) return;
+
+        if (attachmentError) {
+          console.error('Error loading photos for search results:', attachmentError);
+        } else {
+          attachments = attachmentData || [];
+        }
+      }
+
+      const pageResults: JournalSearchResult[] = rows.map(row => ({
+        id: row.id,
+        title: row.title,
+        content: row.content,
+        mood: row.mood,
+        tags: row.tags || [],
+        photo_url: row.photo_url,
+        photo_filename: row.photo_filename,
+        attachments: attachments.filter(attachment => attachment.entry_id === row.id),
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+        rank: row.rank,
+        title_highlight: row.title_highlight,
+        content_snippet: row.content_snippet
+      }));
+
+      setResults(prev => offset === 0 ? pageResults : [...prev, ...pageResults]);
+      // total_count is only present on returned rows; an empty later page keeps the previous total
+      if (rows.length > 0) {
+        setTotalCount(Number(rows[0].total_count));
+      } else if (offset === 0) {
+        setTotalCount(0);
+      }
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error searching journal entries:', err);
+      setError('An unexpected error occurred while searching');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, [user, isPremium]);
+
+  // Start a new search; phrases in "quotes" and -word exclusions are supported
+  const search = useCallback(async (query: string, filters: JournalSearchFilters = {}) => {
+    const trimmedQuery = query.trim();
+    lastSearchRef.current = { query: trimmedQuery, filters };
+    setActiveQuery(trimmedQuery);
+
+    if (!trimmedQuery) {
+      requestIdRef.current++;
+      setResults([]);
+      setTotalCount(0);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    await runSearch(trimmedQuery, filters, 0);
+  }, [runSearch]);
+
+  const loadMore = useCallback(async () => {
+    const lastSearch = lastSearchRef.current;
+    if (!lastSearch || !lastSearch.query || isSearching) return;
+
+    await runSearch(lastSearch.query, lastSearch.filters, results.length);
+  }, [runSearch, isSearching, results.length]);
+
+  const clearSearch = useCallback(() => {
+    requestIdRef.current++;
+    lastSearchRef.current = null;
+    setActiveQuery('');
+    setResults([]);
+    setTotalCount(0);
+    setIsSearching(false);
+    setError(null);
+  }, []);
+
+  return {
+    search,
+    loadMore,
+    clearSearch,
+    results,
+    totalCount,
+    hasMore: results.length < totalCount,
+    isSearching,
+    activeQuery,
+    error
+  };
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+import { getAttachmentPaths } from './useJournal';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedEntry {
+  id: string;
+  content: string;
+  mood: string;
+  title: string | null;
+  is_encrypted: boolean;
+  encrypted_content: string | null;
+  encrypted_title: string | null;
+  tags: string[];
+  photo_url: string | null;
+  photo_filename: string | null;
+  attachments: { storage_path: string; thumbnail_path: string | null }[];
+  created_at: string;
+  deleted_at: string;
+}
+
+// Whole days left before purge-deleted-entries removes the entry for good
+export const getDaysUntilPurge = (deletedAt: string): number => {
+  const purgeAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+};
+
+export function useJournalTrash() {
+  const { user, isAuthenticated } = useAuth();
+  const { decryptEntryFields } = useEncryption();
+  const [trashedEntries, setTrashedEntries] = useState<TrashedEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!user) {
+      setTrashedEntries([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: trashError } = await supabase
+        .from('journal_entries')
+        .select('id, content, mood, title, is_encrypted, encrypted_content, encrypted_title, tags, photo_url, photo_filename, created_at, deleted_at, attachments:entry_attachments(storage_path, thumbnail_path)')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (trashError) {
+        console.error('Error loading trash:', trashError);
+        setError('Failed to load deleted entries');
+        return;
+      }
+
+      setTrashedEntries(await Promise.all((data || []).map(entry => decryptEntryFields(entry))));
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, decryptEntryFields]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const restoreEntry = async (entryId: string): Promise<{ success: boolean; error?: string }> => {
+    if (!user || !isAuthenticated) {
+      return { success: false, error: 'You must be logged in to restore entries' };
+    }
+
+    try {
+      // Clearing deleted_at also recomputes streaks and badges on the server
+      const { error: restoreError } = await supabase
+        .from('journal_entries')
+        .update({ deleted_at: null })
+        .eq('id', entryId)
+        .eq('user_id', user.id);
+
+      if (restoreError) {
+        console.error('Error restoring entry:', restoreError);
+        return { success: false, error: 'Failed to restore your journal entry. Please try again.' };
+      }
+
+      setTrashedEntries(prev => prev.filter(entry => entry.id !== entryId));
+      return { success: true };
+    } catch (err) {
+      console.error('Error restoring entry:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  };
+
+  // Permanently delete trashed entries and their photos
+  const purgeEntries = async (entryIds: string[]): Promise<{ success: boolean; error?: string }> => {
+    if (!user || !isAuthenticated) {
+      return { success: false, error: 'You must be logged in to delete entries' };
+    }
+
+    const entriesToPurge = trashedEntries.filter(entry => entryIds.includes(entry.id));
+    if (entriesToPurge.length === 0) {
+      return { success: true };
+    }
+
+    try {
+      // Gallery photos plus the legacy single photo (usually the same object as the first attachment)
+      const photoPaths = Array.from(new Set(entriesToPurge.flatMap(entry => [
+        ...(entry.attachments || []).flatMap(getAttachmentPaths),
+        ...(entry.photo_url ? [entry.photo_url] : [])
+      ])));
+
+      if (photoPaths.length > 0) {
+        try {
+          await supabase.storage
+            .from('journal-photos')
+            .remove(photoPaths);
+        } catch (photoError) {
+          console.warn('Failed to delete photos:', photoError);
+          // Continue with entry deletion even if photo deletion fails
+        }
+      }
+
+      const { error: deleteError } = await supabase
+        .from('journal_entries')
+        .delete()
+        .in('id', entriesToPurge.map(entry => entry.id))
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null);
+
+      if (deleteError) {
+        console.error('Error purging entries:', deleteError);
+        return { success: false, error: 'Failed to permanently delete entries. Please try again.' };
+      }
+
+      setTrashedEntries(prev => prev.filter(entry => !entryIds.includes(entry.id)));
+      return { success: true };
+    } catch (err) {
+      console.error('Error purging entries:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  };
+
+  const purgeEntry = (entryId: string) => purgeEntries([entryId]);
+
+  const emptyTrash = () => purgeEntries(trashedEntries.map(entry => entry.id));
+
+  return {
+    trashedEntries,
+    isLoading,
+    error,
+    restoreEntry,
+    purgeEntry,
+    emptyTrash,
+    refreshTrash: loadTrash
+  };
+}
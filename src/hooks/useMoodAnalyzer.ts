@@ -3,16 +3,51 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { usePremium } from './usePremium';
 import { MoodLevel } from '../types';
+import { SafetyLevel } from '../utils/safety';
+
+export interface EmotionScore {
+  name: string;
+  intensity: number; // 0-1
+}
+
+export interface MoodAnalysis {
+  mood: MoodLevel;
+  emotions: EmotionScore[]; // strongest first
+  valence: number; // -1 = very unpleasant to 1 = very pleasant
+  arousal: number; // 0 = very calm to 1 = very energized
+  confidence: number;
+  analysis: string | null;
+  safetyLevel: SafetyLevel | null; // null when the safety check wasn't asked for or didn't run
+}
+
+interface AnalyzeEntryOptions {
+  safetyCheck?: boolean;
+}
 
 interface MoodAnalysisResponse {
   success: boolean;
-  mood: string;
+  mood?: string; // absent when only the safety check was asked for
+  emotions?: EmotionScore[];
+  valence?: number;
+  arousal?: number;
   confidence?: number;
   analysis?: string;
+  safety?: { level: SafetyLevel };
   error?: string;
   timestamp: string;
 }
 
+// Returned when the analysis failed, so the entry can still be saved with a neutral mood
+const FALLBACK_ANALYSIS: MoodAnalysis = {
+  mood: 3,
+  emotions: [],
+  valence: 0,
+  arousal: 0.5,
+  confidence: 0,
+  analysis: null,
+  safetyLevel: null
+};
+
 export function useMoodAnalyzer() {
   const { user } = useAuth();
   const { isPremium, trackFeatureUsage } = usePremium();
@@ -20,7 +55,9 @@ export function useMoodAnalyzer() {
   const [error, setError] = useState<string | null>(null);
   const [dailyUsageCount, setDailyUsageCount] = useState(0);
 
-  const analyzeMood = async (journalEntry: string): Promise<MoodLevel | null> => {
+  // The overall mood plus the named emotions, valence and arousal of an entry, and optionally
+  // whether it contains crisis language
+  const analyzeEntry = async (journalEntry: string, options: AnalyzeEntryOptions = {}): Promise<MoodAnalysis | null> => {
     if (!journalEntry.trim()) {
       setError('Journal entry is required for mood analysis');
       return null;
@@ -40,7 +77,8 @@ export function useMoodAnalyzer() {
       const { data, error: functionError } = await supabase.functions.invoke('analyze-mood', {
         body: {
           entry: journalEntry.trim(),
-          name: user?.name
+          name: user?.name,
+          safety_check: options.safetyCheck === true
         }
       });
 
@@ -54,13 +92,20 @@ export function useMoodAnalyzer() {
       
       if (!response.success) {
         setError(response.error || 'Failed to analyze mood');
-        // Return neutral as fallback
-        return 3;
+        // Return neutral as fallback, keeping the safety check's verdict if it ran
+        return { ...FALLBACK_ANALYSIS, safetyLevel: response.safety?.level ?? null };
       }
 
-      // Convert mood string to MoodLevel
-      const moodLevel = convertMoodStringToLevel(response.mood);
-      return moodLevel;
+      return {
+        // Convert mood string to MoodLevel
+        mood: convertMoodStringToLevel(response.mood || 'neutral'),
+        emotions: response.emotions || [],
+        valence: response.valence ?? 0,
+        arousal: response.arousal ?? 0.5,
+        confidence: response.confidence ?? 0,
+        analysis: response.analysis || null,
+        safetyLevel: response.safety?.level ?? null
+      };
     } catch (err) {
       console.error('Error calling mood analyzer:', err);
       setError('An unexpected error occurred during mood analysis');
@@ -70,8 +115,71 @@ export function useMoodAnalyzer() {
     }
   };
 
+  // Just the crisis-language check, for entries whose mood analysis was skipped. It isn't limited
+  // like mood analysis, so free users get it after their daily analyses are used up.
+  const checkEntrySafety = async (journalEntry: string): Promise<SafetyLevel | null> => {
+    if (!journalEntry.trim()) return null;
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('analyze-mood', {
+        body: {
+          entry: journalEntry.trim(),
+          safety_only: true
+        }
+      });
+
+      if (functionError) {
+        console.error('Edge function error:', functionError);
+        return null;
+      }
+
+      const response: MoodAnalysisResponse = data;
+      return response.safety?.level ?? null;
+    } catch (err) {
+      console.error('Error calling safety check:', err);
+      return null;
+    }
+  };
+
+  const analyzeMood = async (journalEntry: string): Promise<MoodLevel | null> => {
+    const analysis = await analyzeEntry(journalEntry);
+    return analysis ? analysis.mood : null;
+  };
+
+  // Keep an entry's emotions for its detail view; analyses that found none aren't stored
+  const saveEntryEmotions = async (entryId: string, analysis: MoodAnalysis): Promise<boolean> => {
+    if (!user || analysis.emotions.length === 0) return false;
+
+    try {
+      const { error: upsertError } = await supabase
+        .from('entry_emotions')
+        .upsert({
+          entry_id: entryId,
+          user_id: user.id,
+          emotions: analysis.emotions,
+          valence: analysis.valence,
+          arousal: analysis.arousal,
+          confidence: analysis.confidence,
+          analysis: analysis.analysis
+        }, { onConflict: 'entry_id' });
+
+      if (upsertError) {
+        console.error('Error saving entry emotions:', upsertError);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error saving entry emotions:', err);
+      return false;
+    }
+  };
+
   return {
     analyzeMood,
+    analyzeEntry,
+    checkEntrySafety,
+    saveEntryEmotions,
     isAnalyzing,
     error,
     dailyUsageCount
@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface TopicMood {
+  topic: string;
+  dayCount: number; // days with an entry about the topic
+  averageMood: number;
+}
+
+interface TopicMoodRow {
+  topic: string;
+  day_count: number;
+  avg_mood: number | string;
+  overall_avg_mood: number | string;
+}
+
+// Average mood on days mentioning each topic from `startDate` to `endDate` (inclusive), most frequent
+// topic first, with the average mood of all days in the range to compare against
+export function useMoodByTopic(startDate: string, endDate: string, refreshKey?: unknown) {
+  const { user } = useAuth();
+  const [topicMoods, setTopicMoods] = useState<TopicMood[]>([]);
+  const [overallMood, setOverallMood] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setTopicMoods([]);
+      setOverallMood(null);
+      return;
+    }
+
+    // Ignore the response if the range changed while it was loading
+    let isCurrent = true;
+
+    const loadMoodByTopic = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('get_mood_by_topic', {
+          target_user_id: user.id,
+          start_date: startDate,
+          end_date: endDate
+        });
+
+        if (!isCurrent) return;
+
+        if (rpcError) {
+          console.error('Error loading mood by topic:', rpcError);
+          setError('Failed to load your mood by topic');
+          return;
+        }
+
+        // numeric columns arrive as strings
+        const rows: TopicMoodRow[] = data || [];
+        setTopicMoods(rows.map(row => ({
+          topic: row.topic,
+          dayCount: row.day_count,
+          averageMood: Number(row.avg_mood)
+        })));
+        setOverallMood(rows.length > 0 ? Number(rows[0].overall_avg_mood) : null);
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading mood by topic:', err);
+        setError('Failed to load your mood by topic');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadMoodByTopic();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, startDate, endDate, refreshKey]);
+
+  return { topicMoods, overallMood, isLoading, error };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { MoodLevel } from '../types';
+
+export interface DailyMood {
+  date: string; // YYYY-MM-DD entry date
+  entryCount: number;
+  averageMood: number;
+  moodLevel: MoodLevel;
+}
+
+interface DailyMoodRow {
+  day: string;
+  entry_count: number;
+  avg_mood: number | string;
+}
+
+// Entry count and average mood for each day with entries from `startDate` to `endDate` (inclusive).
+// Pass null dates to skip loading, e.g. for a range that's locked for free users; a new `refreshKey` reloads.
+export function useMoodCalendar(startDate: string | null, endDate: string | null, refreshKey?: unknown) {
+  const { user } = useAuth();
+  const [days, setDays] = useState<Record<string, DailyMood>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !startDate || !endDate) {
+      setDays({});
+      return;
+    }
+
+    // Ignore the response if the range changed while it was loading
+    let isCurrent = true;
+
+    const loadDailyMoods = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('get_daily_moods', {
+          target_user_id: user.id,
+          start_date: startDate,
+          end_date: endDate
+        });
+
+        if (!isCurrent) return;
+
+        if (rpcError) {
+          console.error('Error loading mood calendar:', rpcError);
+          setError('Failed to load your mood calendar');
+          return;
+        }
+
+        const rows: DailyMoodRow[] = data || [];
+        setDays(Object.fromEntries(rows.map(row => {
+          // numeric columns arrive as strings
+          const averageMood = Number(row.avg_mood);
+          return [row.day, {
+            date: row.day,
+            entryCount: row.entry_count,
+            averageMood,
+            moodLevel: Math.min(Math.max(Math.round(averageMood), 1), 5) as MoodLevel
+          }];
+        })));
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading mood calendar:', err);
+        setError('Failed to load your mood calendar');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadDailyMoods();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, startDate, endDate, refreshKey]);
+
+  return { days, isLoading, error };
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { addDays, daysBetween, parseDateOnly } from '../utils/dates';
+
+export interface MoodTrendPoint {
+  date: string; // YYYY-MM-DD entry date
+  entryCount: number;
+  averageMood: number | null; // null on days without entries
+  movingAverage: number | null;
+}
+
+export interface WeekdayMood {
+  weekday: number; // 0 = Monday ... 6 = Sunday
+  entryCount: number;
+  averageMood: number | null;
+}
+
+interface MoodTrendRow {
+  date_created: string;
+  mood_level: string;
+  entry_count: number;
+  avg_mood_numeric: number | string;
+}
+
+interface DayTotals {
+  entryCount: number;
+  moodSum: number;
+}
+
+// Days in the trailing moving average; short ranges use a shorter window so the line still moves
+export const getMovingAverageWindow = (rangeDays: number): number => (rangeDays <= 7 ? 3 : 7);
+
+// Daily average mood and entry count for the last `rangeDays` days up to `today`, with a trailing
+// moving average and the average mood per weekday
+export function useMoodTrends(rangeDays: number, today: string, refreshKey?: unknown) {
+  const { user } = useAuth();
+  const [totalsByDate, setTotalsByDate] = useState<Record<string, DayTotals>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const movingAverageWindow = getMovingAverageWindow(rangeDays);
+  // Load the days before the range too, so the moving average starts with a full window
+  const daysBack = rangeDays - 1 + movingAverageWindow - 1;
+
+  useEffect(() => {
+    if (!user) {
+      setTotalsByDate({});
+      return;
+    }
+
+    // Ignore the response if the range changed while it was loading
+    let isCurrent = true;
+
+    const loadTrends = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('get_mood_trends', {
+          user_uuid: user.id,
+          days_back: daysBack
+        });
+
+        if (!isCurrent) return;
+
+        if (rpcError) {
+          console.error('Error loading mood trends:', rpcError);
+          setError('Failed to load your mood trends');
+          return;
+        }
+
+        // One row per day and mood, so add the moods of each day up
+        const totals: Record<string, DayTotals> = {};
+        ((data || []) as MoodTrendRow[]).forEach(row => {
+          const day = totals[row.date_created] || { entryCount: 0, moodSum: 0 };
+          const entryCount = Number(row.entry_count);
+          day.entryCount += entryCount;
+          day.moodSum += Number(row.avg_mood_numeric) * entryCount;
+          totals[row.date_created] = day;
+        });
+        setTotalsByDate(totals);
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading mood trends:', err);
+        setError('Failed to load your mood trends');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadTrends();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, daysBack, refreshKey]);
+
+  const trends = useMemo(() => {
+    const startDate = addDays(today, -(rangeDays - 1));
+    const dailyAverage = (date: string): number | null => {
+      const day = totalsByDate[date];
+      return day && day.entryCount > 0 ? day.moodSum / day.entryCount : null;
+    };
+
+    const points: MoodTrendPoint[] = [];
+    for (let offset = 0; offset < rangeDays; offset++) {
+      const date = addDays(startDate, offset);
+      const windowAverages: number[] = [];
+      for (let back = 0; back < movingAverageWindow; back++) {
+        const average = dailyAverage(addDays(date, -back));
+        if (average !== null) windowAverages.push(average);
+      }
+
+      points.push({
+        date,
+        entryCount: totalsByDate[date]?.entryCount || 0,
+        averageMood: dailyAverage(date),
+        movingAverage: windowAverages.length > 0
+          ? windowAverages.reduce((sum, average) => sum + average, 0) / windowAverages.length
+          : null
+      });
+    }
+
+    const weekdayTotals: DayTotals[] = Array.from({ length: 7 }, () => ({ entryCount: 0, moodSum: 0 }));
+    let entryCount = 0;
+    let moodSum = 0;
+    Object.entries(totalsByDate).forEach(([date, day]) => {
+      if (daysBetween(startDate, date) < 0 || daysBetween(date, today) < 0) return;
+      const weekday = (parseDateOnly(date).getDay() + 6) % 7;
+      weekdayTotals[weekday].entryCount += day.entryCount;
+      weekdayTotals[weekday].moodSum += day.moodSum;
+      entryCount += day.entryCount;
+      moodSum += day.moodSum;
+    });
+
+    const weekdays: WeekdayMood[] = weekdayTotals.map((day, weekday) => ({
+      weekday,
+      entryCount: day.entryCount,
+      averageMood: day.entryCount > 0 ? day.moodSum / day.entryCount : null
+    }));
+
+    // Best and worst only mean something when at least two weekdays differ
+    const rankedWeekdays = weekdays
+      .filter(day => day.averageMood !== null)
+      .sort((a, b) => (b.averageMood as number) - (a.averageMood as number));
+    const hasWeekdayPattern = rankedWeekdays.length >= 2 &&
+      rankedWeekdays[0].averageMood !== rankedWeekdays[rankedWeekdays.length - 1].averageMood;
+
+    return {
+      points,
+      weekdays,
+      bestWeekday: hasWeekdayPattern ? rankedWeekdays[0] : null,
+      worstWeekday: hasWeekdayPattern ? rankedWeekdays[rankedWeekdays.length - 1] : null,
+      totalEntries: entryCount,
+      daysJournaled: points.filter(point => point.entryCount > 0).length,
+      averageMood: entryCount > 0 ? moodSum / entryCount : null
+    };
+  }, [totalsByDate, rangeDays, today, movingAverageWindow]);
+
+  return { ...trends, movingAverageWindow, isLoading, error };
+}
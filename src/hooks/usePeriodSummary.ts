@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+import { usePremium } from './usePremium';
+
+export type SummaryPeriodType = 'week' | 'month';
+
+export interface PeriodSummary {
+  periodType: SummaryPeriodType;
+  periodStart: string; // YYYY-MM-DD entry dates
+  periodEnd: string;
+  summary: string;
+  themes: string[];
+  moodArc: string;
+  wins: string[];
+  stressors: string[];
+  entryCount: number;
+  generatedBy: 'ai' | 'fallback';
+  updatedAt: string;
+}
+
+// What the generate-period-summary edge function reads of each entry
+export interface PeriodSummaryEntry {
+  entry_date: string;
+  mood: string;
+  title?: string | null;
+  content: string;
+  tags?: string[];
+}
+
+interface SummaryContent {
+  summary: string;
+  themes: string[];
+  mood_arc: string | null;
+  wins: string[];
+  stressors: string[];
+}
+
+interface PeriodSummaryRow extends SummaryContent {
+  period_type: SummaryPeriodType;
+  period_start: string;
+  period_end: string;
+  entry_count: number;
+  generated_by: 'ai' | 'fallback';
+  is_encrypted: boolean;
+  encrypted_content: string | null;
+  updated_at: string;
+}
+
+interface PeriodSummaryResponse {
+  success: boolean;
+  summary?: SummaryContent & {
+    period_type: SummaryPeriodType;
+    period_start: string;
+    period_end: string;
+    entry_count: number;
+    generated_by: 'ai' | 'fallback';
+  };
+  stored?: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+const toPeriodSummary = (row: Omit<PeriodSummaryRow, 'is_encrypted' | 'encrypted_content'>): PeriodSummary => ({
+  periodType: row.period_type,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  summary: row.summary,
+  themes: row.themes || [],
+  moodArc: row.mood_arc || '',
+  wins: row.wins || [],
+  stressors: row.stressors || [],
+  entryCount: row.entry_count,
+  generatedBy: row.generated_by,
+  updatedAt: row.updated_at
+});
+
+// Zeno's reflection on one week or month of entries, generated on request and kept until regenerated
+export function usePeriodSummary(periodType: SummaryPeriodType, periodStart: string, periodEnd: string) {
+  const { user } = useAuth();
+  const { isEncryptionEnabled, encryptEntryFields, decryptEntryFields } = useEncryption();
+  const { isPremium, trackFeatureUsage } = usePremium();
+  const [summary, setSummary] = useState<PeriodSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Ignore the response if the period changed while it was loading
+    let isCurrent = true;
+
+    const loadSummary = async () => {
+      setIsLoading(true);
+      setError(null);
+      setSummary(null);
+
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('period_summaries')
+          .select('period_type, period_start, period_end, summary, themes, mood_arc, wins, stressors, entry_count, generated_by, is_encrypted, encrypted_content, updated_at')
+          .eq('user_id', user.id)
+          .eq('period_type', periodType)
+          .eq('period_start', periodStart)
+          .maybeSingle();
+
+        if (!isCurrent) return;
+
+        if (fetchError) {
+          console.error('Error loading period summary:', fetchError);
+          setError('Failed to load your summary');
+          return;
+        }
+
+        if (!data) return;
+
+        const row: PeriodSummaryRow = data;
+        if (!row.is_encrypted) {
+          setSummary(toPeriodSummary(row));
+          return;
+        }
+
+        // Encrypted summaries hold their fields as one encrypted JSON document
+        const decrypted = await decryptEntryFields({
+          content: '',
+          title: null,
+          is_encrypted: true,
+          encrypted_content: row.encrypted_content
+        });
+        if (!isCurrent) return;
+
+        try {
+          setSummary(toPeriodSummary({ ...row, ...JSON.parse(decrypted.content) as SummaryContent }));
+        } catch {
+          setError('This summary could not be decrypted');
+        }
+      } catch (err) {
+        if (!isCurrent) return;
+        console.error('Error loading period summary:', err);
+        setError('Failed to load your summary');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, periodType, periodStart, decryptEntryFields]);
+
+  const generateSummary = async (entries: PeriodSummaryEntry[]): Promise<boolean> => {
+    if (!user) return false;
+
+    if (entries.length === 0) {
+      setError('Write a few entries first, then Zeno can reflect on them with you.');
+      return false;
+    }
+
+    // Check if free user has reached daily limit
+    if (!isPremium && !trackFeatureUsage('period-summary')) {
+      setError('Daily limit reached. Upgrade to Premium for unlimited summaries.');
+      return false;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('generate-period-summary', {
+        body: {
+          period_type: periodType,
+          period_start: periodStart,
+          period_end: periodEnd,
+          entries: entries.map(entry => ({
+            entry_date: entry.entry_date,
+            mood: entry.mood,
+            title: entry.title || null,
+            content: entry.content,
+            tags: entry.tags || []
+          })),
+          name: user.name,
+          // With end-to-end encryption on, only an encrypted copy is stored, from here
+          store: !isEncryptionEnabled
+        }
+      });
+
+      if (functionError) {
+        console.error('Edge function error:', functionError);
+        setError('Failed to generate your summary');
+        return false;
+      }
+
+      const response: PeriodSummaryResponse = data;
+
+      if (!response.success || !response.summary) {
+        setError(response.error || 'Failed to generate your summary');
+        return false;
+      }
+
+      const { summary: text, themes, mood_arc, wins, stressors, ...period } = response.summary;
+
+      if (isEncryptionEnabled) {
+        const { encrypted_content } = await encryptEntryFields(
+          JSON.stringify({ summary: text, themes, mood_arc, wins, stressors }),
+          null
+        );
+
+        const { error: upsertError } = await supabase
+          .from('period_summaries')
+          .upsert({
+            user_id: user.id,
+            ...period,
+            is_encrypted: true,
+            encrypted_content
+          }, { onConflict: 'user_id,period_type,period_start' });
+
+        if (upsertError) {
+          console.error('Error saving period summary:', upsertError);
+          setError('Failed to save your summary');
+          return false;
+        }
+      }
+
+      setSummary(toPeriodSummary({ ...response.summary, updated_at: response.timestamp }));
+      return true;
+    } catch (err) {
+      console.error('Error generating period summary:', err);
+      setError('An unexpected error occurred while generating your summary');
+      return false;
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return {
+    summary,
+    isLoading,
+    isGenerating,
+    error,
+    generateSummary
+  };
+}
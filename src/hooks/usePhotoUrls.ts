@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+
+// The journal-photos bucket is private, so photos are shown through short-lived signed URLs.
+// URLs are cached across components and re-signed a few minutes before they expire.
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const urlCache = new Map<string, CachedUrl>();
+const pendingRequests = new Map<string, Promise<void>>();
+
+// The cache belongs to one signed-in user. It's emptied when someone else signs in or everyone
+// signs out, and requests started before that don't write into it.
+let cacheOwner: string | null = null;
+let cacheGeneration = 0;
+
+supabase.auth.onAuthStateChange((_event, session) => {
+  const userId = session?.user.id ?? null;
+  if (userId === cacheOwner) return;
+
+  cacheOwner = userId;
+  cacheGeneration += 1;
+  urlCache.clear();
+  pendingRequests.clear();
+});
+
+const isFresh = (path: string): boolean => {
+  const cached = urlCache.get(path);
+  return !!cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now();
+};
+
+const getCachedUrls = (paths: string[]): Record<string, string> => {
+  const urls: Record<string, string> = {};
+  paths.forEach(path => {
+    const cached = urlCache.get(path);
+    if (cached && cached.expiresAt > Date.now()) {
+      urls[path] = cached.url;
+    }
+  });
+  return urls;
+};
+
+const signPaths = async (paths: string[]): Promise<void> => {
+  const generation = cacheGeneration;
+
+  try {
+    const { data, error } = await supabase.storage
+      .from('journal-photos')
+      .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+    if (generation !== cacheGeneration) return;
+
+    if (error) {
+      console.error('Error signing photo URLs:', error);
+      return;
+    }
+
+    const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000;
+    data.forEach(item => {
+      if (item.error || !item.path) {
+        console.error('Error signing photo URL:', item.error);
+        return;
+      }
+      urlCache.set(item.path, { url: item.signedUrl, expiresAt });
+    });
+  } catch (err) {
+    console.error('Error signing photo URLs:', err);
+  }
+};
+
+// Sign every path that isn't cached yet, sharing in-flight requests between callers
+const resolveSignedUrls = async (paths: string[]): Promise<void> => {
+  const missing = paths.filter(path => !isFresh(path) && !pendingRequests.has(path));
+
+  if (missing.length > 0) {
+    const request: Promise<void> = signPaths(missing).finally(() => {
+      missing.forEach(path => {
+        if (pendingRequests.get(path) === request) pendingRequests.delete(path);
+      });
+    });
+    missing.forEach(path => pendingRequests.set(path, request));
+  }
+
+  await Promise.all(
+    paths.map(path => pendingRequests.get(path)).filter((request): request is Promise<void> => !!request)
+  );
+};
+
+// Maps storage paths to signed URLs. Paths that haven't been signed yet are missing from the result.
+export function usePhotoUrls(paths: (string | null | undefined)[]): Record<string, string> {
+  const pathKey = Array.from(new Set(paths.filter((path): path is string => !!path))).sort().join('\n');
+  const [urls, setUrls] = useState<Record<string, string>>(() => getCachedUrls(pathKey ? pathKey.split('\n') : []));
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const wantedPaths = pathKey ? pathKey.split('\n') : [];
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    if (wantedPaths.length === 0) {
+      setUrls({});
+      return;
+    }
+
+    resolveSignedUrls(wantedPaths).then(() => {
+      if (cancelled) return;
+
+      setUrls(getCachedUrls(wantedPaths));
+
+      // Re-sign shortly before the first of these URLs expires
+      const expiries = wantedPaths
+        .map(path => urlCache.get(path)?.expiresAt)
+        .filter((expiresAt): expiresAt is number => expiresAt !== undefined);
+
+      if (expiries.length > 0) {
+        const refreshIn = Math.max(0, Math.min(...expiries) - REFRESH_MARGIN_MS - Date.now()) + 1000;
+        refreshTimer = setTimeout(() => setRefreshCount(count => count + 1), refreshIn);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [pathKey, refreshCount]);
+
+  return urls;
+}
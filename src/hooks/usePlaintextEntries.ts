@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+
+// Entries encrypted per request, so a large journal doesn't hold up the connection
+const ENCRYPT_BATCH_SIZE = 20;
+
+export interface EncryptionProgress {
+  done: number;
+  total: number;
+}
+
+// Entries written before end-to-end encryption was turned on are still plaintext on the server.
+// Once it's on and unlocked they're counted and can be encrypted in place, trashed entries included.
+export function usePlaintextEntries() {
+  const { user } = useAuth();
+  const { isEncryptionEnabled, isUnlocked, encryptEntryFields } = useEncryption();
+  const [count, setCount] = useState(0);
+  const [progress, setProgress] = useState<EncryptionProgress | null>(null);
+
+  const countPlaintextEntries = useCallback(async (): Promise<number | null> => {
+    if (!user) return null;
+
+    const { count: plaintextCount, error } = await supabase
+      .from('journal_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('is_encrypted', false);
+
+    if (error) {
+      console.error('Error counting unencrypted entries:', error);
+      return null;
+    }
+
+    return plaintextCount || 0;
+  }, [user]);
+
+  useEffect(() => {
+    setCount(0);
+    if (!isEncryptionEnabled) return;
+
+    let isCurrent = true;
+
+    countPlaintextEntries().then(plaintextCount => {
+      if (isCurrent && plaintextCount !== null) {
+        setCount(plaintextCount);
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isEncryptionEnabled, countPlaintextEntries]);
+
+  // Goes through the regular entry update, which leaves no plaintext copy in the edit history
+  const encryptPlaintextEntries = useCallback(async (): Promise<boolean> => {
+    if (!user || !isEncryptionEnabled || !isUnlocked) return false;
+
+    const total = await countPlaintextEntries();
+    if (total === null) return false;
+
+    let done = 0;
+    setProgress({ done, total });
+
+    try {
+      while (done < total) {
+        const { data, error: loadError } = await supabase
+          .from('journal_entries')
+          .select('id, content, title')
+          .eq('user_id', user.id)
+          .eq('is_encrypted', false)
+          .order('created_at', { ascending: true })
+          .limit(ENCRYPT_BATCH_SIZE);
+
+        if (loadError) {
+          console.error('Error loading unencrypted entries:', loadError);
+          return false;
+        }
+
+        if (!data || data.length === 0) break;
+
+        for (const entry of data) {
+          const textFields = await encryptEntryFields(entry.content, entry.title);
+
+          // Skipped if the entry was encrypted by an edit in the meantime
+          const { error: updateError } = await supabase
+            .from('journal_entries')
+            .update(textFields)
+            .eq('id', entry.id)
+            .eq('user_id', user.id)
+            .eq('is_encrypted', false);
+
+          if (updateError) {
+            console.error('Error encrypting entry:', updateError);
+            return false;
+          }
+
+          done += 1;
+          setProgress({ done: Math.min(done, total), total });
+        }
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error encrypting entries:', err);
+      return false;
+    } finally {
+      setProgress(null);
+      const remaining = await countPlaintextEntries();
+      if (remaining !== null) {
+        setCount(remaining);
+      }
+    }
+  }, [user, isEncryptionEnabled, isUnlocked, encryptEntryFields, countPlaintextEntries]);
+
+  return { count, progress, encryptPlaintextEntries };
+}
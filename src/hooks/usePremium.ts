@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useJournal } from './useJournal';
+import { getLocalDateString } from '../utils/dates';
 
 export interface UpsellModalContent {
   featureName: string;
@@ -62,7 +63,7 @@ export function usePremium() {
   const trackFeatureUsage = useCallback((featureKey: string, limit: number = 2): boolean => {
     if (isPremium) return true; // Premium users have unlimited usage
     
-    const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+    const today = getLocalDateString(); // YYYY-MM-DD on this device
     const storageKey = `zensai-feature-${featureKey}-${today}`;
     
     // Get current usage
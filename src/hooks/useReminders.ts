@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { isPushSupported, getPushSubscription, subscribeToPush, unsubscribeFromPush } from '../lib/pushNotifications';
+import { getDeviceTimezone } from '../utils/dates';
+
+export interface ReminderSchedule {
+  isEnabled: boolean;
+  daysOfWeek: number[]; // 0 = Sunday
+  reminderTime: string; // HH:MM in `timezone`
+  timezone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+interface ReminderScheduleRow {
+  is_enabled: boolean;
+  days_of_week: number[];
+  reminder_time: string;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+const DEFAULT_SCHEDULE: ReminderSchedule = {
+  isEnabled: false,
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  reminderTime: '20:00',
+  timezone: getDeviceTimezone(),
+  quietHoursStart: null,
+  quietHoursEnd: null
+};
+
+// Postgres returns times as HH:MM:SS
+const toTimeInput = (time: string | null): string | null => (time ? time.slice(0, 5) : null);
+
+const scheduleFromRow = (row: ReminderScheduleRow): ReminderSchedule => ({
+  isEnabled: row.is_enabled,
+  daysOfWeek: row.days_of_week,
+  reminderTime: toTimeInput(row.reminder_time) || DEFAULT_SCHEDULE.reminderTime,
+  timezone: row.timezone,
+  quietHoursStart: toTimeInput(row.quiet_hours_start),
+  quietHoursEnd: toTimeInput(row.quiet_hours_end)
+});
+
+export function useReminders() {
+  const { user } = useAuth();
+  const [schedule, setSchedule] = useState<ReminderSchedule>(DEFAULT_SCHEDULE);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    () => (typeof Notification !== 'undefined' ? Notification.permission : 'default')
+  );
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSchedule = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('reminder_schedules')
+          .select('is_enabled, days_of_week, reminder_time, timezone, quiet_hours_start, quiet_hours_end')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        const loaded = data ? scheduleFromRow(data) : DEFAULT_SCHEDULE;
+        setSchedule(loaded);
+
+        const subscription = await getPushSubscription();
+        setIsSubscribed(!!subscription);
+
+        // Claim this browser again in case someone else used it for Zensai since
+        if (loaded.isEnabled && subscription && Notification.permission === 'granted') {
+          await subscribeToPush();
+        }
+      } catch (error) {
+        console.error('Error loading reminder schedule:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSchedule();
+  }, [user]);
+
+  const saveSchedule = useCallback(async (updates: Partial<ReminderSchedule>): Promise<{ success: boolean; error?: string }> => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    const next = { ...schedule, ...updates };
+
+    if (next.isEnabled && next.daysOfWeek.length === 0) {
+      return { success: false, error: 'Choose at least one day for your reminders' };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('reminder_schedules')
+        .upsert({
+          user_id: user.id,
+          is_enabled: next.isEnabled,
+          days_of_week: [...next.daysOfWeek].sort((a, b) => a - b),
+          reminder_time: next.reminderTime,
+          timezone: next.timezone,
+          quiet_hours_start: next.quietHoursStart,
+          quiet_hours_end: next.quietHoursEnd
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      setSchedule(next);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving reminder schedule:', error);
+      return { success: false, error: 'Failed to save your reminder settings' };
+    }
+  }, [user, schedule]);
+
+  // Turning reminders on also subscribes this device; new schedules start in the device's time zone
+  const enableReminders = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    const subscribed = await subscribeToPush();
+    setPermission(typeof Notification !== 'undefined' ? Notification.permission : 'default');
+    if (!subscribed.success) return subscribed;
+
+    setIsSubscribed(true);
+    return saveSchedule({ isEnabled: true });
+  }, [saveSchedule]);
+
+  const disableReminders = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+    const result = await saveSchedule({ isEnabled: false });
+    if (!result.success) return result;
+
+    await unsubscribeFromPush();
+    setIsSubscribed(false);
+    return result;
+  }, [saveSchedule]);
+
+  return {
+    schedule,
+    isLoading,
+    isSubscribed,
+    permission,
+    isPushSupported: isPushSupported(),
+    saveSchedule,
+    enableReminders,
+    disableReminders
+  };
+}
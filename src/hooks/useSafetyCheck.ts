@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getDefaultSafetyRegion, safetyRegions } from '../data/safetyResources';
+import { SafetyLevel } from '../utils/safety';
+
+export interface SafetySettings {
+  isEnabled: boolean;
+  region: string; // a key of safetyRegions
+  isHistoryEnabled: boolean;
+}
+
+interface SafetySettingsRow {
+  safety_check_enabled: boolean;
+  safety_region: string | null;
+  safety_history_opt_in: boolean;
+}
+
+const settingsFromRow = (row: SafetySettingsRow): SafetySettings => ({
+  isEnabled: row.safety_check_enabled,
+  region: row.safety_region && safetyRegions[row.safety_region] ? row.safety_region : getDefaultSafetyRegion(),
+  isHistoryEnabled: row.safety_history_opt_in
+});
+
+// Whether saved entries are checked for crisis language, which helplines to offer, and whether the
+// result is kept. Nothing about the check is stored unless the user opts in to the history.
+export function useSafetyCheck() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<SafetySettings>(() => ({
+    isEnabled: true,
+    region: getDefaultSafetyRegion(),
+    isHistoryEnabled: false
+  }));
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadSettings = async () => {
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('safety_check_enabled, safety_region, safety_history_opt_in')
+          .eq('user_id', user.id)
+          .single();
+
+        if (error) throw error;
+
+        setSettings(settingsFromRow(data));
+      } catch (error) {
+        console.error('Error loading safety settings:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [user]);
+
+  const updateSettings = useCallback(async (changes: Partial<SafetySettings>): Promise<{ success: boolean; error?: string }> => {
+    if (!user) return { success: false, error: 'You must be logged in to change safety settings' };
+
+    const updated = { ...settings, ...changes };
+
+    try {
+      const { error: updateError } = await supabase
+        .from('profiles')
+        .update({
+          safety_check_enabled: updated.isEnabled,
+          safety_region: updated.region,
+          safety_history_opt_in: updated.isHistoryEnabled,
+          updated_at: new Date().toISOString()
+        })
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error updating safety settings:', updateError);
+        return { success: false, error: 'Failed to update safety settings. Please try again.' };
+      }
+
+      // Opting out of the history also forgets what it held
+      if (settings.isHistoryEnabled && !updated.isHistoryEnabled) {
+        const { error: deleteError } = await supabase
+          .from('safety_events')
+          .delete()
+          .eq('user_id', user.id);
+
+        if (deleteError) {
+          console.error('Error deleting safety history:', deleteError);
+        }
+      }
+
+      setSettings(updated);
+      return { success: true };
+    } catch (err) {
+      console.error('Error updating safety settings:', err);
+      return { success: false, error: 'An unexpected error occurred. Please try again.' };
+    }
+  }, [user, settings]);
+
+  // Only kept for users who opted in; entries queued offline are recorded without an entry
+  const recordSafetyEvent = useCallback(async (entryId: string | undefined, level: SafetyLevel) => {
+    if (!user || !settings.isHistoryEnabled || level === 'none') return;
+
+    try {
+      const { error: insertError } = await supabase
+        .from('safety_events')
+        .insert({
+          user_id: user.id,
+          entry_id: entryId || null,
+          level
+        });
+
+      if (insertError) {
+        console.error('Error saving safety event:', insertError);
+      }
+    } catch (err) {
+      console.error('Error saving safety event:', err);
+    }
+  }, [user, settings.isHistoryEnabled]);
+
+  return { settings, isLoading, updateSettings, recordSafetyEvent };
+}
+
+// How many safety events the user has kept, with a way to delete them
+export function useSafetyHistory(isHistoryEnabled: boolean) {
+  const { user } = useAuth();
+  const [eventCount, setEventCount] = useState(0);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    setEventCount(0);
+    if (!user || !isHistoryEnabled) return;
+
+    let isCurrent = true;
+
+    const loadEventCount = async () => {
+      const { count, error } = await supabase
+        .from('safety_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id);
+
+      if (!isCurrent) return;
+
+      if (error) {
+        console.error('Error loading safety history:', error);
+        return;
+      }
+
+      setEventCount(count || 0);
+    };
+
+    loadEventCount();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, isHistoryEnabled]);
+
+  const deleteHistory = useCallback(async (): Promise<boolean> => {
+    if (!user) return false;
+
+    setIsDeleting(true);
+    try {
+      const { error } = await supabase
+        .from('safety_events')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Error deleting safety history:', error);
+        return false;
+      }
+
+      setEventCount(0);
+      return true;
+    } catch (err) {
+      console.error('Error deleting safety history:', err);
+      return false;
+    } finally {
+      setIsDeleting(false);
+    }
+  }, [user]);
+
+  return { eventCount, isDeleting, deleteHistory };
+}
@@ -0,0 +1,71 @@
+import { useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from './useEncryption';
+import { usePremium } from './usePremium';
+
+interface TopicResponse {
+  success: boolean;
+  topics: string[];
+  people: string[];
+  places: string[];
+  generated_by: 'ai' | 'fallback';
+  error?: string;
+  timestamp: string;
+}
+
+// Finds what an entry is about and stores it for mood by topic, which is a premium insight.
+// Runs in the background after saving, so failures are only logged.
+export function useTopicExtractor() {
+  const { user } = useAuth();
+  const { isEncryptionEnabled } = useEncryption();
+  const { isPremium } = usePremium();
+
+  const extractEntryTopics = useCallback(async (entryId: string, journalEntry: string): Promise<boolean> => {
+    if (!user || !isPremium || !journalEntry.trim()) return false;
+
+    try {
+      const { data, error: functionError } = await supabase.functions.invoke('extract-entry-topics', {
+        body: {
+          entry: journalEntry.trim(),
+          // People and places would sit in plaintext next to an encrypted entry
+          include_names: !isEncryptionEnabled
+        }
+      });
+
+      if (functionError) {
+        console.error('Edge function error:', functionError);
+        return false;
+      }
+
+      const response: TopicResponse = data;
+
+      if (!response.success) {
+        console.error('Topic extraction failed:', response.error);
+        return false;
+      }
+
+      const { error: upsertError } = await supabase
+        .from('entry_topics')
+        .upsert({
+          entry_id: entryId,
+          user_id: user.id,
+          topics: response.topics,
+          people: isEncryptionEnabled ? [] : response.people,
+          places: isEncryptionEnabled ? [] : response.places
+        }, { onConflict: 'entry_id' });
+
+      if (upsertError) {
+        console.error('Error saving entry topics:', upsertError);
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      console.error('Error extracting entry topics:', err);
+      return false;
+    }
+  }, [user, isPremium, isEncryptionEnabled]);
+
+  return { extractEntryTopics };
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface WeeklyGoalWeek {
+  weekStart: string; // YYYY-MM-DD, a Monday in the user's time zone
+  daysJournaled: number;
+  goal: number;
+  goalMet: boolean;
+}
+
+interface WeeklyGoalStatsRow {
+  week_start: string;
+  days_journaled: number;
+  goal: number;
+  goal_met: boolean;
+}
+
+interface GoalStreaksRow {
+  current_goal_streak: number;
+  best_goal_streak: number;
+}
+
+const DEFAULT_WEEKS_BACK = 12;
+
+export function useWeeklyGoals(weeksBack: number = DEFAULT_WEEKS_BACK) {
+  const { user } = useAuth();
+  // Newest first; the first week is the one in progress
+  const [weeks, setWeeks] = useState<WeeklyGoalWeek[]>([]);
+  const [goalStreak, setGoalStreak] = useState(0);
+  const [bestGoalStreak, setBestGoalStreak] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWeeklyGoals = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+
+      const [statsResult, streaksResult] = await Promise.all([
+        supabase.rpc('get_weekly_goal_stats', { target_user_id: user.id, weeks_back: weeksBack }),
+        supabase.rpc('get_goal_streaks', { target_user_id: user.id })
+      ]);
+
+      if (statsResult.error || streaksResult.error) {
+        console.error('Error loading weekly goals:', statsResult.error || streaksResult.error);
+        setError('Failed to load your weekly goal progress');
+        return;
+      }
+
+      const rows: WeeklyGoalStatsRow[] = statsResult.data || [];
+      setWeeks(rows.map(row => ({
+        weekStart: row.week_start,
+        daysJournaled: row.days_journaled,
+        goal: row.goal,
+        goalMet: row.goal_met
+      })));
+
+      const streaks: GoalStreaksRow | undefined = streaksResult.data?.[0];
+      setGoalStreak(streaks?.current_goal_streak || 0);
+      setBestGoalStreak(streaks?.best_goal_streak || 0);
+    } catch (err) {
+      console.error('Error loading weekly goals:', err);
+      setError('Failed to load your weekly goal progress');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, weeksBack]);
+
+  useEffect(() => {
+    loadWeeklyGoals();
+  }, [loadWeeklyGoals]);
+
+  const currentWeek = weeks[0] || null;
+  const completedWeeks = weeks.slice(1);
+  // Share of finished weeks with the goal met; the week in progress isn't counted yet
+  const completionRate = completedWeeks.length > 0
+    ? Math.round((completedWeeks.filter(week => week.goalMet).length / completedWeeks.length) * 100)
+    : null;
+
+  return {
+    weeks,
+    currentWeek,
+    completedWeeks,
+    completionRate,
+    goalStreak,
+    bestGoalStreak,
+    isLoading,
+    error,
+    refresh: loadWeeklyGoals
+  };
+}
@@ -0,0 +1,95 @@
+import { MoodLevel } from '../types';
+
+// Drafts live in IndexedDB rather than localStorage so attached photos (Blobs) survive a reload
+const DB_NAME = 'zensai-drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+export interface StoredDraftPhoto {
+  blob: Blob;
+  name: string;
+  caption: string;
+}
+
+export interface StoredDraft {
+  id: string;
+  userId: string;
+  name: string;
+  title: string;
+  content: string;
+  mood: MoodLevel | null;
+  tags: string[];
+  photos: StoredDraftPhoto[];
+  updatedAt: string;
+}
+
+// Drafts saved before entries supported several photos kept a single `photo` blob
+interface LegacyStoredDraft extends Omit<StoredDraft, 'photos'> {
+  photos?: StoredDraftPhoto[];
+  photo?: Blob | null;
+  photoName?: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getStoredDrafts = async (userId: string): Promise<StoredDraft[]> => {
+  const drafts = await runRequest<LegacyStoredDraft[]>('readonly', store => store.index('userId').getAll(userId));
+  return drafts
+    .map(({ photo, photoName, photos, ...draft }) => ({
+      ...draft,
+      photos: photos || (photo ? [{ blob: photo, name: photoName || 'photo.jpg', caption: '' }] : [])
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const putStoredDraft = (draft: StoredDraft): Promise<IDBValidKey> => {
+  return runRequest<IDBValidKey>('readwrite', store => store.put(draft));
+};
+
+export const deleteStoredDraft = (draftId: string): Promise<undefined> => {
+  return runRequest<undefined>('readwrite', store => store.delete(draftId));
+};
@@ -0,0 +1,186 @@
+// End-to-end encryption for journal entries, built on WebCrypto.
+//
+// Each user has one random AES-GCM data key that encrypts entry text. The data key is
+// stored on the server only in wrapped form: once wrapped with a key derived from the
+// user's passphrase (PBKDF2) and once with a key derived from a printable recovery key.
+// The server never sees the passphrase, the recovery key or the unwrapped data key.
+
+const PBKDF2_ITERATIONS = 600000;
+// The recovery key is 160 random bits, so it doesn't need a slow derivation
+const RECOVERY_KEY_ITERATIONS = 100000;
+const RECOVERY_KEY_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const CIPHERTEXT_VERSION = 'v1';
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+// Row shape of `user_encryption_keys`
+export interface EncryptionKeyRecord {
+  kdf_salt: string;
+  kdf_iterations: number;
+  wrapped_key: string;
+  recovery_salt: string;
+  recovery_wrapped_key: string;
+}
+
+type PassphraseFields = Pick<EncryptionKeyRecord, 'kdf_salt' | 'kdf_iterations' | 'wrapped_key'>;
+type RecoveryFields = Pick<EncryptionKeyRecord, 'recovery_salt' | 'recovery_wrapped_key'>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (data: ArrayBuffer | Uint8Array): string => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveWrappingKey = async (secret: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret.normalize('NFKC')),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+// Wrapped keys are stored as "<iv>.<wrapped key>", both base64
+const wrapDataKey = async (
+  dataKey: CryptoKey,
+  secret: string,
+  iterations: number
+): Promise<{ salt: string; wrapped: string }> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(secret, salt, iterations);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), wrapped: `${toBase64(iv)}.${toBase64(wrapped)}` };
+};
+
+// Returns null when the secret is wrong (AES-GCM authentication fails)
+const unwrapDataKey = async (
+  wrapped: string,
+  secret: string,
+  salt: string,
+  iterations: number
+): Promise<CryptoKey | null> => {
+  const [iv, data] = wrapped.split('.');
+  if (!iv || !data) return null;
+
+  try {
+    const wrappingKey = await deriveWrappingKey(secret, fromBase64(salt), iterations);
+    // Extractable so the key can be wrapped again when the passphrase or recovery key changes
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(data),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    return null;
+  }
+};
+
+// Recovery keys are shown as groups of base32 characters, e.g. ABCD-EFGH-...
+const formatRecoveryKey = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output.match(/.{1,4}/g)!.join('-');
+};
+
+// Accept recovery keys typed in lowercase, with spaces or without dashes
+const normalizeRecoveryKey = (recoveryKey: string): string => recoveryKey.toUpperCase().replace(/[^A-Z2-7]/g, '');
+
+export const wrapWithPassphrase = async (dataKey: CryptoKey, passphrase: string): Promise<PassphraseFields> => {
+  const { salt, wrapped } = await wrapDataKey(dataKey, passphrase, PBKDF2_ITERATIONS);
+  return { kdf_salt: salt, kdf_iterations: PBKDF2_ITERATIONS, wrapped_key: wrapped };
+};
+
+export const wrapWithNewRecoveryKey = async (
+  dataKey: CryptoKey
+): Promise<{ recoveryKey: string; fields: RecoveryFields }> => {
+  const recoveryKey = formatRecoveryKey(randomBytes(RECOVERY_KEY_BYTES));
+  const { salt, wrapped } = await wrapDataKey(dataKey, normalizeRecoveryKey(recoveryKey), RECOVERY_KEY_ITERATIONS);
+  return { recoveryKey, fields: { recovery_salt: salt, recovery_wrapped_key: wrapped } };
+};
+
+// Set up encryption for a user: a fresh data key, wrapped with the passphrase and a new recovery key
+export const createEncryptionKeys = async (
+  passphrase: string
+): Promise<{ dataKey: CryptoKey; record: EncryptionKeyRecord; recoveryKey: string }> => {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const passphraseFields = await wrapWithPassphrase(dataKey, passphrase);
+  const { recoveryKey, fields } = await wrapWithNewRecoveryKey(dataKey);
+  return { dataKey, record: { ...passphraseFields, ...fields }, recoveryKey };
+};
+
+export const unlockWithPassphrase = (record: EncryptionKeyRecord, passphrase: string): Promise<CryptoKey | null> => {
+  return unwrapDataKey(record.wrapped_key, passphrase, record.kdf_salt, record.kdf_iterations);
+};
+
+export const unlockWithRecoveryKey = (record: EncryptionKeyRecord, recoveryKey: string): Promise<CryptoKey | null> => {
+  return unwrapDataKey(
+    record.recovery_wrapped_key,
+    normalizeRecoveryKey(recoveryKey),
+    record.recovery_salt,
+    RECOVERY_KEY_ITERATIONS
+  );
+};
+
+// Ciphertext is stored as "v1.<iv>.<ciphertext>", both base64
+export const encryptText = async (key: CryptoKey, text: string): Promise<string> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text));
+  return `${CIPHERTEXT_VERSION}.${toBase64(iv)}.${toBase64(ciphertext)}`;
+};
+
+export const decryptText = async (key: CryptoKey, payload: string): Promise<string> => {
+  const [version, iv, data] = payload.split('.');
+  if (version !== CIPHERTEXT_VERSION || !iv || !data) {
+    throw new Error('Unsupported encrypted entry format');
+  }
+
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return decoder.decode(plaintext);
+};
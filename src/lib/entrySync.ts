@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import {
+  CachedRow,
+  OutboxItem,
+  getOutboxItems,
+  putOutboxItem,
+  deleteOutboxItem,
+  putCachedEntries,
+  deleteCachedEntry
+} from './offlineStore';
+
+export const ENTRY_SELECT = '*, attachments:entry_attachments(*)';
+
+// Requests that never reached the server, as opposed to ones it rejected
+export const isNetworkError = (error: { message?: string } | null | undefined): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return !!error?.message && /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+};
+
+// Add a change to the outbox, folding it into any change already waiting for the same entry
+export const queueEntryChange = async (
+  change: Pick<OutboxItem, 'userId' | 'entryId' | 'action' | 'changes' | 'baseUpdatedAt'>
+): Promise<void> => {
+  const pending = (await getOutboxItems(change.userId)).find(item => item.entryId === change.entryId);
+
+  if (!pending) {
+    await putOutboxItem({ ...change, id: crypto.randomUUID(), queuedAt: new Date().toISOString() });
+    return;
+  }
+
+  // An entry that never reached the server can simply be forgotten
+  if (pending.action === 'create' && change.action === 'delete') {
+    await deleteOutboxItem(pending.id);
+    await deleteCachedEntry(change.entryId);
+    return;
+  }
+
+  await putOutboxItem({
+    ...pending,
+    action: pending.action === 'create' ? 'create' : change.action,
+    changes: { ...pending.changes, ...change.changes }
+  });
+};
+
+const loadEntryRow = async (entryId: string): Promise<CachedRow | null> => {
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select(ENTRY_SELECT)
+    .eq('id', entryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const replayItem = async (item: OutboxItem): Promise<CachedRow | null> => {
+  if (item.action === 'create') {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .insert(item.changes)
+      .select(ENTRY_SELECT)
+      .single();
+
+    // Already inserted by an earlier attempt whose response got lost
+    if (error?.code === '23505') return loadEntryRow(item.entryId);
+    if (error) throw error;
+    return data;
+  }
+
+  let query = supabase
+    .from('journal_entries')
+    .update(item.changes)
+    .eq('id', item.entryId)
+    .eq('user_id', item.userId);
+
+  // Edits only apply if nobody changed the entry since; moving it to the trash always applies
+  if (item.action === 'update' && item.baseUpdatedAt) {
+    query = query.eq('updated_at', item.baseUpdatedAt);
+  }
+
+  const { data, error } = await query.select(ENTRY_SELECT).maybeSingle();
+  if (error) throw error;
+  if (data) return data;
+
+  const current = await loadEntryRow(item.entryId);
+  if (current) {
+    await putOutboxItem({ ...item, conflict: true });
+  } else {
+    // The entry was permanently deleted elsewhere, so there's nothing left to update
+    await deleteOutboxItem(item.id);
+  }
+  return null;
+};
+
+const replayOutbox = async (userId: string): Promise<CachedRow[]> => {
+  const synced: CachedRow[] = [];
+  const items = await getOutboxItems(userId);
+
+  for (const item of items) {
+    if (item.conflict) continue;
+
+    try {
+      const row = await replayItem(item);
+      if (!row) continue;
+
+      await deleteOutboxItem(item.id);
+      if (row.deleted_at) {
+        await deleteCachedEntry(row.id);
+      } else {
+        await putCachedEntries([row]);
+      }
+      synced.push(row);
+    } catch (err) {
+      // Still offline: stop and keep the rest of the queue in order for the next attempt
+      if (isNetworkError(err as { message?: string })) break;
+      console.error('Error syncing offline change:', err);
+    }
+  }
+
+  return synced;
+};
+
+// Every screen holding journal state asks to sync when the connection returns; they share one run
+let activeSync: { userId: string; promise: Promise<CachedRow[]> } | null = null;
+
+export const syncOutbox = (userId: string): Promise<CachedRow[]> => {
+  if (activeSync?.userId === userId) return activeSync.promise;
+
+  const promise = replayOutbox(userId).finally(() => {
+    activeSync = null;
+  });
+  activeSync = { userId, promise };
+  return promise;
+};
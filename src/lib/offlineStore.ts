@@ -0,0 +1,170 @@
+// Local copy of the journal for offline use, kept in IndexedDB:
+// - `entries`: the last entry rows loaded from the server, as stored there (still encrypted with E2EE on)
+// - `profiles`: the last loaded profile, so streaks show while offline
+// - `outbox`: changes written while offline, replayed in order once the connection is back
+const DB_NAME = 'zensai-offline';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const PROFILES_STORE = 'profiles';
+const OUTBOX_STORE = 'outbox';
+
+type StoreName = typeof ENTRIES_STORE | typeof PROFILES_STORE | typeof OUTBOX_STORE;
+
+export type OutboxAction = 'create' | 'update' | 'delete';
+
+export interface OutboxItem {
+  id: string;
+  userId: string;
+  entryId: string;
+  action: OutboxAction;
+  // Column values to write; text is already encrypted when end-to-end encryption is on
+  changes: Record<string, unknown>;
+  // The entry's server `updated_at` when it was edited, to detect edits made elsewhere in the meantime
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+  // Set when the entry changed on the server since it was edited offline
+  conflict?: boolean;
+}
+
+// The columns the store itself relies on; rows are saved with everything the server returned
+export interface CachedRow {
+  id: string;
+  user_id: string;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        const store = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        store.createIndex('user_id', 'user_id', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(PROFILES_STORE)) {
+        db.createObjectStore(PROFILES_STORE, { keyPath: 'user_id' });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve((request ? request.result : undefined) as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Components holding journal state listen for outbox changes to refresh their pending-sync counts
+type OutboxListener = () => void;
+const outboxListeners = new Set<OutboxListener>();
+
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+};
+
+const notifyOutboxListeners = () => {
+  outboxListeners.forEach(listener => listener());
+};
+
+export const getCachedEntries = async <T extends CachedRow>(userId: string): Promise<T[]> => {
+  const rows = await runTransaction<T[]>(ENTRIES_STORE, 'readonly', store => store.index('user_id').getAll(userId));
+  return rows.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const getCachedEntry = <T extends CachedRow>(entryId: string): Promise<T | undefined> => {
+  return runTransaction<T | undefined>(ENTRIES_STORE, 'readonly', store => store.get(entryId));
+};
+
+// Swap a user's cached rows for a freshly loaded first page, dropping entries removed elsewhere
+export const replaceCachedEntries = (userId: string, rows: CachedRow[]): Promise<void> => {
+  return runTransaction<void>(ENTRIES_STORE, 'readwrite', store => {
+    const cursorRequest = store.index('user_id').openKeyCursor(IDBKeyRange.only(userId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      } else {
+        rows.forEach(row => store.put(row));
+      }
+    };
+  });
+};
+
+export const putCachedEntries = (rows: CachedRow[]): Promise<void> => {
+  return runTransaction<void>(ENTRIES_STORE, 'readwrite', store => {
+    rows.forEach(row => store.put(row));
+  });
+};
+
+export const deleteCachedEntry = (entryId: string): Promise<void> => {
+  return runTransaction<void>(ENTRIES_STORE, 'readwrite', store => {
+    store.delete(entryId);
+  });
+};
+
+export const getCachedProfile = <T>(userId: string): Promise<T | undefined> => {
+  return runTransaction<T | undefined>(PROFILES_STORE, 'readonly', store => store.get(userId));
+};
+
+export const putCachedProfile = (profile: { user_id: string }): Promise<void> => {
+  return runTransaction<void>(PROFILES_STORE, 'readwrite', store => {
+    store.put(profile);
+  });
+};
+
+export const getOutboxItems = async (userId: string): Promise<OutboxItem[]> => {
+  const items = await runTransaction<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.index('userId').getAll(userId));
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await runTransaction<void>(OUTBOX_STORE, 'readwrite', store => {
+    store.put(item);
+  });
+  notifyOutboxListeners();
+};
+
+export const deleteOutboxItem = async (itemId: string): Promise<void> => {
+  await runTransaction<void>(OUTBOX_STORE, 'readwrite', store => {
+    store.delete(itemId);
+  });
+  notifyOutboxListeners();
+};
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window &&
+  !!vapidPublicKey;
+
+// PushManager wants the VAPID key as raw bytes rather than base64url
+const urlBase64ToUint8Array = (base64Url: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// The service worker is only registered in production builds, so don't wait on navigator.serviceWorker.ready
+const getRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isPushSupported()) return null;
+  return (await navigator.serviceWorker.getRegistration()) || null;
+};
+
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Subscribe this browser (asking for permission if needed) and store the subscription for the signed-in user
+export const subscribeToPush = async (): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const registration = await getRegistration();
+    if (!registration) {
+      return { success: false, error: 'Notifications aren\'t available in this browser. Try installing Zensai as an app.' };
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      return { success: false, error: 'Notifications are blocked. Allow them for Zensai in your browser settings.' };
+    }
+
+    const subscription = await registration.pushManager.getSubscription() ||
+      await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+      });
+
+    const { keys } = subscription.toJSON();
+    if (!keys?.p256dh || !keys?.auth) {
+      throw new Error('Push subscription is missing its keys');
+    }
+
+    const { error } = await supabase.rpc('register_push_subscription', {
+      p_endpoint: subscription.endpoint,
+      p_p256dh: keys.p256dh,
+      p_auth: keys.auth,
+      p_user_agent: navigator.userAgent
+    });
+
+    if (error) throw error;
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error subscribing to push notifications:', error);
+    return { success: false, error: 'Failed to turn on notifications for this device' };
+  }
+};
+
+// Stop notifications on this browser; must run while still signed in so the stored row can be removed
+export const unsubscribeFromPush = async (): Promise<void> => {
+  try {
+    const subscription = await getPushSubscription();
+    if (!subscription) return;
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', subscription.endpoint);
+
+    if (error) {
+      console.error('Error removing push subscription:', error);
+    }
+
+    await subscription.unsubscribe();
+  } catch (error) {
+    console.error('Error unsubscribing from push notifications:', error);
+  }
+};
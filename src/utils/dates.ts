@@ -0,0 +1,48 @@
+export const getDeviceTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Every zone the browser knows, falling back to just the device's zone in older browsers
+export const getSupportedTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  const deviceTimezone = getDeviceTimezone();
+  return zones.includes(deviceTimezone) ? zones : [deviceTimezone, ...zones];
+};
+
+// The calendar date (YYYY-MM-DD) it is at `date` in `timezone`, or on this device when none is given.
+// Matches the local dates the database stores in profiles.last_entry_date.
+export const getLocalDateString = (timezone?: string | null, date: Date = new Date()): string => {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone || undefined,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  } catch {
+    // Unknown zone name
+    return getLocalDateString(undefined, date);
+  }
+};
+
+// Date-only strings parse as UTC midnight, which is the previous day west of Greenwich
+export const parseDateOnly = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatTimezone = (timezone: string): string => timezone.replace(/_/g, ' ');
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of the device's time zone
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (date: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+};
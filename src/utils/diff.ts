@@ -0,0 +1,103 @@
+export interface DiffSegment {
+  text: string;
+  type: 'equal' | 'added' | 'removed';
+}
+
+// Above this many token comparisons the LCS table gets too large to build in the browser
+const MAX_DIFF_CELLS = 4000000;
+
+// Split into words while keeping whitespace, so joining segments reproduces the text exactly
+const tokenize = (text: string): string[] => {
+  return text.split(/(\s+)/).filter(token => token !== '');
+};
+
+const pushSegment = (segments: DiffSegment[], text: string, type: DiffSegment['type']) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ text, type });
+  }
+};
+
+// Word-level diff from oldText to newText using a longest common subsequence
+export const diffWords = (oldText: string, newText: string): DiffSegment[] => {
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+  const segments: DiffSegment[] = [];
+
+  // Strip the shared prefix and suffix so typical small edits stay cheap
+  let prefixLength = 0;
+  while (
+    prefixLength < oldTokens.length &&
+    prefixLength < newTokens.length &&
+    oldTokens[prefixLength] === newTokens[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldTokens.length - prefixLength &&
+    suffixLength < newTokens.length - prefixLength &&
+    oldTokens[oldTokens.length - 1 - suffixLength] === newTokens[newTokens.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const oldMiddle = oldTokens.slice(prefixLength, oldTokens.length - suffixLength);
+  const newMiddle = newTokens.slice(prefixLength, newTokens.length - suffixLength);
+
+  if (prefixLength > 0) {
+    pushSegment(segments, oldTokens.slice(0, prefixLength).join(''), 'equal');
+  }
+
+  if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_DIFF_CELLS) {
+    // Too large to align word by word; show the changed region as a whole
+    if (oldMiddle.length > 0) pushSegment(segments, oldMiddle.join(''), 'removed');
+    if (newMiddle.length > 0) pushSegment(segments, newMiddle.join(''), 'added');
+  } else {
+    const rows = oldMiddle.length;
+    const cols = newMiddle.length;
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        pushSegment(segments, oldMiddle[i], 'equal');
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushSegment(segments, oldMiddle[i], 'removed');
+        i++;
+      } else {
+        pushSegment(segments, newMiddle[j], 'added');
+        j++;
+      }
+    }
+    while (i < rows) {
+      pushSegment(segments, oldMiddle[i], 'removed');
+      i++;
+    }
+    while (j < cols) {
+      pushSegment(segments, newMiddle[j], 'added');
+      j++;
+    }
+  }
+
+  if (suffixLength > 0) {
+    pushSegment(segments, oldTokens.slice(oldTokens.length - suffixLength).join(''), 'equal');
+  }
+
+  return segments;
+};
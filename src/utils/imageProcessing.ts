@@ -0,0 +1,138 @@
+// Browser-side image pipeline for journal photos. Every photo is decoded and redrawn
+// onto a canvas before upload, which drops all EXIF metadata (GPS location, camera
+// details) and lets us resize and re-encode large phone photos.
+
+export interface ImageProcessingOptions {
+  maxDimension: number;
+  quality: number;
+  // Apply the EXIF orientation before the metadata is dropped, so photos aren't sideways
+  fixOrientation?: boolean;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  mimeType: string;
+  extension: string;
+}
+
+export interface PreparedPhoto {
+  full: ProcessedImage;
+  thumbnail: ProcessedImage;
+}
+
+export const FULL_IMAGE_OPTIONS: ImageProcessingOptions = { maxDimension: 2048, quality: 0.85 };
+export const THUMBNAIL_OPTIONS: ImageProcessingOptions = { maxDimension: 480, quality: 0.75 };
+
+let webpSupport: boolean | null = null;
+
+const supportsWebp = (): boolean => {
+  if (webpSupport === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    webpSupport = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupport;
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read this image'));
+    };
+    image.src = url;
+  });
+};
+
+// createImageBitmap can honour or ignore EXIF orientation explicitly; older browsers
+// fall back to an <img>, which applies the orientation by default.
+const decodeImage = async (file: Blob, fixOrientation: boolean): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: fixOrientation ? 'from-image' : 'none' });
+    } catch {
+      // Some browsers reject the options object or the format; try an <img> instead
+    }
+  }
+  return loadImage(file);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Could not encode this image'));
+      }
+    }, mimeType, quality);
+  });
+};
+
+const renderImage = async (
+  source: ImageBitmap | HTMLImageElement,
+  { maxDimension, quality }: ImageProcessingOptions
+): Promise<ProcessedImage> => {
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser');
+  }
+
+  const useWebp = supportsWebp();
+  const mimeType = useWebp ? 'image/webp' : 'image/jpeg';
+
+  // JPEG has no transparency, so give transparent images a white background instead of black
+  if (!useWebp) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+
+  const blob = await canvasToBlob(canvas, mimeType, quality);
+  return { blob, width, height, mimeType, extension: useWebp ? 'webp' : 'jpg' };
+};
+
+export const processImage = async (file: Blob, options: ImageProcessingOptions): Promise<ProcessedImage> => {
+  const source = await decodeImage(file, options.fixOrientation ?? true);
+  try {
+    return await renderImage(source, options);
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
+
+// Produce the upload-ready full-size image and its thumbnail from a single decode
+export const prepareImageForUpload = async (
+  file: Blob,
+  { fixOrientation = true }: { fixOrientation?: boolean } = {}
+): Promise<PreparedPhoto> => {
+  const source = await decodeImage(file, fixOrientation);
+  try {
+    const full = await renderImage(source, FULL_IMAGE_OPTIONS);
+    const thumbnail = await renderImage(source, THUMBNAIL_OPTIONS);
+    return { full, thumbnail };
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
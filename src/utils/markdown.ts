@@ -0,0 +1,285 @@
+// A small Markdown parser for journal entries. It produces a node tree that is
+// rendered as React elements (never as raw HTML), so entry text can't inject markup.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export interface ListItem {
+  checked: boolean | null;
+  children: InlineNode[];
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s{0,3}```/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const CHECKBOX_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const ESCAPABLE = '\\`*_~[]()#+-.!>';
+
+// Only allow link targets that can't run script
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (/^www\./i.test(trimmed)) return `https://${trimmed}`;
+  return null;
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1) {
+    // Closing delimiters can't follow whitespace (so "a * b * c" stays plain)
+    if (index > from && !/\s/.test(text[index - 1])) {
+      if (delimiter !== '_' || !isWordChar(text[index + 1])) return index;
+    }
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return -1;
+};
+
+// Find the ")" that closes a link target, allowing balanced parentheses inside the URL
+const findUrlEnd = (text: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\n') return -1;
+    if (text[i] === '(') depth += 1;
+    if (text[i] === ')') {
+      if (depth === 0) return i;
+      depth -= 1;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === '\\' && next && ESCAPABLE.includes(next)) {
+      buffer += next;
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const labelEnd = text.indexOf(']', i + 1);
+      if (labelEnd > i + 1 && text[labelEnd + 1] === '(') {
+        const urlEnd = findUrlEnd(text, labelEnd + 2);
+        if (urlEnd !== -1) {
+          const href = sanitizeUrl(text.slice(labelEnd + 2, urlEnd));
+          const children = parseInline(text.slice(i + 1, labelEnd));
+          flush();
+          if (href) {
+            nodes.push({ type: 'link', href, children });
+          } else {
+            nodes.push(...children);
+          }
+          i = urlEnd + 1;
+          continue;
+        }
+      }
+    }
+
+    const pair = text.slice(i, i + 2);
+    if ((pair === '**' || pair === '__' || pair === '~~') && text[i + 2] && !/\s/.test(text[i + 2])) {
+      const end = findClosing(text, pair, i + 2);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: pair === '~~' ? 'del' : 'strong',
+          children: parseInline(text.slice(i + 2, end))
+        });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && next && !/\s/.test(next) && next !== char) {
+      // Underscores inside words (snake_case) aren't emphasis
+      const canOpen = char === '*' || !isWordChar(text[i - 1]);
+      const end = canOpen ? findClosing(text, char, i + 1) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+};
+
+const isBlockStart = (line: string) =>
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  FENCE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  UNORDERED_ITEM_PATTERN.test(line) ||
+  ORDERED_ITEM_PATTERN.test(line);
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const codeLines: string[] = [];
+      i += 1;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i += 1;
+      }
+      i += 1; // skip the closing fence
+      blocks.push({ type: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i += 1;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && QUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(lines[i].match(QUOTE_PATTERN)![1]);
+        i += 1;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM_PATTERN.test(line);
+    if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const items: ListItem[] = [];
+      const start = ordered ? parseInt(line.match(ORDERED_ITEM_PATTERN)![1], 10) : 1;
+
+      while (i < lines.length && itemPattern.test(lines[i])) {
+        const match = lines[i].match(itemPattern)!;
+        const itemText = ordered ? match[2] : match[1];
+        const checkbox = itemText.match(CHECKBOX_PATTERN);
+        items.push({
+          checked: checkbox ? checkbox[1].toLowerCase() === 'x' : null,
+          children: parseInline(checkbox ? checkbox[2] : itemText)
+        });
+        i += 1;
+      }
+
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // Paragraph: keep single newlines as line breaks, since that's how entries are written
+    const paragraphLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[i]))) {
+      paragraphLines.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraphLines.join('\n')) });
+  }
+
+  return blocks;
+};
+
+const inlineToPlainText = (nodes: InlineNode[]): string => {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text;
+      case 'break':
+        return ' ';
+      default:
+        return inlineToPlainText(node.children);
+    }
+  }).join('');
+};
+
+const blocksToPlainText = (blocks: BlockNode[]): string[] => {
+  return blocks.flatMap(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        return [inlineToPlainText(block.children)];
+      case 'blockquote':
+        return blocksToPlainText(block.children);
+      case 'list':
+        return block.items.map(item => inlineToPlainText(item.children));
+      case 'code':
+        return [block.text];
+      case 'rule':
+        return [];
+    }
+  });
+};
+
+// Plain-text version of an entry for previews, counts and other places that can't show formatting
+export const stripMarkdown = (source: string): string => {
+  return blocksToPlainText(parseMarkdown(source)).join(' ').replace(/\s+/g, ' ').trim();
+};
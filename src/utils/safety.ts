@@ -0,0 +1,48 @@
+export type SafetyLevel = 'none' | 'concern' | 'urgent';
+
+const LEVEL_RANK: Record<SafetyLevel, number> = { none: 0, concern: 1, urgent: 2 };
+
+// Clear statements of intent to end one's life or act on it soon
+const URGENT_PATTERNS = [
+  /\b(kill|killing|end|ending) (myself|my life|it all)\b/,
+  /\b(take|taking) my (own )?life\b/,
+  /\bcommit(ting)? suicide\b/,
+  /\bsuicide (plan|note)\b/,
+  /\b(plan|planning) to (die|kill myself)\b/
+];
+
+// Language worth a gentle check-in: thoughts of self-harm, suicide or not wanting to be here
+const CONCERN_PATTERNS = [
+  /\bsuicid(e|al)\b/,
+  /\bself[- ]?harm(ing)?\b/,
+  /\boverdos(e|ed|ing)\b/,
+  /\b(hurt|hurting|harm|harming|cut|cutting) myself\b/,
+  /\b(wish|wishing) i (was|were) dead\b/,
+  /\bbetter off (dead|without me)\b/,
+  /\bno (reason|point) (in )?(living|to live|going on)\b/,
+  /\b(can't|cannot) (go on|keep going|do this anymore)\b/,
+  /\bdon't want to (be here|exist|live|wake up)( anymore)?\b/,
+  /\b(want|wanted|wanting) to (die|disappear)\b/
+];
+
+// Lowercase with straight apostrophes and single spaces, so the patterns stay simple
+const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/[‘’]/g, "'").replace(/\s+/g, ' ');
+
+// A keyword check that runs on this device, so it also covers offline and encrypted entries.
+// It errs on the side of offering resources: the card it leads to is easy to dismiss.
+export const detectCrisisLanguage = (text: string): SafetyLevel => {
+  const normalized = normalizeText(text);
+
+  if (URGENT_PATTERNS.some(pattern => pattern.test(normalized))) return 'urgent';
+  if (CONCERN_PATTERNS.some(pattern => pattern.test(normalized))) return 'concern';
+  return 'none';
+};
+
+// The more serious of the keyword check and the AI check
+export const combineSafetyLevels = (...levels: (SafetyLevel | null | undefined)[]): SafetyLevel => {
+  return levels.reduce<SafetyLevel>(
+    (highest, level) => (level && LEVEL_RANK[level] > LEVEL_RANK[highest] ? level : highest),
+    'none'
+  );
+};
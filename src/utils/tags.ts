@@ -0,0 +1,20 @@
+export const MAX_TAGS_PER_ENTRY = 10;
+export const MAX_TAG_LENGTH = 32;
+
+// Tags are stored lowercase and hyphenated; validate_journal_entry re-normalizes on the server
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase().slice(0, MAX_TAG_LENGTH);
+};
+
+export const normalizeTags = (tags: string[]): string[] => {
+  const normalized: string[] = [];
+
+  tags.forEach(tag => {
+    const cleanTag = normalizeTag(tag);
+    if (cleanTag && !normalized.includes(cleanTag)) {
+      normalized.push(cleanTag);
+    }
+  });
+
+  return normalized.slice(0, MAX_TAGS_PER_ENTRY);
+};
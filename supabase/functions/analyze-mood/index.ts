@@ -5,6 +5,10 @@ const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
 interface MoodRequest {
   entry: string;
   name?: string;
+  // Also check the entry for crisis language; the result is returned, never logged or stored here
+  safety_check?: boolean;
+  // Only run the safety check, for free users who have used up their mood analyses for the day
+  safety_only?: boolean;
 }
 
 interface OpenAIResponse {
@@ -15,15 +19,128 @@ interface OpenAIResponse {
   }>;
 }
 
+interface EmotionScore {
+  name: string;
+  intensity: number; // 0-1
+}
+
+type SafetyLevel = 'none' | 'concern' | 'urgent';
+
 interface MoodResponse {
   success: boolean;
-  mood: string;
+  mood?: string; // absent from safety_only responses
+  emotions?: EmotionScore[];
+  valence?: number; // -1 = very unpleasant to 1 = very pleasant
+  arousal?: number; // 0 = very calm to 1 = very energized
   confidence?: number;
   analysis?: string;
+  safety?: { level: SafetyLevel }; // only when requested and the check succeeded
   error?: string;
   timestamp: string;
 }
 
+const VALID_MOODS = ['amazing', 'good', 'neutral', 'low', 'struggling'];
+
+// Named emotions Zeno can pick from, so the same feeling always gets the same chip
+const EMOTIONS = [
+  'joy', 'gratitude', 'calm', 'hope', 'pride', 'love', 'excitement', 'contentment', 'relief', 'curiosity',
+  'sadness', 'anxiety', 'anger', 'frustration', 'loneliness', 'fear', 'guilt', 'shame', 'overwhelm',
+  'exhaustion', 'boredom', 'confusion', 'disappointment', 'grief'
+];
+const MAX_EMOTIONS = 5;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.round(Math.min(Math.max(value, min), max) * 100) / 100
+    : fallback;
+
+// Strongest first, only known emotions, each named once
+const normalizeEmotions = (value: unknown): EmotionScore[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  return value
+    .map(item => ({
+      name: typeof item?.name === 'string' ? item.name.trim().toLowerCase() : '',
+      intensity: clamp(item?.intensity, 0, 1, 0)
+    }))
+    .filter(emotion => {
+      if (!EMOTIONS.includes(emotion.name) || emotion.intensity <= 0 || seen.has(emotion.name)) return false;
+      seen.add(emotion.name);
+      return true;
+    })
+    .sort((a, b) => b.intensity - a.intensity)
+    .slice(0, MAX_EMOTIONS);
+};
+
+// Older replies and malformed JSON still name a mood somewhere in the text
+const inferMood = (rawMood: string): string => {
+  for (const mood of VALID_MOODS) {
+    if (rawMood.includes(mood)) {
+      return mood;
+    }
+  }
+
+  if (rawMood.includes('happy') || rawMood.includes('joy') || rawMood.includes('excited') || rawMood.includes('great')) {
+    return 'good';
+  } else if (rawMood.includes('sad') || rawMood.includes('down') || rawMood.includes('disappointed')) {
+    return 'low';
+  } else if (rawMood.includes('anxious') || rawMood.includes('stressed') || rawMood.includes('overwhelmed')) {
+    return 'struggling';
+  } else if (rawMood.includes('fantastic') || rawMood.includes('wonderful')) {
+    return 'amazing';
+  }
+
+  return 'neutral';
+};
+
+const SAFETY_LEVELS: SafetyLevel[] = ['none', 'concern', 'urgent'];
+
+const SAFETY_PROMPT = `You are a careful safety classifier for a journaling app. Read the journal entry and decide whether the writer may be at risk of harming themselves.
+
+Levels:
+- none: no sign of suicidal thoughts or self-harm. Ordinary sadness, stress, venting and figures of speech ("this exam is killing me") are none.
+- concern: the writer mentions thoughts of suicide, self-harm, not wanting to be alive, or feeling like a burden, without a clear intent or plan.
+- urgent: the writer describes an intent, plan, means or timeline to end their life or seriously harm themselves, or says they are doing so now.
+
+Respond with ONLY a JSON object: {"level": "none" | "concern" | "urgent"}`;
+
+// A separate, narrow check so the mood prompt doesn't have to weigh it. Returns null when the check
+// fails; the client has its own keyword check to fall back on. Neither the entry nor the verdict is logged.
+const classifySafety = async (entry: string): Promise<SafetyLevel | null> => {
+  try {
+    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4',
+        messages: [
+          { role: 'system', content: SAFETY_PROMPT },
+          { role: 'user', content: `Journal entry: "${entry}"` }
+        ],
+        max_tokens: 20,
+        temperature: 0,
+      }),
+    });
+
+    if (!openaiResponse.ok) {
+      console.error('Safety check failed with status:', openaiResponse.status);
+      return null;
+    }
+
+    const openaiData: OpenAIResponse = await openaiResponse.json();
+    const level = JSON.parse(openaiData.choices?.[0]?.message.content.trim() || '{}')?.level;
+
+    return SAFETY_LEVELS.includes(level) ? level : null;
+  } catch {
+    console.error('Safety check failed');
+    return null;
+  }
+};
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -33,6 +150,9 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Started once the entry is validated, so a verdict is still returned if the mood analysis fails
+  let safetyCheck: Promise<SafetyLevel | null> = Promise.resolve(null);
+
   try {
     // Validate API key
     if (!OPENAI_API_KEY) {
@@ -59,7 +179,7 @@ Deno.serve(async (req: Request) => {
     }
 
     const requestData: MoodRequest = await req.json();
-    const { entry, name } = requestData;
+    const { entry, name, safety_check, safety_only } = requestData;
 
     // Validate input
     if (!entry || typeof entry !== 'string' || entry.trim().length === 0) {
@@ -83,26 +203,61 @@ Deno.serve(async (req: Request) => {
     // Truncate very long entries to avoid token limits
     const truncatedEntry = entry.length > 2000 ? entry.substring(0, 2000) + '...' : entry;
 
+    // Runs alongside the mood analysis
+    if (safety_check === true || safety_only === true) {
+      safetyCheck = classifySafety(truncatedEntry);
+    }
+
+    if (safety_only === true) {
+      const safetyLevel = await safetyCheck;
+      const safetyResponse: MoodResponse = safetyLevel
+        ? { success: true, safety: { level: safetyLevel }, timestamp: new Date().toISOString() }
+        : { success: false, error: 'Safety check failed', timestamp: new Date().toISOString() };
+
+      return new Response(
+        JSON.stringify(safetyResponse),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     // Create system prompt for mood analysis
-    const systemPrompt = `You are Zeno, a wise and empathetic fox companion who helps people understand their emotions through journaling. Your task is to analyze journal entries and identify the predominant emotional tone.
+    const systemPrompt = `You are Zeno, a wise and empathetic fox companion who helps people understand their emotions through journaling. Your task is to analyze journal entries and identify their overall mood and the emotions in them.
 
 Guidelines for mood analysis:
 - Analyze the overall emotional tone of the entire entry
 - Focus on the most prominent emotion expressed
 - Consider both explicit emotional words and implicit emotional context
 - Be sensitive to nuanced emotions and mixed feelings
-- Choose the emotion that best represents the overall feeling
+- Choose the mood that best represents the overall feeling
+- People often feel several things at once, so name every emotion that is clearly present
 
-Available mood categories (choose ONE):
+Available mood categories for the overall mood (choose ONE):
 - amazing: Extremely positive, joyful, euphoric, ecstatic, thrilled
 - good: Happy, content, pleased, satisfied, optimistic, hopeful
 - neutral: Calm, balanced, reflective, matter-of-fact, stable
 - low: Sad, disappointed, melancholy, down, discouraged
 - struggling: Very sad, depressed, overwhelmed, anxious, distressed
 
+Available emotions (choose up to ${MAX_EMOTIONS}): ${EMOTIONS.join(', ')}
+
 ${name ? `The user's name is ${name}.` : ''}
 
-Respond with ONLY the mood category (amazing, good, neutral, low, or struggling). Do not include any explanation or additional text.`;
+Respond with ONLY a JSON object containing:
+- "mood": the overall mood category
+- "emotions": the emotions present, each as {"name": ..., "intensity": 0 to 1}
+- "valence": how pleasant the entry feels, from -1 (very unpleasant) to 1 (very pleasant)
+- "arousal": how energized the entry feels, from 0 (very calm) to 1 (very energized)
+- "confidence": how sure you are of this analysis, from 0 to 1
+- "analysis": one short, warm sentence to the user about what they're feeling
+
+Example format:
+{"mood": "low", "emotions": [{"name": "anxiety", "intensity": 0.7}, {"name": "hope", "intensity": 0.3}], "valence": -0.4, "arousal": 0.6, "confidence": 0.8, "analysis": "..."}`;
 
     // Call OpenAI API
     const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
@@ -123,7 +278,7 @@ Respond with ONLY the mood category (amazing, good, neutral, low, or struggling)
             content: `Please analyze the emotional tone of this journal entry: "${truncatedEntry}"`
           }
         ],
-        max_tokens: 10,
+        max_tokens: 300,
         temperature: 0.3,
         top_p: 0.8,
       }),
@@ -141,42 +296,41 @@ Respond with ONLY the mood category (amazing, good, neutral, low, or struggling)
       throw new Error('No response from OpenAI');
     }
 
-    const rawMood = openaiData.choices[0].message.content.trim().toLowerCase();
-    
-    // Validate and normalize the mood response
-    const validMoods = ['amazing', 'good', 'neutral', 'low', 'struggling'];
-    let finalMood = 'neutral'; // default fallback
-    
-    // Check if the response matches our valid moods
-    for (const mood of validMoods) {
-      if (rawMood.includes(mood)) {
-        finalMood = mood;
-        break;
-      }
-    }
+    const responseContent = openaiData.choices[0].message.content.trim();
 
-    // If no valid mood found, try to infer from common emotional words
-    if (finalMood === 'neutral' && rawMood) {
-      if (rawMood.includes('happy') || rawMood.includes('joy') || rawMood.includes('excited') || rawMood.includes('great')) {
-        finalMood = 'good';
-      } else if (rawMood.includes('sad') || rawMood.includes('down') || rawMood.includes('disappointed')) {
-        finalMood = 'low';
-      } else if (rawMood.includes('anxious') || rawMood.includes('stressed') || rawMood.includes('overwhelmed')) {
-        finalMood = 'struggling';
-      } else if (rawMood.includes('amazing') || rawMood.includes('fantastic') || rawMood.includes('wonderful')) {
-        finalMood = 'amazing';
-      }
+    // Try to parse JSON response
+    let analysisData;
+    try {
+      analysisData = JSON.parse(responseContent);
+    } catch {
+      analysisData = null;
     }
 
-    // Return the mood analysis
+    // Validate and normalize the mood response
+    const rawMood = typeof analysisData?.mood === 'string' ? analysisData.mood : responseContent;
+    const finalMood = VALID_MOODS.includes(rawMood.trim().toLowerCase())
+      ? rawMood.trim().toLowerCase()
+      : inferMood(rawMood.toLowerCase());
+
+    // Return the mood analysis; a reply that wasn't JSON only carries the mood
     const response: MoodResponse = {
       success: true,
       mood: finalMood,
-      confidence: 0.85, // Could be enhanced with actual confidence scoring
-      analysis: `Zeno detected a ${finalMood} emotional tone in your entry`,
+      emotions: normalizeEmotions(analysisData?.emotions),
+      valence: clamp(analysisData?.valence, -1, 1, 0),
+      arousal: clamp(analysisData?.arousal, 0, 1, 0.5),
+      confidence: clamp(analysisData?.confidence, 0, 1, analysisData ? 0.5 : 0.3),
+      analysis: typeof analysisData?.analysis === 'string' && analysisData.analysis.trim()
+        ? analysisData.analysis.trim()
+        : `Zeno detected a ${finalMood} emotional tone in your entry`,
       timestamp: new Date().toISOString()
     };
 
+    const safetyLevel = await safetyCheck;
+    if (safetyLevel) {
+      response.safety = { level: safetyLevel };
+    }
+
     return new Response(
       JSON.stringify(response),
       {
@@ -199,6 +353,12 @@ Respond with ONLY the mood category (amazing, good, neutral, low, or struggling)
       timestamp: new Date().toISOString()
     };
 
+    // A crisis verdict matters more than the mood, so it's returned even when the analysis failed
+    const safetyLevel = await safetyCheck;
+    if (safetyLevel) {
+      fallbackResponse.safety = { level: safetyLevel };
+    }
+
     return new Response(
       JSON.stringify(fallbackResponse),
       {
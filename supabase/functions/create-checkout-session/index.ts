@@ -8,12 +8,18 @@ const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 const APP_URL = Deno.env.get('APP_URL') || 'http://localhost:5173';
 
-// Price IDs for subscription plans
+// Price IDs for subscription plans and the one-time streak freeze pack
 const PRICE_IDS = {
   MONTHLY: Deno.env.get('STRIPE_PRICE_ID_MONTHLY'),
   YEARLY: Deno.env.get('STRIPE_PRICE_ID_YEARLY'),
+  STREAK_FREEZES: Deno.env.get('STRIPE_PRICE_ID_STREAK_FREEZES'),
 };
 
+// Freezes in one purchased pack, and the most a user can hold before buying another. Purchases that
+// complete are always credited in full, so this is only checked here, before charging.
+const STREAK_FREEZE_PACK_SIZE = 3;
+const MAX_STREAK_FREEZES = 10;
+
 interface CheckoutRequest {
   priceId: string;
   userId: string;
@@ -104,8 +110,10 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const isStreakFreezePurchase = !!PRICE_IDS.STREAK_FREEZES && priceId === PRICE_IDS.STREAK_FREEZES;
+
     // Validate price ID
-    if (priceId !== PRICE_IDS.MONTHLY && priceId !== PRICE_IDS.YEARLY) {
+    if (priceId !== PRICE_IDS.MONTHLY && priceId !== PRICE_IDS.YEARLY && !isStreakFreezePurchase) {
       console.error('Invalid price ID received:', priceId);
       console.error('Expected price IDs:', PRICE_IDS);
       return new Response(
@@ -134,7 +142,7 @@ Deno.serve(async (req: Request) => {
     // Check if user already has a Stripe customer ID
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
-      .select('revenuecat_user_id')
+      .select('revenuecat_user_id, streak_freezes_available')
       .eq('user_id', userId)
       .single();
 
@@ -155,6 +163,23 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Don't charge for freezes that wouldn't fit in the inventory
+    if (isStreakFreezePurchase && (profile?.streak_freezes_available ?? 0) + STREAK_FREEZE_PACK_SIZE > MAX_STREAK_FREEZES) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `You can hold up to ${MAX_STREAK_FREEZES} streak freezes. Use some before buying more.`,
+        }),
+        {
+          status: 400,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     let customerId = profile?.revenuecat_user_id;
 
     // Create a new customer if one doesn't exist
@@ -200,28 +225,50 @@ Deno.serve(async (req: Request) => {
 
     // Create a checkout session
     try {
-      const session = await stripe.checkout.sessions.create({
-        customer: customerId,
-        payment_method_types: ['card'],
-        line_items: [
-          {
-            price: priceId,
-            quantity: 1,
+      let session: Stripe.Checkout.Session;
+      if (isStreakFreezePurchase) {
+        session = await stripe.checkout.sessions.create({
+          customer: customerId,
+          payment_method_types: ['card'],
+          line_items: [
+            {
+              price: priceId,
+              quantity: 1,
+            },
+          ],
+          mode: 'payment',
+          success_url: `${APP_URL}/home?streak_freezes=success`,
+          cancel_url: `${APP_URL}/home?streak_freezes=canceled`,
+          metadata: {
+            userId,
+            purchase: 'streak_freezes',
+            quantity: String(STREAK_FREEZE_PACK_SIZE),
+          },
+        });
+      } else {
+        session = await stripe.checkout.sessions.create({
+          customer: customerId,
+          payment_method_types: ['card'],
+          line_items: [
+            {
+              price: priceId,
+              quantity: 1,
+            },
+          ],
+          mode: 'subscription',
+          subscription_data: {
+            trial_period_days: 7,
+            metadata: {
+              userId,
+            },
           },
-        ],
-        mode: 'subscription',
-        subscription_data: {
-          trial_period_days: 7,
+          success_url: `${APP_URL}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: `${APP_URL}/home?subscription=canceled`,
           metadata: {
             userId,
           },
-        },
-        success_url: `${APP_URL}/home?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
-        cancel_url: `${APP_URL}/home?subscription=canceled`,
-        metadata: {
-          userId,
-        },
-      });
+        });
+      }
 
       // Return the checkout session URL
       return new Response(
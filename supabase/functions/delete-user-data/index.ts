@@ -14,6 +14,34 @@ interface DeleteResponse {
   timestamp: string;
 }
 
+const STORAGE_LIST_LIMIT = 1000;
+
+// Every photo a user uploads lives under `{user_id}/` in the journal-photos bucket,
+// so listing the folder catches gallery photos as well as legacy single photos.
+async function removeUserPhotos(supabase: ReturnType<typeof createClient>, userId: string): Promise<void> {
+  while (true) {
+    const { data: files, error: listError } = await supabase.storage
+      .from('journal-photos')
+      .list(userId, { limit: STORAGE_LIST_LIMIT });
+
+    if (listError) {
+      throw listError;
+    }
+
+    if (!files || files.length === 0) break;
+
+    const { error: removeError } = await supabase.storage
+      .from('journal-photos')
+      .remove(files.map(file => `${userId}/${file.name}`));
+
+    if (removeError) {
+      throw removeError;
+    }
+
+    if (files.length < STORAGE_LIST_LIMIT) break;
+  }
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -71,6 +99,27 @@ Deno.serve(async (req: Request) => {
     // Create Supabase client with service role key
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+    // Delete uploaded photos first; attachment rows go with the entries below
+    try {
+      await removeUserPhotos(supabase, user_id);
+    } catch (storageError) {
+      console.error('Error deleting photos:', storageError);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Failed to delete journal photos',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 500,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     // Delete journal entries first (due to foreign key constraints)
     const { error: entriesError } = await supabase
       .from('journal_entries')
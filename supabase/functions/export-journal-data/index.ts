@@ -3,11 +3,50 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+// Photos are in a private bucket, so the export links to signed URLs that stay valid for a week
+const PHOTO_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
 
 interface ExportRequest {
   user_id: string;
+  format?: 'json' | 'markdown';
 }
 
+interface ExportAttachment {
+  storage_path: string;
+  file_name: string | null;
+  caption: string | null;
+  position: number;
+}
+
+interface ExportEntry {
+  title: string | null;
+  content: string;
+  is_encrypted: boolean | null;
+  mood: string;
+  tags: string[] | null;
+  attachments: ExportAttachment[] | null;
+  entry_date: string;
+  created_at: string;
+}
+
+interface ExportPeriodSummary {
+  period_type: 'week' | 'month';
+  period_start: string;
+  period_end: string;
+  summary: string;
+  themes: string[];
+  mood_arc: string | null;
+  wins: string[];
+  stressors: string[];
+  entry_count: number;
+  is_encrypted: boolean;
+  encrypted_content: string | null;
+  updated_at: string;
+}
+
+const sortedAttachments = (entry: ExportEntry): ExportAttachment[] =>
+  [...(entry.attachments || [])].sort((a, b) => a.position - b.position);
+
 interface ExportResponse {
   success: boolean;
   data?: any;
@@ -15,6 +54,96 @@ interface ExportResponse {
   timestamp: string;
 }
 
+// Entry content is stored as Markdown, so it's written out as-is under a heading per entry
+function buildMarkdownExport(
+  profileName: string,
+  entries: ExportEntry[],
+  photoUrls: Map<string, string>,
+  summaries: ExportPeriodSummary[]
+): string {
+  const sections = entries.map(entry => {
+    // entry_date is a calendar date, so it's formatted as-is rather than shifted into a time zone
+    const date = new Date(`${entry.entry_date}T00:00:00Z`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+    const heading = entry.title ? `## ${entry.title}` : `## ${date}`;
+    const meta = [
+      entry.title ? date : null,
+      `Mood: ${entry.mood}`,
+      entry.tags && entry.tags.length > 0 ? `Tags: ${entry.tags.map(tag => `#${tag}`).join(' ')}` : null
+    ].filter(Boolean).join(' · ');
+
+    const photos = sortedAttachments(entry)
+      .filter(photo => photoUrls.has(photo.storage_path))
+      .map(photo => `![${(photo.caption || photo.file_name || 'Photo').replace(/[[\]]/g, '')}](${photoUrls.get(photo.storage_path)})`)
+      .join('\n\n');
+
+    // End-to-end encrypted entries can only be read in the app, so the export just marks them
+    const body = entry.is_encrypted
+      ? '*This entry is end-to-end encrypted and can only be read in Zensai.*'
+      : entry.content.trim();
+
+    return `${heading}\n\n_${meta}_\n\n${body}\n${photos ? `\n${photos}\n` : ''}`;
+  });
+
+  const reflections = summaries.map(summary => {
+    const start = new Date(`${summary.period_start}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'long',
+      day: summary.period_type === 'week' ? 'numeric' : undefined,
+      year: 'numeric',
+      timeZone: 'UTC'
+    });
+    const heading = summary.period_type === 'week' ? `## Week of ${start}` : `## ${start}`;
+
+    if (summary.is_encrypted) {
+      return `${heading}\n\n*This summary is end-to-end encrypted and can only be read in Zensai.*\n`;
+    }
+
+    const lists = [
+      summary.themes.length > 0 ? `**Themes:** ${summary.themes.join(', ')}` : null,
+      summary.wins.length > 0 ? `**Wins:** ${summary.wins.join(', ')}` : null,
+      summary.stressors.length > 0 ? `**Recurring stressors:** ${summary.stressors.join(', ')}` : null
+    ].filter(Boolean).join('\n\n');
+
+    return `${heading}\n\n${summary.summary}\n${summary.mood_arc ? `\n_${summary.mood_arc}_\n` : ''}${lists ? `\n${lists}\n` : ''}`;
+  });
+
+  const journal = [`# ${profileName}'s Journal`, ...sections].join('\n\n---\n\n');
+  return reflections.length > 0
+    ? `${journal}\n\n---\n\n# Zeno's Reflections\n\n${reflections.join('\n\n---\n\n')}`
+    : journal;
+}
+
+async function signPhotoPaths(
+  supabase: ReturnType<typeof createClient>,
+  paths: string[]
+): Promise<Map<string, string>> {
+  const photoUrls = new Map<string, string>();
+  if (paths.length === 0) return photoUrls;
+
+  const { data, error } = await supabase.storage
+    .from('journal-photos')
+    .createSignedUrls(paths, PHOTO_LINK_TTL_SECONDS);
+
+  if (error) {
+    // The export is still useful without photo links
+    console.error('Error signing photo URLs:', error);
+    return photoUrls;
+  }
+
+  data.forEach(item => {
+    if (item.path && !item.error) {
+      photoUrls.set(item.path, item.signedUrl);
+    }
+  });
+
+  return photoUrls;
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -49,7 +178,7 @@ Deno.serve(async (req: Request) => {
     }
 
     const requestData: ExportRequest = await req.json();
-    const { user_id } = requestData;
+    const { user_id, format = 'json' } = requestData;
 
     // Validate input
     if (!user_id || typeof user_id !== 'string') {
@@ -72,6 +201,29 @@ Deno.serve(async (req: Request) => {
     // Create Supabase client with service role key
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+    // The service role can read and sign anything, so only the signed-in user may export their own data
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user || user.id !== user_id) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: user ? 403 : 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     // Get user profile
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
@@ -97,11 +249,13 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Get all journal entries for the user
+    // Get all journal entries for the user (entries in the trash are left out)
     const { data: entries, error: entriesError } = await supabase
       .from('journal_entries')
-      .select('*')
+      .select('*, attachments:entry_attachments(storage_path, file_name, caption, position)')
       .eq('user_id', user_id)
+      .is('deleted_at', null)
+      .order('entry_date', { ascending: false })
       .order('created_at', { ascending: false });
 
     if (entriesError) {
@@ -122,13 +276,55 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Weekly and monthly summaries, newest first
+    const { data: summaries, error: summariesError } = await supabase
+      .from('period_summaries')
+      .select('period_type, period_start, period_end, summary, themes, mood_arc, wins, stressors, entry_count, is_encrypted, encrypted_content, updated_at')
+      .eq('user_id', user_id)
+      .order('period_start', { ascending: false })
+      .order('period_type', { ascending: true });
+
+    if (summariesError) {
+      // The journal itself is still worth exporting
+      console.error('Error fetching period summaries:', summariesError);
+    }
+
+    const photoUrls = await signPhotoPaths(
+      supabase,
+      (entries || []).flatMap((entry: ExportEntry) => (entry.attachments || []).map(photo => photo.storage_path))
+    );
+
+    // Markdown export is a single readable document
+    if (format === 'markdown') {
+      const response: ExportResponse = {
+        success: true,
+        data: {
+          markdown: buildMarkdownExport(profile.name || 'My', entries || [], photoUrls, summaries || [])
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      return new Response(
+        JSON.stringify(response),
+        {
+          status: 200,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
     // Prepare export data
     const exportData = {
       export_info: {
         exported_at: new Date().toISOString(),
         user_id: user_id,
         total_entries: entries?.length || 0,
-        export_version: '1.0'
+        export_version: '1.5',
+        photo_links_expire_at: new Date(Date.now() + PHOTO_LINK_TTL_SECONDS * 1000).toISOString(),
+        content_format: 'markdown'
       },
       profile: {
         name: profile.name,
@@ -139,10 +335,35 @@ Deno.serve(async (req: Request) => {
       },
       journal_entries: entries?.map(entry => ({
         id: entry.id,
+        title: entry.title,
         content: entry.content,
+        is_encrypted: entry.is_encrypted || false,
+        encrypted_content: entry.encrypted_content || null,
+        encrypted_title: entry.encrypted_title || null,
         mood: entry.mood,
+        tags: entry.tags || [],
+        photos: sortedAttachments(entry).map(photo => ({
+          url: photoUrls.get(photo.storage_path) || null,
+          file_name: photo.file_name,
+          caption: photo.caption
+        })),
+        entry_date: entry.entry_date,
         created_at: entry.created_at,
         updated_at: entry.updated_at
+      })) || [],
+      period_summaries: summaries?.map((summary: ExportPeriodSummary) => ({
+        period_type: summary.period_type,
+        period_start: summary.period_start,
+        period_end: summary.period_end,
+        summary: summary.summary,
+        themes: summary.themes,
+        mood_arc: summary.mood_arc,
+        wins: summary.wins,
+        stressors: summary.stressors,
+        entry_count: summary.entry_count,
+        is_encrypted: summary.is_encrypted,
+        encrypted_content: summary.encrypted_content,
+        updated_at: summary.updated_at
       })) || []
     };
 
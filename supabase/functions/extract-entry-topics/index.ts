@@ -0,0 +1,222 @@
+import { corsHeaders } from '../_shared/cors.ts';
+
+const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+
+interface TopicRequest {
+  entry: string;
+  // End-to-end encrypted journals only keep topics, so people and places aren't extracted
+  include_names?: boolean;
+}
+
+interface OpenAIResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+interface TopicResponse {
+  success: boolean;
+  topics: string[];
+  people: string[];
+  places: string[];
+  generated_by: 'ai' | 'fallback';
+  error?: string;
+  timestamp: string;
+}
+
+// Topics an entry can be about, each with words that point to it when the AI is unavailable
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  work: ['work', 'job', 'boss', 'office', 'meeting', 'deadline', 'colleague', 'coworker', 'project', 'career'],
+  school: ['school', 'class', 'exam', 'homework', 'teacher', 'university', 'college', 'study', 'lecture'],
+  family: ['family', 'mom', 'dad', 'mother', 'father', 'parent', 'sister', 'brother', 'kids', 'son', 'daughter', 'grandma', 'grandpa'],
+  relationships: ['partner', 'boyfriend', 'girlfriend', 'husband', 'wife', 'date', 'dating', 'relationship', 'breakup'],
+  friends: ['friend', 'friends', 'hang out', 'hung out'],
+  health: ['doctor', 'sick', 'illness', 'pain', 'headache', 'medication', 'therapy', 'hospital'],
+  sleep: ['sleep', 'slept', 'insomnia', 'nap', 'tired', 'bed', 'woke up', 'dream'],
+  exercise: ['exercise', 'workout', 'gym', 'run', 'ran', 'running', 'yoga', 'walk', 'hike', 'swim', 'bike'],
+  food: ['food', 'ate', 'eat', 'cooking', 'cooked', 'dinner', 'lunch', 'breakfast', 'meal'],
+  money: ['money', 'bills', 'rent', 'budget', 'debt', 'salary', 'paycheck', 'spent'],
+  creativity: ['paint', 'painting', 'draw', 'drawing', 'write', 'writing', 'music', 'guitar', 'piano', 'art'],
+  nature: ['nature', 'park', 'garden', 'forest', 'beach', 'ocean', 'mountain', 'sunset', 'outside'],
+  travel: ['travel', 'trip', 'flight', 'vacation', 'holiday', 'airport', 'hotel'],
+  'self-care': ['self-care', 'bath', 'meditate', 'meditation', 'journaling', 'rest', 'relax'],
+  home: ['home', 'house', 'apartment', 'cleaning', 'chores', 'move', 'moving'],
+  pets: ['dog', 'cat', 'pet', 'puppy', 'kitten'],
+  spirituality: ['faith', 'church', 'pray', 'prayer', 'spiritual', 'temple', 'mosque'],
+  hobbies: ['hobby', 'game', 'gaming', 'reading', 'book', 'movie', 'show', 'knitting']
+};
+const TOPICS = Object.keys(TOPIC_KEYWORDS);
+const MAX_TOPICS = 5;
+const MAX_NAMES = 8;
+
+const toStringList = (value: unknown, limit: number): string[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seen = new Set<string>();
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || item.length > 60 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+};
+
+// Topics whose keywords appear as whole words in the entry
+const findTopicsByKeyword = (entry: string): string[] => {
+  const text = entry.toLowerCase();
+  return TOPICS
+    .filter(topic => TOPIC_KEYWORDS[topic].some(keyword =>
+      new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text)
+    ))
+    .slice(0, MAX_TOPICS);
+};
+
+const jsonResponse = (body: TopicResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({
+      success: false,
+      error: 'Method not allowed. Use POST.',
+      topics: [],
+      people: [],
+      places: [],
+      generated_by: 'fallback',
+      timestamp: new Date().toISOString()
+    }, 405);
+  }
+
+  let entry = '';
+  let includeNames = true;
+
+  try {
+    const requestData: TopicRequest = await req.json();
+    entry = typeof requestData.entry === 'string' ? requestData.entry : '';
+    includeNames = requestData.include_names !== false;
+
+    // Validate input
+    if (entry.trim().length === 0) {
+      return jsonResponse({
+        success: false,
+        error: 'Journal entry text is required',
+        topics: [],
+        people: [],
+        places: [],
+        generated_by: 'fallback',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    // Validate API key
+    if (!OPENAI_API_KEY) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    // Truncate very long entries to avoid token limits
+    const truncatedEntry = entry.length > 2000 ? entry.substring(0, 2000) + '...' : entry;
+
+    const systemPrompt = `You help a journaling app organize entries by what they're about. Read the journal entry and identify its topics${includeNames ? ' and the people and places it mentions' : ''}.
+
+Guidelines:
+- Only choose topics the entry is really about, not ones mentioned in passing
+- Choose up to ${MAX_TOPICS} topics from this list only: ${TOPICS.join(', ')}
+${includeNames ? `- People are names or roles as the writer refers to them (e.g. "Sam", "my sister", "my manager")
+- Places are specific places (e.g. "Lisbon", "the office", "grandma's house"); leave out vague ones like "here"
+- List at most ${MAX_NAMES} people and ${MAX_NAMES} places` : ''}
+
+Respond with ONLY a JSON object containing:
+- "topics": the topics
+${includeNames ? `- "people": the people
+- "places": the places` : ''}
+
+Example format:
+${includeNames ? '{"topics": ["work", "sleep"], "people": ["my manager"], "places": ["the office"]}' : '{"topics": ["work", "sleep"]}'}`;
+
+    // Call OpenAI API
+    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4',
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt
+          },
+          {
+            role: 'user',
+            content: `Journal entry: "${truncatedEntry}"`
+          }
+        ],
+        max_tokens: 200,
+        temperature: 0.2,
+      }),
+    });
+
+    if (!openaiResponse.ok) {
+      const errorData = await openaiResponse.text();
+      console.error('OpenAI API error:', errorData);
+      throw new Error(`OpenAI API error: ${openaiResponse.status}`);
+    }
+
+    const openaiData: OpenAIResponse = await openaiResponse.json();
+
+    if (!openaiData.choices || openaiData.choices.length === 0) {
+      throw new Error('No response from OpenAI');
+    }
+
+    const topicData = JSON.parse(openaiData.choices[0].message.content.trim());
+
+    return jsonResponse({
+      success: true,
+      topics: toStringList(topicData?.topics, MAX_TOPICS)
+        .map(topic => topic.toLowerCase())
+        .filter(topic => TOPICS.includes(topic)),
+      people: includeNames ? toStringList(topicData?.people, MAX_NAMES) : [],
+      places: includeNames ? toStringList(topicData?.places, MAX_NAMES) : [],
+      generated_by: 'ai',
+      timestamp: new Date().toISOString()
+    }, 200);
+
+  } catch (error) {
+    console.error('Error extracting topics:', error);
+
+    // Fall back to keyword matching for topics; people and places need the AI
+    return jsonResponse({
+      success: true,
+      topics: findTopicsByKeyword(entry),
+      people: [],
+      places: [],
+      generated_by: 'fallback',
+      error: 'AI extraction failed, using keyword topics',
+      timestamp: new Date().toISOString()
+    }, 200);
+  }
+});
@@ -0,0 +1,356 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+const OPENAI_API_KEY = Deno.env.get('OPENAI_KEY');
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+// Keeps a month of long entries within the model's context
+const MAX_ENTRY_LENGTH = 600;
+const MAX_TOTAL_LENGTH = 12000;
+
+const MOOD_VALUES: Record<string, number> = {
+  struggling: 1,
+  low: 2,
+  neutral: 3,
+  good: 4,
+  amazing: 5
+};
+
+interface SummaryEntry {
+  entry_date: string;
+  mood: string;
+  title?: string | null;
+  content: string;
+  tags?: string[];
+}
+
+interface PeriodSummaryRequest {
+  period_type: 'week' | 'month';
+  period_start: string;
+  period_end: string;
+  entries: SummaryEntry[];
+  name?: string;
+  // End-to-end encrypted journals store an encrypted copy from the browser instead
+  store?: boolean;
+}
+
+interface OpenAIResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+interface PeriodSummaryContent {
+  summary: string;
+  themes: string[];
+  mood_arc: string;
+  wins: string[];
+  stressors: string[];
+}
+
+interface PeriodSummaryResponse {
+  success: boolean;
+  summary?: PeriodSummaryContent & {
+    period_type: 'week' | 'month';
+    period_start: string;
+    period_end: string;
+    entry_count: number;
+    generated_by: 'ai' | 'fallback';
+  };
+  stored?: boolean;
+  error?: string;
+  timestamp: string;
+}
+
+const jsonResponse = (body: PeriodSummaryResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const toStringList = (value: unknown, limit: number): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+      .map(item => item.trim())
+      .slice(0, limit)
+    : [];
+
+// Oldest first, each entry trimmed so the whole period fits in one prompt
+function formatEntriesForPrompt(entries: SummaryEntry[]): string {
+  const perEntryLength = Math.min(MAX_ENTRY_LENGTH, Math.floor(MAX_TOTAL_LENGTH / entries.length));
+
+  return [...entries]
+    .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+    .map(entry => {
+      const content = entry.content.length > perEntryLength
+        ? entry.content.substring(0, perEntryLength) + '...'
+        : entry.content;
+      const tags = entry.tags && entry.tags.length > 0 ? ` [${entry.tags.map(tag => `#${tag}`).join(' ')}]` : '';
+      return `${entry.entry_date} (mood: ${entry.mood})${entry.title ? ` "${entry.title}"` : ''}${tags}\n${content}`;
+    })
+    .join('\n\n');
+}
+
+// A summary from moods and tags alone, for when the AI is unavailable
+function buildFallbackSummary(entries: SummaryEntry[], periodType: 'week' | 'month'): PeriodSummaryContent {
+  const sorted = [...entries].sort((a, b) => a.entry_date.localeCompare(b.entry_date));
+  const values = sorted.map(entry => MOOD_VALUES[entry.mood] || 3);
+  const half = Math.ceil(values.length / 2);
+  const average = (list: number[]) => list.reduce((sum, value) => sum + value, 0) / list.length;
+  const firstHalf = average(values.slice(0, half));
+  const secondHalf = values.length > 1 ? average(values.slice(half)) : firstHalf;
+
+  let moodArc: string;
+  if (secondHalf - firstHalf >= 0.5) {
+    moodArc = `Your mood lifted as the ${periodType} went on.`;
+  } else if (firstHalf - secondHalf >= 0.5) {
+    moodArc = `Your mood dipped toward the end of the ${periodType}.`;
+  } else {
+    moodArc = `Your mood stayed fairly steady through the ${periodType}.`;
+  }
+
+  const tagCounts = new Map<string, number>();
+  sorted.forEach(entry => (entry.tags || []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1)));
+  const themes = [...tagCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([tag]) => tag);
+
+  return {
+    summary: `You wrote ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} this ${periodType}. Every time you pause to reflect, you learn a little more about yourself, and that's something to be proud of.`,
+    themes,
+    mood_arc: moodArc,
+    wins: [`You showed up for yourself ${entries.length} ${entries.length === 1 ? 'time' : 'times'} this ${periodType}.`],
+    stressors: []
+  };
+}
+
+async function generateAiSummary(
+  entries: SummaryEntry[],
+  periodType: 'week' | 'month',
+  name?: string
+): Promise<PeriodSummaryContent> {
+  const systemPrompt = `You are Zeno, a wise, compassionate fox companion who helps people reflect on their journaling. You will read someone's journal entries from the past ${periodType} and write a gentle reflection on it.
+
+Guidelines:
+- Speak directly to the user as "you", warmly, like a caring friend who has been listening
+- Notice patterns across entries rather than retelling each one
+- Acknowledge hard moments without dismissing them, and celebrate real progress without toxic positivity
+- Never diagnose, and don't give medical advice
+- Keep the summary to 3-5 sentences
+
+${name ? `The user's name is ${name}, so you can personalize the reflection if appropriate.` : ''}
+
+Respond with ONLY a JSON object containing:
+- "summary": your reflection on the ${periodType}
+- "themes": 2-5 short phrases naming the recurring themes
+- "mood_arc": one sentence describing how their mood moved through the ${periodType}
+- "wins": 0-4 short phrases naming wins, big or small
+- "stressors": 0-4 short phrases naming recurring stressors
+
+Example format:
+{"summary": "...", "themes": ["..."], "mood_arc": "...", "wins": ["..."], "stressors": ["..."]}`;
+
+  const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt
+        },
+        {
+          role: 'user',
+          content: `Here are my journal entries from this ${periodType}:\n\n${formatEntriesForPrompt(entries)}`
+        }
+      ],
+      max_tokens: 600,
+      temperature: 0.7,
+      top_p: 0.9,
+    }),
+  });
+
+  if (!openaiResponse.ok) {
+    const errorData = await openaiResponse.text();
+    console.error('OpenAI API error:', errorData);
+    throw new Error(`OpenAI API error: ${openaiResponse.status}`);
+  }
+
+  const openaiData: OpenAIResponse = await openaiResponse.json();
+
+  if (!openaiData.choices || openaiData.choices.length === 0) {
+    throw new Error('No response from OpenAI');
+  }
+
+  const summaryData = JSON.parse(openaiData.choices[0].message.content.trim());
+
+  if (!summaryData || typeof summaryData.summary !== 'string' || summaryData.summary.trim().length === 0) {
+    throw new Error('OpenAI response is missing the summary');
+  }
+
+  return {
+    summary: summaryData.summary.trim(),
+    themes: toStringList(summaryData.themes, 5),
+    mood_arc: typeof summaryData.mood_arc === 'string' ? summaryData.mood_arc.trim() : '',
+    wins: toStringList(summaryData.wins, 4),
+    stressors: toStringList(summaryData.stressors, 4)
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({
+        success: false,
+        error: 'Method not allowed. Use POST.',
+        timestamp: new Date().toISOString()
+      }, 405);
+    }
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // Summaries are stored for the signed-in user only
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: { user }, error: authError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null };
+
+    if (authError || !user) {
+      return jsonResponse({
+        success: false,
+        error: 'Unauthorized',
+        timestamp: new Date().toISOString()
+      }, 401);
+    }
+
+    const requestData: PeriodSummaryRequest = await req.json();
+    const { period_type, period_start, period_end, entries, name, store = true } = requestData;
+
+    // Validate input
+    if (period_type !== 'week' && period_type !== 'month') {
+      return jsonResponse({
+        success: false,
+        error: "Period type must be 'week' or 'month'",
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    if (!isDateString(period_start) || !isDateString(period_end) || period_end < period_start) {
+      return jsonResponse({
+        success: false,
+        error: 'A valid period start and end date are required',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    const periodEntries = Array.isArray(entries)
+      ? entries.filter(entry =>
+        entry &&
+        typeof entry.content === 'string' &&
+        entry.content.trim().length > 0 &&
+        isDateString(entry.entry_date) &&
+        entry.entry_date >= period_start &&
+        entry.entry_date <= period_end
+      )
+      : [];
+
+    if (periodEntries.length === 0) {
+      return jsonResponse({
+        success: false,
+        error: 'There are no entries to summarize in this period',
+        timestamp: new Date().toISOString()
+      }, 400);
+    }
+
+    let content: PeriodSummaryContent;
+    let generatedBy: 'ai' | 'fallback' = 'ai';
+
+    try {
+      if (!OPENAI_API_KEY) {
+        throw new Error('OpenAI API key not configured');
+      }
+      content = await generateAiSummary(periodEntries, period_type, name);
+    } catch (aiError) {
+      console.error('AI generation failed, using fallback:', aiError);
+      content = buildFallbackSummary(periodEntries, period_type);
+      generatedBy = 'fallback';
+    }
+
+    const summary = {
+      ...content,
+      period_type,
+      period_start,
+      period_end,
+      entry_count: periodEntries.length,
+      generated_by: generatedBy
+    };
+
+    if (store) {
+      // Regenerating a period replaces its summary
+      const { error: upsertError } = await supabase
+        .from('period_summaries')
+        .upsert({
+          user_id: user.id,
+          ...summary,
+          is_encrypted: false
+        }, { onConflict: 'user_id,period_type,period_start' });
+
+      if (upsertError) {
+        console.error('Error storing period summary:', upsertError);
+        return jsonResponse({
+          success: false,
+          summary,
+          stored: false,
+          error: 'Failed to save the summary',
+          timestamp: new Date().toISOString()
+        }, 500);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      summary,
+      stored: store,
+      timestamp: new Date().toISOString()
+    }, 200);
+
+  } catch (error) {
+    console.error('Error generating period summary:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to generate your summary. Please try again.',
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
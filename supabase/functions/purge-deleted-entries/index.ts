@@ -0,0 +1,178 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+
+// Runs on a schedule (e.g. a daily pg_cron job calling this function with the service role key)
+// to permanently remove entries that have been in the trash longer than the retention period.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const TRASH_RETENTION_DAYS = 30;
+const PURGE_BATCH_SIZE = 500;
+
+interface TrashedEntry {
+  id: string;
+  photo_url: string | null;
+  attachments: { storage_path: string; thumbnail_path: string | null }[] | null;
+}
+
+interface PurgeResponse {
+  success: boolean;
+  purgedEntries?: number;
+  purgedPhotos?: number;
+  error?: string;
+  timestamp: string;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Method not allowed. Use POST.',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 405,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Only the scheduler (holding the service role key) may purge
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unauthorized',
+          timestamp: new Date().toISOString()
+        }),
+        {
+          status: 401,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    }
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+
+    let purgedEntries = 0;
+    let purgedPhotos = 0;
+
+    // Work in batches so a large backlog doesn't exceed the function's limits
+    while (true) {
+      const { data: expiredEntries, error: fetchError } = await supabase
+        .from('journal_entries')
+        .select('id, photo_url, attachments:entry_attachments(storage_path, thumbnail_path)')
+        .not('deleted_at', 'is', null)
+        .lt('deleted_at', cutoff.toISOString())
+        .limit(PURGE_BATCH_SIZE);
+
+      if (fetchError) {
+        console.error('Error fetching expired entries:', fetchError);
+        throw new Error('Failed to fetch expired entries');
+      }
+
+      const batch: TrashedEntry[] = expiredEntries || [];
+      if (batch.length === 0) break;
+
+      // Remove photos first; a failed removal is logged but doesn't block the purge.
+      // Attachment rows cascade with the entry, so their paths have to be collected now.
+      const photoPaths = Array.from(new Set(batch.flatMap(entry => [
+        ...(entry.attachments || []).flatMap(attachment =>
+          attachment.thumbnail_path ? [attachment.storage_path, attachment.thumbnail_path] : [attachment.storage_path]
+        ),
+        ...(entry.photo_url ? [entry.photo_url] : [])
+      ])));
+
+      if (photoPaths.length > 0) {
+        const { data: removedFiles, error: storageError } = await supabase.storage
+          .from('journal-photos')
+          .remove(photoPaths);
+
+        if (storageError) {
+          console.warn('Failed to remove some photos:', storageError);
+        } else {
+          purgedPhotos += removedFiles?.length || 0;
+        }
+      }
+
+      const { error: deleteError } = await supabase
+        .from('journal_entries')
+        .delete()
+        .in('id', batch.map(entry => entry.id));
+
+      if (deleteError) {
+        console.error('Error deleting expired entries:', deleteError);
+        throw new Error('Failed to delete expired entries');
+      }
+
+      purgedEntries += batch.length;
+
+      if (batch.length < PURGE_BATCH_SIZE) break;
+    }
+
+    const response: PurgeResponse = {
+      success: true,
+      purgedEntries,
+      purgedPhotos,
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+  } catch (error) {
+    console.error('Error purging deleted entries:', error);
+
+    const errorResponse: PurgeResponse = {
+      success: false,
+      error: 'Failed to purge deleted entries',
+      timestamp: new Date().toISOString()
+    };
+
+    return new Response(
+      JSON.stringify(errorResponse),
+      {
+        status: 500,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  }
+});
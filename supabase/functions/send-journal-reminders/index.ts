@@ -0,0 +1,321 @@
+import { corsHeaders } from '../_shared/cors.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import webpush from 'npm:web-push@3.6.7';
+
+// Runs on a schedule (e.g. a pg_cron job every 15 minutes calling this function with the service role key)
+// to send a journaling reminder to users whose reminder time has passed and who haven't written today.
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const VAPID_PUBLIC_KEY = Deno.env.get('VAPID_PUBLIC_KEY');
+const VAPID_PRIVATE_KEY = Deno.env.get('VAPID_PRIVATE_KEY');
+const VAPID_SUBJECT = Deno.env.get('VAPID_SUBJECT') || 'mailto:support@zensai.app';
+
+const SCHEDULE_BATCH_SIZE = 500;
+
+const REMINDER_MESSAGES = [
+  'Zeno saved you a quiet moment. How was your day?',
+  'A few words are enough. Take a breath and check in with yourself.',
+  "Your journal is waiting whenever you're ready. 🌱",
+  'What stood out today? Zeno would love to hear about it.'
+];
+
+interface ReminderSchedule {
+  user_id: string;
+  days_of_week: number[];
+  reminder_time: string;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  last_sent_on: string | null;
+  profile: { name: string | null; last_entry_date: string | null; timezone: string | null } | null;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  minutes: number; // minutes since local midnight
+  midnightUtc: Date; // the instant the local day started
+}
+
+interface ReminderResponse {
+  success: boolean;
+  remindedUsers?: number;
+  sentNotifications?: number;
+  removedSubscriptions?: number;
+  error?: string;
+  timestamp: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// The user's wall-clock date and time at `now`
+const getLocalTime = (now: Date, timezone: string): LocalTime => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now).map(part => [part.type, part.value])
+  );
+
+  const year = Number(parts.year);
+  const month = Number(parts.month);
+  const day = Number(parts.day);
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+
+  // Offset between the local wall clock and UTC, used to find when the local day began
+  const localAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetMs = localAsUtc - Math.floor(now.getTime() / 60000) * 60000;
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes,
+    midnightUtc: new Date(Date.UTC(year, month - 1, day) - offsetMs)
+  };
+};
+
+const isInQuietHours = (schedule: ReminderSchedule, minutes: number): boolean => {
+  if (!schedule.quiet_hours_start || !schedule.quiet_hours_end) return false;
+
+  const start = toMinutes(schedule.quiet_hours_start);
+  const end = toMinutes(schedule.quiet_hours_end);
+  if (start === end) return false;
+
+  // Windows such as 22:00-07:00 wrap past midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+const isReminderDue = (schedule: ReminderSchedule, local: LocalTime): boolean => {
+  if (schedule.last_sent_on === local.date) return false;
+  if (!schedule.days_of_week.includes(local.weekday)) return false;
+  if (local.minutes < toMinutes(schedule.reminder_time)) return false;
+
+  // Held back rather than dropped, so it goes out once quiet hours end
+  return !isInQuietHours(schedule, local.minutes);
+};
+
+const jsonResponse = (body: ReminderResponse, status: number) =>
+  new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Validate environment variables
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+      throw new Error('Missing required environment variables');
+    }
+
+    if (req.method !== 'POST') {
+      return jsonResponse({
+        success: false,
+        error: 'Method not allowed. Use POST.',
+        timestamp: new Date().toISOString()
+      }, 405);
+    }
+
+    // Only the scheduler (holding the service role key) may send reminders
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      return jsonResponse({
+        success: false,
+        error: 'Unauthorized',
+        timestamp: new Date().toISOString()
+      }, 401);
+    }
+
+    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+
+    // Create Supabase client with service role key
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const now = new Date();
+
+    let remindedUsers = 0;
+    let sentNotifications = 0;
+    let removedSubscriptions = 0;
+
+    for (let offset = 0; ; offset += SCHEDULE_BATCH_SIZE) {
+      const { data: schedules, error: fetchError } = await supabase
+        .from('reminder_schedules')
+        .select('user_id, days_of_week, reminder_time, timezone, quiet_hours_start, quiet_hours_end, last_sent_on, profile:profiles(name, last_entry_date, timezone)')
+        .eq('is_enabled', true)
+        .order('user_id')
+        .range(offset, offset + SCHEDULE_BATCH_SIZE - 1);
+
+      if (fetchError) {
+        console.error('Error fetching reminder schedules:', fetchError);
+        throw new Error('Failed to fetch reminder schedules');
+      }
+
+      const batch: ReminderSchedule[] = schedules || [];
+      if (batch.length === 0) break;
+
+      const dueReminders: { schedule: ReminderSchedule; local: LocalTime }[] = [];
+
+      for (const schedule of batch) {
+        const local = getLocalTime(now, schedule.timezone);
+        if (!isReminderDue(schedule, local)) continue;
+
+        // last_entry_date is a local date in the profile's time zone. When the reminder uses a different
+        // zone, look for an entry since the reminder's local midnight instead.
+        const lastEntryDate = schedule.profile?.last_entry_date;
+        const profileTimezone = schedule.profile?.timezone || 'UTC';
+        if (profileTimezone === schedule.timezone) {
+          if (lastEntryDate === local.date) continue;
+        } else if (lastEntryDate) {
+          const { count, error: entryError } = await supabase
+            .from('journal_entries')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', schedule.user_id)
+            .is('deleted_at', null)
+            .gte('created_at', local.midnightUtc.toISOString());
+
+          if (entryError) {
+            console.warn('Failed to check today\'s entries for reminder:', entryError);
+            continue;
+          }
+
+          if ((count || 0) > 0) continue;
+        }
+
+        dueReminders.push({ schedule, local });
+      }
+
+      if (dueReminders.length > 0) {
+        const { data: subscriptionRows, error: subscriptionError } = await supabase
+          .from('push_subscriptions')
+          .select('id, user_id, endpoint, p256dh, auth')
+          .in('user_id', dueReminders.map(({ schedule }) => schedule.user_id));
+
+        if (subscriptionError) {
+          console.error('Error fetching push subscriptions:', subscriptionError);
+          throw new Error('Failed to fetch push subscriptions');
+        }
+
+        const subscriptions: PushSubscriptionRow[] = subscriptionRows || [];
+        const expiredSubscriptionIds: string[] = [];
+        const usedSubscriptionIds: string[] = [];
+
+        for (const { schedule, local } of dueReminders) {
+          const name = schedule.profile?.name?.split(' ')[0];
+          const payload = JSON.stringify({
+            title: name ? `Time to journal, ${name}` : 'Time to journal',
+            body: REMINDER_MESSAGES[Math.floor(Math.random() * REMINDER_MESSAGES.length)],
+            url: '/home',
+            tag: 'zensai-reminder'
+          });
+
+          const userSubscriptions = subscriptions.filter(subscription => subscription.user_id === schedule.user_id);
+
+          await Promise.all(userSubscriptions.map(async subscription => {
+            try {
+              await webpush.sendNotification(
+                { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+                payload,
+                { TTL: 60 * 60 }
+              );
+              usedSubscriptionIds.push(subscription.id);
+              sentNotifications++;
+            } catch (error) {
+              // The browser unsubscribed or the subscription expired
+              const statusCode = (error as { statusCode?: number }).statusCode;
+              if (statusCode === 404 || statusCode === 410) {
+                expiredSubscriptionIds.push(subscription.id);
+              } else {
+                console.warn('Failed to send reminder notification:', error);
+              }
+            }
+          }));
+
+          // Marked even without a working subscription so the user isn't checked again until tomorrow
+          const { error: updateError } = await supabase
+            .from('reminder_schedules')
+            .update({ last_sent_on: local.date })
+            .eq('user_id', schedule.user_id);
+
+          if (updateError) {
+            console.warn('Failed to record sent reminder:', updateError);
+          }
+
+          if (userSubscriptions.length > 0) remindedUsers++;
+        }
+
+        if (expiredSubscriptionIds.length > 0) {
+          const { error: deleteError } = await supabase
+            .from('push_subscriptions')
+            .delete()
+            .in('id', expiredSubscriptionIds);
+
+          if (deleteError) {
+            console.warn('Failed to remove expired push subscriptions:', deleteError);
+          } else {
+            removedSubscriptions += expiredSubscriptionIds.length;
+          }
+        }
+
+        if (usedSubscriptionIds.length > 0) {
+          await supabase
+            .from('push_subscriptions')
+            .update({ last_used_at: now.toISOString() })
+            .in('id', usedSubscriptionIds);
+        }
+      }
+
+      if (batch.length < SCHEDULE_BATCH_SIZE) break;
+    }
+
+    return jsonResponse({
+      success: true,
+      remindedUsers,
+      sentNotifications,
+      removedSubscriptions,
+      timestamp: new Date().toISOString()
+    }, 200);
+
+  } catch (error) {
+    console.error('Error sending journal reminders:', error);
+
+    return jsonResponse({
+      success: false,
+      error: 'Failed to send journal reminders',
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
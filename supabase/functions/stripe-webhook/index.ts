@@ -97,7 +97,29 @@ Deno.serve(async (req: Request) => {
     switch (event.type) {
       case 'checkout.session.completed': {
         const session = event.data.object as Stripe.Checkout.Session;
-        
+
+        // One-time streak freeze pack; the session ID keeps a redelivered event from granting it twice
+        if (session.mode === 'payment' && session.metadata?.purchase === 'streak_freezes') {
+          const userId = session.metadata.userId;
+          const quantity = parseInt(session.metadata.quantity || '0', 10);
+
+          if (!userId || !quantity || session.payment_status !== 'paid') {
+            console.error('Invalid streak freeze purchase session:', session.id);
+            break;
+          }
+
+          const { error: purchaseError } = await supabase.rpc('record_streak_freeze_purchase', {
+            target_user_id: userId,
+            session_id: session.id,
+            pack_quantity: quantity,
+          });
+
+          if (purchaseError) {
+            console.error('Error recording streak freeze purchase:', purchaseError);
+          }
+          break;
+        }
+
         // Get the subscription
         if (session.subscription && session.customer) {
           const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
@@ -0,0 +1,108 @@
+/*
+  # Add tags to journal entries
+
+  1. Schema Changes
+    - Add `tags` column (text[], default empty) to `journal_entries`
+    - Add GIN index so entries can be filtered by tag efficiently
+
+  2. Validation
+    - Update validate_journal_entry to normalize tags (trimmed, lowercase, de-duplicated)
+    - Limit entries to 10 tags of at most 32 characters each
+
+  3. Functions
+    - get_user_tags returns every tag a user has used with its usage count, for autocomplete
+
+  4. Security
+    - Tags live on journal_entries, so the existing RLS policies already restrict them to their owner
+    - get_user_tags runs as SECURITY INVOKER so RLS still applies
+*/
+
+-- Add tags column to journal_entries table
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS tags text[] DEFAULT '{}'::text[] NOT NULL;
+
+-- Add index for tag filtering
+CREATE INDEX IF NOT EXISTS idx_journal_entries_tags ON public.journal_entries USING GIN (tags);
+
+-- Update the validation function to normalize tags
+CREATE OR REPLACE FUNCTION public.validate_journal_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Trim whitespace and validate content
+  NEW.content = trim(NEW.content);
+
+  IF NEW.content = '' THEN
+    RAISE EXCEPTION 'Journal entry content cannot be empty';
+  END IF;
+
+  -- Trim title if provided
+  IF NEW.title IS NOT NULL THEN
+    NEW.title = trim(NEW.title);
+
+    -- If title is empty after trimming, set to NULL
+    IF NEW.title = '' THEN
+      NEW.title = NULL;
+    END IF;
+  END IF;
+
+  -- Validate mood
+  IF NEW.mood NOT IN ('struggling', 'low', 'neutral', 'good', 'amazing') THEN
+    RAISE EXCEPTION 'Invalid mood value: %', NEW.mood;
+  END IF;
+
+  -- Validate photo_url format if provided
+  IF NEW.photo_url IS NOT NULL AND NEW.photo_url != '' THEN
+    -- Basic URL validation - should start with expected Supabase storage URL pattern
+    IF NEW.photo_url !~ '^https?://.*' THEN
+      RAISE EXCEPTION 'Invalid photo URL format';
+    END IF;
+  END IF;
+
+  -- Normalize tags: trim, lowercase, drop blanks and duplicates (keeping first occurrence order)
+  NEW.tags = COALESCE((
+    SELECT ARRAY_AGG(tag ORDER BY first_position)
+    FROM (
+      SELECT lower(trim(raw_tag)) AS tag, MIN(position) AS first_position
+      FROM unnest(COALESCE(NEW.tags, '{}'::text[])) WITH ORDINALITY AS t(raw_tag, position)
+      WHERE trim(raw_tag) != ''
+      GROUP BY lower(trim(raw_tag))
+    ) normalized
+  ), '{}'::text[]);
+
+  IF array_length(NEW.tags, 1) > 10 THEN
+    RAISE EXCEPTION 'A journal entry can have at most 10 tags';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(NEW.tags) AS tag WHERE length(tag) > 32) THEN
+    RAISE EXCEPTION 'Tags must be 32 characters or fewer';
+  END IF;
+
+  -- Set updated_at timestamp
+  NEW.updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to list a user's tags with usage counts
+CREATE OR REPLACE FUNCTION public.get_user_tags(target_user_id uuid)
+RETURNS TABLE (
+  tag text,
+  usage_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT t.tag, COUNT(*) AS usage_count
+  FROM public.journal_entries je
+  CROSS JOIN LATERAL unnest(je.tags) AS t(tag)
+  WHERE je.user_id = target_user_id
+  GROUP BY t.tag
+  ORDER BY usage_count DESC, t.tag ASC;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.get_user_tags(uuid) TO authenticated;
@@ -0,0 +1,122 @@
+/*
+  # Full-text search over journal entries
+
+  1. Schema Changes
+    - Add `search_vector` generated column to `journal_entries` (title weighted above content, tags last)
+    - Add GIN index on `search_vector`
+
+  2. Functions
+    - journal_entry_search_document builds the weighted tsvector for an entry
+    - search_journal_entries runs a ranked web-style search (phrases in quotes, -word to exclude)
+      with optional mood, date range and tag filters, returning highlighted snippets and a total count
+
+  3. Security
+    - search_journal_entries runs as SECURITY INVOKER so the journal_entries RLS policies still apply
+*/
+
+-- Build the weighted search document for an entry
+CREATE OR REPLACE FUNCTION public.journal_entry_search_document(entry_title text, entry_content text, entry_tags text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, COALESCE(entry_title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(entry_content, '')), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(array_to_string(entry_tags, ' '), '')), 'C');
+$$;
+
+-- Add search vector column (computed for existing rows automatically)
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (public.journal_entry_search_document(title, content, tags)) STORED;
+
+-- Add index for full-text search
+CREATE INDEX IF NOT EXISTS idx_journal_entries_search_vector ON public.journal_entries USING GIN (search_vector);
+
+-- Ranked search with highlighted snippets
+-- Highlights are wrapped in chr(2)/chr(3) so the client can render them without trusting HTML
+CREATE OR REPLACE FUNCTION public.search_journal_entries(
+  target_user_id uuid,
+  search_query text,
+  mood_filter text DEFAULT NULL,
+  start_date timestamptz DEFAULT NULL,
+  end_date timestamptz DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  mood text,
+  tags text[],
+  photo_url text,
+  photo_filename text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  content_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  parsed_query tsquery;
+  headline_options text := 'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+    ', MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  parsed_query := websearch_to_tsquery('english', COALESCE(search_query, ''));
+
+  -- An empty or stop-word-only query matches nothing
+  IF numnode(parsed_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      je.*,
+      ts_rank_cd(je.search_vector, parsed_query, 32) AS match_rank
+    FROM public.journal_entries je
+    WHERE je.user_id = target_user_id
+      AND je.search_vector @@ parsed_query
+      AND (mood_filter IS NULL OR je.mood = mood_filter)
+      AND (start_date IS NULL OR je.created_at >= start_date)
+      AND (end_date IS NULL OR je.created_at < end_date)
+      AND (tag_filter IS NULL OR je.tags @> tag_filter)
+  ),
+  ranked_page AS (
+    SELECT m.*, COUNT(*) OVER () AS match_total
+    FROM matches m
+    ORDER BY m.match_rank DESC, m.created_at DESC, m.id DESC
+    LIMIT LEAST(GREATEST(page_size, 1), 100)
+    OFFSET GREATEST(page_offset, 0)
+  )
+  SELECT
+    rp.id,
+    rp.title,
+    rp.content,
+    rp.mood,
+    rp.tags,
+    rp.photo_url,
+    rp.photo_filename,
+    rp.created_at,
+    rp.updated_at,
+    rp.match_rank,
+    CASE WHEN rp.title IS NOT NULL
+      THEN ts_headline('english', rp.title, parsed_query, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true')
+    END,
+    ts_headline('english', rp.content, parsed_query, headline_options),
+    rp.match_total
+  FROM ranked_page rp
+  ORDER BY rp.match_rank DESC, rp.created_at DESC, rp.id DESC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.search_journal_entries(uuid, text, text, timestamptz, timestamptz, text[], integer, integer) TO authenticated;
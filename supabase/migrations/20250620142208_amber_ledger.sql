@@ -0,0 +1,100 @@
+/*
+  # Journal entry revision history
+
+  1. New Tables
+    - `journal_entry_revisions`
+      - `id` (uuid, primary key)
+      - `entry_id` (uuid, references journal_entries.id)
+      - `user_id` (uuid, references profiles.user_id)
+      - `title`, `content`, `mood`, `tags`, `photo_url`, `photo_filename` (the entry as it was before the edit)
+      - `revised_at` (timestamp the entry was overwritten)
+
+  2. Triggers
+    - record_journal_entry_revision stores the previous version whenever an entry's
+      title, content, mood, tags or photo changes
+
+  3. Security
+    - Enable RLS on `journal_entry_revisions`
+    - Users can view and delete their own revisions; only the trigger can insert them
+*/
+
+-- Create journal_entry_revisions table
+CREATE TABLE IF NOT EXISTS public.journal_entry_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  title text,
+  content text NOT NULL,
+  mood text NOT NULL,
+  tags text[] DEFAULT '{}'::text[] NOT NULL,
+  photo_url text,
+  photo_filename text,
+  revised_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.journal_entry_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for journal_entry_revisions table
+CREATE POLICY "Users can view own entry revisions"
+  ON public.journal_entry_revisions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own entry revisions"
+  ON public.journal_entry_revisions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_journal_entry_revisions_entry_id ON public.journal_entry_revisions(entry_id, revised_at DESC);
+CREATE INDEX IF NOT EXISTS idx_journal_entry_revisions_user_id ON public.journal_entry_revisions(user_id);
+
+-- Function to snapshot the previous version of an entry
+CREATE OR REPLACE FUNCTION public.record_journal_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only record edits that change what the user wrote
+  IF OLD.content IS DISTINCT FROM NEW.content
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.mood IS DISTINCT FROM NEW.mood
+    OR OLD.tags IS DISTINCT FROM NEW.tags
+    OR OLD.photo_url IS DISTINCT FROM NEW.photo_url THEN
+
+    INSERT INTO public.journal_entry_revisions (
+      entry_id,
+      user_id,
+      title,
+      content,
+      mood,
+      tags,
+      photo_url,
+      photo_filename,
+      revised_at
+    ) VALUES (
+      OLD.id,
+      OLD.user_id,
+      OLD.title,
+      OLD.content,
+      OLD.mood,
+      COALESCE(OLD.tags, '{}'::text[]),
+      OLD.photo_url,
+      OLD.photo_filename,
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger for revision history
+DROP TRIGGER IF EXISTS record_journal_entry_revision_trigger ON public.journal_entries;
+CREATE TRIGGER record_journal_entry_revision_trigger
+  AFTER UPDATE ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.record_journal_entry_revision();
@@ -0,0 +1,475 @@
+/*
+  # Soft delete journal entries with a 30-day trash
+
+  1. Schema Changes
+    - Add `deleted_at` column to `journal_entries`; entries with a value are in the trash
+    - Add indexes for active entries and for finding expired trash
+
+  2. Functions
+    - recompute_user_streaks rebuilds current_streak, best_streak and last_entry_date from active entries
+    - check_and_award_badges, get_user_badge_progress, get_user_mood_stats, get_mood_trends,
+      get_user_tags and search_journal_entries now ignore trashed entries
+    - get_mood_trends interval calculation fixed while updating it
+
+  3. Triggers
+    - Moving an entry to or from the trash recomputes streaks and re-checks badges
+
+  4. Retention
+    - The purge-deleted-entries edge function permanently deletes entries trashed more than
+      30 days ago along with their photos
+*/
+
+-- Add deleted_at column to journal_entries table
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- Add indexes for active entries and trash lookups
+CREATE INDEX IF NOT EXISTS idx_journal_entries_active ON public.journal_entries(user_id, created_at DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_journal_entries_deleted_at ON public.journal_entries(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Function to rebuild a user's streaks from their active entries
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  latest_date date;
+  current_streak_val integer := 0;
+  best_streak_val integer := 0;
+BEGIN
+  -- Consecutive days share the same (date - row number) group
+  WITH entry_days AS (
+    SELECT DISTINCT created_at::date AS entry_date
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+  ),
+  streak_groups AS (
+    SELECT
+      entry_date,
+      entry_date - (ROW_NUMBER() OVER (ORDER BY entry_date))::integer AS group_key
+    FROM entry_days
+  ),
+  streaks AS (
+    SELECT MAX(entry_date) AS streak_end, COUNT(*)::integer AS streak_length
+    FROM streak_groups
+    GROUP BY group_key
+  )
+  SELECT
+    (SELECT MAX(streak_end) FROM streaks),
+    COALESCE((SELECT streak_length FROM streaks ORDER BY streak_end DESC LIMIT 1), 0),
+    COALESCE((SELECT MAX(streak_length) FROM streaks), 0)
+  INTO latest_date, current_streak_val, best_streak_val;
+
+  UPDATE public.profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = latest_date
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Trigger function to keep streaks and badges in sync when entries are trashed or restored
+CREATE OR REPLACE FUNCTION public.handle_journal_entry_trash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM public.recompute_user_streaks(NEW.user_id);
+  PERFORM public.check_and_award_badges(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_journal_entry_trash_trigger ON public.journal_entries;
+CREATE TRIGGER handle_journal_entry_trash_trigger
+  AFTER UPDATE OF deleted_at ON public.journal_entries
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION public.handle_journal_entry_trash();
+
+-- Update check_and_award_badges to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.check_and_award_badges(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  badge_record RECORD;
+  user_profile RECORD;
+  entry_count INTEGER;
+  streak_count INTEGER;
+  weekly_days_count INTEGER;
+  subscription_status TEXT;
+  subscription_tier TEXT;
+BEGIN
+  -- Get user profile for reference
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+  
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Get subscription status and tier
+  subscription_status := user_profile.subscription_status;
+  subscription_tier := user_profile.subscription_tier;
+
+  -- Loop through all badges to check criteria
+  FOR badge_record IN SELECT * FROM public.badges LOOP
+    -- Skip if user already has this badge
+    IF EXISTS(SELECT 1 FROM public.user_badges WHERE user_id = target_user_id AND badge_id = badge_record.id) THEN
+      CONTINUE;
+    END IF;
+
+    -- Check badge criteria based on type
+    CASE 
+      -- First entry milestone
+      WHEN badge_record.criteria->>'type' = 'first_entry' THEN
+        IF EXISTS(SELECT 1 FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL LIMIT 1) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Entry count milestones
+      WHEN badge_record.criteria->>'type' = 'entry_count' THEN
+        SELECT COUNT(*) INTO entry_count FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL;
+        IF entry_count >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Streak milestones
+      WHEN badge_record.criteria->>'type' = 'streak' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Weekly goal achievement
+      WHEN badge_record.criteria->>'type' = 'weekly_goal' THEN
+        -- Count unique days journaled this week
+        WITH week_entries AS (
+          SELECT DISTINCT DATE(created_at) as entry_date
+          FROM public.journal_entries 
+          WHERE user_id = target_user_id 
+          AND deleted_at IS NULL
+          AND created_at >= DATE_TRUNC('week', CURRENT_DATE)
+          AND created_at < DATE_TRUNC('week', CURRENT_DATE) + INTERVAL '1 week'
+        )
+        SELECT COUNT(*) INTO weekly_days_count FROM week_entries;
+        
+        -- Award badge if weekly goal is met
+        IF weekly_days_count >= user_profile.journaling_goal_frequency THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Long entry achievement
+      WHEN badge_record.criteria->>'type' = 'long_entry' THEN
+        IF EXISTS(
+          SELECT 1 FROM public.journal_entries 
+          WHERE user_id = target_user_id 
+          AND deleted_at IS NULL
+          AND LENGTH(content) >= (badge_record.criteria->>'min_length')::integer
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Mood diversity achievement
+      WHEN badge_record.criteria->>'type' = 'mood_diversity' THEN
+        IF (
+          SELECT COUNT(DISTINCT mood) 
+          FROM public.journal_entries 
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+        ) >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Subscription badges
+      WHEN badge_record.criteria->>'type' = 'subscription' THEN
+        IF subscription_status = 'premium' AND (
+          (badge_record.criteria->>'tier')::text = subscription_tier OR
+          (badge_record.criteria->>'tier')::text = 'premium' AND subscription_tier IN ('premium', 'premium_plus')
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      ELSE
+        -- Skip other complex criteria for now
+        CONTINUE;
+    END CASE;
+  END LOOP;
+
+  -- Update total badges count
+  UPDATE public.profiles 
+  SET total_badges_earned = (
+    SELECT COUNT(*) FROM public.user_badges WHERE user_id = target_user_id
+  )
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Update get_user_badge_progress to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.get_user_badge_progress(target_user_id uuid)
+RETURNS TABLE (
+  badge_id uuid,
+  badge_name text,
+  badge_description text,
+  badge_icon text,
+  badge_category text,
+  badge_rarity text,
+  earned boolean,
+  earned_at timestamptz,
+  progress_current integer,
+  progress_target integer,
+  progress_percentage integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_profile RECORD;
+  current_streak INTEGER;
+  total_entries INTEGER;
+  unique_mood_count INTEGER;
+BEGIN
+  -- Get user profile and stats
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+  
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO total_entries
+  FROM public.journal_entries
+  WHERE user_id = target_user_id AND deleted_at IS NULL;
+  current_streak := user_profile.current_streak;
+  
+  SELECT COUNT(DISTINCT mood) INTO unique_mood_count 
+  FROM public.journal_entries 
+  WHERE user_id = target_user_id AND deleted_at IS NULL;
+
+  -- Return badge progress for all badges
+  RETURN QUERY
+  SELECT 
+    b.id,
+    b.name,
+    b.description,
+    b.icon,
+    b.category,
+    b.rarity,
+    (ub.badge_id IS NOT NULL) as earned,
+    ub.earned_at,
+    CASE 
+      WHEN b.criteria->>'type' = 'streak' THEN current_streak
+      WHEN b.criteria->>'type' = 'total_entries' THEN total_entries
+      WHEN b.criteria->>'type' = 'mood_variety' THEN unique_mood_count
+      ELSE 0
+    END as progress_current,
+    CASE 
+      WHEN b.criteria->>'type' = 'streak' THEN (b.criteria->>'days')::integer
+      WHEN b.criteria->>'type' = 'total_entries' THEN (b.criteria->>'count')::integer
+      WHEN b.criteria->>'type' = 'mood_variety' THEN 5
+      ELSE 1
+    END as progress_target,
+    CASE 
+      WHEN b.criteria->>'type' = 'streak' THEN 
+        LEAST(100, (current_streak * 100 / (b.criteria->>'days')::integer))
+      WHEN b.criteria->>'type' = 'total_entries' THEN 
+        LEAST(100, (total_entries * 100 / (b.criteria->>'count')::integer))
+      WHEN b.criteria->>'type' = 'mood_variety' THEN 
+        LEAST(100, (unique_mood_count * 100 / 5))
+      ELSE 
+        CASE WHEN ub.badge_id IS NOT NULL THEN 100 ELSE 0 END
+    END as progress_percentage
+  FROM public.badges b
+  LEFT JOIN public.user_badges ub ON b.id = ub.badge_id AND ub.user_id = target_user_id
+  ORDER BY 
+    CASE b.rarity 
+      WHEN 'common' THEN 1 
+      WHEN 'rare' THEN 2 
+      WHEN 'epic' THEN 3 
+      WHEN 'legendary' THEN 4 
+    END,
+    b.created_at;
+END;
+$$;
+
+-- Update get_user_mood_stats to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.get_user_mood_stats(user_uuid uuid)
+RETURNS TABLE (
+  mood_level text,
+  entry_count bigint,
+  percentage numeric
+) 
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH mood_counts AS (
+    SELECT 
+      je.mood,
+      COUNT(*) as count
+    FROM public.journal_entries je
+    WHERE je.user_id = user_uuid
+      AND je.deleted_at IS NULL
+    GROUP BY je.mood
+  ),
+  total_count AS (
+    SELECT SUM(count) as total FROM mood_counts
+  )
+  SELECT 
+    mc.mood,
+    mc.count,
+    ROUND((mc.count::numeric / tc.total::numeric) * 100, 1) as percentage
+  FROM mood_counts mc
+  CROSS JOIN total_count tc
+  ORDER BY 
+    CASE mc.mood
+      WHEN 'struggling' THEN 1
+      WHEN 'low' THEN 2
+      WHEN 'neutral' THEN 3
+      WHEN 'good' THEN 4
+      WHEN 'amazing' THEN 5
+    END;
+END;
+$$;
+
+-- Update get_mood_trends to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.get_mood_trends(user_uuid uuid, days_back integer DEFAULT 30)
+RETURNS TABLE (
+  date_created date,
+  mood_level text,
+  entry_count bigint,
+  avg_mood_numeric numeric
+) 
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    je.created_at::date as date_created,
+    je.mood as mood_level,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM public.journal_entries je
+  WHERE je.user_id = user_uuid
+    AND je.deleted_at IS NULL
+    AND je.created_at >= CURRENT_DATE - make_interval(days => days_back)
+  GROUP BY je.created_at::date, je.mood
+  ORDER BY je.created_at::date DESC;
+END;
+$$;
+
+-- Update get_user_tags to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.get_user_tags(target_user_id uuid)
+RETURNS TABLE (
+  tag text,
+  usage_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT t.tag, COUNT(*) AS usage_count
+  FROM public.journal_entries je
+  CROSS JOIN LATERAL unnest(je.tags) AS t(tag)
+  WHERE je.user_id = target_user_id
+    AND je.deleted_at IS NULL
+  GROUP BY t.tag
+  ORDER BY usage_count DESC, t.tag ASC;
+$$;
+
+-- Update search_journal_entries to ignore trashed entries
+CREATE OR REPLACE FUNCTION public.search_journal_entries(
+  target_user_id uuid,
+  search_query text,
+  mood_filter text DEFAULT NULL,
+  start_date timestamptz DEFAULT NULL,
+  end_date timestamptz DEFAULT NULL,
+  tag_filter text[] DEFAULT NULL,
+  page_size integer DEFAULT 20,
+  page_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  mood text,
+  tags text[],
+  photo_url text,
+  photo_filename text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  content_snippet text,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  parsed_query tsquery;
+  headline_options text := 'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+    ', MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  parsed_query := websearch_to_tsquery('english', COALESCE(search_query, ''));
+
+  -- An empty or stop-word-only query matches nothing
+  IF numnode(parsed_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      je.*,
+      ts_rank_cd(je.search_vector, parsed_query, 32) AS match_rank
+    FROM public.journal_entries je
+    WHERE je.user_id = target_user_id
+      AND je.search_vector @@ parsed_query
+      AND je.deleted_at IS NULL
+      AND (mood_filter IS NULL OR je.mood = mood_filter)
+      AND (start_date IS NULL OR je.created_at >= start_date)
+      AND (end_date IS NULL OR je.created_at < end_date)
+      AND (tag_filter IS NULL OR je.tags @> tag_filter)
+  ),
+  ranked_page AS (
+    SELECT m.*, COUNT(*) OVER () AS match_total
+    FROM matches m
+    ORDER BY m.match_rank DESC, m.created_at DESC, m.id DESC
+    LIMIT LEAST(GREATEST(page_size, 1), 100)
+    OFFSET GREATEST(page_offset, 0)
+  )
+  SELECT
+    rp.id,
+    rp.title,
+    rp.content,
+    rp.mood,
+    rp.tags,
+    rp.photo_url,
+    rp.photo_filename,
+    rp.created_at,
+    rp.updated_at,
+    rp.match_rank,
+    CASE WHEN rp.title IS NOT NULL
+      THEN ts_headline('english', rp.title, parsed_query, 'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true')
+    END,
+    ts_headline('english', rp.content, parsed_query, headline_options),
+    rp.match_total
+  FROM ranked_page rp
+  ORDER BY rp.match_rank DESC, rp.created_at DESC, rp.id DESC;
+END;
+$$;
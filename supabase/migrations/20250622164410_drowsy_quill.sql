@@ -0,0 +1,64 @@
+/*
+  # Journal drafts synced across devices
+
+  1. New Tables
+    - `journal_drafts`
+      - `id` (uuid, primary key, generated on the client so local and synced copies share it)
+      - `user_id` (uuid, references profiles.user_id)
+      - `name` (text, label shown in the drafts list)
+      - `title`, `content`, `mood`, `tags` (the unsaved composer state)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Notes
+    - Drafts are only written here when the user turns on draft sync; photos stay on the device
+    - `mood` may be NULL because a draft can be saved before a mood is chosen
+
+  3. Security
+    - Enable RLS on `journal_drafts`
+    - Users can only read and write their own drafts
+*/
+
+-- Create journal_drafts table
+CREATE TABLE IF NOT EXISTS public.journal_drafts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT 'Untitled draft',
+  title text,
+  content text NOT NULL DEFAULT '',
+  mood text CHECK (mood IS NULL OR mood IN ('struggling', 'low', 'neutral', 'good', 'amazing')),
+  tags text[] DEFAULT '{}'::text[] NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.journal_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for journal_drafts table
+CREATE POLICY "Users can view own drafts"
+  ON public.journal_drafts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own drafts"
+  ON public.journal_drafts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own drafts"
+  ON public.journal_drafts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own drafts"
+  ON public.journal_drafts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_journal_drafts_user_id ON public.journal_drafts(user_id, updated_at DESC);
@@ -0,0 +1,118 @@
+/*
+  # Multiple photos per journal entry
+
+  1. New Tables
+    - `entry_attachments`
+      - `id` (uuid, primary key)
+      - `entry_id` (uuid, references journal_entries.id)
+      - `user_id` (uuid, references profiles.user_id)
+      - `storage_path` (text, object path inside the `journal-photos` bucket)
+      - `file_url` (text, URL used to display the photo)
+      - `file_name` (text, original file name)
+      - `caption` (text, optional)
+      - `position` (integer, display order within the entry)
+      - `created_at` (timestamp)
+
+  2. Limits
+    - `enforce_entry_attachment_limit` trigger caps each entry at 10 photos
+
+  3. Data Migration
+    - Existing `photo_url` / `photo_filename` values are copied into `entry_attachments`
+    - The old columns are kept for older clients and revision history but are no longer written
+
+  4. Security
+    - Enable RLS on `entry_attachments`
+    - Users can only manage attachments on their own entries
+*/
+
+-- Create entry_attachments table
+CREATE TABLE IF NOT EXISTS public.entry_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  storage_path text NOT NULL,
+  file_url text NOT NULL,
+  file_name text,
+  caption text CHECK (caption IS NULL OR char_length(caption) <= 500),
+  position integer NOT NULL DEFAULT 0 CHECK (position >= 0),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.entry_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for entry_attachments table
+CREATE POLICY "Users can view own attachments"
+  ON public.entry_attachments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own attachments"
+  ON public.entry_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.journal_entries
+      WHERE journal_entries.id = entry_id AND journal_entries.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own attachments"
+  ON public.entry_attachments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own attachments"
+  ON public.entry_attachments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_entry_attachments_entry_id ON public.entry_attachments(entry_id, position);
+CREATE INDEX IF NOT EXISTS idx_entry_attachments_user_id ON public.entry_attachments(user_id);
+
+-- Cap the number of photos on a single entry
+CREATE OR REPLACE FUNCTION public.enforce_entry_attachment_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.entry_attachments WHERE entry_id = NEW.entry_id
+  ) >= 10 THEN
+    RAISE EXCEPTION 'An entry can have at most 10 photos';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_entry_attachment_limit ON public.entry_attachments;
+CREATE TRIGGER enforce_entry_attachment_limit
+  BEFORE INSERT ON public.entry_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_entry_attachment_limit();
+
+-- Copy existing single photos into the new table
+INSERT INTO public.entry_attachments (entry_id, user_id, storage_path, file_url, file_name, position, created_at)
+SELECT
+  je.id,
+  je.user_id,
+  je.user_id::text || '/' || regexp_replace(je.photo_url, '^.*/', ''),
+  je.photo_url,
+  je.photo_filename,
+  0,
+  je.created_at
+FROM public.journal_entries je
+WHERE je.photo_url IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.entry_attachments ea WHERE ea.entry_id = je.id
+  );
@@ -0,0 +1,18 @@
+/*
+  # Thumbnails and dimensions for entry photos
+
+  1. Schema Changes
+    - Add `thumbnail_path` and `thumbnail_url` to `entry_attachments` for the small variant
+      stored next to the original (`{user_id}/{name}_thumb.{ext}`)
+    - Add `width` and `height` of the processed full-size image
+
+  2. Notes
+    - Photos are resized, re-encoded and stripped of EXIF metadata in the browser before upload
+    - Existing photos have no thumbnail; clients fall back to the full image when it is NULL
+*/
+
+ALTER TABLE public.entry_attachments
+ADD COLUMN IF NOT EXISTS thumbnail_path text,
+ADD COLUMN IF NOT EXISTS thumbnail_url text,
+ADD COLUMN IF NOT EXISTS width integer CHECK (width IS NULL OR width > 0),
+ADD COLUMN IF NOT EXISTS height integer CHECK (height IS NULL OR height > 0);
@@ -0,0 +1,145 @@
+/*
+  # Private journal photos
+
+  1. Storage
+    - Make the `journal-photos` bucket private, so photos can only be read through short-lived signed URLs
+    - Create the owner-only storage policies that were previously a manual dashboard step
+
+  2. Schema Changes
+    - Drop `file_url` and `thumbnail_url` from `entry_attachments`; `storage_path` and `thumbnail_path`
+      are the only references kept, and clients sign them on demand
+
+  3. Data Migration
+    - Rewrite the legacy `photo_url` values on `journal_entries` and `journal_entry_revisions` from
+      public URLs to storage paths (`{user_id}/{file}`)
+    - The timestamp, validation and revision triggers are paused during the rewrite so entries
+      don't look edited
+
+  4. Validation
+    - validate_journal_entry now expects `photo_url` to be a storage path inside the owner's folder
+*/
+
+-- Make sure the bucket exists and is private
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('journal-photos', 'journal-photos', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Storage policies: users can only touch objects under their own `{user_id}/` folder
+DROP POLICY IF EXISTS "Users can upload own photos" ON storage.objects;
+CREATE POLICY "Users can upload own photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'journal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can view own photos" ON storage.objects;
+CREATE POLICY "Users can view own photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'journal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can delete own photos" ON storage.objects;
+CREATE POLICY "Users can delete own photos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'journal-photos' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Attachments already store their paths; the public URLs are no longer needed
+ALTER TABLE public.entry_attachments
+DROP COLUMN IF EXISTS file_url,
+DROP COLUMN IF EXISTS thumbnail_url;
+
+-- Turn a stored photo URL into a path inside the bucket. Values that are already paths are kept.
+CREATE OR REPLACE FUNCTION public.journal_photo_path(photo_url text, owner_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN photo_url IS NULL OR photo_url = '' THEN NULL
+    WHEN photo_url !~ '^https?://' THEN photo_url
+    WHEN photo_url ~ '/storage/v1/object/(public|sign)/journal-photos/'
+      THEN split_part(regexp_replace(photo_url, '^.*/storage/v1/object/(public|sign)/journal-photos/', ''), '?', 1)
+    ELSE owner_id::text || '/' || split_part(regexp_replace(photo_url, '^.*/', ''), '?', 1)
+  END;
+$$;
+
+-- Update the validation function to expect storage paths
+CREATE OR REPLACE FUNCTION public.validate_journal_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Trim whitespace and validate content
+  NEW.content = trim(NEW.content);
+
+  IF NEW.content = '' THEN
+    RAISE EXCEPTION 'Journal entry content cannot be empty';
+  END IF;
+
+  -- Trim title if provided
+  IF NEW.title IS NOT NULL THEN
+    NEW.title = trim(NEW.title);
+
+    -- If title is empty after trimming, set to NULL
+    IF NEW.title = '' THEN
+      NEW.title = NULL;
+    END IF;
+  END IF;
+
+  -- Validate mood
+  IF NEW.mood NOT IN ('struggling', 'low', 'neutral', 'good', 'amazing') THEN
+    RAISE EXCEPTION 'Invalid mood value: %', NEW.mood;
+  END IF;
+
+  -- Photos are referenced by their path in the journal-photos bucket, inside the owner's folder
+  IF NEW.photo_url IS NOT NULL AND NEW.photo_url != '' THEN
+    IF NEW.photo_url NOT LIKE NEW.user_id::text || '/%' OR NEW.photo_url LIKE '%..%' THEN
+      RAISE EXCEPTION 'Invalid photo path';
+    END IF;
+  END IF;
+
+  -- Normalize tags: trim, lowercase, drop blanks and duplicates (keeping first occurrence order)
+  NEW.tags = COALESCE((
+    SELECT ARRAY_AGG(tag ORDER BY first_position)
+    FROM (
+      SELECT lower(trim(raw_tag)) AS tag, MIN(position) AS first_position
+      FROM unnest(COALESCE(NEW.tags, '{}'::text[])) WITH ORDINALITY AS t(raw_tag, position)
+      WHERE trim(raw_tag) != ''
+      GROUP BY lower(trim(raw_tag))
+    ) normalized
+  ), '{}'::text[]);
+
+  IF array_length(NEW.tags, 1) > 10 THEN
+    RAISE EXCEPTION 'A journal entry can have at most 10 tags';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(NEW.tags) AS tag WHERE length(tag) > 32) THEN
+    RAISE EXCEPTION 'Tags must be 32 characters or fewer';
+  END IF;
+
+  -- Set updated_at timestamp
+  NEW.updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Rewrite existing photo URLs without touching updated_at or recording revisions
+ALTER TABLE public.journal_entries DISABLE TRIGGER handle_journal_entries_updated_at;
+ALTER TABLE public.journal_entries DISABLE TRIGGER validate_journal_entry_trigger;
+ALTER TABLE public.journal_entries DISABLE TRIGGER record_journal_entry_revision_trigger;
+
+UPDATE public.journal_entries
+SET photo_url = public.journal_photo_path(photo_url, user_id)
+WHERE photo_url ~ '^https?://';
+
+ALTER TABLE public.journal_entries ENABLE TRIGGER handle_journal_entries_updated_at;
+ALTER TABLE public.journal_entries ENABLE TRIGGER validate_journal_entry_trigger;
+ALTER TABLE public.journal_entries ENABLE TRIGGER record_journal_entry_revision_trigger;
+
+UPDATE public.journal_entry_revisions
+SET photo_url = public.journal_photo_path(photo_url, user_id)
+WHERE photo_url ~ '^https?://';
@@ -0,0 +1,204 @@
+/*
+  # Opt-in end-to-end encryption for journal entries
+
+  1. New Tables
+    - `user_encryption_keys`
+      - `user_id` (uuid, primary key, references profiles.user_id)
+      - `kdf_salt` (text, PBKDF2 salt for the passphrase)
+      - `kdf_iterations` (integer, PBKDF2 iteration count)
+      - `wrapped_key` (text, the user's data key encrypted with the passphrase-derived key)
+      - `recovery_salt` (text, salt for the recovery key)
+      - `recovery_wrapped_key` (text, the same data key encrypted with the recovery key)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Schema Changes
+    - Add `is_encrypted`, `encrypted_content` and `encrypted_title` to `journal_entries`
+      and `journal_entry_revisions`
+    - Encrypted entries keep `content` empty and `title` NULL, so they never reach search,
+      exports or AI features as plaintext
+
+  3. Functions
+    - validate_journal_entry clears the plaintext columns of encrypted entries
+    - record_journal_entry_revision also snapshots the encrypted columns
+
+  4. Security
+    - Enable RLS on `user_encryption_keys`; users can only manage their own key record
+    - Keys are wrapped in the browser; the server never sees a passphrase or an unwrapped key
+*/
+
+-- Create user_encryption_keys table
+CREATE TABLE IF NOT EXISTS public.user_encryption_keys (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  kdf_salt text NOT NULL,
+  kdf_iterations integer NOT NULL CHECK (kdf_iterations >= 100000),
+  wrapped_key text NOT NULL,
+  recovery_salt text NOT NULL,
+  recovery_wrapped_key text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user_encryption_keys table
+CREATE POLICY "Users can view own encryption key"
+  ON public.user_encryption_keys
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own encryption key"
+  ON public.user_encryption_keys
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own encryption key"
+  ON public.user_encryption_keys
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER handle_user_encryption_keys_updated_at
+  BEFORE UPDATE ON public.user_encryption_keys
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Encrypted columns on entries and their revisions
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS is_encrypted boolean DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS encrypted_content text,
+ADD COLUMN IF NOT EXISTS encrypted_title text;
+
+ALTER TABLE public.journal_entries
+ADD CONSTRAINT journal_entries_encrypted_content_check
+CHECK (NOT is_encrypted OR encrypted_content IS NOT NULL);
+
+ALTER TABLE public.journal_entry_revisions
+ADD COLUMN IF NOT EXISTS is_encrypted boolean DEFAULT false NOT NULL,
+ADD COLUMN IF NOT EXISTS encrypted_content text,
+ADD COLUMN IF NOT EXISTS encrypted_title text;
+
+-- Update the validation function so encrypted entries never keep plaintext
+CREATE OR REPLACE FUNCTION public.validate_journal_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_encrypted THEN
+    -- Only the ciphertext is stored; the plaintext columns are cleared
+    NEW.content = '';
+    NEW.title = NULL;
+
+    IF NEW.encrypted_content IS NULL OR NEW.encrypted_content = '' THEN
+      RAISE EXCEPTION 'Encrypted journal entries must include encrypted content';
+    END IF;
+  ELSE
+    NEW.encrypted_content = NULL;
+    NEW.encrypted_title = NULL;
+
+    -- Trim whitespace and validate content
+    NEW.content = trim(NEW.content);
+
+    IF NEW.content = '' THEN
+      RAISE EXCEPTION 'Journal entry content cannot be empty';
+    END IF;
+
+    -- Trim title if provided
+    IF NEW.title IS NOT NULL THEN
+      NEW.title = trim(NEW.title);
+
+      -- If title is empty after trimming, set to NULL
+      IF NEW.title = '' THEN
+        NEW.title = NULL;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Validate mood
+  IF NEW.mood NOT IN ('struggling', 'low', 'neutral', 'good', 'amazing') THEN
+    RAISE EXCEPTION 'Invalid mood value: %', NEW.mood;
+  END IF;
+
+  -- Photos are referenced by their path in the journal-photos bucket, inside the owner's folder
+  IF NEW.photo_url IS NOT NULL AND NEW.photo_url != '' THEN
+    IF NEW.photo_url NOT LIKE NEW.user_id::text || '/%' OR NEW.photo_url LIKE '%..%' THEN
+      RAISE EXCEPTION 'Invalid photo path';
+    END IF;
+  END IF;
+
+  -- Normalize tags: trim, lowercase, drop blanks and duplicates (keeping first occurrence order)
+  NEW.tags = COALESCE((
+    SELECT ARRAY_AGG(tag ORDER BY first_position)
+    FROM (
+      SELECT lower(trim(raw_tag)) AS tag, MIN(position) AS first_position
+      FROM unnest(COALESCE(NEW.tags, '{}'::text[])) WITH ORDINALITY AS t(raw_tag, position)
+      WHERE trim(raw_tag) != ''
+      GROUP BY lower(trim(raw_tag))
+    ) normalized
+  ), '{}'::text[]);
+
+  IF array_length(NEW.tags, 1) > 10 THEN
+    RAISE EXCEPTION 'A journal entry can have at most 10 tags';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(NEW.tags) AS tag WHERE length(tag) > 32) THEN
+    RAISE EXCEPTION 'Tags must be 32 characters or fewer';
+  END IF;
+
+  -- Set updated_at timestamp
+  NEW.updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Snapshot the encrypted columns along with the rest of the entry
+CREATE OR REPLACE FUNCTION public.record_journal_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Only record edits that change what the user wrote
+  IF OLD.content IS DISTINCT FROM NEW.content
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.encrypted_content IS DISTINCT FROM NEW.encrypted_content
+    OR OLD.encrypted_title IS DISTINCT FROM NEW.encrypted_title
+    OR OLD.mood IS DISTINCT FROM NEW.mood
+    OR OLD.tags IS DISTINCT FROM NEW.tags
+    OR OLD.photo_url IS DISTINCT FROM NEW.photo_url THEN
+
+    INSERT INTO public.journal_entry_revisions (
+      entry_id,
+      user_id,
+      title,
+      content,
+      is_encrypted,
+      encrypted_content,
+      encrypted_title,
+      mood,
+      tags,
+      photo_url,
+      photo_filename,
+      revised_at
+    ) VALUES (
+      OLD.id,
+      OLD.user_id,
+      OLD.title,
+      OLD.content,
+      OLD.is_encrypted,
+      OLD.encrypted_content,
+      OLD.encrypted_title,
+      OLD.mood,
+      COALESCE(OLD.tags, '{}'::text[]),
+      OLD.photo_url,
+      OLD.photo_filename,
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,91 @@
+/*
+  # Accept journal entries written offline
+
+  1. Triggers
+    - Entries written offline are inserted later with the time they were written. A new
+      `clamp_journal_entry_created_at` trigger keeps that time from being in the future,
+      so a device with a wrong clock can't move streaks ahead.
+
+  2. Functions
+    - update_streak_on_entry assumed every new entry was the latest one. An entry older than
+      `last_entry_date` now recomputes the streaks from all entries instead of resetting them.
+*/
+
+-- Entries may be inserted with the time they were written offline, but never with a future time
+CREATE OR REPLACE FUNCTION public.clamp_journal_entry_created_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.created_at IS NULL OR NEW.created_at > now() THEN
+    NEW.created_at = now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clamp_journal_entry_created_at_trigger ON public.journal_entries;
+CREATE TRIGGER clamp_journal_entry_created_at_trigger
+  BEFORE INSERT ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.clamp_journal_entry_created_at();
+
+-- Entries synced after newer ones rebuild the streaks rather than breaking them
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  current_streak_val integer;
+  best_streak_val integer;
+BEGIN
+  -- Get the date of the new entry
+  entry_date := NEW.created_at::date;
+  
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, best_streak
+  INTO last_date, current_streak_val, best_streak_val
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- An entry written offline can arrive after later ones; rebuild from every entry
+  IF last_date IS NOT NULL AND entry_date < last_date THEN
+    PERFORM public.recompute_user_streaks(NEW.user_id);
+    PERFORM public.check_and_award_badges(NEW.user_id);
+    RETURN NEW;
+  END IF;
+  
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date = last_date THEN
+    -- Same day, no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + INTERVAL '1 day' THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    -- Gap in entries, reset streak
+    current_streak_val := 1;
+  END IF;
+  
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+  
+  -- Update profile
+  UPDATE profiles
+  SET 
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date
+  WHERE user_id = NEW.user_id;
+  
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
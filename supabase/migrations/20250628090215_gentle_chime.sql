@@ -0,0 +1,163 @@
+/*
+  # Journaling reminders and Web Push subscriptions
+
+  1. New Tables
+    - `reminder_schedules`
+      - `user_id` (uuid, primary key, references profiles.user_id)
+      - `is_enabled` (boolean, reminders are sent only while this is on)
+      - `days_of_week` (smallint[], 0 = Sunday ... 6 = Saturday)
+      - `reminder_time` (time, local time of day in `timezone`)
+      - `timezone` (text, IANA time zone name such as 'Europe/Berlin')
+      - `quiet_hours_start`, `quiet_hours_end` (time, optional local window with no notifications, may wrap past midnight)
+      - `last_sent_on` (date, local date of the last reminder so a day is never reminded twice)
+      - `created_at`, `updated_at` (timestamps)
+    - `push_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.user_id)
+      - `endpoint` (text, unique push service URL of one browser)
+      - `p256dh`, `auth` (text, the subscription's encryption keys)
+      - `user_agent` (text, shown so users can tell their devices apart)
+      - `created_at`, `last_used_at` (timestamps)
+
+  2. New Functions
+    - `register_push_subscription` stores the current browser's subscription for the signed-in user,
+      taking it over from whoever used the browser before
+
+  3. Notes
+    - Reminders are sent by the `send-journal-reminders` edge function, which runs every few minutes
+    - A reminder that falls into quiet hours is held until they end (on the same local day)
+
+  4. Security
+    - Enable RLS on both tables
+    - Users can only read and change their own schedule and subscriptions
+*/
+
+-- Create reminder_schedules table
+CREATE TABLE IF NOT EXISTS public.reminder_schedules (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  is_enabled boolean DEFAULT false NOT NULL,
+  days_of_week smallint[] DEFAULT '{0,1,2,3,4,5,6}'::smallint[] NOT NULL
+    CHECK (days_of_week <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  reminder_time time DEFAULT '20:00' NOT NULL,
+  timezone text DEFAULT 'UTC' NOT NULL,
+  quiet_hours_start time,
+  quiet_hours_end time,
+  last_sent_on date,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT reminder_quiet_hours_pair CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+-- Create push_subscriptions table
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  last_used_at timestamptz
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.reminder_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for reminder_schedules table
+CREATE POLICY "Users can view own reminder schedule"
+  ON public.reminder_schedules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reminder schedule"
+  ON public.reminder_schedules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reminder schedule"
+  ON public.reminder_schedules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create policies for push_subscriptions table (new subscriptions go through register_push_subscription)
+CREATE POLICY "Users can view own push subscriptions"
+  ON public.push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON public.push_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Reject time zone names the database can't convert with, so the reminder job never has to guess
+CREATE OR REPLACE FUNCTION public.validate_reminder_schedule()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_reminder_schedule ON public.reminder_schedules;
+CREATE TRIGGER validate_reminder_schedule
+  BEFORE INSERT OR UPDATE OF timezone ON public.reminder_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.validate_reminder_schedule();
+
+DROP TRIGGER IF EXISTS handle_reminder_schedules_updated_at ON public.reminder_schedules;
+CREATE TRIGGER handle_reminder_schedules_updated_at
+  BEFORE UPDATE ON public.reminder_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- A browser has a single push endpoint; whoever signs in on it last receives its notifications
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subscription_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent,
+        created_at = CASE
+          WHEN push_subscriptions.user_id = EXCLUDED.user_id THEN push_subscriptions.created_at
+          ELSE now()
+        END
+  RETURNING id INTO subscription_id;
+
+  RETURN subscription_id;
+END;
+$$;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_reminder_schedules_enabled ON public.reminder_schedules(user_id) WHERE is_enabled;
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(text, text, text, text) TO authenticated;
@@ -0,0 +1,336 @@
+/*
+  # Count journaling days in each user's own time zone
+
+  1. Schema Changes
+    - Add `timezone` column to `profiles` (IANA name such as 'America/Chicago'). It is NULL until
+      the app captures it at signup or on the next visit; NULL is treated as UTC.
+
+  2. Functions
+    - `is_valid_timezone` and `user_timezone` helpers
+    - handle_new_user stores the time zone sent with the signup
+    - update_streak_on_entry and recompute_user_streaks take the entry's local date instead of
+      `created_at::date` in the database time zone, so `last_entry_date` is the user's local date
+    - check_and_award_badges counts the weekly goal over the user's local week
+    - validate_reminder_schedule uses the shared `is_valid_timezone` check
+
+  3. Triggers
+    - Changing the time zone rebuilds the user's streaks and re-checks badges
+*/
+
+-- Add timezone column to profiles table
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone text;
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(tz text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT tz IS NOT NULL AND EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+$$;
+
+-- The zone a user's journaling days are counted in
+CREATE OR REPLACE FUNCTION public.user_timezone(target_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT timezone FROM profiles WHERE user_id = target_user_id), 'UTC');
+$$;
+
+-- Reject time zone names the database can't convert with
+CREATE OR REPLACE FUNCTION public.validate_profile_timezone()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL AND NOT public.is_valid_timezone(NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_profile_timezone ON public.profiles;
+CREATE TRIGGER validate_profile_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_profile_timezone();
+
+CREATE OR REPLACE FUNCTION public.validate_reminder_schedule()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT public.is_valid_timezone(NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Store the time zone the browser reported at signup; an unknown one must not block the signup
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, name, timezone)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data->>'name', split_part(new.email, '@', 1)),
+    CASE
+      WHEN public.is_valid_timezone(new.raw_user_meta_data->>'timezone') THEN new.raw_user_meta_data->>'timezone'
+    END
+  );
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to rebuild a user's streaks from their active entries, by local date
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_tz text := public.user_timezone(target_user_id);
+  latest_date date;
+  current_streak_val integer := 0;
+  best_streak_val integer := 0;
+BEGIN
+  -- Consecutive days share the same (date - row number) group
+  WITH entry_days AS (
+    SELECT DISTINCT (created_at AT TIME ZONE user_tz)::date AS entry_date
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+  ),
+  streak_groups AS (
+    SELECT
+      entry_date,
+      entry_date - (ROW_NUMBER() OVER (ORDER BY entry_date))::integer AS group_key
+    FROM entry_days
+  ),
+  streaks AS (
+    SELECT MAX(entry_date) AS streak_end, COUNT(*)::integer AS streak_length
+    FROM streak_groups
+    GROUP BY group_key
+  )
+  SELECT
+    (SELECT MAX(streak_end) FROM streaks),
+    COALESCE((SELECT streak_length FROM streaks ORDER BY streak_end DESC LIMIT 1), 0),
+    COALESCE((SELECT MAX(streak_length) FROM streaks), 0)
+  INTO latest_date, current_streak_val, best_streak_val;
+
+  UPDATE public.profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = latest_date
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Update the streak with the entry's date in the user's time zone
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  current_streak_val integer;
+  best_streak_val integer;
+BEGIN
+  -- Get the local date of the new entry
+  entry_date := (NEW.created_at AT TIME ZONE public.user_timezone(NEW.user_id))::date;
+
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, best_streak
+  INTO last_date, current_streak_val, best_streak_val
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- An entry written offline can arrive after later ones; rebuild from every entry
+  IF last_date IS NOT NULL AND entry_date < last_date THEN
+    PERFORM public.recompute_user_streaks(NEW.user_id);
+    PERFORM public.check_and_award_badges(NEW.user_id);
+    RETURN NEW;
+  END IF;
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date = last_date THEN
+    -- Same day, no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + INTERVAL '1 day' THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    -- Gap in entries, reset streak
+    current_streak_val := 1;
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Update check_and_award_badges to count the weekly goal in the user's local week
+CREATE OR REPLACE FUNCTION public.check_and_award_badges(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  badge_record RECORD;
+  user_profile RECORD;
+  user_tz text;
+  local_week_start date;
+  entry_count INTEGER;
+  streak_count INTEGER;
+  weekly_days_count INTEGER;
+  subscription_status TEXT;
+  subscription_tier TEXT;
+BEGIN
+  -- Get user profile for reference
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  user_tz := COALESCE(user_profile.timezone, 'UTC');
+  local_week_start := DATE_TRUNC('week', now() AT TIME ZONE user_tz)::date;
+
+  -- Get subscription status and tier
+  subscription_status := user_profile.subscription_status;
+  subscription_tier := user_profile.subscription_tier;
+
+  -- Loop through all badges to check criteria
+  FOR badge_record IN SELECT * FROM public.badges LOOP
+    -- Skip if user already has this badge
+    IF EXISTS(SELECT 1 FROM public.user_badges WHERE user_id = target_user_id AND badge_id = badge_record.id) THEN
+      CONTINUE;
+    END IF;
+
+    -- Check badge criteria based on type
+    CASE
+      -- First entry milestone
+      WHEN badge_record.criteria->>'type' = 'first_entry' THEN
+        IF EXISTS(SELECT 1 FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL LIMIT 1) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Entry count milestones
+      WHEN badge_record.criteria->>'type' = 'entry_count' THEN
+        SELECT COUNT(*) INTO entry_count FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL;
+        IF entry_count >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Streak milestones
+      WHEN badge_record.criteria->>'type' = 'streak' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Weekly goal achievement
+      WHEN badge_record.criteria->>'type' = 'weekly_goal' THEN
+        -- Count unique local days journaled this local week
+        WITH week_entries AS (
+          SELECT DISTINCT (created_at AT TIME ZONE user_tz)::date as entry_date
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+          AND created_at >= local_week_start::timestamp AT TIME ZONE user_tz
+          AND created_at < (local_week_start + 7)::timestamp AT TIME ZONE user_tz
+        )
+        SELECT COUNT(*) INTO weekly_days_count FROM week_entries;
+
+        -- Award badge if weekly goal is met
+        IF weekly_days_count >= user_profile.journaling_goal_frequency THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Long entry achievement
+      WHEN badge_record.criteria->>'type' = 'long_entry' THEN
+        IF EXISTS(
+          SELECT 1 FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+          AND LENGTH(content) >= (badge_record.criteria->>'min_length')::integer
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Mood diversity achievement
+      WHEN badge_record.criteria->>'type' = 'mood_diversity' THEN
+        IF (
+          SELECT COUNT(DISTINCT mood)
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+        ) >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Subscription badges
+      WHEN badge_record.criteria->>'type' = 'subscription' THEN
+        IF subscription_status = 'premium' AND (
+          (badge_record.criteria->>'tier')::text = subscription_tier OR
+          (badge_record.criteria->>'tier')::text = 'premium' AND subscription_tier IN ('premium', 'premium_plus')
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      ELSE
+        -- Skip other complex criteria for now
+        CONTINUE;
+    END CASE;
+  END LOOP;
+
+  -- Update total badges count
+  UPDATE public.profiles
+  SET total_badges_earned = (
+    SELECT COUNT(*) FROM public.user_badges WHERE user_id = target_user_id
+  )
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Trigger function to rebuild streaks when the days they are counted in change
+CREATE OR REPLACE FUNCTION public.handle_profile_timezone_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM public.recompute_user_streaks(NEW.user_id);
+  PERFORM public.check_and_award_badges(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_profile_timezone_change_trigger ON public.profiles;
+CREATE TRIGGER handle_profile_timezone_change_trigger
+  AFTER UPDATE OF timezone ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION public.handle_profile_timezone_change();
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.is_valid_timezone(text) TO authenticated;
@@ -0,0 +1,431 @@
+/*
+  # Streak freezes
+
+  1. Schema Changes
+    - Add `streak_freezes_available` to `profiles` (every account starts with one)
+
+  2. New Tables
+    - `streak_freeze_days`
+      - `user_id` (uuid, references profiles.user_id)
+      - `freeze_date` (date, a missed local day a freeze covered)
+      - `created_at` (timestamp)
+    - `streak_freeze_purchases`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.user_id)
+      - `stripe_session_id` (text, unique, so a replayed webhook can't grant the same pack twice)
+      - `quantity` (integer)
+      - `created_at` (timestamp)
+
+  3. Rules
+    - Every 7th day of a streak earns a freeze: 1 on the free plan (up to 2 held), 2 on premium (up to 5 held)
+    - Purchased packs can raise the inventory to 10
+    - When an entry follows missed days and enough freezes are left, one freeze is used per missed day
+      and the streak continues; frozen days keep the streak alive but don't add to it
+    - A frozen day that later gets an entry (written offline and synced late) returns its freeze
+
+  4. Functions
+    - update_streak_on_entry uses and earns freezes
+    - recompute_user_streaks treats frozen days as part of the streak they bridge
+    - check_and_award_badges awards the new 'Unbroken' badge (a 30-day streak without freezes)
+    - `record_streak_freeze_purchase` is called by the stripe-webhook function only
+
+  5. Security
+    - Enable RLS on the new tables; users can view their own rows
+    - Freezes are only changed by the functions above
+*/
+
+-- Add streak freeze inventory to profiles
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS streak_freezes_available integer DEFAULT 1 NOT NULL
+  CHECK (streak_freezes_available >= 0);
+
+-- Create streak_freeze_days table
+CREATE TABLE IF NOT EXISTS public.streak_freeze_days (
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  freeze_date date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, freeze_date)
+);
+
+-- Create streak_freeze_purchases table
+CREATE TABLE IF NOT EXISTS public.streak_freeze_purchases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  stripe_session_id text NOT NULL UNIQUE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.streak_freeze_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.streak_freeze_purchases ENABLE ROW LEVEL SECURITY;
+
+-- Create policies (rows are written by the streak functions and the Stripe webhook only)
+CREATE POLICY "Users can view own streak freeze days"
+  ON public.streak_freeze_days
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own streak freeze purchases"
+  ON public.streak_freeze_purchases
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Profiles are updatable by their owner, so ignore inventory changes made directly by a signed-in user.
+-- The SECURITY DEFINER streak functions run as the table owner and are not affected.
+CREATE OR REPLACE FUNCTION public.protect_streak_freezes()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.streak_freezes_available := OLD.streak_freezes_available;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_streak_freezes ON public.profiles;
+CREATE TRIGGER protect_streak_freezes
+  BEFORE UPDATE OF streak_freezes_available ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_streak_freezes();
+
+-- Function to rebuild a user's streaks from their active entries and the days freezes covered
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_tz text := public.user_timezone(target_user_id);
+  refunded_count integer;
+  latest_date date;
+  current_streak_val integer := 0;
+  best_streak_val integer := 0;
+BEGIN
+  -- A frozen day that now has an entry (synced late) gives its freeze back
+  WITH refunded AS (
+    DELETE FROM public.streak_freeze_days f
+    WHERE f.user_id = target_user_id
+      AND EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.user_id = target_user_id
+          AND je.deleted_at IS NULL
+          AND (je.created_at AT TIME ZONE user_tz)::date = f.freeze_date
+      )
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer INTO refunded_count FROM refunded;
+
+  IF refunded_count > 0 THEN
+    UPDATE public.profiles
+    SET streak_freezes_available = streak_freezes_available + refunded_count
+    WHERE user_id = target_user_id;
+  END IF;
+
+  -- Consecutive covered days share the same (date - row number) group; only journaled days count
+  WITH entry_days AS (
+    SELECT DISTINCT (created_at AT TIME ZONE user_tz)::date AS covered_date, true AS journaled
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+  ),
+  covered_days AS (
+    SELECT covered_date, journaled FROM entry_days
+    UNION ALL
+    SELECT freeze_date, false FROM public.streak_freeze_days WHERE user_id = target_user_id
+  ),
+  streak_groups AS (
+    SELECT
+      covered_date,
+      journaled,
+      covered_date - (ROW_NUMBER() OVER (ORDER BY covered_date))::integer AS group_key
+    FROM covered_days
+  ),
+  streaks AS (
+    SELECT
+      MAX(covered_date) FILTER (WHERE journaled) AS streak_end,
+      COUNT(*) FILTER (WHERE journaled)::integer AS streak_length
+    FROM streak_groups
+    GROUP BY group_key
+    HAVING COUNT(*) FILTER (WHERE journaled) > 0
+  )
+  SELECT
+    (SELECT MAX(streak_end) FROM streaks),
+    COALESCE((SELECT streak_length FROM streaks ORDER BY streak_end DESC LIMIT 1), 0),
+    COALESCE((SELECT MAX(streak_length) FROM streaks), 0)
+  INTO latest_date, current_streak_val, best_streak_val;
+
+  UPDATE public.profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = latest_date
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Update the streak, using freezes to bridge missed days and earning one every 7th day
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date;
+  last_date date;
+  missed_days integer;
+  current_streak_val integer;
+  best_streak_val integer;
+  freezes_val integer;
+  is_premium boolean;
+BEGIN
+  -- Get the local date of the new entry
+  entry_date := (NEW.created_at AT TIME ZONE public.user_timezone(NEW.user_id))::date;
+
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, best_streak, streak_freezes_available, subscription_status = 'premium'
+  INTO last_date, current_streak_val, best_streak_val, freezes_val, is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- An entry written offline can arrive after later ones; rebuild from every entry
+  IF last_date IS NOT NULL AND entry_date < last_date THEN
+    PERFORM public.recompute_user_streaks(NEW.user_id);
+    PERFORM public.check_and_award_badges(NEW.user_id);
+    RETURN NEW;
+  END IF;
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date = last_date THEN
+    -- Same day, no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + 1 THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    missed_days := entry_date - last_date - 1;
+
+    IF current_streak_val > 0 AND missed_days <= freezes_val THEN
+      -- Enough freezes to cover the gap: use one per missed day and keep the streak going
+      INSERT INTO public.streak_freeze_days (user_id, freeze_date)
+      SELECT NEW.user_id, gs::date
+      FROM generate_series(last_date + 1, entry_date - 1, INTERVAL '1 day') AS gs
+      ON CONFLICT DO NOTHING;
+
+      freezes_val := freezes_val - missed_days;
+      current_streak_val := current_streak_val + 1;
+    ELSE
+      -- Gap in entries, reset streak
+      current_streak_val := 1;
+    END IF;
+  END IF;
+
+  -- Every 7th day of a streak earns freezes, up to the plan's limit
+  IF current_streak_val % 7 = 0 THEN
+    freezes_val := GREATEST(
+      freezes_val,
+      LEAST(freezes_val + CASE WHEN is_premium THEN 2 ELSE 1 END, CASE WHEN is_premium THEN 5 ELSE 2 END)
+    );
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date,
+    streak_freezes_available = freezes_val
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add a purchased pack of freezes once per Stripe checkout session
+CREATE OR REPLACE FUNCTION public.record_streak_freeze_purchase(
+  target_user_id uuid,
+  session_id text,
+  pack_quantity integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted_id uuid;
+BEGIN
+  INSERT INTO streak_freeze_purchases (user_id, stripe_session_id, quantity)
+  VALUES (target_user_id, session_id, pack_quantity)
+  ON CONFLICT (stripe_session_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE profiles
+  SET streak_freezes_available = LEAST(streak_freezes_available + pack_quantity, 10)
+  WHERE user_id = target_user_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Update check_and_award_badges to award the 'Unbroken' badge
+CREATE OR REPLACE FUNCTION public.check_and_award_badges(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  badge_record RECORD;
+  user_profile RECORD;
+  user_tz text;
+  local_week_start date;
+  entry_count INTEGER;
+  streak_count INTEGER;
+  weekly_days_count INTEGER;
+  subscription_status TEXT;
+  subscription_tier TEXT;
+BEGIN
+  -- Get user profile for reference
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  user_tz := COALESCE(user_profile.timezone, 'UTC');
+  local_week_start := DATE_TRUNC('week', now() AT TIME ZONE user_tz)::date;
+
+  -- Get subscription status and tier
+  subscription_status := user_profile.subscription_status;
+  subscription_tier := user_profile.subscription_tier;
+
+  -- Loop through all badges to check criteria
+  FOR badge_record IN SELECT * FROM public.badges LOOP
+    -- Skip if user already has this badge
+    IF EXISTS(SELECT 1 FROM public.user_badges WHERE user_id = target_user_id AND badge_id = badge_record.id) THEN
+      CONTINUE;
+    END IF;
+
+    -- Check badge criteria based on type
+    CASE
+      -- First entry milestone
+      WHEN badge_record.criteria->>'type' = 'first_entry' THEN
+        IF EXISTS(SELECT 1 FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL LIMIT 1) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Entry count milestones
+      WHEN badge_record.criteria->>'type' = 'entry_count' THEN
+        SELECT COUNT(*) INTO entry_count FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL;
+        IF entry_count >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Streak milestones
+      WHEN badge_record.criteria->>'type' = 'streak' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- A long streak with no frozen days in it. Frozen days lie between the streak's first and last
+      -- entry, so any freeze in the streak falls within its last `current_streak` days.
+      WHEN badge_record.criteria->>'type' = 'streak_no_freeze' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'days')::integer
+           AND NOT EXISTS(
+             SELECT 1 FROM public.streak_freeze_days
+             WHERE user_id = target_user_id
+             AND freeze_date > user_profile.last_entry_date - user_profile.current_streak
+             AND freeze_date < user_profile.last_entry_date
+           ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Weekly goal achievement
+      WHEN badge_record.criteria->>'type' = 'weekly_goal' THEN
+        -- Count unique local days journaled this local week
+        WITH week_entries AS (
+          SELECT DISTINCT (created_at AT TIME ZONE user_tz)::date as entry_date
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+          AND created_at >= local_week_start::timestamp AT TIME ZONE user_tz
+          AND created_at < (local_week_start + 7)::timestamp AT TIME ZONE user_tz
+        )
+        SELECT COUNT(*) INTO weekly_days_count FROM week_entries;
+
+        -- Award badge if weekly goal is met
+        IF weekly_days_count >= user_profile.journaling_goal_frequency THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Long entry achievement
+      WHEN badge_record.criteria->>'type' = 'long_entry' THEN
+        IF EXISTS(
+          SELECT 1 FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+          AND LENGTH(content) >= (badge_record.criteria->>'min_length')::integer
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Mood diversity achievement
+      WHEN badge_record.criteria->>'type' = 'mood_diversity' THEN
+        IF (
+          SELECT COUNT(DISTINCT mood)
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+        ) >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Subscription badges
+      WHEN badge_record.criteria->>'type' = 'subscription' THEN
+        IF subscription_status = 'premium' AND (
+          (badge_record.criteria->>'tier')::text = subscription_tier OR
+          (badge_record.criteria->>'tier')::text = 'premium' AND subscription_tier IN ('premium', 'premium_plus')
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      ELSE
+        -- Skip other complex criteria for now
+        CONTINUE;
+    END CASE;
+  END LOOP;
+
+  -- Update total badges count
+  UPDATE public.profiles
+  SET total_badges_earned = (
+    SELECT COUNT(*) FROM public.user_badges WHERE user_id = target_user_id
+  )
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Add the badge for a long streak kept without freezes
+INSERT INTO public.badges (name, description, icon, category, criteria, rarity) VALUES
+('Unbroken', 'Reach a 30-day streak without using a streak freeze', '💎', 'streak', '{"type": "streak_no_freeze", "days": 30}', 'epic')
+ON CONFLICT DO NOTHING;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_streak_freeze_purchases_user_id ON public.streak_freeze_purchases(user_id);
+
+-- Only the Stripe webhook (service role) may record purchases
+REVOKE EXECUTE ON FUNCTION public.record_streak_freeze_purchase(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_streak_freeze_purchase(uuid, text, integer) TO service_role;
@@ -0,0 +1,411 @@
+/*
+  # Backdated entries
+
+  1. Schema Changes
+    - Add `entry_date` to `journal_entries`: the local day the entry is about, which the user can
+      pick when writing or editing it. `created_at` stays the time it was written.
+    - Existing entries get the local date of their `created_at` in the user's time zone
+
+  2. Triggers
+    - `set_journal_entry_date` fills in today's local date when none is given and rejects dates
+      in the future
+    - Changing an entry's date recomputes streaks and re-checks badges
+
+  3. Functions
+    - update_streak_on_entry, recompute_user_streaks, check_and_award_badges and get_mood_trends
+      use `entry_date` instead of the day the entry was written
+    - A backdated entry older than `last_entry_date` rebuilds the streaks from every entry, the
+      same way an entry synced late from offline does
+*/
+
+-- Add entry_date column to journal_entries table
+ALTER TABLE public.journal_entries
+ADD COLUMN IF NOT EXISTS entry_date date;
+
+-- Backfill without the update triggers, which would bump updated_at and make every entry edited offline
+-- look like it conflicts with a change on the server
+ALTER TABLE public.journal_entries DISABLE TRIGGER USER;
+
+UPDATE public.journal_entries
+SET entry_date = (created_at AT TIME ZONE public.user_timezone(user_id))::date
+WHERE entry_date IS NULL;
+
+ALTER TABLE public.journal_entries ENABLE TRIGGER USER;
+
+ALTER TABLE public.journal_entries
+ALTER COLUMN entry_date SET NOT NULL;
+
+-- Add index for listing and grouping entries by date
+CREATE INDEX IF NOT EXISTS idx_journal_entries_entry_date ON public.journal_entries(user_id, entry_date DESC) WHERE deleted_at IS NULL;
+
+-- Default an entry to the local day it was written, and keep dates out of the future
+CREATE OR REPLACE FUNCTION public.set_journal_entry_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  user_tz text := public.user_timezone(NEW.user_id);
+BEGIN
+  IF NEW.entry_date IS NULL THEN
+    NEW.entry_date := (NEW.created_at AT TIME ZONE user_tz)::date;
+  END IF;
+
+  IF NEW.entry_date > (now() AT TIME ZONE user_tz)::date THEN
+    RAISE EXCEPTION 'Entry date cannot be in the future';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after clamp_journal_entry_created_at_trigger (triggers fire in name order), so created_at is final
+DROP TRIGGER IF EXISTS set_journal_entry_date_trigger ON public.journal_entries;
+CREATE TRIGGER set_journal_entry_date_trigger
+  BEFORE INSERT OR UPDATE OF entry_date ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.set_journal_entry_date();
+
+-- Function to rebuild a user's streaks from the dates of their active entries and the days freezes covered
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  refunded_count integer;
+  latest_date date;
+  current_streak_val integer := 0;
+  best_streak_val integer := 0;
+BEGIN
+  -- A frozen day that now has an entry (synced late or backdated) gives its freeze back
+  WITH refunded AS (
+    DELETE FROM public.streak_freeze_days f
+    WHERE f.user_id = target_user_id
+      AND EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.user_id = target_user_id
+          AND je.deleted_at IS NULL
+          AND je.entry_date = f.freeze_date
+      )
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer INTO refunded_count FROM refunded;
+
+  IF refunded_count > 0 THEN
+    UPDATE public.profiles
+    SET streak_freezes_available = streak_freezes_available + refunded_count
+    WHERE user_id = target_user_id;
+  END IF;
+
+  -- Consecutive covered days share the same (date - row number) group; only journaled days count
+  WITH entry_days AS (
+    SELECT DISTINCT entry_date AS covered_date, true AS journaled
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+  ),
+  covered_days AS (
+    SELECT covered_date, journaled FROM entry_days
+    UNION ALL
+    SELECT freeze_date, false FROM public.streak_freeze_days WHERE user_id = target_user_id
+  ),
+  streak_groups AS (
+    SELECT
+      covered_date,
+      journaled,
+      covered_date - (ROW_NUMBER() OVER (ORDER BY covered_date))::integer AS group_key
+    FROM covered_days
+  ),
+  streaks AS (
+    SELECT
+      MAX(covered_date) FILTER (WHERE journaled) AS streak_end,
+      COUNT(*) FILTER (WHERE journaled)::integer AS streak_length
+    FROM streak_groups
+    GROUP BY group_key
+    HAVING COUNT(*) FILTER (WHERE journaled) > 0
+  )
+  SELECT
+    (SELECT MAX(streak_end) FROM streaks),
+    COALESCE((SELECT streak_length FROM streaks ORDER BY streak_end DESC LIMIT 1), 0),
+    COALESCE((SELECT MAX(streak_length) FROM streaks), 0)
+  INTO latest_date, current_streak_val, best_streak_val;
+
+  UPDATE public.profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = latest_date
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Update the streak from the entry's date, using freezes to bridge missed days and earning one every 7th day
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date := NEW.entry_date;
+  last_date date;
+  missed_days integer;
+  current_streak_val integer;
+  best_streak_val integer;
+  freezes_val integer;
+  is_premium boolean;
+BEGIN
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, best_streak, streak_freezes_available, subscription_status = 'premium'
+  INTO last_date, current_streak_val, best_streak_val, freezes_val, is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- A backdated entry, or one written offline that arrives after later ones; rebuild from every entry
+  IF last_date IS NOT NULL AND entry_date < last_date THEN
+    PERFORM public.recompute_user_streaks(NEW.user_id);
+    PERFORM public.check_and_award_badges(NEW.user_id);
+    RETURN NEW;
+  END IF;
+
+  -- Calculate new streak
+  IF last_date IS NULL THEN
+    -- First entry
+    current_streak_val := 1;
+  ELSIF entry_date = last_date THEN
+    -- Same day, no change to streak
+    RETURN NEW;
+  ELSIF entry_date = last_date + 1 THEN
+    -- Consecutive day
+    current_streak_val := current_streak_val + 1;
+  ELSE
+    missed_days := entry_date - last_date - 1;
+
+    IF current_streak_val > 0 AND missed_days <= freezes_val THEN
+      -- Enough freezes to cover the gap: use one per missed day and keep the streak going
+      INSERT INTO public.streak_freeze_days (user_id, freeze_date)
+      SELECT NEW.user_id, gs::date
+      FROM generate_series(last_date + 1, entry_date - 1, INTERVAL '1 day') AS gs
+      ON CONFLICT DO NOTHING;
+
+      freezes_val := freezes_val - missed_days;
+      current_streak_val := current_streak_val + 1;
+    ELSE
+      -- Gap in entries, reset streak
+      current_streak_val := 1;
+    END IF;
+  END IF;
+
+  -- Every 7th day of a streak earns freezes, up to the plan's limit
+  IF current_streak_val % 7 = 0 THEN
+    freezes_val := GREATEST(
+      freezes_val,
+      LEAST(freezes_val + CASE WHEN is_premium THEN 2 ELSE 1 END, CASE WHEN is_premium THEN 5 ELSE 2 END)
+    );
+  END IF;
+
+  -- Update best streak if current is higher
+  IF current_streak_val > best_streak_val THEN
+    best_streak_val := current_streak_val;
+  END IF;
+
+  -- Update profile
+  UPDATE profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = entry_date,
+    streak_freezes_available = freezes_val
+  WHERE user_id = NEW.user_id;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger function to keep streaks and badges in sync when an entry is moved to another day
+CREATE OR REPLACE FUNCTION public.handle_journal_entry_date_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM public.recompute_user_streaks(NEW.user_id);
+  PERFORM public.check_and_award_badges(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_journal_entry_date_change_trigger ON public.journal_entries;
+CREATE TRIGGER handle_journal_entry_date_change_trigger
+  AFTER UPDATE OF entry_date ON public.journal_entries
+  FOR EACH ROW
+  WHEN (OLD.entry_date IS DISTINCT FROM NEW.entry_date AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.handle_journal_entry_date_change();
+
+-- Update check_and_award_badges to count the weekly goal by entry date
+CREATE OR REPLACE FUNCTION public.check_and_award_badges(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  badge_record RECORD;
+  user_profile RECORD;
+  user_tz text;
+  local_week_start date;
+  entry_count INTEGER;
+  streak_count INTEGER;
+  weekly_days_count INTEGER;
+  subscription_status TEXT;
+  subscription_tier TEXT;
+BEGIN
+  -- Get user profile for reference
+  SELECT * INTO user_profile FROM public.profiles WHERE user_id = target_user_id;
+
+  IF user_profile IS NULL THEN
+    RETURN;
+  END IF;
+
+  user_tz := COALESCE(user_profile.timezone, 'UTC');
+  local_week_start := DATE_TRUNC('week', now() AT TIME ZONE user_tz)::date;
+
+  -- Get subscription status and tier
+  subscription_status := user_profile.subscription_status;
+  subscription_tier := user_profile.subscription_tier;
+
+  -- Loop through all badges to check criteria
+  FOR badge_record IN SELECT * FROM public.badges LOOP
+    -- Skip if user already has this badge
+    IF EXISTS(SELECT 1 FROM public.user_badges WHERE user_id = target_user_id AND badge_id = badge_record.id) THEN
+      CONTINUE;
+    END IF;
+
+    -- Check badge criteria based on type
+    CASE
+      -- First entry milestone
+      WHEN badge_record.criteria->>'type' = 'first_entry' THEN
+        IF EXISTS(SELECT 1 FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL LIMIT 1) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Entry count milestones
+      WHEN badge_record.criteria->>'type' = 'entry_count' THEN
+        SELECT COUNT(*) INTO entry_count FROM public.journal_entries WHERE user_id = target_user_id AND deleted_at IS NULL;
+        IF entry_count >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Streak milestones
+      WHEN badge_record.criteria->>'type' = 'streak' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- A long streak with no frozen days in it. Frozen days lie between the streak's first and last
+      -- entry, so any freeze in the streak falls within its last `current_streak` days.
+      WHEN badge_record.criteria->>'type' = 'streak_no_freeze' THEN
+        IF user_profile.current_streak >= (badge_record.criteria->>'days')::integer
+           AND NOT EXISTS(
+             SELECT 1 FROM public.streak_freeze_days
+             WHERE user_id = target_user_id
+             AND freeze_date > user_profile.last_entry_date - user_profile.current_streak
+             AND freeze_date < user_profile.last_entry_date
+           ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Weekly goal achievement
+      WHEN badge_record.criteria->>'type' = 'weekly_goal' THEN
+        -- Count unique days journaled this local week
+        SELECT COUNT(DISTINCT entry_date) INTO weekly_days_count
+        FROM public.journal_entries
+        WHERE user_id = target_user_id
+        AND deleted_at IS NULL
+        AND entry_date >= local_week_start
+        AND entry_date < local_week_start + 7;
+
+        -- Award badge if weekly goal is met
+        IF weekly_days_count >= user_profile.journaling_goal_frequency THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Long entry achievement
+      WHEN badge_record.criteria->>'type' = 'long_entry' THEN
+        IF EXISTS(
+          SELECT 1 FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+          AND LENGTH(content) >= (badge_record.criteria->>'min_length')::integer
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Mood diversity achievement
+      WHEN badge_record.criteria->>'type' = 'mood_diversity' THEN
+        IF (
+          SELECT COUNT(DISTINCT mood)
+          FROM public.journal_entries
+          WHERE user_id = target_user_id
+          AND deleted_at IS NULL
+        ) >= (badge_record.criteria->>'target')::integer THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      -- Subscription badges
+      WHEN badge_record.criteria->>'type' = 'subscription' THEN
+        IF subscription_status = 'premium' AND (
+          (badge_record.criteria->>'tier')::text = subscription_tier OR
+          (badge_record.criteria->>'tier')::text = 'premium' AND subscription_tier IN ('premium', 'premium_plus')
+        ) THEN
+          INSERT INTO public.user_badges (user_id, badge_id) VALUES (target_user_id, badge_record.id);
+        END IF;
+
+      ELSE
+        -- Skip other complex criteria for now
+        CONTINUE;
+    END CASE;
+  END LOOP;
+
+  -- Update total badges count
+  UPDATE public.profiles
+  SET total_badges_earned = (
+    SELECT COUNT(*) FROM public.user_badges WHERE user_id = target_user_id
+  )
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Update get_mood_trends to group by entry date over the user's last `days_back` local days
+CREATE OR REPLACE FUNCTION public.get_mood_trends(user_uuid uuid, days_back integer DEFAULT 30)
+RETURNS TABLE (
+  date_created date,
+  mood_level text,
+  entry_count bigint,
+  avg_mood_numeric numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  local_today date := (now() AT TIME ZONE public.user_timezone(user_uuid))::date;
+BEGIN
+  RETURN QUERY
+  SELECT
+    je.entry_date as date_created,
+    je.mood as mood_level,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM public.journal_entries je
+  WHERE je.user_id = user_uuid
+    AND je.deleted_at IS NULL
+    AND je.entry_date >= local_today - days_back
+  GROUP BY je.entry_date, je.mood
+  ORDER BY je.entry_date DESC;
+END;
+$$;
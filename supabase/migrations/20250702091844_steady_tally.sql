@@ -0,0 +1,233 @@
+/*
+  # Recompute streaks on every entry change
+
+  1. Functions
+    - update_streak_on_entry no longer adds to the stored streak. It uses freezes for missed days,
+      then rebuilds the streaks with recompute_user_streaks, so a new entry gives the same result
+      as rebuilding from scratch.
+    - recompute_user_streaks also returns freezes for days after the latest entry, which are left
+      over when the entry they bridged to is deleted or moved to an earlier day
+    - `recompute_all_user_streaks` rebuilds every profile's streaks; it can only be run with the
+      service role
+
+  2. Triggers
+    - Permanently deleting an active entry recomputes streaks and re-checks badges (entries in the
+      trash no longer count, so purging them changes nothing)
+    - Trashing, restoring and re-dating an entry share one trigger
+
+  3. Security
+    - recompute_user_streaks and check_and_award_badges only run from the triggers above; signed-in
+      users can no longer call them for any user ID
+
+  4. Backfill
+    - Every existing profile's streaks are rebuilt once, fixing streaks left stale by deleted entries
+*/
+
+-- Function to rebuild a user's streaks from the dates of their active entries and the days freezes covered
+CREATE OR REPLACE FUNCTION public.recompute_user_streaks(target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  refunded_count integer;
+  latest_date date;
+  current_streak_val integer := 0;
+  best_streak_val integer := 0;
+BEGIN
+  SELECT MAX(entry_date) INTO latest_date
+  FROM public.journal_entries
+  WHERE user_id = target_user_id
+    AND deleted_at IS NULL;
+
+  -- A frozen day gives its freeze back once it has an entry (synced late or backdated), or once no
+  -- entry follows it any more
+  WITH refunded AS (
+    DELETE FROM public.streak_freeze_days f
+    WHERE f.user_id = target_user_id
+      AND (
+        latest_date IS NULL
+        OR f.freeze_date > latest_date
+        OR EXISTS (
+          SELECT 1 FROM public.journal_entries je
+          WHERE je.user_id = target_user_id
+            AND je.deleted_at IS NULL
+            AND je.entry_date = f.freeze_date
+        )
+      )
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer INTO refunded_count FROM refunded;
+
+  IF refunded_count > 0 THEN
+    UPDATE public.profiles
+    SET streak_freezes_available = streak_freezes_available + refunded_count
+    WHERE user_id = target_user_id;
+  END IF;
+
+  -- Consecutive covered days share the same (date - row number) group; only journaled days count
+  WITH entry_days AS (
+    SELECT DISTINCT entry_date AS covered_date, true AS journaled
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+  ),
+  covered_days AS (
+    SELECT covered_date, journaled FROM entry_days
+    UNION ALL
+    SELECT freeze_date, false FROM public.streak_freeze_days WHERE user_id = target_user_id
+  ),
+  streak_groups AS (
+    SELECT
+      covered_date,
+      journaled,
+      covered_date - (ROW_NUMBER() OVER (ORDER BY covered_date))::integer AS group_key
+    FROM covered_days
+  ),
+  streaks AS (
+    SELECT
+      MAX(covered_date) FILTER (WHERE journaled) AS streak_end,
+      COUNT(*) FILTER (WHERE journaled)::integer AS streak_length
+    FROM streak_groups
+    GROUP BY group_key
+    HAVING COUNT(*) FILTER (WHERE journaled) > 0
+  )
+  SELECT
+    COALESCE((SELECT streak_length FROM streaks ORDER BY streak_end DESC LIMIT 1), 0),
+    COALESCE((SELECT MAX(streak_length) FROM streaks), 0)
+  INTO current_streak_val, best_streak_val;
+
+  UPDATE public.profiles
+  SET
+    current_streak = current_streak_val,
+    best_streak = best_streak_val,
+    last_entry_date = latest_date
+  WHERE user_id = target_user_id;
+END;
+$$;
+
+-- Use freezes for the days missed before a new entry, rebuild the streaks and earn a freeze every 7th day
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date := NEW.entry_date;
+  last_date date;
+  missed_days integer;
+  previous_streak integer;
+  new_streak integer;
+  freezes_val integer;
+  is_premium boolean;
+BEGIN
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, streak_freezes_available, subscription_status = 'premium'
+  INTO last_date, previous_streak, freezes_val, is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Enough freezes to cover the gap since the last entry: use one per missed day to keep the streak going
+  IF last_date IS NOT NULL AND entry_date > last_date + 1 AND previous_streak > 0 THEN
+    missed_days := entry_date - last_date - 1;
+
+    IF missed_days <= freezes_val THEN
+      INSERT INTO public.streak_freeze_days (user_id, freeze_date)
+      SELECT NEW.user_id, gs::date
+      FROM generate_series(last_date + 1, entry_date - 1, INTERVAL '1 day') AS gs
+      ON CONFLICT DO NOTHING;
+
+      UPDATE profiles
+      SET streak_freezes_available = streak_freezes_available - missed_days
+      WHERE user_id = NEW.user_id;
+    END IF;
+  END IF;
+
+  PERFORM public.recompute_user_streaks(NEW.user_id);
+
+  -- Reaching another multiple of 7 days earns freezes, up to the plan's limit
+  SELECT current_streak INTO new_streak FROM profiles WHERE user_id = NEW.user_id;
+
+  IF new_streak / 7 > previous_streak / 7 THEN
+    UPDATE profiles
+    SET streak_freezes_available = GREATEST(
+      streak_freezes_available,
+      LEAST(streak_freezes_available + CASE WHEN is_premium THEN 2 ELSE 1 END, CASE WHEN is_premium THEN 5 ELSE 2 END)
+    )
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger function to keep streaks and badges in sync when an entry is trashed, restored, re-dated or deleted
+CREATE OR REPLACE FUNCTION public.handle_journal_entry_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_user_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE NEW.user_id END;
+BEGIN
+  PERFORM public.recompute_user_streaks(target_user_id);
+  PERFORM public.check_and_award_badges(target_user_id);
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS handle_journal_entry_trash_trigger ON public.journal_entries;
+DROP TRIGGER IF EXISTS handle_journal_entry_date_change_trigger ON public.journal_entries;
+DROP FUNCTION IF EXISTS public.handle_journal_entry_trash();
+DROP FUNCTION IF EXISTS public.handle_journal_entry_date_change();
+
+DROP TRIGGER IF EXISTS handle_journal_entry_update_trigger ON public.journal_entries;
+CREATE TRIGGER handle_journal_entry_update_trigger
+  AFTER UPDATE OF deleted_at, entry_date ON public.journal_entries
+  FOR EACH ROW
+  WHEN (
+    OLD.deleted_at IS DISTINCT FROM NEW.deleted_at
+    OR (OLD.entry_date IS DISTINCT FROM NEW.entry_date AND NEW.deleted_at IS NULL)
+  )
+  EXECUTE FUNCTION public.handle_journal_entry_change();
+
+DROP TRIGGER IF EXISTS handle_journal_entry_delete_trigger ON public.journal_entries;
+CREATE TRIGGER handle_journal_entry_delete_trigger
+  AFTER DELETE ON public.journal_entries
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL)
+  EXECUTE FUNCTION public.handle_journal_entry_change();
+
+-- Rebuild every profile's streaks, e.g. after fixing how they're counted. Returns the number of profiles.
+CREATE OR REPLACE FUNCTION public.recompute_all_user_streaks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  profile_record RECORD;
+  profile_count integer := 0;
+BEGIN
+  FOR profile_record IN SELECT user_id FROM profiles ORDER BY user_id LOOP
+    PERFORM recompute_user_streaks(profile_record.user_id);
+    profile_count := profile_count + 1;
+  END LOOP;
+
+  RETURN profile_count;
+END;
+$$;
+
+-- Rebuild streaks left stale by entries deleted before this migration
+SELECT public.recompute_all_user_streaks();
+
+-- Streaks are only rebuilt by the triggers above, and for every profile with the service role
+REVOKE EXECUTE ON FUNCTION public.recompute_user_streaks(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_and_award_badges(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recompute_all_user_streaks() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recompute_all_user_streaks() TO service_role;
@@ -0,0 +1,122 @@
+/*
+  # Weekly goal tracking
+
+  1. Functions
+    - `get_weekly_goal_stats(target_user_id, weeks_back)`: one row per local week (Monday to Sunday),
+      newest first, with the number of days journaled and whether `journaling_goal_frequency` was met.
+      Weeks before the user's first week in Zensai are left out.
+    - `get_goal_streaks(target_user_id)`: the current and best number of consecutive weeks the goal
+      was met. The week in progress extends the current run once its goal is met, but doesn't
+      break it before then.
+
+  2. Notes
+    - Past weeks are measured against the current goal, since earlier goals aren't stored
+    - Both functions run with the caller's permissions, so users only see their own stats
+*/
+
+-- Create function to get per-week goal progress for the last `weeks_back` local weeks
+CREATE OR REPLACE FUNCTION public.get_weekly_goal_stats(target_user_id uuid, weeks_back integer DEFAULT 12)
+RETURNS TABLE (
+  week_start date,
+  days_journaled integer,
+  goal integer,
+  goal_met boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH settings AS (
+    SELECT
+      p.journaling_goal_frequency AS goal,
+      DATE_TRUNC('week', now() AT TIME ZONE public.user_timezone(p.user_id))::date AS current_week_start,
+      -- Backdated entries can be older than the account
+      LEAST(
+        DATE_TRUNC('week', p.created_at AT TIME ZONE public.user_timezone(p.user_id))::date,
+        COALESCE((
+          SELECT DATE_TRUNC('week', MIN(je.entry_date))::date
+          FROM public.journal_entries je
+          WHERE je.user_id = p.user_id
+            AND je.deleted_at IS NULL
+        ), 'infinity'::date)
+      ) AS first_week_start
+    FROM public.profiles p
+    WHERE p.user_id = target_user_id
+  ),
+  weeks AS (
+    SELECT (s.current_week_start - 7 * n)::date AS week_start
+    FROM settings s
+    CROSS JOIN generate_series(0, LEAST(GREATEST(weeks_back, 1), 104) - 1) AS n
+    WHERE s.current_week_start - 7 * n >= s.first_week_start
+  ),
+  week_days AS (
+    SELECT
+      DATE_TRUNC('week', je.entry_date)::date AS week_start,
+      COUNT(DISTINCT je.entry_date)::integer AS days_journaled
+    FROM public.journal_entries je
+    WHERE je.user_id = target_user_id
+      AND je.deleted_at IS NULL
+      AND je.entry_date >= (SELECT MIN(w.week_start) FROM weeks w)
+    GROUP BY 1
+  )
+  SELECT
+    w.week_start,
+    COALESCE(d.days_journaled, 0),
+    s.goal,
+    COALESCE(d.days_journaled, 0) >= s.goal
+  FROM weeks w
+  CROSS JOIN settings s
+  LEFT JOIN week_days d ON d.week_start = w.week_start
+  ORDER BY w.week_start DESC;
+$$;
+
+-- Create function to get the current and best run of consecutive weeks with the goal met
+CREATE OR REPLACE FUNCTION public.get_goal_streaks(target_user_id uuid)
+RETURNS TABLE (
+  current_goal_streak integer,
+  best_goal_streak integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH settings AS (
+    SELECT
+      p.journaling_goal_frequency AS goal,
+      DATE_TRUNC('week', now() AT TIME ZONE public.user_timezone(p.user_id))::date AS current_week_start
+    FROM public.profiles p
+    WHERE p.user_id = target_user_id
+  ),
+  met_weeks AS (
+    SELECT DATE_TRUNC('week', je.entry_date)::date AS week_start
+    FROM public.journal_entries je
+    WHERE je.user_id = target_user_id
+      AND je.deleted_at IS NULL
+    GROUP BY 1
+    HAVING COUNT(DISTINCT je.entry_date) >= (SELECT s.goal FROM settings s)
+  ),
+  -- Consecutive weeks share the same (week start - 7 * row number) group
+  runs AS (
+    SELECT
+      MAX(week_start) AS last_week_start,
+      COUNT(*)::integer AS run_length
+    FROM (
+      SELECT week_start, week_start - 7 * (ROW_NUMBER() OVER (ORDER BY week_start))::integer AS group_key
+      FROM met_weeks
+    ) grouped
+    GROUP BY group_key
+  )
+  SELECT
+    COALESCE((
+      SELECT r.run_length
+      FROM runs r, settings s
+      WHERE r.last_week_start >= s.current_week_start - 7
+      ORDER BY r.last_week_start DESC
+      LIMIT 1
+    ), 0),
+    COALESCE((SELECT MAX(r.run_length) FROM runs r), 0);
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.get_weekly_goal_stats(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_streaks(uuid) TO authenticated;
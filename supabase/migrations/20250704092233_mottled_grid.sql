@@ -0,0 +1,49 @@
+/*
+  # Daily mood summary for the mood calendar
+
+  1. Functions
+    - `get_daily_moods(target_user_id, start_date, end_date)`: one row per day with entries between the
+      two dates (inclusive), with the number of entries and their average mood (1 = struggling to
+      5 = amazing). Days are entry dates, so backdated entries count on the day they're about.
+
+  2. Security
+    - Runs with the caller's permissions, so users only see their own days
+*/
+
+-- Create function to summarize moods per day for the calendar and heatmap
+CREATE OR REPLACE FUNCTION public.get_daily_moods(
+  target_user_id uuid,
+  start_date date,
+  end_date date
+)
+RETURNS TABLE (
+  day date,
+  entry_count integer,
+  avg_mood numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    je.entry_date,
+    COUNT(*)::integer,
+    ROUND(AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ), 2)
+  FROM public.journal_entries je
+  WHERE je.user_id = target_user_id
+    AND je.deleted_at IS NULL
+    AND je.entry_date BETWEEN start_date AND end_date
+  GROUP BY je.entry_date
+  ORDER BY je.entry_date;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.get_daily_moods(uuid, date, date) TO authenticated;
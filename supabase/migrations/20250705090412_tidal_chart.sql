@@ -0,0 +1,58 @@
+/*
+  # Restrict mood trends to the signed-in user
+
+  1. Functions
+    - `get_mood_trends(user_uuid, days_back)` now powers the premium mood trends dashboard. It runs with
+      elevated permissions to read the user's time zone, so it now refuses to return another user's
+      entries.
+
+  2. Security
+    - Callers other than `user_uuid` get a 'Not authorized' error
+*/
+
+-- Update get_mood_trends to only return the caller's own trends
+CREATE OR REPLACE FUNCTION public.get_mood_trends(user_uuid uuid, days_back integer DEFAULT 30)
+RETURNS TABLE (
+  date_created date,
+  mood_level text,
+  entry_count bigint,
+  avg_mood_numeric numeric
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_today date;
+BEGIN
+  IF user_uuid IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  local_today := (now() AT TIME ZONE public.user_timezone(user_uuid))::date;
+
+  RETURN QUERY
+  SELECT
+    je.entry_date as date_created,
+    je.mood as mood_level,
+    COUNT(*) as entry_count,
+    AVG(
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END
+    ) as avg_mood_numeric
+  FROM public.journal_entries je
+  WHERE je.user_id = user_uuid
+    AND je.deleted_at IS NULL
+    AND je.entry_date >= local_today - days_back
+  GROUP BY je.entry_date, je.mood
+  ORDER BY je.entry_date DESC;
+END;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.get_mood_trends(uuid, integer) TO authenticated;
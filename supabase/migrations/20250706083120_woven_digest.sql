@@ -0,0 +1,105 @@
+/*
+  # Weekly and monthly reflection summaries
+
+  1. New Tables
+    - `period_summaries`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.user_id)
+      - `period_type` (text, 'week' or 'month')
+      - `period_start`, `period_end` (date, the entry dates the summary covers; weeks start on Monday)
+      - `summary` (text, Zeno's reflection on the period)
+      - `themes`, `wins`, `stressors` (text[], short phrases)
+      - `mood_arc` (text, how the mood moved through the period)
+      - `entry_count` (integer, entries the summary was written from)
+      - `generated_by` (text, 'ai' or 'fallback')
+      - `is_encrypted`, `encrypted_content` (the summary fields as end-to-end encrypted JSON)
+      - `created_at`, `updated_at` (timestamps)
+    - One summary per user and period; regenerating replaces it
+
+  2. Security
+    - Enable RLS on `period_summaries`; users can only manage their own summaries
+    - Summaries of end-to-end encrypted journals are encrypted in the browser and keep no plaintext
+*/
+
+-- Create period_summaries table
+CREATE TABLE IF NOT EXISTS public.period_summaries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  period_type text NOT NULL CHECK (period_type IN ('week', 'month')),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  summary text DEFAULT '' NOT NULL,
+  themes text[] DEFAULT '{}' NOT NULL,
+  mood_arc text,
+  wins text[] DEFAULT '{}' NOT NULL,
+  stressors text[] DEFAULT '{}' NOT NULL,
+  entry_count integer DEFAULT 0 NOT NULL,
+  generated_by text DEFAULT 'ai' NOT NULL CHECK (generated_by IN ('ai', 'fallback')),
+  is_encrypted boolean DEFAULT false NOT NULL,
+  encrypted_content text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, period_type, period_start),
+  CHECK (period_end >= period_start),
+  CHECK (NOT is_encrypted OR encrypted_content IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS period_summaries_user_id_period_start_idx
+  ON public.period_summaries (user_id, period_start DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.period_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for period_summaries table
+CREATE POLICY "Users can view own period summaries"
+  ON public.period_summaries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own period summaries"
+  ON public.period_summaries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own period summaries"
+  ON public.period_summaries
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own period summaries"
+  ON public.period_summaries
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_period_summaries_updated_at
+  BEFORE UPDATE ON public.period_summaries
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Encrypted summaries never keep plaintext, and plaintext ones no stale ciphertext
+CREATE OR REPLACE FUNCTION public.validate_period_summary()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.is_encrypted THEN
+    NEW.summary = '';
+    NEW.themes = '{}';
+    NEW.mood_arc = NULL;
+    NEW.wins = '{}';
+    NEW.stressors = '{}';
+  ELSE
+    NEW.encrypted_content = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_period_summary_trigger
+  BEFORE INSERT OR UPDATE ON public.period_summaries
+  FOR EACH ROW EXECUTE FUNCTION public.validate_period_summary();
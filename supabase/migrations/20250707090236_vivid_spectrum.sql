@@ -0,0 +1,96 @@
+/*
+  # Emotion analysis per journal entry
+
+  1. New Tables
+    - `entry_emotions`
+      - `entry_id` (uuid, primary key, references journal_entries.id)
+      - `user_id` (uuid, references profiles.user_id)
+      - `emotions` (jsonb, array of { "name": text, "intensity": 0-1 }, strongest first)
+      - `valence` (numeric, -1 = very unpleasant to 1 = very pleasant)
+      - `arousal` (numeric, 0 = very calm to 1 = very energized)
+      - `confidence` (numeric, 0-1, how sure the analysis is)
+      - `analysis` (text, one sentence from Zeno about the entry's emotions)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Functions
+    - Editing an entry's text deletes its analysis, which no longer describes it
+
+  3. Security
+    - Enable RLS on `entry_emotions`; users can only manage the analyses of their own entries
+    - Entries of end-to-end encrypted journals are only analyzed with per-entry consent
+*/
+
+-- Create entry_emotions table
+CREATE TABLE IF NOT EXISTS public.entry_emotions (
+  entry_id uuid PRIMARY KEY REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  emotions jsonb DEFAULT '[]'::jsonb NOT NULL CHECK (jsonb_typeof(emotions) = 'array'),
+  valence numeric(3, 2) NOT NULL CHECK (valence BETWEEN -1 AND 1),
+  arousal numeric(3, 2) NOT NULL CHECK (arousal BETWEEN 0 AND 1),
+  confidence numeric(3, 2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  analysis text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS entry_emotions_user_id_idx ON public.entry_emotions (user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.entry_emotions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for entry_emotions table
+CREATE POLICY "Users can view own entry emotions"
+  ON public.entry_emotions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own entry emotions"
+  ON public.entry_emotions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.journal_entries je
+      WHERE je.id = entry_id AND je.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own entry emotions"
+  ON public.entry_emotions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own entry emotions"
+  ON public.entry_emotions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_entry_emotions_updated_at
+  BEFORE UPDATE ON public.entry_emotions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create function to drop the analysis of an entry whose text changed
+CREATE OR REPLACE FUNCTION public.clear_stale_entry_emotions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.encrypted_content IS DISTINCT FROM OLD.encrypted_content THEN
+    DELETE FROM public.entry_emotions WHERE entry_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER clear_stale_entry_emotions_trigger
+  AFTER UPDATE OF content, encrypted_content ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.clear_stale_entry_emotions();
@@ -0,0 +1,159 @@
+/*
+  # Topics, people and places per journal entry
+
+  1. New Tables
+    - `entry_topics`
+      - `entry_id` (uuid, primary key, references journal_entries.id)
+      - `user_id` (uuid, references profiles.user_id)
+      - `topics` (text[], from a fixed list such as 'work', 'family', 'sleep', 'exercise')
+      - `people` (text[], names or roles of people the entry mentions)
+      - `places` (text[], places the entry mentions)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Functions
+    - `get_mood_by_topic(target_user_id, start_date, end_date)`: for each topic, the number of days
+      whose entries mention it and the average mood of those days, next to the average mood of all
+      days in the range (1 = struggling to 5 = amazing)
+    - `clear_stale_entry_analyses()` replaces `clear_stale_entry_emotions()`: editing an entry's text
+      now deletes its topics along with its emotions
+
+  3. Security
+    - Enable RLS on `entry_topics`; users can only manage the topics of their own entries
+    - Entries of end-to-end encrypted journals only get topics, never people or places, and only with
+      per-entry consent
+*/
+
+-- Create entry_topics table
+CREATE TABLE IF NOT EXISTS public.entry_topics (
+  entry_id uuid PRIMARY KEY REFERENCES public.journal_entries(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  topics text[] DEFAULT '{}' NOT NULL,
+  people text[] DEFAULT '{}' NOT NULL,
+  places text[] DEFAULT '{}' NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS entry_topics_user_id_idx ON public.entry_topics (user_id);
+CREATE INDEX IF NOT EXISTS entry_topics_topics_idx ON public.entry_topics USING gin (topics);
+
+-- Enable Row Level Security
+ALTER TABLE public.entry_topics ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for entry_topics table
+CREATE POLICY "Users can view own entry topics"
+  ON public.entry_topics
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own entry topics"
+  ON public.entry_topics
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.journal_entries je
+      WHERE je.id = entry_id AND je.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own entry topics"
+  ON public.entry_topics
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own entry topics"
+  ON public.entry_topics
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER handle_entry_topics_updated_at
+  BEFORE UPDATE ON public.entry_topics
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Replace the emotions-only cleanup with one covering every analysis of an entry's text
+DROP TRIGGER IF EXISTS clear_stale_entry_emotions_trigger ON public.journal_entries;
+DROP FUNCTION IF EXISTS public.clear_stale_entry_emotions();
+
+CREATE OR REPLACE FUNCTION public.clear_stale_entry_analyses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.encrypted_content IS DISTINCT FROM OLD.encrypted_content THEN
+    DELETE FROM public.entry_emotions WHERE entry_id = NEW.id;
+    DELETE FROM public.entry_topics WHERE entry_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER clear_stale_entry_analyses_trigger
+  AFTER UPDATE OF content, encrypted_content ON public.journal_entries
+  FOR EACH ROW EXECUTE FUNCTION public.clear_stale_entry_analyses();
+
+-- Create function to compare the mood of days mentioning each topic
+CREATE OR REPLACE FUNCTION public.get_mood_by_topic(
+  target_user_id uuid,
+  start_date date,
+  end_date date
+)
+RETURNS TABLE (
+  topic text,
+  day_count integer,
+  avg_mood numeric,
+  overall_avg_mood numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH entries AS (
+    SELECT
+      je.id,
+      je.entry_date,
+      CASE je.mood
+        WHEN 'struggling' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'neutral' THEN 3
+        WHEN 'good' THEN 4
+        WHEN 'amazing' THEN 5
+      END AS mood_value
+    FROM public.journal_entries je
+    WHERE je.user_id = target_user_id
+      AND je.deleted_at IS NULL
+      AND je.entry_date BETWEEN start_date AND end_date
+  ),
+  day_moods AS (
+    SELECT entry_date, AVG(mood_value) AS day_mood
+    FROM entries
+    GROUP BY entry_date
+  ),
+  topic_days AS (
+    SELECT DISTINCT t.topic, e.entry_date
+    FROM entries e
+    JOIN public.entry_topics et ON et.entry_id = e.id
+    CROSS JOIN LATERAL unnest(et.topics) AS t(topic)
+  )
+  SELECT
+    td.topic,
+    COUNT(*)::integer,
+    ROUND(AVG(dm.day_mood), 2),
+    (SELECT ROUND(AVG(day_mood), 2) FROM day_moods)
+  FROM topic_days td
+  JOIN day_moods dm ON dm.entry_date = td.entry_date
+  GROUP BY td.topic
+  ORDER BY COUNT(*) DESC, td.topic;
+$$;
+
+-- Grant execute permissions
+GRANT EXECUTE ON FUNCTION public.get_mood_by_topic(uuid, date, date) TO authenticated;
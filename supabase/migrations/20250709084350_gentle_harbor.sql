@@ -0,0 +1,81 @@
+/*
+  # Safety check preferences and opt-in safety history
+
+  1. Changes
+    - `profiles.safety_check_enabled` (boolean, default true): whether entries are checked for crisis
+      language when they're saved, to offer support resources
+    - `profiles.safety_region` (text, nullable): which region's helplines to show; null follows the
+      browser's language
+    - `profiles.safety_history_opt_in` (boolean, default false): whether the result of the check is kept
+
+  2. New Tables
+    - `safety_events`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles.user_id)
+      - `entry_id` (uuid, nullable, references journal_entries.id)
+      - `level` (text, 'concern' or 'urgent')
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `safety_events`; users can only view, add and delete their own
+    - The check itself keeps nothing: a row is only written when the user has opted in, and rows are
+      never updated
+*/
+
+-- Add safety check preferences to profiles
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS safety_check_enabled boolean DEFAULT true NOT NULL;
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS safety_region text
+  CHECK (safety_region IS NULL OR safety_region ~ '^[a-z]{2,13}$');
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS safety_history_opt_in boolean DEFAULT false NOT NULL;
+
+-- Create safety_events table
+CREATE TABLE IF NOT EXISTS public.safety_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  entry_id uuid REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+  level text NOT NULL CHECK (level IN ('concern', 'urgent')),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS safety_events_user_id_created_at_idx
+  ON public.safety_events (user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.safety_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for safety_events table
+CREATE POLICY "Users can view own safety events"
+  ON public.safety_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own safety events"
+  ON public.safety_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.user_id = auth.uid() AND p.safety_history_opt_in
+    )
+    AND (
+      entry_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.id = entry_id AND je.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own safety events"
+  ON public.safety_events
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
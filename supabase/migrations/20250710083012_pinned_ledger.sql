@@ -0,0 +1,9 @@
+/*
+  # Pin the search path of the revision trigger
+
+  1. Security
+    - `record_journal_entry_revision()` runs as SECURITY DEFINER, so it gets a fixed
+      `search_path` and can't be pointed at objects in another schema
+*/
+
+ALTER FUNCTION public.record_journal_entry_revision() SET search_path = public;
@@ -0,0 +1,22 @@
+/*
+  # Keep photo attachments on the owner's entries
+
+  1. Security
+    - Replace the `entry_attachments` update policy: like inserts, an update can only leave the
+      attachment on an entry the user owns, so `entry_id` can't be pointed at someone else's entry
+*/
+
+DROP POLICY IF EXISTS "Users can update own attachments" ON public.entry_attachments;
+
+CREATE POLICY "Users can update own attachments"
+  ON public.entry_attachments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.journal_entries
+      WHERE journal_entries.id = entry_id AND journal_entries.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,64 @@
+/*
+  # Don't keep plaintext history when an entry is encrypted
+
+  1. Functions
+    - `record_journal_entry_revision()` no longer snapshots an entry when it goes from plaintext to
+      encrypted. That edit is the entry being encrypted, and keeping its old version would leave the
+      plaintext behind in `journal_entry_revisions`.
+    - Earlier plaintext versions can be deleted from the encryption settings; the existing
+      "Users can delete own entry revisions" policy covers that
+*/
+
+CREATE OR REPLACE FUNCTION public.record_journal_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Encrypting a plaintext entry must not copy its plaintext into the history
+  IF NOT OLD.is_encrypted AND NEW.is_encrypted THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only record edits that change what the user wrote
+  IF OLD.content IS DISTINCT FROM NEW.content
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.encrypted_content IS DISTINCT FROM NEW.encrypted_content
+    OR OLD.encrypted_title IS DISTINCT FROM NEW.encrypted_title
+    OR OLD.mood IS DISTINCT FROM NEW.mood
+    OR OLD.tags IS DISTINCT FROM NEW.tags
+    OR OLD.photo_url IS DISTINCT FROM NEW.photo_url THEN
+
+    INSERT INTO public.journal_entry_revisions (
+      entry_id,
+      user_id,
+      title,
+      content,
+      is_encrypted,
+      encrypted_content,
+      encrypted_title,
+      mood,
+      tags,
+      photo_url,
+      photo_filename,
+      revised_at
+    ) VALUES (
+      OLD.id,
+      OLD.user_id,
+      OLD.title,
+      OLD.content,
+      OLD.is_encrypted,
+      OLD.encrypted_content,
+      OLD.encrypted_title,
+      OLD.mood,
+      COALESCE(OLD.tags, '{}'::text[]),
+      OLD.photo_url,
+      OLD.photo_filename,
+      now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,39 @@
+/*
+  # Credit every purchased streak freeze
+
+  1. Functions
+    - `record_streak_freeze_purchase()` adds the whole pack. It used to cap the inventory at 10, so a
+      purchase that completed after the inventory had grown (for example two checkouts opened at
+      once) charged for freezes it didn't add. The limit is now only checked before charging, in
+      create-checkout-session.
+*/
+
+CREATE OR REPLACE FUNCTION public.record_streak_freeze_purchase(
+  target_user_id uuid,
+  session_id text,
+  pack_quantity integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  inserted_id uuid;
+BEGIN
+  INSERT INTO streak_freeze_purchases (user_id, stripe_session_id, quantity)
+  VALUES (target_user_id, session_id, pack_quantity)
+  ON CONFLICT (stripe_session_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE profiles
+  SET streak_freezes_available = streak_freezes_available + pack_quantity
+  WHERE user_id = target_user_id;
+
+  RETURN true;
+END;
+$$;
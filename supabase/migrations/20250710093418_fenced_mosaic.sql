@@ -0,0 +1,32 @@
+/*
+  # Keep attachment paths inside the owner's folder
+
+  1. Functions
+    - `validate_entry_attachment_paths()` rejects a `storage_path` outside the owner's
+      `{user_id}/` folder in the `journal-photos` bucket, the same rule `validate_journal_entry`
+      applies to `photo_url`
+
+  2. Security
+    - export-journal-data signs these paths and purge-deleted-entries deletes them with the
+      service role, so a row must not be able to point at another user's photo
+*/
+
+CREATE OR REPLACE FUNCTION public.validate_entry_attachment_paths()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.storage_path NOT LIKE NEW.user_id::text || '/%' OR NEW.storage_path LIKE '%..%' THEN
+    RAISE EXCEPTION 'Invalid photo path';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_entry_attachment_paths ON public.entry_attachments;
+CREATE TRIGGER validate_entry_attachment_paths
+  BEFORE INSERT OR UPDATE ON public.entry_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_entry_attachment_paths();
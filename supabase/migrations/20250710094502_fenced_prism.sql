@@ -0,0 +1,26 @@
+/*
+  # Keep thumbnail paths inside the owner's folder
+
+  1. Functions
+    - `validate_entry_attachment_paths()` applies the same owner-folder check to `thumbnail_path`
+      when it is set; purge-deleted-entries deletes thumbnails with the service role too
+*/
+
+CREATE OR REPLACE FUNCTION public.validate_entry_attachment_paths()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.storage_path NOT LIKE NEW.user_id::text || '/%' OR NEW.storage_path LIKE '%..%' THEN
+    RAISE EXCEPTION 'Invalid photo path';
+  END IF;
+
+  IF NEW.thumbnail_path IS NOT NULL
+    AND (NEW.thumbnail_path NOT LIKE NEW.user_id::text || '/%' OR NEW.thumbnail_path LIKE '%..%') THEN
+    RAISE EXCEPTION 'Invalid thumbnail path';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
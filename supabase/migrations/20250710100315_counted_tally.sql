@@ -0,0 +1,159 @@
+/*
+  # Earn each streak freeze milestone once
+
+  1. New Tables
+    - `streak_freeze_milestones`
+      - `user_id` (uuid, references profiles.user_id)
+      - `milestone` (integer, 1 for the 7th day of a streak, 2 for the 14th, ...)
+      - `reached_on` (date, the streak's latest entry date when the milestone paid out)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `current_streak_start` returns the first day of the user's current streak, frozen days included
+    - update_streak_on_entry only earns freezes for milestones the current streak hasn't paid out yet.
+      Streaks are rebuilt from scratch, so trashing the 7th day's entry and writing another one used to
+      cross the same milestone again and earn another freeze. A milestone counts as paid when it was
+      recorded on or after the current streak's first day (later days may have been trashed since);
+      a streak that starts after a break earns them again.
+
+  3. Security
+    - Enable RLS on `streak_freeze_milestones`; users can view their own rows
+
+  4. Backfill
+    - Milestones the current streaks have already reached are recorded as paid
+*/
+
+-- Create streak_freeze_milestones table
+CREATE TABLE IF NOT EXISTS public.streak_freeze_milestones (
+  user_id uuid NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  milestone integer NOT NULL CHECK (milestone > 0),
+  reached_on date NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, milestone, reached_on)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.streak_freeze_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Create policies (rows are written by the streak functions only)
+CREATE POLICY "Users can view own streak freeze milestones"
+  ON public.streak_freeze_milestones
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- First day of the streak that ends on the user's latest entry, counting the days freezes covered
+CREATE OR REPLACE FUNCTION public.current_streak_start(target_user_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH covered_days AS (
+    SELECT DISTINCT entry_date AS covered_date
+    FROM public.journal_entries
+    WHERE user_id = target_user_id
+      AND deleted_at IS NULL
+    UNION
+    SELECT freeze_date FROM public.streak_freeze_days WHERE user_id = target_user_id
+  ),
+  streak_groups AS (
+    SELECT
+      covered_date,
+      covered_date - (ROW_NUMBER() OVER (ORDER BY covered_date))::integer AS group_key
+    FROM covered_days
+  )
+  SELECT MIN(covered_date)
+  FROM streak_groups
+  WHERE group_key = (SELECT group_key FROM streak_groups ORDER BY covered_date DESC LIMIT 1);
+$$;
+
+-- Use freezes for the days missed before a new entry, rebuild the streaks and earn a freeze every 7th day
+CREATE OR REPLACE FUNCTION public.update_streak_on_entry()
+RETURNS trigger AS $$
+DECLARE
+  entry_date date := NEW.entry_date;
+  last_date date;
+  missed_days integer;
+  previous_streak integer;
+  new_streak integer;
+  streak_start date;
+  streak_end date;
+  new_milestones integer;
+  freezes_val integer;
+  is_premium boolean;
+BEGIN
+  -- Get current profile data
+  SELECT last_entry_date, current_streak, streak_freezes_available, subscription_status = 'premium'
+  INTO last_date, previous_streak, freezes_val, is_premium
+  FROM profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Enough freezes to cover the gap since the last entry: use one per missed day to keep the streak going
+  IF last_date IS NOT NULL AND entry_date > last_date + 1 AND previous_streak > 0 THEN
+    missed_days := entry_date - last_date - 1;
+
+    IF missed_days <= freezes_val THEN
+      INSERT INTO public.streak_freeze_days (user_id, freeze_date)
+      SELECT NEW.user_id, gs::date
+      FROM generate_series(last_date + 1, entry_date - 1, INTERVAL '1 day') AS gs
+      ON CONFLICT DO NOTHING;
+
+      UPDATE profiles
+      SET streak_freezes_available = streak_freezes_available - missed_days
+      WHERE user_id = NEW.user_id;
+    END IF;
+  END IF;
+
+  PERFORM public.recompute_user_streaks(NEW.user_id);
+
+  -- Reaching a multiple of 7 days the current streak hasn't been paid for earns freezes, up to the plan's limit
+  SELECT current_streak, last_entry_date INTO new_streak, streak_end FROM profiles WHERE user_id = NEW.user_id;
+
+  IF new_streak >= 7 THEN
+    streak_start := public.current_streak_start(NEW.user_id);
+
+    WITH recorded AS (
+      INSERT INTO public.streak_freeze_milestones (user_id, milestone, reached_on)
+      SELECT NEW.user_id, m, streak_end
+      FROM generate_series(1, new_streak / 7) AS m
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.streak_freeze_milestones sm
+        WHERE sm.user_id = NEW.user_id
+          AND sm.milestone = m
+          AND sm.reached_on >= streak_start
+      )
+      ON CONFLICT DO NOTHING
+      RETURNING 1
+    )
+    SELECT COUNT(*)::integer INTO new_milestones FROM recorded;
+
+    IF new_milestones > 0 THEN
+      UPDATE profiles
+      SET streak_freezes_available = GREATEST(
+        streak_freezes_available,
+        LEAST(streak_freezes_available + CASE WHEN is_premium THEN 2 ELSE 1 END, CASE WHEN is_premium THEN 5 ELSE 2 END)
+      )
+      WHERE user_id = NEW.user_id;
+    END IF;
+  END IF;
+
+  -- Check and award badges
+  PERFORM public.check_and_award_badges(NEW.user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Milestones current streaks have already reached were paid out before this migration
+INSERT INTO public.streak_freeze_milestones (user_id, milestone, reached_on)
+SELECT p.user_id, m, p.last_entry_date
+FROM public.profiles p
+CROSS JOIN LATERAL generate_series(1, p.current_streak / 7) AS m
+WHERE p.current_streak >= 7
+  AND p.last_entry_date IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Only the streak trigger needs it
+REVOKE EXECUTE ON FUNCTION public.current_streak_start(uuid) FROM PUBLIC, anon, authenticated;
@@ -1,9 +1,67 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Installable app: the service worker precaches the app shell (including the bundled Lottie
+    // animations and fonts) and waits for the user to accept updates, see UpdatePrompt
+    VitePWA({
+      registerType: 'prompt',
+      includeAssets: ['Zensai Logo copy.png', 'icons/apple-touch-icon.png'],
+      manifest: {
+        name: 'Zensai - Your Mental Wellness Companion',
+        short_name: 'Zensai',
+        description: 'A calm daily journal with Zeno the fox, mood insights and gentle affirmations.',
+        start_url: '/',
+        scope: '/',
+        display: 'standalone',
+        background_color: '#f3f6f8',
+        theme_color: '#f3f6f8',
+        icons: [
+          { src: '/icons/zeno-192.png', sizes: '192x192', type: 'image/png' },
+          { src: '/icons/zeno-512.png', sizes: '512x512', type: 'image/png' },
+          { src: '/icons/zeno-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+        ]
+      },
+      workbox: {
+        // Latin font files are precached; other scripts are fetched (and cached) when a page needs them
+        globPatterns: ['**/*.{js,css,html,png,svg}', '**/*-latin-*.woff2'],
+        // The main bundle includes the Lottie animations and 3D scenes
+        maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+        navigateFallback: '/index.html',
+        cleanupOutdatedCaches: true,
+        // Shows journaling reminders sent by the send-journal-reminders function
+        importScripts: ['push-handler.js'],
+        runtimeCaching: [
+          {
+            urlPattern: ({ request, sameOrigin }) => sameOrigin && request.destination === 'font',
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'zensai-fonts',
+              expiration: { maxEntries: 60, maxAgeSeconds: 60 * 60 * 24 * 365 }
+            }
+          },
+          {
+            // Streak freeze days and reminder times fall back to the last response when offline.
+            // Journal data isn't cached here: it's kept offline in IndexedDB (see lib/offlineStore).
+            // Cleared on sign-out, see AuthContext.
+            urlPattern: ({ url, request }) =>
+              request.method === 'GET' && /^\/rest\/v1\/(streak_freeze_days|reminder_schedules)$/.test(url.pathname),
+            handler: 'NetworkFirst',
+            options: {
+              cacheName: 'zensai-settings-reads',
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 20, maxAgeSeconds: 60 * 60 * 24 * 7 },
+              cacheableResponse: { statuses: [200] }
+            }
+          }
+        ]
+      }
+    })
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },